@@ -0,0 +1,12 @@
+-- 既存の ownerId = null 行（シングルユーザー時代のデータ）を "default" ユーザーに割り当てる
+UPDATE "DailyData" SET "ownerId" = 'default' WHERE "ownerId" IS NULL;
+
+-- AlterTable
+ALTER TABLE "DailyData" ALTER COLUMN "ownerId" SET NOT NULL,
+ALTER COLUMN "ownerId" SET DEFAULT 'default';
+
+-- DropIndex
+DROP INDEX "DailyData_date_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DailyData_ownerId_date_key" ON "DailyData"("ownerId", "date");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Integration" ADD COLUMN     "enabled" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "UserCredential" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "iv" TEXT NOT NULL,
+    "authTag" TEXT NOT NULL,
+    "ciphertext" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserCredential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserCredential_userId_idx" ON "UserCredential"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserCredential_userId_source_key" ON "UserCredential"("userId", "source");
+
+ALTER TABLE "UserCredential" ENABLE ROW LEVEL SECURITY;
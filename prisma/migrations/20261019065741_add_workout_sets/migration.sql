@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "Workout" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "date" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "startedAt" TEXT,
+    "durationSec" INTEGER,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExerciseSet" (
+    "id" TEXT NOT NULL,
+    "workoutId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "exerciseName" TEXT NOT NULL,
+    "setOrder" INTEGER NOT NULL,
+    "setType" TEXT NOT NULL DEFAULT 'normal',
+    "weightKg" DOUBLE PRECISION NOT NULL,
+    "reps" INTEGER NOT NULL,
+    "rpe" DOUBLE PRECISION,
+    "distanceMeters" DOUBLE PRECISION,
+    "seconds" INTEGER,
+    "notes" TEXT,
+
+    CONSTRAINT "ExerciseSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Workout_ownerId_date_idx" ON "Workout"("ownerId", "date");
+
+-- CreateIndex
+CREATE INDEX "ExerciseSet_workoutId_idx" ON "ExerciseSet"("workoutId");
+
+-- CreateIndex
+CREATE INDEX "ExerciseSet_exerciseName_idx" ON "ExerciseSet"("exerciseName");
+
+-- AddForeignKey
+ALTER TABLE "ExerciseSet" ADD CONSTRAINT "ExerciseSet_workoutId_fkey" FOREIGN KEY ("workoutId") REFERENCES "Workout"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Workout" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "ExerciseSet" ENABLE ROW LEVEL SECURITY;
+
+-- 既存データのバックフィルは SQL では行えない（元データは Drive / ローカルの Strong ファイル）。
+-- 適用後に `npx tsx scripts/backfill-workouts.ts` を実行して再パース・保存する。
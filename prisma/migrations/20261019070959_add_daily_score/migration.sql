@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "DailyScore" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "date" TEXT NOT NULL,
+    "total" INTEGER NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "goals" JSONB NOT NULL,
+    "profile" JSONB NOT NULL,
+    "weightKg" DOUBLE PRECISION NOT NULL,
+    "scoringVersion" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DailyScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DailyScore_ownerId_date_computedAt_idx" ON "DailyScore"("ownerId", "date", "computedAt");
+
+ALTER TABLE "DailyScore" ENABLE ROW LEVEL SECURITY;
+
+-- 既存の日はスナップショットが無く、/api/days は従来どおりその場で計算する。
+-- 過去分を現在の目標で確定させるなら POST /api/days/rescore を実行する。
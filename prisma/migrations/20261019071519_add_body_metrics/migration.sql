@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "BodyMetric" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "date" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "weightKg" DOUBLE PRECISION,
+    "bodyFatPct" DOUBLE PRECISION,
+    "waistCm" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BodyMetric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BodyMetric_ownerId_date_source_key" ON "BodyMetric"("ownerId", "date", "source");
+
+-- CreateIndex
+CREATE INDEX "BodyMetric_ownerId_date_idx" ON "BodyMetric"("ownerId", "date");
+
+ALTER TABLE "BodyMetric" ENABLE ROW LEVEL SECURITY;
+
+-- 既存の DailyData.weightKg（ヘルスケア同期由来）を取り込む
+INSERT INTO "BodyMetric" ("id", "ownerId", "date", "source", "weightKg", "updatedAt")
+SELECT gen_random_uuid()::text, "ownerId", "date", 'appleHealth', "weightKg", CURRENT_TIMESTAMP
+FROM "DailyData"
+WHERE "weightKg" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserConfig" ADD COLUMN     "micronutrientTargets" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DailyData" ADD COLUMN     "mealTimes" JSONB,
+ADD COLUMN     "sleepStartAt" TIMESTAMP(3);
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "Food" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "baseAmount" DOUBLE PRECISION NOT NULL,
+    "baseUnit" TEXT NOT NULL,
+    "cal" DOUBLE PRECISION NOT NULL,
+    "protein" DOUBLE PRECISION,
+    "fat" DOUBLE PRECISION,
+    "carb" DOUBLE PRECISION,
+    "servingAmount" DOUBLE PRECISION,
+    "source" TEXT NOT NULL,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Food_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FavoriteMeal" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "mealType" TEXT,
+    "items" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FavoriteMeal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Food_ownerId_name_key" ON "Food"("ownerId", "name");
+
+-- CreateIndex
+CREATE INDEX "Food_ownerId_useCount_idx" ON "Food"("ownerId", "useCount");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FavoriteMeal_ownerId_name_key" ON "FavoriteMeal"("ownerId", "name");
+
+ALTER TABLE "Food" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "FavoriteMeal" ENABLE ROW LEVEL SECURITY;
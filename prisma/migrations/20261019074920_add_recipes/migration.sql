@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "Recipe" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "servings" DOUBLE PRECISION NOT NULL,
+    "ingredients" JSONB NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Recipe_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Recipe_ownerId_name_key" ON "Recipe"("ownerId", "name");
+
+ALTER TABLE "Recipe" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "SyncJob" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "date" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "skipExistingPastDays" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "savedDays" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "durationMs" INTEGER,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncJob_status_runAfter_idx" ON "SyncJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "SyncJob_batchId_idx" ON "SyncJob"("batchId");
+
+-- CreateIndex
+CREATE INDEX "SyncJob_ownerId_createdAt_idx" ON "SyncJob"("ownerId", "createdAt");
+
+ALTER TABLE "SyncJob" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL DEFAULT 'default',
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "fromDate" TEXT NOT NULL,
+    "toDate" TEXT NOT NULL,
+    "batchId" TEXT,
+    "askenCount" INTEGER NOT NULL DEFAULT 0,
+    "strongCount" INTEGER NOT NULL DEFAULT 0,
+    "healthCount" INTEGER NOT NULL DEFAULT 0,
+    "dayCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncRun_batchId_key" ON "SyncRun"("batchId");
+
+-- CreateIndex
+CREATE INDEX "SyncRun_ownerId_startedAt_idx" ON "SyncRun"("ownerId", "startedAt");
+
+ALTER TABLE "SyncRun" ENABLE ROW LEVEL SECURITY;
+
+-- 最後の同期結果（SyncLog id=1）を履歴の1件目として残す（期間・所要時間は記録されていない）
+INSERT INTO "SyncRun" ("id", "ownerId", "trigger", "status", "fromDate", "toDate", "askenCount", "strongCount", "dayCount", "errors", "startedAt", "finishedAt")
+SELECT
+    'synclog-1',
+    COALESCE("ownerId", 'default'),
+    'cron',
+    CASE WHEN "errors" IS NULL OR "errors" = '[]' THEN 'succeeded' ELSE 'partial' END,
+    to_char("timestamp" AT TIME ZONE 'UTC' AT TIME ZONE 'Asia/Tokyo', 'YYYY-MM-DD'),
+    to_char("timestamp" AT TIME ZONE 'UTC' AT TIME ZONE 'Asia/Tokyo', 'YYYY-MM-DD'),
+    "asken_count",
+    "strong_count",
+    "day_count",
+    "errors"::jsonb,
+    "timestamp",
+    "timestamp"
+FROM "SyncLog"
+WHERE "id" = 1;
+
+-- DropTable
+DROP TABLE "SyncLog";
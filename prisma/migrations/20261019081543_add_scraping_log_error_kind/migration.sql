@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ScrapingLog" ADD COLUMN "errorKind" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ScrapingLog_errorKind_idx" ON "ScrapingLog"("errorKind");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ScrapingLog" ADD COLUMN "ownerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ScrapingLog_ownerId_idx" ON "ScrapingLog"("ownerId");
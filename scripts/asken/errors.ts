@@ -0,0 +1,35 @@
+import { errors } from 'playwright';
+
+/** スクレイピング失敗の種類（ScrapingLog.errorKind に保存する値） */
+export type AskenErrorKind = 'session_expired' | 'bot_blocked' | 'layout_changed' | 'timeout';
+
+/** あすけんスクレイピングの失敗。kind で原因を区別する */
+export abstract class AskenScrapeError extends Error {
+    abstract readonly kind: AskenErrorKind;
+}
+
+/** セッション（secrets/asken-state.json）が無い・切れていて、再ログインもできない */
+export class AskenSessionExpiredError extends AskenScrapeError {
+    readonly kind = 'session_expired';
+}
+
+/** あすけんの Bot 対策で拒否された（自動ログインの拒否、403 / 429 応答） */
+export class AskenBotBlockedError extends AskenScrapeError {
+    readonly kind = 'bot_blocked';
+}
+
+/** ページは開けたが、想定した要素が無い（サイト改修でセレクタが合わなくなった） */
+export class AskenLayoutChangedError extends AskenScrapeError {
+    readonly kind = 'layout_changed';
+}
+
+/** ページの読み込み・1日分の取得が時間内に終わらなかった */
+export class AskenTimeoutError extends AskenScrapeError {
+    readonly kind = 'timeout';
+}
+
+/** Playwright のタイムアウトを AskenTimeoutError にする（それ以外はそのまま返す） */
+export function toAskenScrapeError(e: unknown): unknown {
+    if (e instanceof errors.TimeoutError) return new AskenTimeoutError(e.message.split('\n')[0]);
+    return e;
+}
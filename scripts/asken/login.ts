@@ -6,9 +6,10 @@ import { chromium } from 'playwright';
 import fs from 'fs';
 import path from 'path';
 
-const PROJECT_ROOT = process.cwd();
-const SECRETS_DIR = path.join(PROJECT_ROOT, 'secrets');
-const STATE_FILE = path.join(SECRETS_DIR, 'asken-state.json');
+import { AskenBotBlockedError, AskenSessionExpiredError } from './errors';
+import { askenStateFile, SECRETS_DIR } from './paths';
+
+const STATE_FILE = askenStateFile();
 
 /** 朝5時までは前日として扱う（サーバーTZに依存せずJST基準で計算する） */
 function todayStr() {
@@ -30,7 +31,7 @@ function getCredentials(): { email: string; password: string } {
     const email = process.env.ASKEN_EMAIL;
     const password = process.env.ASKEN_PASSWORD;
     if (!email || !password) {
-        throw new Error(
+        throw new AskenSessionExpiredError(
             "ASKEN_EMAIL と ASKEN_PASSWORD が設定されていません。.env.local に追加してください。"
         );
     }
@@ -40,13 +41,21 @@ function getCredentials(): { email: string; password: string } {
 /**
  * Playwright で あすけんに自動ログインし、セッション状態を保存する
  * @param options.headless ヘッドレスモードで実行するか（デフォルト: true）
+ * @param options.credentials ログインに使う認証情報（省略時は環境変数）
+ * @param options.stateFile セッションの保存先（省略時は secrets/asken-state.json）
  * @returns 保存先のパス
  */
-export async function autoLogin(options?: { headless?: boolean }): Promise<string> {
-    const { email, password } = getCredentials();
+export async function autoLogin(options?: {
+    headless?: boolean;
+    credentials?: { email: string; password: string };
+    stateFile?: string;
+}): Promise<string> {
+    const { email, password } = options?.credentials ?? getCredentials();
     const headless = options?.headless ?? true;
+    const stateFile = options?.stateFile ?? STATE_FILE;
 
     if (!fs.existsSync(SECRETS_DIR)) fs.mkdirSync(SECRETS_DIR, { recursive: true });
+    fs.mkdirSync(path.dirname(stateFile), { recursive: true });
 
     const browser = await chromium.launch({
         headless,
@@ -96,12 +105,12 @@ export async function autoLogin(options?: { headless?: boolean }): Promise<strin
             // デバッグ用: ログイン失敗時のスクリーンショットを保存
             await page.screenshot({ path: path.join(SECRETS_DIR, 'login-failed.png'), fullPage: true });
             fs.writeFileSync(path.join(SECRETS_DIR, 'login-failed.html'), await page.content());
-            throw new Error(
+            throw new AskenBotBlockedError(
                 `自動ログインに失敗しました（リダイレクト先: ${page.url()}）。\n` +
                 `メールアドレス/パスワードが正しい場合、あすけん側のBot対策により新規ログインが` +
                 `拒否されている可能性があります（2026-07 のサイト刷新以降に確認済み）。\n` +
                 `対処: 手動でブラウザからログインし、Cookieをエクスポートして ` +
-                `${STATE_FILE} に配置してください（詳細は README/CLAUDE.md の手順を参照）。`
+                `${stateFile} に配置してください（詳細は README/CLAUDE.md の手順を参照）。`
             );
         }
 
@@ -109,10 +118,10 @@ export async function autoLogin(options?: { headless?: boolean }): Promise<strin
         await page.screenshot({ path: path.join(SECRETS_DIR, 'login-success.png'), fullPage: true });
 
         // セッション状態を保存
-        await context.storageState({ path: STATE_FILE });
-        console.log(`セッション保存完了: ${STATE_FILE}`);
+        await context.storageState({ path: stateFile });
+        console.log(`セッション保存完了: ${stateFile}`);
 
-        return STATE_FILE;
+        return stateFile;
     } finally {
         await context.close();
         await browser.close();
@@ -129,17 +138,18 @@ export async function autoLogin(options?: { headless?: boolean }): Promise<strin
  * 手動ログインしてエクスポートしたCookie = secrets/asken-state.json）だけが通る。
  * そのため「ファイルが古ければ即座に自動再ログインを試みる」旧ロジックは、
  * まだ十分有効な手動セッションを無駄に破棄しにいく方向に働いてしまう。
- * 実際の有効性は run.ts の verifySession()（実際に /wsp/ にアクセスして判定）に
+ * 実際の有効性は scraper.ts の verifySession()（実際に /wsp/ にアクセスして判定）に
  * 委ね、ここでは「ファイルが存在し、かつ極端に古すぎない（=放置されたゴミではない）」
  * ことだけを緩く確認する。
+ * @param stateFile セッションファイル（省略時は secrets/asken-state.json）
  * @returns セッションが有効そうなら true
  */
-export function isSessionLikelyValid(): boolean {
-    if (!fs.existsSync(STATE_FILE)) return false;
+export function isSessionLikelyValid(stateFile: string = STATE_FILE): boolean {
+    if (!fs.existsSync(stateFile)) return false;
 
     // セッションファイルがあまりに古い（30日以上）場合のみ期限切れとみなす。
-    // 実際の可否は run.ts の verifySession() が都度ネットワークで確認する。
-    const stat = fs.statSync(STATE_FILE);
+    // 実際の可否は scraper.ts の verifySession() が都度ネットワークで確認する。
+    const stat = fs.statSync(stateFile);
     const ageMs = Date.now() - stat.mtimeMs;
     const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30日
     return ageMs < MAX_AGE_MS;
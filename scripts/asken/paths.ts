@@ -0,0 +1,18 @@
+import path from 'path';
+
+export const SECRETS_DIR = path.join(process.cwd(), 'secrets');
+
+/** default 以外のユーザーのファイルはユーザーごとのフォルダに分ける（アカウント間で Cookie・キャッシュを共有しない） */
+function userDir(userId: string): string {
+    return userId === 'default' ? SECRETS_DIR : path.join(SECRETS_DIR, 'users', encodeURIComponent(userId));
+}
+
+/** セッション（storageState）の保存先。default は従来どおり secrets/asken-state.json */
+export function askenStateFile(userId = 'default'): string {
+    return path.join(userDir(userId), 'asken-state.json');
+}
+
+/** 1日分の取得結果のキャッシュ。default は従来どおり secrets/asken-day-${date}.json */
+export function askenDayFile(dateStr: string, userId = 'default'): string {
+    return path.join(userDir(userId), `asken-day-${dateStr}.json`);
+}
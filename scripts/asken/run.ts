@@ -3,18 +3,11 @@ import { config } from 'dotenv';
 config({ path: '.env.local', quiet: true });
 config({ quiet: true }); // .env も対象
 
-import { chromium, BrowserContext } from 'playwright';
 import path from 'path';
-import fs from 'fs';
 
-import { scrapeDay } from './scrapeDay';
-import { scrapeAdviceNutrients, AdviceMealType } from './scrapeAdvice';
-import { autoLogin, isSessionLikelyValid } from './login';
-import type { DayResult } from './types';
+import { openAskenScraper } from './scraper';
 
-const PROJECT_ROOT = process.cwd();
-const SECRETS_DIR = path.join(PROJECT_ROOT, 'secrets');
-const STATE_FILE = path.join(SECRETS_DIR, 'asken-state.json');
+const SECRETS_DIR = path.join(process.cwd(), 'secrets');
 
 /** 朝5時までは前日として扱う（サーバーTZに依存せずJST基準で計算する） */
 function todayStr() {
@@ -28,166 +21,33 @@ function todayStr() {
     return `${y}-${m}-${d}`;
 }
 
-/** 栄養素の文字列を正規化する */
-function normalizeValue(val: string): string {
-    let s = val.replace(/\s+/g, '');
-    s = s.replace(/ug/gi, 'µg').replace(/μg/g, 'µg');
-    return s;
-}
-
-function normalizeNutrients(record: Record<string, string>): Record<string, string> {
-    const out: Record<string, string> = {};
-    for (const [k, v] of Object.entries(record)) {
-        out[k] = normalizeValue(v);
-    }
-    return out;
-}
-
-/**
- * セッションの有効性を実際にページアクセスして確認する
- * @returns ログインページにリダイレクトされなければ true
- */
-async function verifySession(context: BrowserContext, dateStr: string): Promise<boolean> {
-    const page = await context.newPage();
-    try {
-        const url = `https://www.asken.jp/wsp/comment/${dateStr}`;
-        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 15000 });
-        return !page.url().includes('login');
-    } catch {
-        return false;
-    } finally {
-        await page.close();
-    }
-}
-
 /**
  * あすけんのスクレイピングを実行する
- * セッション切れの場合は自動で再ログインしてリトライする
+ * セッション切れの場合は自動で再ログインしてリトライする（openAskenScraper）
  */
 async function run() {
     const targetDate = process.argv[2] || todayStr();
     const headless = process.env.HEADLESS === 'true';
 
-    // セッションファイルが無い、または放置期間が極端に長い場合は事前にログインを試みる。
-    // （あすけんのBot対策により自動ログインが拒否されることがあるため、ここで失敗しても
-    //   即エラーにはせず、既存の state ファイルが残っていればそのまま使う可能性を残す）
-    if (!isSessionLikelyValid()) {
-        console.log("セッションが無効です。自動ログインを試みます...");
-        try {
-            await autoLogin({ headless });
-        } catch (e) {
-            console.error("自動ログイン試行に失敗:", e instanceof Error ? e.message : e);
-        }
-    }
-
-    if (!fs.existsSync(STATE_FILE)) {
-        console.error(`State file not found: ${STATE_FILE}`);
-        console.error(
-            "自動ログインに失敗しました。ASKEN_EMAIL / ASKEN_PASSWORD を確認するか、" +
-            "手動ログインでエクスポートしたCookieを secrets/asken-state.json に配置してください。"
-        );
+    let scraper;
+    try {
+        scraper = await openAskenScraper({ headless, verifyDate: targetDate });
+    } catch (e) {
+        console.error(e instanceof Error ? e.message : e);
         process.exit(1);
     }
 
-    const stealthArgs = [
-        '--disable-blink-features=AutomationControlled',
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-    ];
-    const stealthUA =
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/132.0.0.0 Safari/537.36';
-
-    let browser = await chromium.launch({ headless, args: stealthArgs });
-    let context = await browser.newContext({
-        storageState: STATE_FILE,
-        userAgent: stealthUA,
-        locale: 'ja-JP',
-        timezoneId: 'Asia/Tokyo',
-    });
-    await context.addInitScript(() => {
-        Object.defineProperty(navigator, 'webdriver', { get: () => undefined });
-    });
-
     try {
-        // セッションの有効性を実際に確認
-        const isValid = await verifySession(context, targetDate);
-
-        if (!isValid) {
-            // セッション切れ → 再ログイン
-            console.log("セッションが切れています。再ログインします...");
-            await context.close();
-            await browser.close();
-
-            await autoLogin({ headless });
-
-            // 新しいセッションでブラウザを再起動（stealth設定を再適用）
-            browser = await chromium.launch({ headless, args: stealthArgs });
-            context = await browser.newContext({
-                storageState: STATE_FILE,
-                userAgent: stealthUA,
-                locale: 'ja-JP',
-                timezoneId: 'Asia/Tokyo',
-            });
-            await context.addInitScript(() => {
-                Object.defineProperty(navigator, 'webdriver', { get: () => undefined });
-            });
-
-            // 再ログイン後も失敗する場合はエラー
-            const retryValid = await verifySession(context, targetDate);
-            if (!retryValid) {
-                throw new Error(
-                    "再ログイン後もセッションが無効です。あすけんのBot対策により自動ログインが" +
-                    "拒否されている可能性があります。手動ブラウザでログインし、Cookieをエクスポートして " +
-                    `${STATE_FILE} に配置してください。`
-                );
-            }
-        }
-
-        // スクレイピング実行
-        const { items, exercise } = await scrapeDay(targetDate, context);
-
-        const getNutrients = async (mealType: AdviceMealType) => {
-            try {
-                return await scrapeAdviceNutrients({ context, dateStr: targetDate, mealType });
-            } catch (e) {
-                console.error(`Failed to get advice for ${mealType}:`, e);
-                return {};
-            }
-        };
-
-        const breakfast = normalizeNutrients(await getNutrients('朝食'));
-        const lunch = normalizeNutrients(await getNutrients('昼食'));
-        const dinner = normalizeNutrients(await getNutrients('夕食'));
-
-        const result: DayResult = {
-            date: targetDate,
-            items,
-            nutrients: {
-                朝食: breakfast,
-                昼食: lunch,
-                夕食: dinner,
-            },
-            exercise,
-        };
+        const result = await scraper.scrapeDate(targetDate);
 
         // stdout に出力
         console.log(JSON.stringify(result, null, 2));
-
-        // ファイルに保存
-        fs.mkdirSync(SECRETS_DIR, { recursive: true });
-        const outFile = path.join(SECRETS_DIR, `asken-day-${targetDate}.json`);
-        fs.writeFileSync(outFile, JSON.stringify(result, null, 2), 'utf-8');
-        console.log(`Saved: ${outFile}`);
-
+        console.log(`Saved: ${path.join(SECRETS_DIR, `asken-day-${targetDate}.json`)}`);
     } catch (e) {
         console.error('Fatal Error:', e);
         process.exit(1);
     } finally {
-        // 再ログイン経路で既にcloseされている場合があるため、二重closeの例外で
-        // 本来のエラーを握りつぶさない
-        try { await context.close(); } catch { /* close済み */ }
-        try { await browser.close(); } catch { /* close済み */ }
+        await scraper.close();
     }
 }
 
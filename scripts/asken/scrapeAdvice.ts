@@ -1,5 +1,6 @@
 import { BrowserContext, Page } from 'playwright';
 import { MealType } from './types';
+import { AskenSessionExpiredError } from './errors';
 
 // Only breakfast, lunch, dinner have advice slots
 export type AdviceMealType = Extract<MealType, '朝食' | '昼食' | '夕食'>;
@@ -76,7 +77,7 @@ export async function scrapeAdviceNutrients(params: {
         await page.waitForSelector('table', { timeout: 10000 }).catch(() => { });
 
         if (page.url().includes('login')) {
-            throw new Error(`Redirected to login while opening advice page: ${mealType} ${url}`);
+            throw new AskenSessionExpiredError(`Redirected to login while opening advice page: ${mealType} ${url}`);
         }
 
         // Strategy: Extract all text from tables, find the one with most nutrient matches
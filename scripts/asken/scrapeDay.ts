@@ -2,6 +2,7 @@ import { chromium, BrowserContext } from 'playwright';
 import path from 'path';
 import fs from 'fs';
 import type { ScrapedItem, ExerciseData } from './types';
+import { AskenBotBlockedError, AskenLayoutChangedError, AskenSessionExpiredError } from './errors';
 
 const PROJECT_ROOT = process.cwd();
 const SECRETS_DIR = path.join(PROJECT_ROOT, 'secrets');
@@ -41,7 +42,11 @@ export async function scrapeDay(dateStr: string, existingContext?: BrowserContex
         page = await context.newPage();
 
         const url = `https://www.asken.jp/wsp/comment/${dateStr}`;
-        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        const status = response?.status();
+        if (status === 403 || status === 429) {
+            throw new AskenBotBlockedError(`あすけんにアクセスを拒否されました（HTTP ${status}）: ${url}`);
+        }
 
         // ページ内のコンテンツがレンダリングされるまで待機
         await page.waitForSelector('#karute_report_breakfast, #karute_report_lunch, #karute_report_dinner', { timeout: 10000 }).catch(() => {
@@ -49,7 +54,16 @@ export async function scrapeDay(dateStr: string, existingContext?: BrowserContex
         });
 
         if (page.url().includes('login')) {
-            throw new Error('Redirected to login page.');
+            throw new AskenSessionExpiredError('Redirected to login page.');
+        }
+
+        // 食事ブロックが1つも無ければ、空の日ではなくページ構成が変わっている
+        const blockCount = await page.evaluate(
+            (ids) => ids.filter((id) => document.getElementById(id)).length,
+            MEAL_BLOCKS.map((b) => b.id)
+        );
+        if (blockCount === 0) {
+            throw new AskenLayoutChangedError(`食事ブロック（#karute_report_*）が見つかりません: ${url}`);
         }
 
         const items: ScrapedItem[] = await page.evaluate((blocks) => {
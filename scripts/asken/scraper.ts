@@ -0,0 +1,183 @@
+import { chromium, Browser, BrowserContext } from 'playwright';
+import path from 'path';
+import fs from 'fs';
+
+import { scrapeDay } from './scrapeDay';
+import { scrapeAdviceNutrients, AdviceMealType } from './scrapeAdvice';
+import { autoLogin, isSessionLikelyValid } from './login';
+import { AskenBotBlockedError, AskenSessionExpiredError, toAskenScrapeError } from './errors';
+import { askenDayFile, askenStateFile } from './paths';
+import type { DayResult } from './types';
+
+const STEALTH_ARGS = [
+    '--disable-blink-features=AutomationControlled',
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+];
+const STEALTH_UA =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/132.0.0.0 Safari/537.36';
+
+/** 栄養素の文字列を正規化する */
+function normalizeValue(val: string): string {
+    let s = val.replace(/\s+/g, '');
+    s = s.replace(/ug/gi, 'µg').replace(/μg/g, 'µg');
+    return s;
+}
+
+function normalizeNutrients(record: Record<string, string>): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [k, v] of Object.entries(record)) {
+        out[k] = normalizeValue(v);
+    }
+    return out;
+}
+
+/** stealth 設定済みのブラウザとコンテキストを起動する */
+async function launchContext(
+    headless: boolean,
+    stateFile: string
+): Promise<{ browser: Browser; context: BrowserContext }> {
+    const browser = await chromium.launch({ headless, args: STEALTH_ARGS });
+    const context = await browser.newContext({
+        storageState: stateFile,
+        userAgent: STEALTH_UA,
+        locale: 'ja-JP',
+        timezoneId: 'Asia/Tokyo',
+    });
+    await context.addInitScript(() => {
+        Object.defineProperty(navigator, 'webdriver', { get: () => undefined });
+    });
+    return { browser, context };
+}
+
+/**
+ * セッションの有効性を実際にページアクセスして確認する
+ * @returns ログインページにリダイレクトされなければ true
+ */
+async function verifySession(context: BrowserContext, dateStr: string): Promise<boolean> {
+    const page = await context.newPage();
+    try {
+        const url = `https://www.asken.jp/wsp/comment/${dateStr}`;
+        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 15000 });
+        return !page.url().includes('login');
+    } catch {
+        return false;
+    } finally {
+        await page.close();
+    }
+}
+
+async function closeQuietly(browser: Browser, context: BrowserContext) {
+    // 二重closeの例外で本来のエラーを握りつぶさない
+    try { await context.close(); } catch { /* close済み */ }
+    try { await browser.close(); } catch { /* close済み */ }
+}
+
+/** 1つのブラウザコンテキストで複数日を取得するスクレイパー（日付ごとにページを開くので並行に呼べる） */
+export interface AskenScraper {
+    /**
+     * 1日分を取得し、ユーザーのキャッシュ（askenDayFile）にも保存する
+     * @throws AskenScrapeError（セッション切れ・Bot 拒否・ページ構成の変更・タイムアウト）またはその他の例外
+     */
+    scrapeDate(dateStr: string): Promise<DayResult>;
+    close(): Promise<void>;
+}
+
+/**
+ * ブラウザを起動し、セッションを確認してスクレイパーを返す
+ * セッション切れの場合は自動で再ログインしてから開き直す。
+ * セッションが無く再ログインもできなければ AskenSessionExpiredError、再ログインを拒否されたら AskenBotBlockedError
+ * @param options.verifyDate セッション確認に開く日付
+ * @param options.credentials 再ログインに使う認証情報（省略時は環境変数）
+ * @param options.userId セッション・キャッシュファイルの持ち主（省略時は "default"）
+ */
+export async function openAskenScraper(options: {
+    headless: boolean;
+    verifyDate: string;
+    credentials?: { email: string; password: string };
+    userId?: string;
+}): Promise<AskenScraper> {
+    const { headless, verifyDate, credentials, userId } = options;
+    const stateFile = askenStateFile(userId);
+
+    // セッションファイルが無い、または放置期間が極端に長い場合は事前にログインを試みる。
+    // （あすけんのBot対策により自動ログインが拒否されることがあるため、ここで失敗しても
+    //   即エラーにはせず、既存の state ファイルが残っていればそのまま使う可能性を残す）
+    if (!isSessionLikelyValid(stateFile)) {
+        console.log("セッションが無効です。自動ログインを試みます...");
+        try {
+            await autoLogin({ headless, credentials, stateFile });
+        } catch (e) {
+            console.error("自動ログイン試行に失敗:", e instanceof Error ? e.message : e);
+        }
+    }
+
+    if (!fs.existsSync(stateFile)) {
+        throw new AskenSessionExpiredError(
+            `State file not found: ${stateFile}\n` +
+            "自動ログインに失敗しました。ASKEN_EMAIL / ASKEN_PASSWORD を確認するか、" +
+            `手動ログインでエクスポートしたCookieを ${stateFile} に配置してください。`
+        );
+    }
+
+    let { browser, context } = await launchContext(headless, stateFile);
+    try {
+        if (!(await verifySession(context, verifyDate))) {
+            // セッション切れ → 再ログインして stealth 設定ごと開き直す
+            console.log("セッションが切れています。再ログインします...");
+            await closeQuietly(browser, context);
+            await autoLogin({ headless, credentials, stateFile });
+            ({ browser, context } = await launchContext(headless, stateFile));
+
+            if (!(await verifySession(context, verifyDate))) {
+                throw new AskenBotBlockedError(
+                    "再ログイン後もセッションが無効です。あすけんのBot対策により自動ログインが" +
+                    "拒否されている可能性があります。手動ブラウザでログインし、Cookieをエクスポートして " +
+                    `${stateFile} に配置してください。`
+                );
+            }
+        }
+    } catch (e) {
+        await closeQuietly(browser, context);
+        throw toAskenScrapeError(e);
+    }
+
+    const getNutrients = async (dateStr: string, mealType: AdviceMealType) => {
+        try {
+            return normalizeNutrients(await scrapeAdviceNutrients({ context, dateStr, mealType }));
+        } catch (e) {
+            // セッション切れは他の日付も同じなので、空の栄養素で済ませず呼び出し側に返す
+            if (e instanceof AskenSessionExpiredError) throw e;
+            console.error(`Failed to get advice for ${mealType}:`, e);
+            return {};
+        }
+    };
+
+    return {
+        async scrapeDate(dateStr) {
+            let result: DayResult;
+            try {
+                const { items, exercise } = await scrapeDay(dateStr, context);
+                result = {
+                    date: dateStr,
+                    items,
+                    nutrients: {
+                        朝食: await getNutrients(dateStr, '朝食'),
+                        昼食: await getNutrients(dateStr, '昼食'),
+                        夕食: await getNutrients(dateStr, '夕食'),
+                    },
+                    exercise,
+                };
+            } catch (e) {
+                throw toAskenScrapeError(e);
+            }
+
+            const outFile = askenDayFile(dateStr, userId);
+            fs.mkdirSync(path.dirname(outFile), { recursive: true });
+            fs.writeFileSync(outFile, JSON.stringify(result, null, 2), 'utf-8');
+            return result;
+        },
+        close: () => closeQuietly(browser, context),
+    };
+}
@@ -2,7 +2,7 @@
  * あすけんセッションの定期監視。
  *
  * 1. secrets/asken-state.json のセッションを実アクセスで検証する（check-login.ts の verifySession を再利用）
- * 2. 有効なら「今日と前2日」を同期する（syncData を直接呼び出し）
+ * 2. 有効なら「今日と前2日」を同期する（syncData を直接呼び出し、実行履歴に trigger=session-guard で記録）
  * 3. 無効ならWindowsデスクトップ通知を出す（Cookie/パスワードは一切含めない）
  *
  * Windows タスクスケジューラから定期実行する想定（scripts/asken/setup-schedule.ps1 参照）。
@@ -15,7 +15,7 @@ config({ quiet: true });
 
 import { format, subDays } from "date-fns";
 import { getEffectiveToday } from "../../src/lib/dateUtils";
-import { syncData } from "../../src/lib/syncData";
+import { syncDataWithRun } from "../../src/lib/syncRuns";
 import { verifySession } from "./check-login";
 import { notifyWindows } from "./notify";
 
@@ -35,6 +35,9 @@ const SYNC_DAYS = 3;
  */
 const PROD_STALL_HOURS = 24;
 
+/** 本番の同期がこの回数続けてエラー（partial / failed）なら通知する */
+const PROD_FAILURE_STREAK = 3;
+
 /**
  * 本番（APP_BASE_URL）の死活と最終同期の鮮度を確認する。
  * ローカル同期の前に呼ぶこと — 自分の同期で lastSync を更新してしまうと
@@ -44,7 +47,7 @@ async function checkProdSyncHealth(): Promise<void> {
   const baseUrl = process.env.APP_BASE_URL;
   if (!baseUrl) return; // 未設定ならスキップ（ローカル専用運用）
 
-  let json: { lastSync?: { timestamp?: string } | null };
+  let json: { lastSync?: { timestamp?: string } | null; failureStreak?: number; lastSuccessAt?: string | null };
   try {
     // 本番でBasic認証(middleware)が有効な場合に備え、機械アクセス用の
     // x-cron-secret を付与する（未設定でも害はない）
@@ -61,6 +64,16 @@ async function checkProdSyncHealth(): Promise<void> {
     return;
   }
 
+  const streak = json?.failureStreak ?? 0;
+  if (streak >= PROD_FAILURE_STREAK) {
+    const msg =
+      `本番の同期が ${streak} 回続けてエラーです（最終成功: ${json.lastSuccessAt ?? "記録なし"}）。` +
+      "/api/sync/status の履歴とあすけんセッションを確認してください";
+    console.error(`[session-guard] ✗ ${msg}`);
+    notifyWindows("同期エラーが継続", msg);
+    process.exitCode = 1;
+  }
+
   const ts = json?.lastSync?.timestamp;
   if (!ts) {
     console.warn("[session-guard] 本番の lastSync が未記録です（初回同期前？）");
@@ -105,7 +118,7 @@ async function main() {
 
   console.log(`[session-guard] 同期範囲: ${fromStr} 〜 ${toStr}`);
   try {
-    const syncResult = await syncData({ from: fromStr, to: toStr });
+    const syncResult = await syncDataWithRun("session-guard", { from: fromStr, to: toStr });
     console.log("[session-guard] 同期結果:", {
       askenCount: syncResult.askenCount,
       strongCount: syncResult.strongCount,
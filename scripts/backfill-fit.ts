@@ -20,6 +20,7 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '../src/lib/prisma';
 import { fetchHealthForDateRange } from '../src/lib/sources/appleHealth';
 import { formatDateJst, getEffectiveToday } from '../src/lib/dateUtils';
+import { DEFAULT_USER_ID } from '../src/lib/dbConfig';
 import type { HealthDayData } from '../src/lib/sources/types';
 
 /** YYYY-MM-DD 文字列の妥当性チェック */
@@ -54,9 +55,9 @@ async function upsertHealthDay(date: string, data: HealthDayData) {
   if (data.weightKg != null) payload.weightKg = data.weightKg;
 
   await prisma.dailyData.upsert({
-    where: { date },
+    where: { ownerId_date: { ownerId: DEFAULT_USER_ID, date } },
     update: payload,
-    create: { ...(payload as Prisma.DailyDataCreateInput), date },
+    create: { ...(payload as Prisma.DailyDataCreateInput), ownerId: DEFAULT_USER_ID, date },
   });
 }
 
@@ -100,7 +101,7 @@ async function main() {
   } else {
     // 既存データを事前取得して進捗判断（既に同期済みの日は再取得しない）
     const existing = await prisma.dailyData.findMany({
-      where: { date: { in: dates } },
+      where: { ownerId: DEFAULT_USER_ID, date: { in: dates } },
       select: { date: true, healthSyncedAt: true },
     });
     const synced = new Set(existing.filter((r) => r.healthSyncedAt != null).map((r) => r.date));
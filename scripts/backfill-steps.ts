@@ -60,6 +60,7 @@ async function main() {
     // ただし0歩は「データなし」の意味で残したい場合もあるが、今回は全部再取得する
     const rows = await prisma.dailyData.findMany({
         where: {
+            ownerId: 'default',
             date: { gte: '2026-01-01', lte: '2026-02-14' },
             OR: [{ steps: null }, { steps: 0 }],
         },
@@ -88,7 +89,7 @@ async function main() {
         for (const res of results) {
             if (res.result && res.result.steps > 0) {
                 await prisma.dailyData.update({
-                    where: { date: res.date },
+                    where: { ownerId_date: { ownerId: 'default', date: res.date } },
                     data: {
                         steps: res.result.steps,
                         exerciseCalories: res.result.calories,
@@ -0,0 +1,85 @@
+/**
+ * Workout / ExerciseSet バックフィルスクリプト
+ *
+ * Strong のファイル（STRONG_DATA_PATH のローカルフォルダ、無ければ Google Drive の Strong フォルダ）を
+ * 全件再パースし、セット単位で Workout / ExerciseSet に保存する。DailyData.strongData も保存した行から導出し直す。
+ * 20261019065741_add_workout_sets マイグレーション適用後に1回実行する想定（何度実行しても同じ結果になる）。
+ *
+ * 使い方:
+ *   npx tsx scripts/backfill-workouts.ts                         # 全期間
+ *   npx tsx scripts/backfill-workouts.ts 2025-01-01              # 指定日以降
+ *   npx tsx scripts/backfill-workouts.ts 2025-01-01 2025-12-31   # 指定範囲
+ *   npx tsx scripts/backfill-workouts.ts --dry-run               # パース結果の件数だけ表示（DB に書かない）
+ */
+
+import { config } from 'dotenv';
+config({ path: '.env.local', quiet: true });
+config({ quiet: true });
+
+import { prisma } from '../src/lib/prisma';
+import {
+  getLocalStrongPath,
+  groupStrongWorkoutsByDate,
+  readStrongFiles,
+  readStrongFilesFromDrive,
+} from '../src/lib/sources/strong';
+import { saveWorkoutsByDate } from '../src/lib/workouts';
+import { DEFAULT_USER_ID } from '../src/lib/dbConfig';
+
+/** YYYY-MM-DD 文字列の妥当性チェック */
+function isValidDate(s: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) && !isNaN(new Date(s + 'T00:00:00').getTime());
+}
+
+async function main() {
+  const rawArgs = process.argv.slice(2);
+  const dryRun = rawArgs.includes('--dry-run');
+  const args = rawArgs.filter((a) => a !== '--dry-run');
+  if (args.some((a) => !isValidDate(a))) {
+    console.error('日付形式エラー。YYYY-MM-DD で指定してください。');
+    process.exit(1);
+  }
+  const [from, to] = args;
+
+  const localPath = getLocalStrongPath();
+  const result = localPath ? readStrongFiles(localPath) : await readStrongFilesFromDrive();
+  if (!result) {
+    console.error('STRONG_DATA_PATH のフォルダも Google Drive（GOOGLE_DRIVE_STRONG_FOLDER_ID）も見つかりません。');
+    process.exit(1);
+  }
+  console.log(`読み込み元: ${localPath ?? 'Google Drive'}`);
+
+  const byDate = groupStrongWorkoutsByDate(
+    result.workouts.filter((w) => (!from || w.date >= from) && (!to || w.date <= to))
+  );
+  const dates = Array.from(byDate.keys()).sort();
+  const setCount = Array.from(byDate.values()).flat().reduce((s, w) => s + w.exercises.length, 0);
+  console.log(
+    `対象: ${dates.length}日 / ${setCount}セット${dates.length > 0 ? ` (${dates[0]} 〜 ${dates[dates.length - 1]})` : ''}${dryRun ? ' [--dry-run]' : ''}`
+  );
+
+  if (result.errors.length > 0) {
+    console.log(`\nパースエラー: ${result.errors.length}件`);
+    for (const e of result.errors.slice(0, 5)) console.log(`  - ${e.slice(0, 200)}`);
+    if (result.errors.length > 5) console.log(`  ...他 ${result.errors.length - 5} 件`);
+  }
+
+  if (dryRun || dates.length === 0) {
+    await prisma.$disconnect();
+    return;
+  }
+
+  const { savedDays, failures } = await saveWorkoutsByDate(DEFAULT_USER_ID, byDate);
+  for (const { date, error } of failures) {
+    console.error(`❌ ${date}: DB保存失敗: ${String(error)}`);
+  }
+
+  console.log(`\n完了: 保存=${savedDays}日, DB エラー=${failures.length}`);
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect();
+  process.exit(1);
+});
@@ -1,15 +1,17 @@
 /**
  * 定期同期 & AI評価スケジューラー
- * node-cron で定期的にデータ同期APIとAI評価APIを呼び出す
+ * node-cron で定期的に同期ジョブ（SyncJob）を積み、AI評価APIを呼び出す。
+ * 同期ジョブ（/api/sync で積んだものを含む）はこのプロセスのワーカーが SYNC_WORKER_INTERVAL_MS ごとに処理する。
  *
  * 環境変数:
  *   CRON_SCHEDULE: データ同期cron式（デフォルト: "0 9,11,13,16,19,21,22,23 * * *"）
+ *   SYNC_WORKER_INTERVAL_MS: 同期ジョブを確認する間隔（デフォルト: 5000）
  *   CRON_SECRET: 内部API認証用シークレット
  *   PORT: Next.jsサーバーのポート（デフォルト: 3000）
  */
 import cron from "node-cron";
-import { syncData } from "../src/lib/syncData";
-import { prisma } from "../src/lib/prisma";
+import { enqueueSyncJobs, processSyncJobs } from "../src/lib/syncJobs";
+import { DEFAULT_USER_ID } from "../src/lib/dbConfig";
 import { getEffectiveToday, formatDateJst } from "../src/lib/dateUtils";
 
 const SYNC_SCHEDULE = process.env.CRON_SCHEDULE || "0 9,11,13,16,19,21,22,23 * * *";
@@ -18,6 +20,7 @@ const AI_EVAL_SCHEDULE = "0 5 * * *"; // 毎日朝5時（JST）に前日のAI評
 const SECRET = process.env.CRON_SECRET || "";
 const PORT = process.env.PORT || "3000";
 const BASE_URL = `http://localhost:${PORT}`;
+const SYNC_WORKER_INTERVAL_MS = Number(process.env.SYNC_WORKER_INTERVAL_MS) || 5000;
 
 /** 過去分同期の日数（/api/sync/cron と揃える） */
 const PAST_SYNC_DAYS = 30;
@@ -32,83 +35,61 @@ function getHeaders(): Record<string, string> {
   };
 }
 
-/** 同期結果を SyncLog(id=1) に記録する（/api/sync/cron と同一処理） */
-async function recordSyncLog(result: {
-  askenCount: number;
-  strongCount: number;
-  dayCount: number;
-  errors: string[];
-}) {
-  try {
-    await prisma.syncLog.upsert({
-      where: { id: 1 },
-      update: {
-        timestamp: new Date(),
-        askenCount: result.askenCount,
-        strongCount: result.strongCount,
-        dayCount: result.dayCount,
-        errors: JSON.stringify(result.errors),
-      },
-      create: {
-        id: 1,
-        timestamp: new Date(),
-        askenCount: result.askenCount,
-        strongCount: result.strongCount,
-        dayCount: result.dayCount,
-        errors: JSON.stringify(result.errors),
-      },
-    });
-  } catch (logErr) {
-    console.error("[cron] SyncLog 保存失敗:", logErr);
-  }
-}
-
 /**
- * データ同期（前日〜当日の2日分）
- * 以前は自身の /api/sync/cron を fetch していたが、CRON_SECRET 未設定だと
- * 本番でフェイルクローズ(500)になり cron が機能しなかったため、syncData を
- * 同一プロセスで直接呼ぶ方式に変更（認証不要・自己HTTPホップ不要）。
+ * データ同期（前日〜当日の2日分）のジョブを積む
+ * 以前は syncData を同一プロセスで直接呼んでいたが、1日分のスクレイピングが遅いと全体が止まるため
+ * 日付 × データソースのジョブに分けてワーカーで処理する。
  */
 async function triggerSync() {
   const now = new Date().toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
-  console.log(`[cron-sync] ${now} 同期を開始...`);
-
   try {
-    const result = await syncData();
-    await recordSyncLog(result);
-    console.log(
-      `[cron-sync] 完了 — あすけん: ${result.askenCount}日, Strong: ${result.strongCount}日, 計: ${result.dayCount}件`
-    );
-    if (result.errors?.length > 0) {
-      console.log(`[cron-sync] 警告: ${result.errors.join(" / ")}`);
-    }
+    const { batchId, jobCount } = await enqueueSyncJobs(DEFAULT_USER_ID, { trigger: "cron" });
+    console.log(`[cron-sync] ${now} 同期ジョブを ${jobCount} 件登録 (batch: ${batchId})`);
   } catch (e) {
-    console.error(`[cron-sync] 同期失敗:`, e);
+    console.error(`[cron-sync] ジョブ登録失敗:`, e);
   }
 }
 
-/** 過去分同期（朝5時用・過去30日で3日以上前は未取得のみ取得） */
+/** 過去分同期（朝5時用・過去30日で3日以上前は未取得のみ取得）のジョブを積む */
 async function triggerPastSync() {
   const now = new Date().toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
-  console.log(`[cron-past] ${now} 過去分同期を開始...`);
-
   try {
-    const result = await syncData({
+    const { batchId, jobCount } = await enqueueSyncJobs(DEFAULT_USER_ID, {
       from: formatDateJst(
         new Date(getEffectiveToday().getTime() - (PAST_SYNC_DAYS - 1) * 86400000)
       ),
       to: formatDateJst(getEffectiveToday()),
       skipExistingPastDays: SKIP_EXISTING_PAST_DAYS,
+      trigger: "past-only",
     });
-    await recordSyncLog(result);
-    console.log(
-      `[cron-past] 完了 — あすけん: ${result.askenCount}日, Strong: ${result.strongCount}日, 計: ${result.dayCount}件`
-    );
-    if (result.errors?.length > 0) {
-      console.log(`[cron-past] 警告: ${result.errors.join(" / ")}`);
+    console.log(`[cron-past] ${now} 過去分の同期ジョブを ${jobCount} 件登録 (batch: ${batchId})`);
+  } catch (e) {
+    console.error(`[cron-past] ジョブ登録失敗:`, e);
+  }
+}
+
+let workerRunning = false;
+
+/**
+ * 実行できる同期ジョブを処理する（前回の処理中なら何もしない）
+ * 依頼（batch）の全ジョブが終わった時点の結果は processSyncJobs が SyncRun に記録する
+ */
+async function runSyncWorker() {
+  if (workerRunning) return;
+  workerRunning = true;
+  try {
+    const processed = await processSyncJobs();
+    for (const job of processed) {
+      const result = job.status === "succeeded" ? "完了" : job.status === "failed" ? "失敗" : "再試行待ち";
+      console.log(
+        `[sync-worker] ${job.source} ${job.date} ${result} (${job.attempts}/${job.maxAttempts}回目, ${job.durationMs ?? 0}ms)` +
+          (job.lastError ? ` — ${job.lastError}` : "")
+      );
     }
   } catch (e) {
-    console.error(`[cron-past] 同期失敗:`, e);
+    console.error(`[sync-worker] 処理失敗:`, e);
+  } finally {
+    workerRunning = false;
   }
 }
 
@@ -157,6 +138,7 @@ console.log(`[cron] スケジューラー起動`);
 console.log(`[cron]   データ同期(2日): ${SYNC_SCHEDULE}`);
 console.log(`[cron]   過去分同期(未取得のみ): ${PAST_SYNC_SCHEDULE}`);
 console.log(`[cron]   AI評価: ${AI_EVAL_SCHEDULE} (前日分)`);
+console.log(`[cron]   同期ジョブの確認間隔: ${SYNC_WORKER_INTERVAL_MS}ms`);
 console.log(`[cron]   タイムゾーン: Asia/Tokyo`);
 
 // データ同期スケジュール（前日〜当日の2日分）
@@ -174,6 +156,9 @@ cron.schedule(AI_EVAL_SCHEDULE, triggerDailyAiEvaluation, {
   timezone: "Asia/Tokyo",
 });
 
+// 同期ジョブのワーカー（/api/sync・上のスケジュールで積んだジョブを処理する）
+setInterval(runSyncWorker, SYNC_WORKER_INTERVAL_MS);
+
 // 起動時に1回実行はしない（サーバー起動直後はまだ準備中の可能性があるため）
 if (process.env.CRON_RUN_ON_START === "1") {
   setTimeout(triggerSync, 30000);
@@ -1,12 +1,12 @@
 /**
- * 指定日付範囲で syncData を実行する（テスト・手動用）
+ * 指定日付範囲で syncData を実行する（テスト・手動用。実行履歴には trigger=manual で記録）
  * 例: npx tsx scripts/sync-range.ts 2026-02-17 2026-02-24
  */
 import { config as loadEnv } from "dotenv";
 loadEnv();
 loadEnv({ path: ".env.local" });
 
-import { syncData } from "../src/lib/syncData";
+import { syncDataWithRun } from "../src/lib/syncRuns";
 import { format, subDays } from "date-fns";
 import { getEffectiveToday } from "../src/lib/dateUtils";
 
@@ -21,7 +21,7 @@ async function main() {
   const toStr = to || format(endDate, "yyyy-MM-dd");
 
   console.log(`同期範囲: ${fromStr} 〜 ${toStr}`);
-  const result = await syncData({ from: fromStr, to: toStr });
+  const result = await syncDataWithRun("manual", { from: fromStr, to: toStr });
   console.log("結果:", {
     askenCount: result.askenCount,
     strongCount: result.strongCount,
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { apiClient } from '../lib/apiClient';
+
+/** GET /api/body-metrics の1日分（手入力を優先し、無い項目は同期分） */
+type BodyMetricEntry = {
+    date: string;
+    source: string;
+    weightKg: number | null;
+    bodyFatPct: number | null;
+    waistCm: number | null;
+    trendKg: number | null;
+};
+
+const FIELDS = [
+    { key: 'weightKg', label: '体重', unit: 'kg', placeholder: '70.0' },
+    { key: 'bodyFatPct', label: '体脂肪率', unit: '%', placeholder: '18.0' },
+    { key: 'waistCm', label: 'ウエスト', unit: 'cm', placeholder: '80.0' },
+] as const;
+
+type FieldKey = (typeof FIELDS)[number]['key'];
+type FormValues = Record<FieldKey, string>;
+
+const EMPTY_VALUES: FormValues = { weightKg: '', bodyFatPct: '', waistCm: '' };
+
+/** 手入力分だけを入力欄に入れる（同期分は placeholder に出し、手入力に写さない） */
+const toFormValues = (entry: BodyMetricEntry | null): FormValues =>
+    entry?.source === 'manual'
+        ? {
+              weightKg: entry.weightKg?.toString() ?? '',
+              bodyFatPct: entry.bodyFatPct?.toString() ?? '',
+              waistCm: entry.waistCm?.toString() ?? '',
+          }
+        : EMPTY_VALUES;
+
+async function fetchEntry(date: string): Promise<BodyMetricEntry | null> {
+    const { entries } = await apiClient<{ entries: BodyMetricEntry[] }>(`/body-metrics?from=${date}&to=${date}`);
+    return entries.find((e) => e.date === date) ?? null;
+}
+
+/** 空欄は null（手入力分のその項目を消す） */
+const toNumberOrNull = (value: string) => (value.trim() === '' || !Number.isFinite(Number(value)) ? null : Number(value));
+
+/**
+ * 体組成（体重・体脂肪率・ウエスト）の手入力フォーム
+ * 保存・削除するとサーバー側でこの日以降の確定済みスコアが傾向体重で採点し直される
+ */
+export default function BodyMetricForm({ date }: { date: string }) {
+    const [entry, setEntry] = useState<BodyMetricEntry | null>(null);
+    const [values, setValues] = useState<FormValues>(EMPTY_VALUES);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const applyEntry = (found: BodyMetricEntry | null) => {
+        setEntry(found);
+        setValues(toFormValues(found));
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        setMessage(null);
+        setError(null);
+        fetchEntry(date)
+            .then((found) => {
+                if (!cancelled) applyEntry(found);
+            })
+            .catch(() => {
+                if (!cancelled) setError('体組成の取得に失敗しました');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [date]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setError(null);
+        setMessage(null);
+        try {
+            await apiClient('/body-metrics', {
+                method: 'POST',
+                body: {
+                    date,
+                    weightKg: toNumberOrNull(values.weightKg),
+                    bodyFatPct: toNumberOrNull(values.bodyFatPct),
+                    waistCm: toNumberOrNull(values.waistCm),
+                },
+            });
+            applyEntry(await fetchEntry(date));
+            setMessage('保存しました');
+        } catch (err) {
+            setError(err instanceof Error && err.message ? err.message : '保存に失敗しました');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!confirm('この日の手入力の体組成を削除しますか？')) return;
+        setSubmitting(true);
+        setError(null);
+        setMessage(null);
+        try {
+            await apiClient(`/body-metrics/${date}`, { method: 'DELETE' });
+            applyEntry(await fetchEntry(date));
+            setMessage('削除しました');
+        } catch (err) {
+            setError(err instanceof Error && err.message ? err.message : '削除に失敗しました');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="mt-8 bg-[var(--bg-card)] border border-[var(--border-card)] rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-lg bg-[var(--accent-muted)] flex items-center justify-center">
+                        <span className="material-symbols-outlined text-[var(--primary)] text-xl">scale</span>
+                    </div>
+                    <h2 className="font-bold text-[var(--text-primary)] text-lg">体組成の記録</h2>
+                </div>
+                {entry?.trendKg != null && (
+                    <span className="text-xs text-[var(--text-tertiary)] tabular-nums">傾向体重 {entry.trendKg.toFixed(1)} kg</span>
+                )}
+            </div>
+
+            <form onSubmit={handleSubmit}>
+                <div className="grid grid-cols-3 gap-3">
+                    {FIELDS.map((field) => (
+                        <label key={field.key} className="block">
+                            <span className="block text-xs text-[var(--text-tertiary)] mb-1">
+                                {field.label}（{field.unit}）
+                            </span>
+                            <input
+                                type="number"
+                                inputMode="decimal"
+                                step="0.1"
+                                min="0"
+                                placeholder={entry?.[field.key]?.toString() ?? field.placeholder}
+                                value={values[field.key]}
+                                onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                                className="w-full px-3 py-2 border border-[var(--border-card)] rounded-lg text-sm bg-[var(--bg-page)] text-[var(--text-primary)] tabular-nums"
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+                {message && <p className="mt-3 text-xs text-[var(--text-tertiary)]">{message}</p>}
+
+                <div className="mt-4 flex justify-end gap-2">
+                    {entry?.source === 'manual' && (
+                        <button
+                            type="button"
+                            onClick={handleDelete}
+                            disabled={submitting}
+                            className="min-h-[44px] px-4 py-2 text-sm rounded-lg border border-[var(--border-card)] text-[var(--text-secondary)] hover:bg-[var(--bg-card-hover)] disabled:opacity-50"
+                        >
+                            手入力を削除
+                        </button>
+                    )}
+                    <button
+                        type="submit"
+                        disabled={submitting || Object.values(values).every((v) => v.trim() === '')}
+                        className="min-h-[44px] px-4 py-2 text-sm font-bold rounded-lg bg-[var(--primary)] text-[var(--btn-primary-text)] hover:bg-[var(--primary-hover)] disabled:opacity-50"
+                    >
+                        {submitting ? '保存中…' : '保存'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
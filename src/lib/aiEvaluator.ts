@@ -2,10 +2,11 @@
  * AI 食事評価の実行・保存ロジック
  * Gemini API でプロンプトを送信し、結果を AiEvaluation テーブルに保存する
  */
+import type { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
 import { callGemini, getGeminiModelName } from "./geminiClient";
 import { generateDailyPrompt, generateWeeklyPrompt, getGemSystemPrompt } from "./gemini";
-import { getSystemPrompt as getStoredSystemPrompt } from "./dbConfig";
+import { getSystemPrompt as getStoredSystemPrompt, DEFAULT_USER_ID } from "./dbConfig";
 
 /** AI 評価の実行結果 */
 export type EvaluationResult = {
@@ -23,17 +24,19 @@ export type EvaluationResult = {
  * @param dateStr 対象日付 (YYYY-MM-DD)
  * @param trigger 実行トリガー ("manual" | "cron")
  * @param systemPromptOverride 未指定時は DB 保存分を使用、未保存なら getGemSystemPrompt() を使用（cron とボタンで同一プロンプト）
+ * @param userId 評価対象ユーザー。省略時は "default"
  */
 export async function runDailyEvaluation(
   dateStr: string,
   trigger: "manual" | "cron",
-  systemPromptOverride?: string
+  systemPromptOverride?: string,
+  userId: string = DEFAULT_USER_ID
 ): Promise<EvaluationResult> {
-  const prompt = await generateDailyPrompt(dateStr, trigger);
+  const prompt = await generateDailyPrompt(dateStr, trigger, userId);
   const systemPrompt =
     (systemPromptOverride && systemPromptOverride.trim())
       ? systemPromptOverride.trim()
-      : ((await getStoredSystemPrompt()) ?? getGemSystemPrompt());
+      : ((await getStoredSystemPrompt(userId)) ?? getGemSystemPrompt());
   const modelName = getGeminiModelName();
 
   // Gemini API に送信
@@ -43,6 +46,7 @@ export async function runDailyEvaluation(
   const record = await prisma.aiEvaluation.create({
     data: {
       date: dateStr,
+      ownerId: userId,
       type: "daily",
       model: modelName,
       prompt,
@@ -67,17 +71,19 @@ export async function runDailyEvaluation(
  * @param sundayStr 週の開始日（日曜） (YYYY-MM-DD)
  * @param trigger 実行トリガー ("manual" | "cron")
  * @param systemPromptOverride 未指定時は DB 保存分を使用、未保存なら getGemSystemPrompt() を使用
+ * @param userId 評価対象ユーザー。省略時は "default"
  */
 export async function runWeeklyEvaluation(
   sundayStr: string,
   trigger: "manual" | "cron",
-  systemPromptOverride?: string
+  systemPromptOverride?: string,
+  userId: string = DEFAULT_USER_ID
 ): Promise<EvaluationResult> {
-  const prompt = await generateWeeklyPrompt(sundayStr);
+  const prompt = await generateWeeklyPrompt(sundayStr, userId);
   const systemPrompt =
     (systemPromptOverride && systemPromptOverride.trim())
       ? systemPromptOverride.trim()
-      : ((await getStoredSystemPrompt()) ?? getGemSystemPrompt());
+      : ((await getStoredSystemPrompt(userId)) ?? getGemSystemPrompt());
   const modelName = getGeminiModelName();
 
   const response = await callGemini(prompt, systemPrompt);
@@ -85,6 +91,7 @@ export async function runWeeklyEvaluation(
   const record = await prisma.aiEvaluation.create({
     data: {
       date: sundayStr,
+      ownerId: userId,
       type: "weekly",
       model: modelName,
       prompt,
@@ -104,15 +111,21 @@ export async function runWeeklyEvaluation(
   };
 }
 
+/** ユーザーの評価に絞る条件（ownerId 導入前の評価（null）は default のもの） */
+export function aiEvaluationOwnerWhere(userId: string): Prisma.AiEvaluationWhereInput {
+  return userId === DEFAULT_USER_ID ? { OR: [{ ownerId: userId }, { ownerId: null }] } : { ownerId: userId };
+}
+
 /**
  * 指定日の最新AI評価を取得
  */
 export async function getLatestEvaluation(
   dateStr: string,
-  type: "daily" | "weekly" = "daily"
+  type: "daily" | "weekly" = "daily",
+  userId: string = DEFAULT_USER_ID
 ): Promise<EvaluationResult | null> {
   const record = await prisma.aiEvaluation.findFirst({
-    where: { date: dateStr, type },
+    where: { ...aiEvaluationOwnerWhere(userId), date: dateStr, type },
     orderBy: { createdAt: "desc" },
   });
 
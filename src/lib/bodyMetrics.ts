@@ -0,0 +1,155 @@
+/**
+ * 体組成ログ（BodyMetric）と傾向体重
+ * 日々の体重は水分・食事量で ±1kg ほどぶれるため、スコア（たんぱく質 g/kg）や目標算出には
+ * EWMA で平滑化した「その日時点の傾向体重」を使う。
+ */
+
+import { prisma } from "./prisma";
+import { getPersonal } from "./dbConfig";
+
+/** EWMA の平滑化係数（1日1回記録したときの新しい記録の重み） */
+export const TREND_ALPHA = 0.1;
+
+/** 手入力の source。同期分はヘルスケアソースの id（"appleHealth"） */
+export const MANUAL_SOURCE = "manual";
+
+export type BodyMetricValues = {
+  weightKg?: number | null;
+  bodyFatPct?: number | null;
+  waistCm?: number | null;
+};
+
+export type BodyMetricEntry = {
+  date: string;
+  source: string;
+  weightKg: number | null;
+  bodyFatPct: number | null;
+  waistCm: number | null;
+};
+
+export type TrendPoint = { date: string; weightKg: number; trendKg: number };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to + "T00:00:00Z").getTime() - new Date(from + "T00:00:00Z").getTime()) / 86400000);
+}
+
+/** 1日1件にまとめる（手入力を優先し、手入力に無い項目だけ同期分で補う）。日付昇順 */
+export function mergeByDate(rows: BodyMetricEntry[]): BodyMetricEntry[] {
+  const byDate = new Map<string, BodyMetricEntry>();
+  const ordered = [...rows].sort((a, b) => Number(b.source === MANUAL_SOURCE) - Number(a.source === MANUAL_SOURCE));
+  for (const r of ordered) {
+    const cur = byDate.get(r.date);
+    if (!cur) {
+      byDate.set(r.date, { ...r });
+      continue;
+    }
+    cur.weightKg ??= r.weightKg;
+    cur.bodyFatPct ??= r.bodyFatPct;
+    cur.waistCm ??= r.waistCm;
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 体重の EWMA（最初の記録をそのまま初期値にする）
+ * 記録が g 日空いたときは次の記録の重みを 1-(1-α)^g にし、毎日記録した場合と同じ速さで追従させる
+ */
+export function computeTrend(points: { date: string; weightKg: number }[], alpha = TREND_ALPHA): TrendPoint[] {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  const out: TrendPoint[] = [];
+  let prev: TrendPoint | null = null;
+  for (const p of sorted) {
+    let trendKg = p.weightKg;
+    if (prev) {
+      const gap = Math.max(1, daysBetween(prev.date, p.date));
+      const weight = 1 - Math.pow(1 - alpha, gap);
+      trendKg = prev.trendKg + weight * (p.weightKg - prev.trendKg);
+    }
+    prev = { date: p.date, weightKg: p.weightKg, trendKg: round2(trendKg) };
+    out.push(prev);
+  }
+  return out;
+}
+
+/** date 時点の傾向体重（date 以前の最後の記録の値）。それより前に記録が無ければ null */
+export function trendAsOf(trend: TrendPoint[], date: string): number | null {
+  let result: number | null = null;
+  for (const t of trend) {
+    if (t.date > date) break;
+    result = t.trendKg;
+  }
+  return result;
+}
+
+/** to 以前の記録を読み、1日1件にまとめる */
+async function loadMerged(ownerId: string, to?: string): Promise<BodyMetricEntry[]> {
+  const rows = await prisma.bodyMetric.findMany({
+    where: { ownerId, ...(to ? { date: { lte: to } } : {}) },
+    select: { date: true, source: true, weightKg: true, bodyFatPct: true, waistCm: true },
+    orderBy: { date: "asc" },
+  });
+  return mergeByDate(rows);
+}
+
+const weightPoints = (entries: BodyMetricEntry[]) =>
+  entries.flatMap((e) => (e.weightKg != null && e.weightKg > 0 ? [{ date: e.date, weightKg: e.weightKg }] : []));
+
+/**
+ * 記録を保存する（ownerId + date + source で1行）
+ * @param source "manual" またはヘルスケアソースの id
+ * undefined の項目は更新しない。null を渡すとその項目を消す（手入力の訂正用）
+ */
+export async function saveBodyMetric(
+  ownerId: string,
+  date: string,
+  source: string,
+  values: BodyMetricValues
+): Promise<void> {
+  const data = Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined)) as BodyMetricValues;
+  await prisma.bodyMetric.upsert({
+    where: { ownerId_date_source: { ownerId, date, source } },
+    update: data,
+    create: { ownerId, date, source, ...data },
+  });
+}
+
+/** 記録を削除する。該当行が無ければ false */
+export async function deleteBodyMetric(ownerId: string, date: string, source: string = MANUAL_SOURCE): Promise<boolean> {
+  const { count } = await prisma.bodyMetric.deleteMany({ where: { ownerId, date, source } });
+  return count > 0;
+}
+
+/**
+ * 期間内の記録（1日1件）をその日時点の傾向体重付きで返す
+ * 傾向は期間より前の記録も含めて計算する
+ */
+export async function listBodyMetrics(
+  ownerId: string,
+  range: { from?: string; to?: string } = {}
+): Promise<(BodyMetricEntry & { trendKg: number | null })[]> {
+  const entries = await loadMerged(ownerId, range.to);
+  const trend = computeTrend(weightPoints(entries));
+  return entries
+    .filter((e) => !range.from || e.date >= range.from)
+    .map((e) => ({ ...e, trendKg: trendAsOf(trend, e.date) }));
+}
+
+/** date 時点の傾向体重。記録が無ければ null */
+export async function getTrendWeightKg(ownerId: string, date: string): Promise<number | null> {
+  const entries = await loadMerged(ownerId, date);
+  return trendAsOf(computeTrend(weightPoints(entries)), date);
+}
+
+/**
+ * 日付 → 採点に使う体重
+ * その日時点の傾向体重、記録が無い期間はからだ設定（Personal.weightKg）、どちらも無ければ null
+ * @param to この日付までの記録を読む（対象期間の最終日）
+ */
+export async function getBodyWeightResolver(ownerId: string, to?: string): Promise<(date: string) => number | null> {
+  const [entries, personal] = await Promise.all([loadMerged(ownerId, to), getPersonal(ownerId)]);
+  const trend = computeTrend(weightPoints(entries));
+  const fallback = personal.weightKg != null && personal.weightKg > 0 ? personal.weightKg : null;
+  return (date) => trendAsOf(trend, date) ?? fallback;
+}
@@ -0,0 +1,42 @@
+/**
+ * 並行数の制限・タイムアウト付きの非同期処理（同期のスクレイピング等）
+ */
+
+export class TimeoutError extends Error {}
+
+/**
+ * items を最大 concurrency 件ずつ並行に処理し、入力と同じ順で結果を返す
+ * fn が reject した場合は残りの開始をやめ、実行中のものを待たずに reject する
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const i = next++;
+      try {
+        results[i] = await fn(items[i], i);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/** promise が ms 以内に終わらなければ TimeoutError で reject する（元の処理は止めないので、呼び出し側で後始末する） */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,137 @@
+/**
+ * データソース用認証情報の暗号化ストア（docs/multi-user-concerns.md §7.3 の「アプリ共通のマスター鍵で暗号化」方式）
+ *
+ * 値は JSON にして AES-256-GCM で暗号化し、UserCredential テーブルには暗号文・IV・認証タグだけを保存する。
+ * マスター鍵は env CREDENTIAL_ENCRYPTION_KEY（32バイトを base64 または 64桁 hex）。
+ * AAD に `${userId}:${source}` を使うため、暗号文を別ユーザー・別ソースの行へ移しても復号できない。
+ * 平文・鍵はログ・例外メッセージ・API レスポンスに含めないこと。
+ */
+import crypto from "crypto";
+import { prisma } from "./prisma";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const KEY_ENV = "CREDENTIAL_ENCRYPTION_KEY";
+
+/** 保存できる認証情報の種類と中身 */
+export type CredentialPayloads = {
+  asken: { email: string; password: string };
+  google: { refreshToken: string };
+};
+
+export type CredentialSource = keyof CredentialPayloads;
+
+export const CREDENTIAL_SOURCES: readonly CredentialSource[] = ["asken", "google"];
+
+/** 鍵未設定・復号失敗など、ストアを使えないときの例外（秘密値はメッセージに含めない） */
+export class CredentialVaultError extends Error {}
+
+export function isCredentialSource(v: unknown): v is CredentialSource {
+  return typeof v === "string" && (CREDENTIAL_SOURCES as readonly string[]).includes(v);
+}
+
+/** env からマスター鍵を読む。未設定・長さ不正なら null */
+function getMasterKey(): Buffer | null {
+  const raw = process.env[KEY_ENV]?.trim();
+  if (!raw) return null;
+  const key = /^[0-9a-fA-F]{64}$/.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  return key.length === 32 ? key : null;
+}
+
+/** 暗号化ストアが使える状態か（マスター鍵が設定済みか） */
+export function isCredentialVaultConfigured(): boolean {
+  return getMasterKey() !== null;
+}
+
+function requireMasterKey(): Buffer {
+  const key = getMasterKey();
+  if (!key) throw new CredentialVaultError(`${KEY_ENV} が未設定または32バイトではありません`);
+  return key;
+}
+
+function aad(userId: string, source: CredentialSource): Buffer {
+  return Buffer.from(`${userId}:${source}`, "utf8");
+}
+
+/** 平文を暗号化する（iv / authTag / ciphertext はいずれも base64） */
+export function encryptSecret(
+  plaintext: string,
+  userId: string,
+  source: CredentialSource
+): { iv: string; authTag: string; ciphertext: string } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, requireMasterKey(), iv);
+  cipher.setAAD(aad(userId, source));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+/** encryptSecret の逆。鍵違い・改ざん・行の付け替えは CredentialVaultError */
+export function decryptSecret(
+  sealed: { iv: string; authTag: string; ciphertext: string },
+  userId: string,
+  source: CredentialSource
+): string {
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, requireMasterKey(), Buffer.from(sealed.iv, "base64"));
+    decipher.setAAD(aad(userId, source));
+    decipher.setAuthTag(Buffer.from(sealed.authTag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(sealed.ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch (e) {
+    if (e instanceof CredentialVaultError) throw e;
+    throw new CredentialVaultError(`${source} の認証情報を復号できませんでした`);
+  }
+}
+
+/** 認証情報を暗号化して保存（同じユーザー・ソースは上書き） */
+export async function saveCredential<S extends CredentialSource>(
+  userId: string,
+  source: S,
+  value: CredentialPayloads[S]
+): Promise<void> {
+  const sealed = encryptSecret(JSON.stringify(value), userId, source);
+  await prisma.userCredential.upsert({
+    where: { userId_source: { userId, source } },
+    update: sealed,
+    create: { userId, source, ...sealed },
+  });
+}
+
+/**
+ * 保存済みの認証情報を復号して返す。未保存・鍵未設定なら null（env フォールバックを妨げない）。
+ * 復号に失敗した場合は CredentialVaultError。
+ */
+export async function getCredential<S extends CredentialSource>(
+  userId: string,
+  source: S
+): Promise<CredentialPayloads[S] | null> {
+  if (!isCredentialVaultConfigured()) return null;
+  const row = await prisma.userCredential.findUnique({
+    where: { userId_source: { userId, source } },
+    select: { iv: true, authTag: true, ciphertext: true },
+  });
+  if (!row) return null;
+  return JSON.parse(decryptSecret(row, userId, source)) as CredentialPayloads[S];
+}
+
+/** 認証情報を削除する。削除したら true */
+export async function deleteCredential(userId: string, source: CredentialSource): Promise<boolean> {
+  const { count } = await prisma.userCredential.deleteMany({ where: { userId, source } });
+  return count > 0;
+}
+
+/** ユーザーが保存済みのソース一覧（秘密値は含まない） */
+export async function listCredentials(userId: string): Promise<{ source: string; updatedAt: Date }[]> {
+  return prisma.userCredential.findMany({
+    where: { userId },
+    select: { source: true, updatedAt: true },
+    orderBy: { source: "asc" },
+  });
+}
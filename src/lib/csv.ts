@@ -0,0 +1,82 @@
+/**
+ * CSV パーサー（RFC 4180 準拠の最小実装）
+ * 他アプリのエクスポート CSV（MyFitnessPal / Cronometer / Strong 等）の読み込みに使う。
+ */
+
+/**
+ * CSV テキストを行 × 列の配列にする
+ * ダブルクォート内の区切り文字・改行・"" エスケープに対応。BOM と空行は除く。
+ * @param delimiter 区切り文字（欧州ロケールの書き出しでは ";" になるアプリがある）
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * 1行目をヘッダーとして、各行をヘッダー名 → 値のオブジェクトにする
+ * ヘッダー名は前後の空白を除く。列が足りない行は空文字で埋める。
+ */
+export function parseCsvRecords(
+  text: string,
+  delimiter = ","
+): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...rows] = parseCsv(text, delimiter);
+  if (!headerRow) return { headers: [], records: [] };
+  const headers = headerRow.map((h) => h.trim());
+  const records = rows.map((r) => {
+    const rec: Record<string, string> = {};
+    headers.forEach((h, i) => {
+      rec[h] = (r[i] ?? "").trim();
+    });
+    return rec;
+  });
+  return { headers, records };
+}
+
+/** 1行目から区切り文字を推定する（";" の方が多ければ ";"） */
+export function detectCsvDelimiter(text: string): "," | ";" {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const count = (ch: string) => firstLine.split(ch).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
@@ -0,0 +1,147 @@
+/**
+ * 個人データのエクスポート（/api/export）
+ * DailyData・MealLog/MealItem・AiEvaluation・UserConfig・ScrapingLog を期間指定で JSON か CSV にし、manifest.json と一緒に ZIP にする。
+ * manifest の schemaVersion はファイル構成・列を変えたら上げる（インポート側で読み分ける）。
+ *
+ * - JSON: 1テーブル1ファイル（meal_logs.json は items を入れ子にする）
+ * - CSV: 1テーブル1ファイル。JSON 列は JSON 文字列、日時は ISO 8601（MealItem は meal_items.csv に分ける）
+ * - ScrapingLog はそのユーザーの取得履歴（ownerId 導入前の行（null）は default のもの）
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { DEFAULT_USER_ID } from "./dbConfig";
+import { getEffectiveDayRange } from "./dateUtils";
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const EXPORT_APP_ID = "nutrition-app";
+
+export type ExportFormat = "json" | "csv";
+
+export type ExportTable = "DailyData" | "MealLog" | "MealItem" | "AiEvaluation" | "UserConfig" | "ScrapingLog";
+
+/** 期間は両端を含む日付（MealLog は実効日 = JST 5:00 区切り）。省略時は全期間 */
+export type ExportOptions = { from?: string; to?: string; format: ExportFormat };
+
+export type ExportFile = { path: string; table: ExportTable; count: number; content: string };
+
+export type ExportManifest = {
+  schemaVersion: number;
+  app: typeof EXPORT_APP_ID;
+  exportedAt: string;
+  ownerId: string;
+  range: { from: string | null; to: string | null };
+  format: ExportFormat;
+  files: { path: string; table: ExportTable; count: number }[];
+};
+
+export const MANIFEST_PATH = "manifest.json";
+
+/** CSV の列（Prisma のスカラー列の順） */
+const CSV_COLUMNS: Record<ExportTable, string[]> = {
+  DailyData: Object.values(Prisma.DailyDataScalarFieldEnum),
+  MealLog: Object.values(Prisma.MealLogScalarFieldEnum),
+  MealItem: Object.values(Prisma.MealItemScalarFieldEnum),
+  AiEvaluation: Object.values(Prisma.AiEvaluationScalarFieldEnum),
+  UserConfig: Object.values(Prisma.UserConfigScalarFieldEnum),
+  ScrapingLog: Object.values(Prisma.ScrapingLogScalarFieldEnum),
+};
+
+/** テーブル → ファイル名（拡張子なし） */
+export const EXPORT_FILE_NAMES: Record<ExportTable, string> = {
+  DailyData: "daily_data",
+  MealLog: "meal_logs",
+  MealItem: "meal_items",
+  AiEvaluation: "ai_evaluations",
+  UserConfig: "user_config",
+  ScrapingLog: "scraping_logs",
+};
+
+/** CSV の1セル。null は空、日時は ISO 8601、オブジェクトは JSON 文字列 */
+function toCsvCell(value: unknown): string {
+  if (value == null) return "";
+  const text =
+    value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** ヘッダー行つきの CSV（RFC 4180、改行は CRLF） */
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((c) => toCsvCell(row[c])).join(","))];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function file(table: ExportTable, format: ExportFormat, rows: Record<string, unknown>[], json: unknown = rows): ExportFile {
+  return {
+    path: `${EXPORT_FILE_NAMES[table]}.${format}`,
+    table,
+    count: rows.length,
+    content: format === "json" ? JSON.stringify(json, null, 2) : toCsv(CSV_COLUMNS[table], rows),
+  };
+}
+
+function dateWhere({ from, to }: ExportOptions) {
+  return from || to ? { date: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {};
+}
+
+/**
+ * エクスポートするファイルを1テーブルずつ返す（呼び出し側で順に ZIP に書き出す）
+ * manifest は含まない（buildExportManifest で作る）
+ */
+export async function* exportFiles(ownerId: string, options: ExportOptions): AsyncGenerator<ExportFile> {
+  const { format } = options;
+
+  const days = await prisma.dailyData.findMany({ where: { ownerId, ...dateWhere(options) }, orderBy: { date: "asc" } });
+  yield file("DailyData", format, days);
+
+  const loggedAt = {
+    ...(options.from ? { gte: getEffectiveDayRange(options.from).start } : {}),
+    ...(options.to ? { lt: getEffectiveDayRange(options.to).end } : {}),
+  };
+  const meals = await prisma.mealLog.findMany({
+    where: { userId: ownerId, ...(options.from || options.to ? { loggedAt } : {}) },
+    include: { items: true },
+    orderBy: [{ loggedAt: "asc" }, { id: "asc" }],
+  });
+  if (format === "json") {
+    yield file("MealLog", format, meals);
+  } else {
+    yield file("MealLog", format, meals.map(({ items: _items, ...meal }) => meal));
+    yield file("MealItem", format, meals.flatMap((m) => m.items));
+  }
+
+  // ownerId 導入前の評価・取得履歴（null）は default のもの
+  const nullableOwnerWhere = ownerId === DEFAULT_USER_ID ? { OR: [{ ownerId }, { ownerId: null }] } : { ownerId };
+  const evaluations = await prisma.aiEvaluation.findMany({
+    where: { ...nullableOwnerWhere, ...dateWhere(options) },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+  });
+  yield file("AiEvaluation", format, evaluations);
+
+  const config = await prisma.userConfig.findUnique({ where: { userId: ownerId } });
+  yield file("UserConfig", format, config ? [config] : [], config);
+
+  const scrapingLogs = await prisma.scrapingLog.findMany({
+    where: { ...nullableOwnerWhere, ...dateWhere(options) },
+    orderBy: { createdAt: "asc" },
+  });
+  yield file("ScrapingLog", format, scrapingLogs);
+}
+
+export function buildExportManifest(
+  ownerId: string,
+  options: ExportOptions,
+  files: ExportFile[],
+  exportedAt: Date = new Date()
+): ExportManifest {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    app: EXPORT_APP_ID,
+    exportedAt: exportedAt.toISOString(),
+    ownerId,
+    range: { from: options.from ?? null, to: options.to ?? null },
+    format: options.format,
+    files: files.map(({ path, table, count }) => ({ path, table, count })),
+  };
+}
@@ -0,0 +1,468 @@
+/**
+ * エクスポートした ZIP の取り込み（/api/import）
+ * manifest の schemaVersion を確認し、JSON / CSV のどちらの形式でも読み込んで、呼び出したユーザーの ownerId に入れる。
+ * 先に差分（テーブルごとの作成・更新・スキップ）を求め、dryRun でなければ1トランザクションで書き込む。
+ *
+ * - DailyData: 日付で照合。skip は既存の日を触らない / overwrite は全項目を置き換え / merge は既存が空の項目だけ埋める
+ * - MealLog: 日時 + 食事区分で照合。skip は既存を残す / overwrite は品目ごと置き換え / merge は無い品目名だけ追加
+ * - AiEvaluation: 評価の履歴なので、日付・種類・作成日時が同じものが無い場合だけ追加する（strategy によらない）
+ * - UserConfig: DailyData と同じ（無ければ作る）
+ * - ScrapingLog: エクスポート元での取得履歴なので取り込まない（件数だけ返す）
+ */
+
+import { Prisma } from "@prisma/client";
+import type { ZodType, ZodTypeDef } from "zod";
+import type { DailyData, MealItem, UserConfig } from "@prisma/client";
+import { prisma } from "./prisma";
+import { DEFAULT_USER_ID } from "./dbConfig";
+import { formatEffectiveDateJst } from "./dateUtils";
+import { parseCsvRecords } from "./csv";
+import { computeMealTotals } from "./mealLogs";
+import { finalizeDayScores } from "./scoreSnapshots";
+import { EXPORT_FILE_NAMES, EXPORT_SCHEMA_VERSION, MANIFEST_PATH, type ExportTable } from "./dataExport";
+import { readZip, ZipFormatError } from "./zip";
+import {
+  importAiEvaluationSchema,
+  importDailyDataSchema,
+  importManifestSchema,
+  importMealItemSchema,
+  importMealLogSchema,
+  importUserConfigSchema,
+  type ImportAiEvaluation,
+  type ImportDailyData,
+  type ImportManifest,
+  type ImportMealItem,
+  type ImportMealLog,
+  type ImportStrategy,
+  type ImportUserConfig,
+} from "./schemas/dataImport";
+
+/** ZIP・manifest・各ファイルの中身が取り込めない（400 で返す） */
+export class ImportBundleError extends Error {}
+
+export type ImportBundle = {
+  manifest: ImportManifest;
+  dailyData: ImportDailyData[];
+  /** CSV の場合も meal_items.csv の品目を items に戻してある */
+  mealLogs: ImportMealLog[];
+  aiEvaluations: ImportAiEvaluation[];
+  userConfig: ImportUserConfig | null;
+  scrapingLogCount: number;
+};
+
+export type ImportAction = "create" | "update" | "skip";
+
+/** 1行分の差分。key は照合に使った値、fields は update で変わる項目 */
+export type ImportChange = { key: string; action: ImportAction; fields?: string[] };
+
+export type ImportTableReport = { create: number; update: number; skip: number; changes: ImportChange[] };
+
+export type ImportReport = {
+  DailyData: ImportTableReport;
+  MealLog: ImportTableReport;
+  AiEvaluation: ImportTableReport;
+  UserConfig: ImportTableReport;
+  ScrapingLog: { ignored: number };
+};
+
+type Tx = Prisma.TransactionClient;
+
+export type ImportPlan = {
+  report: ImportReport;
+  /** スコアを確定し直す日 */
+  dates: string[];
+  writes: ((tx: Tx) => Promise<unknown>)[];
+};
+
+/** エラーの詳細は先頭の数件だけメッセージに入れる */
+const MAX_ERRORS_IN_MESSAGE = 5;
+
+/** 取り込みは件数が多いとトランザクションの既定（5秒）に収まらない */
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000;
+
+const DAILY_JSON_FIELDS = ["askenItems", "askenNutrients", "strongData", "healthRaw", "mealTimes"] as const;
+
+const DAILY_FIELDS = Object.keys(importDailyDataSchema.shape).filter((k) => k !== "date") as (keyof Omit<
+  ImportDailyData,
+  "date"
+>)[];
+
+const CONFIG_FIELDS = Object.keys(importUserConfigSchema.shape) as (keyof ImportUserConfig)[];
+
+const CONFIG_JSON_FIELDS = ["goals", "personal", "scoringProfile", "micronutrientTargets"] as const;
+
+// ---------------------------------------------------------------------------
+// 読み込み
+// ---------------------------------------------------------------------------
+
+function parseJsonFile(path: string, content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new ImportBundleError(`${path}: JSON として読めません`);
+  }
+}
+
+function parseRows<T>(path: string, rows: unknown, schema: ZodType<T, ZodTypeDef, unknown>): T[] {
+  if (!Array.isArray(rows)) throw new ImportBundleError(`${path}: 配列ではありません`);
+  const result: T[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, i) => {
+    const parsed = schema.safeParse(row);
+    if (parsed.success) {
+      result.push(parsed.data);
+    } else {
+      const issue = parsed.error.issues[0];
+      errors.push(`${path} ${i + 1}件目 ${issue.path.join(".")}: ${issue.message}`);
+    }
+  });
+  if (errors.length > 0) {
+    const more = errors.length > MAX_ERRORS_IN_MESSAGE ? `（ほか ${errors.length - MAX_ERRORS_IN_MESSAGE} 件）` : "";
+    throw new ImportBundleError(`${errors.slice(0, MAX_ERRORS_IN_MESSAGE).join("; ")}${more}`);
+  }
+  return result;
+}
+
+/**
+ * ZIP を読み、manifest と各テーブルの行を検証する
+ * manifest に載っているファイルが無い・schemaVersion が違う・行が不正な場合は ImportBundleError
+ */
+export function readImportBundle(buf: Buffer): ImportBundle {
+  let files: Map<string, Buffer>;
+  try {
+    files = readZip(buf);
+  } catch (e) {
+    throw new ImportBundleError(e instanceof ZipFormatError ? e.message : "ZIP として読めません");
+  }
+
+  const manifestBuf = files.get(MANIFEST_PATH);
+  if (!manifestBuf) throw new ImportBundleError(`${MANIFEST_PATH} がありません`);
+  const rawManifest = parseJsonFile(MANIFEST_PATH, manifestBuf.toString("utf8")) as { schemaVersion?: unknown } | null;
+  if (rawManifest?.schemaVersion !== EXPORT_SCHEMA_VERSION) {
+    throw new ImportBundleError(`未対応の schemaVersion です: ${String(rawManifest?.schemaVersion)}`);
+  }
+  const parsedManifest = importManifestSchema.safeParse(rawManifest);
+  if (!parsedManifest.success) {
+    const issue = parsedManifest.error.issues[0];
+    throw new ImportBundleError(`${MANIFEST_PATH} ${issue.path.join(".")}: ${issue.message}`);
+  }
+  const manifest = parsedManifest.data;
+  const { format } = manifest;
+  const listed = new Set(manifest.files.map((f) => f.path));
+
+  /** テーブルのファイル。manifest に無ければ null（空として扱う） */
+  const read = (table: ExportTable): { path: string; content: string } | null => {
+    const path = `${EXPORT_FILE_NAMES[table]}.${format}`;
+    const content = files.get(path);
+    if (!content) {
+      if (listed.has(path)) throw new ImportBundleError(`${path} がありません`);
+      return null;
+    }
+    return { path, content: content.toString("utf8") };
+  };
+  const rowsOf = (f: { path: string; content: string } | null): unknown =>
+    !f ? [] : format === "json" ? parseJsonFile(f.path, f.content) : parseCsvRecords(f.content).records;
+
+  const dailyFile = read("DailyData");
+  const dailyData = parseRows(dailyFile?.path ?? "", rowsOf(dailyFile), importDailyDataSchema);
+
+  const mealFile = read("MealLog");
+  const mealLogs = parseRows(mealFile?.path ?? "", rowsOf(mealFile), importMealLogSchema);
+  if (format === "csv") {
+    const itemFile = read("MealItem");
+    const items = parseRows(itemFile?.path ?? "", rowsOf(itemFile), importMealItemSchema);
+    const byMeal = new Map<string, ImportMealItem[]>();
+    for (const item of items) {
+      const list = byMeal.get(item.mealId ?? "") ?? [];
+      list.push(item);
+      byMeal.set(item.mealId ?? "", list);
+    }
+    for (const meal of mealLogs) meal.items = byMeal.get(meal.id) ?? [];
+  }
+
+  const evalFile = read("AiEvaluation");
+  const aiEvaluations = parseRows(evalFile?.path ?? "", rowsOf(evalFile), importAiEvaluationSchema);
+
+  // user_config.json は行ではなくオブジェクト（未設定なら null）
+  const configFile = read("UserConfig");
+  const configRows =
+    format === "json" && configFile
+      ? [parseJsonFile(configFile.path, configFile.content)].filter((c) => c != null)
+      : rowsOf(configFile);
+  const [userConfig = null] = parseRows(configFile?.path ?? "", configRows, importUserConfigSchema);
+
+  const scrapingLogCount = manifest.files.find((f) => f.table === "ScrapingLog")?.count ?? 0;
+
+  return { manifest, dailyData, mealLogs, aiEvaluations, userConfig, scrapingLogCount };
+}
+
+// ---------------------------------------------------------------------------
+// 差分
+// ---------------------------------------------------------------------------
+
+/** キー順によらない比較用の文字列（jsonb はキー順を保たない） */
+function canonical(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const sameValue = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+/** Json? 列への書き込み値（null は DB の NULL） */
+const toJsonInput = (v: unknown) => (v == null ? Prisma.DbNull : (v as Prisma.InputJsonValue));
+
+function emptyTableReport(): ImportTableReport {
+  return { create: 0, update: 0, skip: 0, changes: [] };
+}
+
+function record(report: ImportTableReport, change: ImportChange): void {
+  report[change.action]++;
+  report.changes.push(change);
+}
+
+/**
+ * strategy に従って、既存の行に対して書き換える項目を選ぶ
+ * overwrite は値が違う項目すべて、merge は既存が null の項目（と false の hasHiking）だけ
+ */
+function pickFields<K extends string>(
+  fields: readonly K[],
+  existing: Partial<Record<K, unknown>>,
+  incoming: Partial<Record<K, unknown>>,
+  strategy: ImportStrategy
+): K[] {
+  if (strategy === "skip") return [];
+  return fields.filter((f) => {
+    if (incoming[f] == null && strategy === "merge") return false;
+    if (sameValue(existing[f], incoming[f])) return false;
+    return strategy === "overwrite" || existing[f] == null || existing[f] === false;
+  });
+}
+
+function dailyDataInput(row: ImportDailyData, fields: readonly (keyof Omit<ImportDailyData, "date">)[]) {
+  const data: Record<string, unknown> = {};
+  for (const f of fields) {
+    data[f] = (DAILY_JSON_FIELDS as readonly string[]).includes(f) ? toJsonInput(row[f]) : (row[f] ?? null);
+  }
+  return data;
+}
+
+function configInput(row: ImportUserConfig, fields: readonly (keyof ImportUserConfig)[]) {
+  const data: Record<string, unknown> = {};
+  for (const f of fields) {
+    data[f] = (CONFIG_JSON_FIELDS as readonly string[]).includes(f) ? toJsonInput(row[f]) : (row[f] ?? null);
+  }
+  return data;
+}
+
+function itemRows(items: ImportMealItem[]) {
+  return items.map((it) => ({
+    name: it.name,
+    amount: it.amount ?? null,
+    unit: it.unit ?? null,
+    cal: it.cal ?? null,
+    protein: it.protein ?? null,
+    fat: it.fat ?? null,
+    carb: it.carb ?? null,
+  }));
+}
+
+type ItemRow = ReturnType<typeof itemRows>[number];
+
+const itemSignature = (items: Pick<MealItem, keyof ItemRow>[]) =>
+  items
+    .map(({ name, amount, unit, cal, protein, fat, carb }) => canonical({ name, amount, unit, cal, protein, fat, carb }))
+    .sort()
+    .join("\n");
+
+const mealKey = (loggedAt: Date, mealType: string) => `${loggedAt.toISOString()} ${mealType}`;
+
+const evaluationKey = (e: { date: string; type: string; createdAt: Date }) => `${e.date} ${e.type} ${e.createdAt.toISOString()}`;
+
+/**
+ * 既存データと突き合わせて差分と書き込み内容を作る（DB は読むだけ）
+ * バンドルの ownerId によらず、ownerId（呼び出したユーザー）のデータとして取り込む
+ */
+export async function planImport(ownerId: string, bundle: ImportBundle, strategy: ImportStrategy): Promise<ImportPlan> {
+  const report: ImportReport = {
+    DailyData: emptyTableReport(),
+    MealLog: emptyTableReport(),
+    AiEvaluation: emptyTableReport(),
+    UserConfig: emptyTableReport(),
+    ScrapingLog: { ignored: bundle.scrapingLogCount },
+  };
+  const writes: ImportPlan["writes"] = [];
+  const dates = new Set<string>();
+
+  // DailyData
+  const existingDays = new Map<string, DailyData>(
+    bundle.dailyData.length === 0
+      ? []
+      : (
+          await prisma.dailyData.findMany({
+            where: { ownerId, date: { in: bundle.dailyData.map((d) => d.date) } },
+          })
+        ).map((d) => [d.date, d])
+  );
+  for (const row of bundle.dailyData) {
+    const existing = existingDays.get(row.date);
+    if (!existing) {
+      const data = { ownerId, date: row.date, ...dailyDataInput(row, DAILY_FIELDS) } as Prisma.DailyDataUncheckedCreateInput;
+      writes.push((tx) => tx.dailyData.create({ data }));
+      record(report.DailyData, { key: row.date, action: "create" });
+      dates.add(row.date);
+      continue;
+    }
+    const fields = pickFields(DAILY_FIELDS, existing as unknown as Record<string, unknown>, row, strategy);
+    if (fields.length === 0) {
+      record(report.DailyData, { key: row.date, action: "skip" });
+      continue;
+    }
+    const data = dailyDataInput(row, fields) as Prisma.DailyDataUpdateInput;
+    writes.push((tx) => tx.dailyData.update({ where: { id: existing.id }, data }));
+    record(report.DailyData, { key: row.date, action: "update", fields });
+    dates.add(row.date);
+  }
+
+  // MealLog / MealItem
+  const existingMeals = new Map<string, { id: string; note: string | null; source: string | null; items: MealItem[] }>();
+  if (bundle.mealLogs.length > 0) {
+    const rows = await prisma.mealLog.findMany({
+      where: { userId: ownerId, loggedAt: { in: bundle.mealLogs.map((m) => m.loggedAt) } },
+      include: { items: true },
+      orderBy: { createdAt: "asc" },
+    });
+    for (const m of rows) {
+      const key = mealKey(m.loggedAt, m.mealType);
+      if (!existingMeals.has(key)) existingMeals.set(key, m);
+    }
+  }
+  for (const meal of bundle.mealLogs) {
+    const key = mealKey(meal.loggedAt, meal.mealType);
+    const incomingItems = itemRows(meal.items ?? []);
+    const existing = existingMeals.get(key);
+    if (!existing) {
+      writes.push((tx) =>
+        tx.mealLog.create({
+          data: {
+            loggedAt: meal.loggedAt,
+            mealType: meal.mealType,
+            source: meal.source ?? null,
+            note: meal.note ?? null,
+            ...computeMealTotals(incomingItems),
+            user: { connectOrCreate: { where: { id: ownerId }, create: { id: ownerId } } },
+            items: { create: incomingItems },
+          },
+        })
+      );
+      record(report.MealLog, { key, action: "create" });
+      dates.add(formatEffectiveDateJst(meal.loggedAt));
+      continue;
+    }
+
+    const fields = pickFields(["source", "note"] as const, existing, { source: meal.source, note: meal.note }, strategy);
+    const data: Prisma.MealLogUpdateInput = {};
+    for (const f of fields) data[f] = meal[f] ?? null;
+    if (strategy === "overwrite" && itemSignature(existing.items) !== itemSignature(incomingItems)) {
+      data.items = { deleteMany: {}, create: incomingItems };
+      Object.assign(data, computeMealTotals(incomingItems));
+    } else if (strategy === "merge") {
+      const names = new Set(existing.items.map((it) => it.name));
+      const added = incomingItems.filter((it) => !names.has(it.name));
+      if (added.length > 0) {
+        data.items = { create: added };
+        Object.assign(data, computeMealTotals([...existing.items, ...added]));
+      }
+    }
+    const changed = [...fields, ...(data.items ? ["items"] : [])];
+    if (changed.length === 0) {
+      record(report.MealLog, { key, action: "skip" });
+      continue;
+    }
+    writes.push((tx) => tx.mealLog.update({ where: { id: existing.id }, data }));
+    record(report.MealLog, { key, action: "update", fields: changed });
+    dates.add(formatEffectiveDateJst(meal.loggedAt));
+  }
+
+  // AiEvaluation（ownerId 導入前の評価（null）は default のもの）
+  const existingEvaluations = new Set<string>();
+  if (bundle.aiEvaluations.length > 0) {
+    const rows = await prisma.aiEvaluation.findMany({
+      where: {
+        ...(ownerId === DEFAULT_USER_ID ? { OR: [{ ownerId }, { ownerId: null }] } : { ownerId }),
+        date: { in: bundle.aiEvaluations.map((e) => e.date) },
+      },
+      select: { date: true, type: true, createdAt: true },
+    });
+    for (const e of rows) existingEvaluations.add(evaluationKey(e));
+  }
+  for (const evaluation of bundle.aiEvaluations) {
+    const key = evaluationKey(evaluation);
+    if (existingEvaluations.has(key)) {
+      record(report.AiEvaluation, { key, action: "skip" });
+      continue;
+    }
+    existingEvaluations.add(key);
+    writes.push((tx) => tx.aiEvaluation.create({ data: { ...evaluation, ownerId } }));
+    record(report.AiEvaluation, { key, action: "create" });
+  }
+
+  // UserConfig
+  if (bundle.userConfig) {
+    const incoming = bundle.userConfig;
+    const existing: UserConfig | null = await prisma.userConfig.findUnique({ where: { userId: ownerId } });
+    if (!existing) {
+      const data = { userId: ownerId, ...configInput(incoming, CONFIG_FIELDS) } as Prisma.UserConfigUncheckedCreateInput;
+      writes.push((tx) => tx.userConfig.create({ data }));
+      record(report.UserConfig, { key: ownerId, action: "create" });
+    } else {
+      const fields = pickFields(CONFIG_FIELDS, existing, incoming, strategy);
+      if (fields.length === 0) {
+        record(report.UserConfig, { key: ownerId, action: "skip" });
+      } else {
+        const data = configInput(incoming, fields) as Prisma.UserConfigUpdateInput;
+        writes.push((tx) => tx.userConfig.update({ where: { userId: ownerId }, data }));
+        record(report.UserConfig, { key: ownerId, action: "update", fields });
+      }
+    }
+  }
+
+  return { report, dates: [...dates].sort(), writes };
+}
+
+// ---------------------------------------------------------------------------
+// 書き込み
+// ---------------------------------------------------------------------------
+
+/**
+ * 差分を求め、dryRun でなければ1トランザクションで書き込む（途中で失敗したら何も入らない）
+ * 書き込んだ日のうち確定済みの日はスコアを確定し直す（失敗しても取り込みは成功扱い）
+ */
+export async function importBundle(
+  ownerId: string,
+  bundle: ImportBundle,
+  options: { strategy: ImportStrategy; dryRun: boolean }
+): Promise<ImportReport> {
+  const plan = await planImport(ownerId, bundle, options.strategy);
+  if (options.dryRun || plan.writes.length === 0) return plan.report;
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const write of plan.writes) await write(tx);
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+  );
+
+  try {
+    await finalizeDayScores(ownerId, plan.dates);
+  } catch (e) {
+    console.warn("import finalizeDayScores failed:", e);
+  }
+  return plan.report;
+}
@@ -51,3 +51,21 @@ export function formatDateJst(date: Date): string {
 export function getEffectiveTodayStr(now?: Date): string {
   return formatDateJst(getEffectiveToday(now));
 }
+
+/**
+ * 任意の時刻が属する実効日（JST 5:00 区切り）を "yyyy-MM-dd" で返す（getEffectiveDayRange の逆）
+ * 手入力の食事など、時刻付きの記録を日付に振り分けるときに使う
+ */
+export function formatEffectiveDateJst(date: Date): string {
+  return formatDateJst(getEffectiveToday(date));
+}
+
+/**
+ * 実効日 "yyyy-MM-dd" の時刻範囲（JST 5:00 〜 翌日 JST 5:00 の手前）
+ * getEffectiveTodayStr(t) === dateStr となる t は start <= t < end
+ */
+export function getEffectiveDayRange(dateStr: string): { start: Date; end: Date } {
+  const hh = String(DAY_BOUNDARY_HOUR).padStart(2, "0");
+  const start = new Date(`${dateStr}T${hh}:00:00+09:00`);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
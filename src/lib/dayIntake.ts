@@ -0,0 +1,204 @@
+/**
+ * 1日分の摂取量の集計（あすけん DailyData + 手入力 MealLog）
+ * スコア・ダッシュボード・カレンダー・AI プロンプトはすべてここで集計した値を使う。
+ *
+ * 重複の扱い:
+ * - あすけんは食事タイプ単位の栄養素（askenNutrients）を優先し、栄養素の無い食事タイプ（間食など）だけ askenItems のカロリーで補う
+ * - source="asken" の MealLog（あすけんからの取り込み分）は、DailyData に同じ食事タイプのあすけんデータがあれば数えない
+ * - 手入力の品目が同じ食事タイプのあすけん品目と名前・カロリーが一致する場合は二重登録とみなして数えない
+ */
+
+import type { MealItem, MealLog } from "@prisma/client";
+import { prisma } from "./prisma";
+import { formatEffectiveDateJst, getEffectiveDayRange } from "./dateUtils";
+import type { AskenItem, AskenNutrients } from "./gemini";
+import { carbsOf, nutrientValue, parseMealNutrients, sumNutrients, type NutrientRecord } from "./nutrients";
+
+export type IntakeSource = "asken" | "manual";
+
+/** 手入力の食事（MealLog + MealItem） */
+export type ManualMeal = Pick<MealLog, "id" | "loggedAt" | "mealType" | "source"> & {
+  items: Pick<MealItem, "name" | "amount" | "unit" | "cal" | "protein" | "fat" | "carb">[];
+};
+
+/** 集計に含めた1品目。PFC が分からない品目は null */
+export type IntakeItem = {
+  source: IntakeSource;
+  mealType: string;
+  name: string;
+  amount: string;
+  calories: number;
+  protein: number | null;
+  fat: number | null;
+  carbs: number | null;
+  /** 手入力分の MealLog.id */
+  mealLogId?: string;
+};
+
+export type DayIntake = {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  /** PFC 内訳が分からずカロリーだけ数えた分 */
+  caloriesWithoutPfc: number;
+  items: IntakeItem[];
+  /** 1日分の栄養素（あすけんの食事ごとの栄養素 + 手入力品目のエネルギー・PFC） */
+  nutrients: NutrientRecord;
+  bySource: Record<IntakeSource, { calories: number; items: number }>;
+  /** 重複として除外した手入力品目の数 */
+  duplicatesSkipped: number;
+};
+
+/** 集計に使う日次データ（DayData の一部） */
+export type IntakeDay = {
+  askenItems: AskenItem[] | null;
+  askenNutrients: AskenNutrients | null;
+  manualMeals?: ManualMeal[] | null;
+};
+
+const sameItemKey = (mealType: string, name: string, calories: number) =>
+  `${mealType}\t${name.trim()}\t${Math.round(calories)}`;
+
+function formatAmount(amount: number | null, unit: string | null): string {
+  if (amount == null) return unit ?? "";
+  return `${amount}${unit ?? ""}`;
+}
+
+/** あすけん + 手入力をまとめて1日の摂取量を集計する */
+export function computeDayIntake(day: IntakeDay): DayIntake {
+  const intake: DayIntake = {
+    calories: 0,
+    protein: 0,
+    fat: 0,
+    carbs: 0,
+    caloriesWithoutPfc: 0,
+    items: [],
+    nutrients: {},
+    bySource: { asken: { calories: 0, items: 0 }, manual: { calories: 0, items: 0 } },
+    duplicatesSkipped: 0,
+  };
+
+  const nutrients = day.askenNutrients && typeof day.askenNutrients === "object" ? day.askenNutrients : null;
+  const askenItems = Array.isArray(day.askenItems) ? day.askenItems.filter((i) => i && typeof i === "object") : [];
+  const nutrientMealTypes = new Set<string>();
+  const askenMealTypes = new Set<string>();
+  const records: NutrientRecord[] = [];
+
+  if (nutrients) {
+    for (const [mealType, meal] of Object.entries(nutrients)) {
+      if (!meal || typeof meal !== "object") continue;
+      nutrientMealTypes.add(mealType);
+      askenMealTypes.add(mealType);
+      const rec = parseMealNutrients(meal);
+      records.push(rec);
+      const kcal = nutrientValue(rec, "energy");
+      intake.calories += kcal;
+      intake.bySource.asken.calories += kcal;
+      intake.protein += nutrientValue(rec, "protein");
+      intake.fat += nutrientValue(rec, "fat");
+      intake.carbs += carbsOf(rec);
+    }
+  }
+
+  const askenKeys = new Set<string>();
+  for (const item of askenItems) {
+    askenMealTypes.add(item.mealType);
+    const calories = typeof item.calories === "number" ? item.calories : 0;
+    askenKeys.add(sameItemKey(item.mealType, item.name ?? "", calories));
+    intake.items.push({
+      source: "asken",
+      mealType: item.mealType,
+      name: item.name,
+      amount: item.amount ?? "",
+      calories,
+      protein: null,
+      fat: null,
+      carbs: null,
+    });
+    intake.bySource.asken.items += 1;
+    if (!nutrientMealTypes.has(item.mealType)) {
+      intake.calories += calories;
+      intake.caloriesWithoutPfc += calories;
+      intake.bySource.asken.calories += calories;
+      records.push({ energy: { value: calories, unit: "kcal" } });
+    }
+  }
+
+  for (const meal of day.manualMeals ?? []) {
+    if (meal.source === "asken" && askenMealTypes.has(meal.mealType)) {
+      intake.duplicatesSkipped += meal.items.length;
+      continue;
+    }
+    for (const it of meal.items) {
+      const calories = it.cal ?? 0;
+      if (askenKeys.has(sameItemKey(meal.mealType, it.name, calories))) {
+        intake.duplicatesSkipped += 1;
+        continue;
+      }
+      intake.items.push({
+        source: "manual",
+        mealType: meal.mealType,
+        name: it.name,
+        amount: formatAmount(it.amount, it.unit),
+        calories,
+        protein: it.protein,
+        fat: it.fat,
+        carbs: it.carb,
+        mealLogId: meal.id,
+      });
+      intake.calories += calories;
+      intake.bySource.manual.calories += calories;
+      intake.bySource.manual.items += 1;
+      records.push({
+        energy: { value: calories, unit: "kcal" },
+        ...(it.protein != null ? { protein: { value: it.protein, unit: "g" } } : {}),
+        ...(it.fat != null ? { fat: { value: it.fat, unit: "g" } } : {}),
+        ...(it.carb != null ? { carbs: { value: it.carb, unit: "g" } } : {}),
+      });
+      if (it.protein == null && it.fat == null && it.carb == null) {
+        intake.caloriesWithoutPfc += calories;
+        continue;
+      }
+      intake.protein += it.protein ?? 0;
+      intake.fat += it.fat ?? 0;
+      intake.carbs += it.carb ?? 0;
+    }
+  }
+
+  intake.nutrients = sumNutrients(records);
+  return intake;
+}
+
+/**
+ * 手入力の食事を実効日（JST 5:00 区切り。GET /api/meals と同じ）ごとに読む
+ * @param range 省略時は全期間
+ */
+export async function getManualMealsByDate(
+  ownerId: string,
+  range: { from?: string; to?: string } = {}
+): Promise<Map<string, ManualMeal[]>> {
+  const loggedAt = {
+    ...(range.from ? { gte: getEffectiveDayRange(range.from).start } : {}),
+    ...(range.to ? { lt: getEffectiveDayRange(range.to).end } : {}),
+  };
+  const meals = await prisma.mealLog.findMany({
+    where: { userId: ownerId, ...(range.from || range.to ? { loggedAt } : {}) },
+    select: {
+      id: true,
+      loggedAt: true,
+      mealType: true,
+      source: true,
+      items: { select: { name: true, amount: true, unit: true, cal: true, protein: true, fat: true, carb: true } },
+    },
+    orderBy: { loggedAt: "asc" },
+  });
+  const byDate = new Map<string, ManualMeal[]>();
+  for (const meal of meals) {
+    const date = formatEffectiveDateJst(meal.loggedAt);
+    const list = byDate.get(date) ?? [];
+    list.push(meal);
+    byDate.set(date, list);
+  }
+  return byDate;
+}
@@ -3,7 +3,10 @@
  * userId = 認証の sub または "default"（未ログイン時）
  */
 
+import { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
+import { DEFAULT_SCORING_PROFILE, parseScoringProfile, type ScoringProfile } from "./scoringProfile";
+import { micronutrientTargetsSchema, type MicronutrientTargetOverrides } from "./schemas/micronutrient";
 
 export type Goals = {
   calories: number;
@@ -163,4 +166,42 @@ export async function setSystemPrompt(userId: string, value: string | null): Pro
   });
 }
 
+/** 指定ユーザーの採点プロファイルを取得。未設定・形式不正なら cut プリセット */
+export async function getScoringProfile(userId: string = DEFAULT_USER_ID): Promise<ScoringProfile> {
+  const row = await prisma.userConfig.findUnique({ where: { userId }, select: { scoringProfile: true } });
+  return (row?.scoringProfile ? parseScoringProfile(row.scoringProfile) : null) ?? DEFAULT_SCORING_PROFILE;
+}
+
+/** 指定ユーザーの採点プロファイルを保存（null で未設定に戻す） */
+export async function setScoringProfile(userId: string, profile: ScoringProfile | null): Promise<void> {
+  const value = profile === null ? Prisma.DbNull : (profile as object);
+  await prisma.userConfig.upsert({
+    where: { userId },
+    update: { scoringProfile: value },
+    create: { userId, scoringProfile: value },
+  });
+}
+
+/** 指定ユーザーの微量栄養素の目標の上書きを取得。未設定・形式不正なら {} */
+export async function getMicronutrientTargetOverrides(
+  userId: string = DEFAULT_USER_ID
+): Promise<MicronutrientTargetOverrides> {
+  const row = await prisma.userConfig.findUnique({ where: { userId }, select: { micronutrientTargets: true } });
+  const parsed = micronutrientTargetsSchema.safeParse(row?.micronutrientTargets ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+/** 指定ユーザーの微量栄養素の目標の上書きを保存（null で未設定に戻す） */
+export async function setMicronutrientTargetOverrides(
+  userId: string,
+  overrides: MicronutrientTargetOverrides | null
+): Promise<void> {
+  const value = overrides === null ? Prisma.DbNull : (overrides as object);
+  await prisma.userConfig.upsert({
+    where: { userId },
+    update: { micronutrientTargets: value },
+    create: { userId, micronutrientTargets: value },
+  });
+}
+
 export { DEFAULT_GOALS, DEFAULT_PERSONAL };
@@ -0,0 +1,82 @@
+/**
+ * 食品の栄養素の換算（DB を使わない純粋な関数。サーバーの foods.ts と入力画面の両方で使う）
+ * グラム・ml の食品は 100g（100ml）あたり、それ以外（"2枚" など）は 1単位あたり。
+ */
+
+import type { Food } from "@prisma/client";
+
+/** 履歴の1品目 */
+export type FoodHistoryEntry = {
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  cal: number;
+  protein: number | null;
+  fat: number | null;
+  carb: number | null;
+  at: Date;
+};
+
+export type FoodValues = Pick<Food, "name" | "baseAmount" | "baseUnit" | "cal" | "protein" | "fat" | "carb" | "servingAmount">;
+
+/** 100 単位に揃える単位と、その単位への換算 */
+const PER_100_UNITS: Record<string, { unit: string; factor: number }> = {
+  g: { unit: "g", factor: 1 },
+  グラム: { unit: "g", factor: 1 },
+  kg: { unit: "g", factor: 1000 },
+  ml: { unit: "ml", factor: 1 },
+  mL: { unit: "ml", factor: 1 },
+  cc: { unit: "ml", factor: 1 },
+  l: { unit: "ml", factor: 1000 },
+  L: { unit: "ml", factor: 1000 },
+};
+
+/** 量が分からない品目の単位 */
+const DEFAULT_UNIT = "食";
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/**
+ * あすけんの量の表記 → 数量と単位。"150g" / "2枚" / "1/2個" / "1杯(200ml)"（括弧内は無視）
+ * 数字で始まらなければ null
+ */
+export function parseAmountText(text: string | null | undefined): { amount: number; unit: string | null } | null {
+  const m = /^\s*(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?))?\s*([^\d\s(（]+)?/.exec(text ?? "");
+  if (!m) return null;
+  const amount = m[2] ? Number(m[1]) / Number(m[2]) : Number(m[1]);
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+  return { amount, unit: m[3] ?? null };
+}
+
+/** 履歴の1品目を量あたりの栄養素にする */
+export function foodFromEntry(entry: FoodHistoryEntry): FoodValues {
+  const per = (v: number | null, factor: number) => (v == null ? null : round1(v * factor));
+  const values = (baseAmount: number, baseUnit: string, factor: number, servingAmount: number): FoodValues => ({
+    name: entry.name.trim(),
+    baseAmount,
+    baseUnit,
+    cal: round1(entry.cal * factor),
+    protein: per(entry.protein, factor),
+    fat: per(entry.fat, factor),
+    carb: per(entry.carb, factor),
+    servingAmount: round1(servingAmount),
+  });
+
+  if (entry.amount == null || entry.amount <= 0) return values(1, entry.unit || DEFAULT_UNIT, 1, 1);
+  const per100 = entry.unit ? PER_100_UNITS[entry.unit] : undefined;
+  if (per100) {
+    const base = entry.amount * per100.factor;
+    return values(100, per100.unit, 100 / base, base);
+  }
+  return values(1, entry.unit || DEFAULT_UNIT, 1 / entry.amount, entry.amount);
+}
+
+/** 食品の栄養素を amount（baseUnit 単位）に換算する */
+export function scaleFood(
+  food: Pick<Food, "baseAmount" | "cal" | "protein" | "fat" | "carb">,
+  amount: number
+): { cal: number; protein: number | null; fat: number | null; carb: number | null } {
+  const ratio = amount / food.baseAmount;
+  const scale = (v: number | null) => (v == null ? null : round1(v * ratio));
+  return { cal: round1(food.cal * ratio), protein: scale(food.protein), fat: scale(food.fat), carb: scale(food.carb) };
+}
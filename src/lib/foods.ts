@@ -0,0 +1,199 @@
+/**
+ * 手入力用の食品カタログ（Food）とお気に入りの食事（FavoriteMeal）
+ * 食品はあすけんの品目（askenItems）と手入力の MealItem の履歴から名前ごとに1件作り、栄養素は量あたりに揃える。
+ * 量あたりの換算は foodValues.ts。あすけんの品目は PFC が無いのでカロリーのみ。
+ */
+
+import type { Food, FavoriteMeal } from "@prisma/client";
+import { prisma } from "./prisma";
+import { foodFromEntry, parseAmountText, type FoodHistoryEntry, type FoodValues } from "./foodValues";
+import type { AskenItem } from "./gemini";
+import type { MealItemInput } from "./schemas/meal";
+import type { FavoriteMealInput, FoodInput } from "./schemas/food";
+
+// 既存の import（テスト等）のため re-export
+export { foodFromEntry, parseAmountText, scaleFood, type FoodHistoryEntry, type FoodValues } from "./foodValues";
+
+export type FoodSource = "history" | "manual";
+
+export type CatalogFood = FoodValues & { useCount: number; lastUsedAt: Date };
+
+export type FavoriteMealView = Omit<FavoriteMeal, "items"> & { items: MealItemInput[] };
+
+/**
+ * 履歴から名前ごとに1件の食品を作る
+ * 栄養素は PFC のある最新の品目（無ければ最新の品目）を使い、useCount は出現回数
+ */
+export function buildFoodCatalog(entries: FoodHistoryEntry[]): CatalogFood[] {
+  const byName = new Map<string, FoodHistoryEntry[]>();
+  for (const e of entries) {
+    const name = e.name.trim();
+    if (!name) continue;
+    byName.set(name, [...(byName.get(name) ?? []), e]);
+  }
+  const out: CatalogFood[] = [];
+  for (const list of byName.values()) {
+    const sorted = [...list].sort((a, b) => b.at.getTime() - a.at.getTime());
+    const best = sorted.find((e) => e.protein != null || e.fat != null || e.carb != null) ?? sorted[0];
+    out.push({ ...foodFromEntry(best), useCount: list.length, lastUsedAt: sorted[0].at });
+  }
+  return out.sort((a, b) => b.useCount - a.useCount || a.name.localeCompare(b.name));
+}
+
+/** 名前で食品を探す（よく使う順）。q 省略時はよく使う食品 */
+export async function searchFoods(ownerId: string, q?: string, limit = 20): Promise<Food[]> {
+  return prisma.food.findMany({
+    where: { ownerId, ...(q ? { name: { contains: q, mode: "insensitive" as const } } : {}) },
+    orderBy: [{ useCount: "desc" }, { name: "asc" }],
+    take: limit,
+  });
+}
+
+/** 食品を登録・編集する（同名は上書き）。以後は履歴からの再作成で上書きしない */
+export async function saveFood(ownerId: string, input: FoodInput): Promise<Food> {
+  const values = {
+    baseAmount: input.baseAmount,
+    baseUnit: input.baseUnit,
+    cal: input.cal,
+    protein: input.protein ?? null,
+    fat: input.fat ?? null,
+    carb: input.carb ?? null,
+    servingAmount: input.servingAmount ?? null,
+    source: "manual" satisfies FoodSource,
+  };
+  return prisma.food.upsert({
+    where: { ownerId_name: { ownerId, name: input.name } },
+    update: values,
+    create: { ownerId, name: input.name, ...values },
+  });
+}
+
+/** @returns 削除した場合 true */
+export async function deleteFood(ownerId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.food.deleteMany({ where: { id, ownerId } });
+  return count > 0;
+}
+
+/** 手入力の MealItem とあすけんの品目の履歴（あすけんは日付の正午を食べた時刻とする） */
+async function loadFoodHistory(ownerId: string): Promise<FoodHistoryEntry[]> {
+  const [mealItems, days] = await Promise.all([
+    prisma.mealItem.findMany({
+      where: { meal: { userId: ownerId } },
+      select: { name: true, amount: true, unit: true, cal: true, protein: true, fat: true, carb: true, meal: { select: { loggedAt: true } } },
+    }),
+    prisma.dailyData.findMany({ where: { ownerId }, select: { date: true, askenItems: true } }),
+  ]);
+  const entries: FoodHistoryEntry[] = mealItems.map((it) => ({
+    name: it.name,
+    amount: it.amount,
+    unit: it.unit,
+    cal: it.cal ?? 0,
+    protein: it.protein,
+    fat: it.fat,
+    carb: it.carb,
+    at: it.meal.loggedAt,
+  }));
+  for (const day of days) {
+    const items = Array.isArray(day.askenItems) ? (day.askenItems as AskenItem[]) : [];
+    for (const item of items) {
+      if (!item || typeof item.name !== "string") continue;
+      const parsed = parseAmountText(item.amount);
+      entries.push({
+        name: item.name,
+        amount: parsed?.amount ?? null,
+        unit: parsed?.unit ?? null,
+        cal: typeof item.calories === "number" ? item.calories : 0,
+        protein: null,
+        fat: null,
+        carb: null,
+        at: new Date(`${day.date}T12:00:00+09:00`),
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * 履歴から食品カタログを作り直す
+ * ユーザーが登録・編集した食品（source="manual"）は栄養素を上書きせず、使用回数だけ更新する
+ */
+export async function rebuildFoodCatalog(ownerId: string): Promise<{ total: number; created: number; updated: number }> {
+  const [catalog, existing] = await Promise.all([
+    loadFoodHistory(ownerId).then(buildFoodCatalog),
+    prisma.food.findMany({ where: { ownerId }, select: { name: true, source: true } }),
+  ]);
+  const sourceByName = new Map(existing.map((f) => [f.name, f.source]));
+  let created = 0;
+  await prisma.$transaction(
+    catalog.map(({ useCount, lastUsedAt, ...values }) => {
+      const source = sourceByName.get(values.name);
+      if (source === undefined) created += 1;
+      const usage = { useCount, lastUsedAt };
+      return prisma.food.upsert({
+        where: { ownerId_name: { ownerId, name: values.name } },
+        update: source === "manual" ? usage : { ...values, ...usage, source: "history" },
+        create: { ownerId, ...values, ...usage, source: "history" },
+      });
+    })
+  );
+  return { total: catalog.length, created, updated: catalog.length - created };
+}
+
+/**
+ * 手入力の食事を記録したときに食品カタログへ反映する（使用回数 +1、履歴由来の食品は栄養素も最新にする）
+ */
+export async function recordFoodUse(ownerId: string, items: MealItemInput[], at: Date): Promise<void> {
+  const named = items.filter((it) => it.name.trim() !== "");
+  if (named.length === 0) return;
+  const existing = await prisma.food.findMany({
+    where: { ownerId, name: { in: named.map((it) => it.name.trim()) } },
+    select: { name: true, source: true },
+  });
+  const sourceByName = new Map(existing.map((f) => [f.name, f.source]));
+  await prisma.$transaction(
+    named.map((it) => {
+      const values = foodFromEntry({
+        name: it.name,
+        amount: it.amount ?? null,
+        unit: it.unit ?? null,
+        cal: it.cal,
+        protein: it.protein ?? null,
+        fat: it.fat ?? null,
+        carb: it.carb ?? null,
+        at,
+      });
+      const usage = { useCount: { increment: 1 }, lastUsedAt: at };
+      return prisma.food.upsert({
+        where: { ownerId_name: { ownerId, name: values.name } },
+        update: sourceByName.get(values.name) === "manual" ? usage : { ...values, ...usage },
+        create: { ownerId, ...values, useCount: 1, lastUsedAt: at, source: "history" },
+      });
+    })
+  );
+}
+
+function toFavoriteView(row: FavoriteMeal): FavoriteMealView {
+  return { ...row, items: Array.isArray(row.items) ? (row.items as unknown as MealItemInput[]) : [] };
+}
+
+export async function listFavoriteMeals(ownerId: string): Promise<FavoriteMealView[]> {
+  const rows = await prisma.favoriteMeal.findMany({ where: { ownerId }, orderBy: { name: "asc" } });
+  return rows.map(toFavoriteView);
+}
+
+/** お気に入りの食事を保存する（同名は上書き） */
+export async function saveFavoriteMeal(ownerId: string, input: FavoriteMealInput): Promise<FavoriteMealView> {
+  const values = { mealType: input.mealType ?? null, items: input.items as unknown as object };
+  const row = await prisma.favoriteMeal.upsert({
+    where: { ownerId_name: { ownerId, name: input.name } },
+    update: values,
+    create: { ownerId, name: input.name, ...values },
+  });
+  return toFavoriteView(row);
+}
+
+/** @returns 削除した場合 true */
+export async function deleteFavoriteMeal(ownerId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.favoriteMeal.deleteMany({ where: { id, ownerId } });
+  return count > 0;
+}
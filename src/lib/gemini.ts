@@ -1,7 +1,12 @@
+import type { DailyData } from "@prisma/client";
 import { prisma } from "./prisma";
-import { getGoals } from "./dbConfig";
+import { getGoals, getScoringProfile, DEFAULT_USER_ID } from "./dbConfig";
 import { getWorkLocation } from "./googleCalendar";
 import { calculateDailyScore, isDayRecorded } from "./scoring";
+import { getStrengthSummaries, type StrengthDaySummary } from "./strengthProgress";
+import { getBodyWeightResolver } from "./bodyMetrics";
+import { computeDayIntake, getManualMealsByDate, type IntakeItem, type ManualMeal } from "./dayIntake";
+import { getMicronutrientReport, type MicronutrientReport } from "./micronutrients";
 
 /** あすけんの食事アイテム */
 export type AskenItem = {
@@ -47,6 +52,8 @@ export type DayData = {
   distanceMeters?: number | null;
   activeMinutes?: number | null;
   weightKg?: number | null;
+  /** 手入力の食事（MealLog）。摂取量は computeDayIntake であすけん分と合算する */
+  manualMeals?: ManualMeal[] | null;
 };
 
 /** PFC 合計値 */
@@ -61,12 +68,8 @@ export const GOAL_PFC: Readonly<PfcTotals> = {
   carbs: 293,
 };
 
-/**
- * DB から日次データを読み込む
- */
-async function loadDayData(dateStr: string): Promise<DayData | null> {
-  const record = await prisma.dailyData.findUnique({ where: { date: dateStr } });
-  if (!record) return null;
+/** DailyData 行を DayData にする */
+export function dailyDataToDayData(record: DailyData): DayData {
   return {
     date: record.date,
     askenItems: record.askenItems as AskenItem[] | null,
@@ -85,99 +88,42 @@ async function loadDayData(dateStr: string): Promise<DayData | null> {
   };
 }
 
-/**
- * 栄養素テキストから数値を抽出する
- */
-function parseNumericValue(value: string): number {
-  const match = value.match(/[\d.]+/);
-  return match ? parseFloat(match[0]) : 0;
+/** DailyData が無い日（手入力の食事だけの日）の DayData */
+export function emptyDayData(date: string): DayData {
+  return { date, askenItems: null, askenNutrients: null, strongData: null, steps: null, exerciseCalories: null };
 }
 
-/**
- * あすけん栄養素データからPFC合計を算出する
- */
-function computePfc(nutrients?: AskenNutrients | null): PfcTotals {
-  const totals: PfcTotals = { protein: 0, fat: 0, carbs: 0 };
-  if (!nutrients) return totals;
-
-  for (const meal of Object.values(nutrients)) {
-    if (!meal) continue;
-    const hasCarb = Object.prototype.hasOwnProperty.call(meal, "炭水化物");
-
-    for (const [key, raw] of Object.entries(meal)) {
-      const amount = parseNumericValue(raw);
-      if (!amount) continue;
-
-      if (key === "たんぱく質" || key === "タンパク質") {
-        totals.protein += amount;
-      } else if (key === "脂質") {
-        totals.fat += amount;
-      } else if (key === "炭水化物") {
-        totals.carbs += amount;
-      } else if (key === "糖質" && !hasCarb) {
-        totals.carbs += amount;
-      }
-    }
+/** 手入力の食事（日付別）。取得に失敗してもあすけん分だけで続ける */
+async function loadManualMeals(userId: string, from: string, to: string): Promise<Map<string, ManualMeal[]>> {
+  try {
+    return await getManualMealsByDate(userId, { from, to });
+  } catch (e) {
+    console.warn("getManualMealsByDate failed:", e);
+    return new Map();
   }
-
-  return totals;
 }
 
 /**
- * 総カロリーを算出する
- * nutrients にデータがない食事タイプ（間食など）は items のカロリーで補完する
+ * DB から指定ユーザーの日次データ（手入力の食事を含む）を読み込む
+ * DailyData も手入力も無ければ null
  */
-function computeTotalCalories(nutrients?: AskenNutrients | null, items?: AskenItem[] | null): number {
-  let total = 0;
-
-  const nutrientMealTypes = new Set<string>();
-  if (nutrients) {
-    for (const [mealType, meal] of Object.entries(nutrients)) {
-      if (!meal) continue;
-      nutrientMealTypes.add(mealType);
-      const energy = meal["エネルギー"];
-      if (energy) total += parseNumericValue(energy);
-    }
-  }
-
-  if (items) {
-    for (const item of items) {
-      if (!nutrientMealTypes.has(item.mealType)) {
-        total += item.calories;
-      }
-    }
-  }
-
-  return total;
-}
-
-/**
- * items から nutrients に含まれない食事タイプのカロリー合計を算出する
- */
-function computeSnackCalories(nutrients?: AskenNutrients | null, items?: AskenItem[] | null): number {
-  if (!items) return 0;
-  const nutrientMealTypes = new Set<string>();
-  if (nutrients) {
-    for (const mealType of Object.keys(nutrients)) {
-      nutrientMealTypes.add(mealType);
-    }
-  }
-  let total = 0;
-  for (const item of items) {
-    if (!nutrientMealTypes.has(item.mealType)) {
-      total += item.calories;
-    }
-  }
-  return total;
+async function loadDayData(dateStr: string, userId: string): Promise<DayData | null> {
+  const [record, manual] = await Promise.all([
+    prisma.dailyData.findUnique({ where: { ownerId_date: { ownerId: userId, date: dateStr } } }),
+    loadManualMeals(userId, dateStr, dateStr),
+  ]);
+  const manualMeals = manual.get(dateStr) ?? [];
+  if (!record && manualMeals.length === 0) return null;
+  return { ...(record ? dailyDataToDayData(record) : emptyDayData(dateStr)), manualMeals };
 }
 
 /**
- * 食事アイテム一覧をテキストにまとめる
+ * 食事アイテム一覧をテキストにまとめる（手入力分には印を付ける）
  */
-function formatMealItems(items?: AskenItem[] | null): string {
-  if (!items || items.length === 0) return "食事データなし";
+function formatMealItems(items: IntakeItem[]): string {
+  if (items.length === 0) return "食事データなし";
 
-  const byType: Record<string, AskenItem[]> = {};
+  const byType: Record<string, IntakeItem[]> = {};
   for (const item of items) {
     if (!byType[item.mealType]) byType[item.mealType] = [];
     byType[item.mealType].push(item);
@@ -187,7 +133,8 @@ function formatMealItems(items?: AskenItem[] | null): string {
   for (const [mealType, mealItems] of Object.entries(byType)) {
     lines.push(`【${mealType}】`);
     for (const item of mealItems) {
-      lines.push(`  - ${item.name} (${item.amount}) ${item.calories}kcal`);
+      const tag = item.source === "manual" ? "［手入力］" : "";
+      lines.push(`  - ${tag}${item.name} (${item.amount}) ${Math.round(item.calories)}kcal`);
     }
   }
   return lines.join("\n");
@@ -239,29 +186,85 @@ function buildPreviousDaySection(prev: DayData | null): string {
   return `\n## 前日 (${prev.date}) の状態（疲労感・回復度の参考）\n${lines.join("\n")}\n`;
 }
 
+/** 筋力サマリー（刺激スコアの漸進性判定用）。取得に失敗しても採点は続ける */
+async function loadStrengthSummaries(userId: string, from: string, to: string): Promise<Map<string, StrengthDaySummary>> {
+  try {
+    return await getStrengthSummaries(userId, from, to);
+  } catch (e) {
+    console.warn("getStrengthSummaries failed:", e);
+    return new Map();
+  }
+}
+
+/** 日付 → 傾向体重（体組成ログ）。取得に失敗したら常に null（当日の実測・想定体重で採点する） */
+async function loadBodyWeightResolver(userId: string, to: string): Promise<(date: string) => number | null> {
+  try {
+    return await getBodyWeightResolver(userId, to);
+  } catch (e) {
+    console.warn("getBodyWeightResolver failed:", e);
+    return () => null;
+  }
+}
+
+/** 微量栄養素の評価。取得に失敗したら null（プロンプトの不足セクションを省く） */
+async function loadMicronutrientReport(userId: string, dateStr: string): Promise<MicronutrientReport | null> {
+  try {
+    return await getMicronutrientReport(userId, dateStr);
+  } catch (e) {
+    console.warn("getMicronutrientReport failed:", e);
+    return null;
+  }
+}
+
+/** 目標に届かない（食塩は超えた）微量栄養素の一覧。不足が無ければ空文字 */
+function buildMicronutrientSection(report: MicronutrientReport | null): string {
+  if (!report) return "";
+  const lines = report.nutrients
+    .filter((n) => n.status === "low" || n.status === "high")
+    .map((n) => {
+      const intake = Math.round((n.intake ?? 0) * 10) / 10;
+      const bound = n.direction === "max" ? "以下" : "以上";
+      const pct = n.ratio != null ? `${Math.round(n.ratio * 100)}%` : "";
+      const streak = n.streak >= 2 ? `・${n.streak}日連続` : "";
+      return `- ${n.label}: ${intake}${n.unit}（目標 ${n.target}${n.unit} ${bound}・${pct}${streak}）`;
+    });
+  if (lines.length === 0) return "";
+  return `\n## 微量栄養素の不足（食事摂取基準との比較。食塩相当量は超過）\n${lines.join("\n")}\n`;
+}
+
 /**
  * 指定日のデータをもとに Gem 貼り付け用の日次評価プロンプトを生成する
  * @param dateStr 対象日付 (YYYY-MM-DD)
  * @param _trigger 実行トリガー（後方互換のため引数は残すが cron/manual で挙動差なし）
+ * @param userId 対象ユーザー（DailyData.ownerId・目標の取得元）。省略時は "default"
  * @returns プロンプトテキスト
  * @throws データが見つからない場合
  */
-export async function generateDailyPrompt(dateStr: string, _trigger: "manual" | "cron" = "cron"): Promise<string> {
+export async function generateDailyPrompt(
+  dateStr: string,
+  _trigger: "manual" | "cron" = "cron",
+  userId: string = DEFAULT_USER_ID
+): Promise<string> {
   const prevStr = prevDateStr(dateStr);
-  const [dayData, prevDayData, goals, workLocation] = await Promise.all([
-    loadDayData(dateStr),
-    loadDayData(prevStr),
-    getGoals(),
-    getWorkLocation(dateStr),
+  const [dayData, prevDayData, goals, workLocation, strength, profile, weightOf, micronutrients] = await Promise.all([
+    loadDayData(dateStr, userId),
+    loadDayData(prevStr, userId),
+    getGoals(userId),
+    getWorkLocation(dateStr, userId),
+    loadStrengthSummaries(userId, dateStr, dateStr),
+    getScoringProfile(userId),
+    loadBodyWeightResolver(userId, dateStr),
+    loadMicronutrientReport(userId, dateStr),
   ]);
   if (!dayData) {
     throw new Error(`${dateStr} のデータが見つかりません。先にデータを同期してください。`);
   }
 
-  const pfc = computePfc(dayData.askenNutrients);
-  const totalCalories = computeTotalCalories(dayData.askenNutrients, dayData.askenItems);
-  const snackCalories = computeSnackCalories(dayData.askenNutrients, dayData.askenItems);
-  const mealText = formatMealItems(dayData.askenItems);
+  const intake = computeDayIntake(dayData);
+  const pfc: PfcTotals = { protein: intake.protein, fat: intake.fat, carbs: intake.carbs };
+  const totalCalories = Math.round(intake.calories);
+  const snackCalories = Math.round(intake.caloriesWithoutPfc);
+  const mealText = formatMealItems(intake.items);
   const workoutText = formatWorkouts(dayData.strongData);
 
   const workLocationLabel = workLocation ?? "データなし";
@@ -274,24 +277,28 @@ export async function generateDailyPrompt(dateStr: string, _trigger: "manual" |
     ? `${measuredTotalExpenditure} kcal（AppleWatch 実測の総消費）`
     : `${estimatedExpenditure} kcal（目標 ${goals.calories} ＋ 運動消費 ${exerciseCalories}）`;
   const calorieDiff = Math.round(totalCalories - usedExpenditure);
-  // 体重は AppleWatch/ヘルスケアで取れていればそれを優先
-  const effectiveWeightKg = dayData.weightKg != null && dayData.weightKg > 0 ? dayData.weightKg : ASSUMED_WEIGHT_KG;
+  // 体重は体組成ログの傾向体重 → 当日の実測 → 想定体重の順
+  const trendWeightKg = weightOf(dateStr);
+  const measuredWeightKg = dayData.weightKg != null && dayData.weightKg > 0 ? dayData.weightKg : null;
+  const effectiveWeightKg = trendWeightKg ?? measuredWeightKg ?? ASSUMED_WEIGHT_KG;
+  const weightSourceLabel = trendWeightKg != null ? "（傾向体重）" : measuredWeightKg != null ? "（実測）" : "（仮定）";
   const proteinPerKg = effectiveWeightKg > 0 ? (pfc.protein / effectiveWeightKg).toFixed(2) : "不明";
   const fatRatioPct = totalCalories > 0 ? Math.round((pfc.fat * 9 / totalCalories) * 100) : 0;
 
   // 確定スコア（アプリ側で確定計算。AIには再計算させず転記させる）
-  const sc = calculateDailyScore(dayData, effectiveWeightKg, goals);
+  const sc = calculateDailyScore(dayData, effectiveWeightKg, goals, strength.get(dateStr) ?? null, profile);
   const unrecordedNote = sc.total === 0
     ? "\n※この日は食事・筋トレ・登山の記録がないため採点対象外（0点）。総評では責めず、まず記録を残すことを前向きに促すこと。"
     : "";
   const scoreBlock = `## 確定スコア（再計算せず、総合スコアと内訳にこの数値をそのまま転記すること）${unrecordedNote}
+- 採点プロファイル: ${sc.profile.name}
 - 総合スコア: ${sc.total}点
-- エネルギー: ${sc.details.energy.score}/30
-- たんぱく質: ${sc.details.protein.score}/20
-- 刺激: ${sc.details.stimulus.score}/20
-- 回復: ${sc.details.recovery.score}/15
-- 活動量: ${sc.details.activity.score}/10
-- 栄養バランス: ${sc.details.nutritionBalance.score}/5
+- エネルギー: ${sc.details.energy.score}/${profile.weights.energy}
+- たんぱく質: ${sc.details.protein.score}/${profile.weights.protein}
+- 刺激: ${sc.details.stimulus.score}/${profile.weights.stimulus}
+- 回復: ${sc.details.recovery.score}/${profile.weights.recovery}
+- 活動量: ${sc.details.activity.score}/${profile.weights.activity}
+- 栄養バランス: ${sc.details.nutritionBalance.score}/${profile.weights.nutritionBalance}
 - 登山ボーナス: +${sc.details.climbingBonus.score}`;
 
   // 体の状態セクション（AppleWatch/Google Fit 経由のデータ）
@@ -311,19 +318,20 @@ export async function generateDailyPrompt(dateStr: string, _trigger: "manual" |
     : "";
 
   const prevSection = buildPreviousDaySection(prevDayData);
+  const micronutrientSection = buildMicronutrientSection(micronutrients);
 
   return `以下のデータをもとに、システムプロンプトの「評価スコアモデル」に従って今日を採点し、筋トレ・歩数・食事・前日の疲労感を加味した詳細な評価を返してください。
 
 ## 目標
 - カロリー: ${goals.calories} kcal/日（減量目的のため、推定消費に対し -300〜-500kcal が理想）
 - たんぱく質(P): ${goals.protein}g / 脂質(F): ${goals.fat}g / 炭水化物(C): ${goals.carbs}g
-- 体重: ${effectiveWeightKg}kg${dayData.weightKg != null ? "（実測）" : "（仮定）"}
+- 体重: ${effectiveWeightKg}kg${weightSourceLabel}
 
 ## 勤務形態
 - ${workLocationLabel}（出社＝通勤・外出あり、在宅＝平日在宅、休日＝土日。在宅日は歩数少なめ・活動量低めでも許容してよい）
 
 ## 今日の摂取状況 (${dateStr})
-- 合計カロリー: ${totalCalories} kcal${snackCalories > 0 ? `（うち間食 ${snackCalories} kcal。間食はPFC内訳不明のためカロリーのみ加算）` : ""}
+- 合計カロリー: ${totalCalories} kcal${snackCalories > 0 ? `（うち間食など ${snackCalories} kcal。PFC内訳不明のためカロリーのみ加算）` : ""}
 - 消費カロリー: ${expenditureLabel}
 - カロリー収支: ${calorieDiff >= 0 ? "+" : ""}${calorieDiff} kcal（マイナス＝減量に有利）
 - たんぱく質: ${Math.round(pfc.protein)}g（${proteinPerKg}g/kg・目標まであと ${Math.max(0, Math.round(goals.protein - pfc.protein))}g）
@@ -332,7 +340,7 @@ export async function generateDailyPrompt(dateStr: string, _trigger: "manual" |
 
 ## 食事内容
 ${mealText}
-
+${micronutrientSection}
 ## 筋トレ内容
 ${workoutText}
 
@@ -356,9 +364,10 @@ ${scoreBlock}
 /**
  * 日曜起点の1週間分データをもとに Gem 貼り付け用の週次評価プロンプトを生成する
  * @param sundayStr 週の開始日（日曜） (YYYY-MM-DD)
+ * @param userId 対象ユーザー（DailyData.ownerId・目標の取得元）。省略時は "default"
  * @returns プロンプトテキスト
  */
-export async function generateWeeklyPrompt(sundayStr: string): Promise<string> {
+export async function generateWeeklyPrompt(sundayStr: string, userId: string = DEFAULT_USER_ID): Promise<string> {
   const [year, month, day] = sundayStr.split("-").map(Number);
   const dateStrs: string[] = [];
   for (let i = 0; i < 7; i++) {
@@ -367,11 +376,17 @@ export async function generateWeeklyPrompt(sundayStr: string): Promise<string> {
   }
 
   const records = await prisma.dailyData.findMany({
-    where: { date: { in: dateStrs } },
+    where: { ownerId: userId, date: { in: dateStrs } },
   });
   const recordMap = new Map(records.map((r) => [r.date, r]));
 
-  const goals = await getGoals();
+  const [goals, profile, strengthByDate, weightOf, manualByDate] = await Promise.all([
+    getGoals(userId),
+    getScoringProfile(userId),
+    loadStrengthSummaries(userId, dateStrs[0], dateStrs[6]),
+    loadBodyWeightResolver(userId, dateStrs[6]),
+    loadManualMeals(userId, dateStrs[0], dateStrs[6]),
+  ]);
 
   const saturdayStr = dateStrs[6];
   const dailySummaries: string[] = [];
@@ -399,35 +414,18 @@ export async function generateWeeklyPrompt(sundayStr: string): Promise<string> {
 
   for (const dateStr of dateStrs) {
     const record = recordMap.get(dateStr);
-    if (!record) {
+    const manualMeals = manualByDate.get(dateStr) ?? [];
+    if (!record && manualMeals.length === 0) {
       dailySummaries.push(`${dateStr}: データなし`);
       dailyScoreLines.push(`${dateStr}: データなし`);
       continue;
     }
 
-    const nutrients = record.askenNutrients as AskenNutrients | null;
-    const items = record.askenItems as AskenItem[] | null;
-    const strong = record.strongData as StrongData | null;
-
-    const cal = computeTotalCalories(nutrients, items);
-    const pfc = computePfc(nutrients);
-
-    const dayData: DayData = {
-      date: record.date,
-      askenItems: items,
-      askenNutrients: nutrients,
-      strongData: strong,
-      steps: record.steps ?? null,
-      exerciseCalories: record.exerciseCalories ?? null,
-      hasHiking: record.hasHiking ?? false,
-      totalCalories: record.totalCalories ?? null,
-      restingHeartRate: record.restingHeartRate ?? null,
-      avgHeartRate: record.avgHeartRate ?? null,
-      sleepMinutes: record.sleepMinutes ?? null,
-      distanceMeters: record.distanceMeters ?? null,
-      activeMinutes: record.activeMinutes ?? null,
-      weightKg: record.weightKg ?? null,
-    };
+    const dayData: DayData = { ...(record ? dailyDataToDayData(record) : emptyDayData(dateStr)), manualMeals };
+    const strong = dayData.strongData;
+    const intake = computeDayIntake(dayData);
+    const cal = Math.round(intake.calories);
+    const pfc: PfcTotals = { protein: intake.protein, fat: intake.fat, carbs: intake.carbs };
 
     // 食事・筋トレ・登山のいずれも無い日は「記録なし」とし、採点・週平均から除外する
     if (!isDayRecorded(dayData)) {
@@ -452,25 +450,25 @@ export async function generateWeeklyPrompt(sundayStr: string): Promise<string> {
       ? `筋トレあり(${strong.workouts.map((w) => w.title).join(", ")} / ${strong.totals?.volumeKg ?? 0}kg)`
       : "筋トレなし";
 
-    const hiking = (record.hasHiking ?? false) ? " / 登山あり⛰️" : "";
+    const hiking = (dayData.hasHiking ?? false) ? " / 登山あり⛰️" : "";
     dailySummaries.push(
       `${dateStr}: ${cal}kcal / P${Math.round(pfc.protein)}g F${Math.round(pfc.fat)}g C${Math.round(pfc.carbs)}g / ${workoutSummary}${hiking}`
     );
 
     // 健康指標を集計
-    if (record.steps != null) { weekTotalSteps += record.steps; stepsDays++; }
-    if (record.sleepMinutes != null) { weekTotalSleepMinutes += record.sleepMinutes; sleepDays++; }
-    if (record.restingHeartRate != null) { weekTotalRestingHR += record.restingHeartRate; restingHRDays++; }
-    if (record.activeMinutes != null) { weekTotalActiveMinutes += record.activeMinutes; activeMinutesDays++; }
-    if (record.totalCalories != null) {
-      weekTotalCalBalance += cal - record.totalCalories;
+    if (dayData.steps != null) { weekTotalSteps += dayData.steps; stepsDays++; }
+    if (dayData.sleepMinutes != null) { weekTotalSleepMinutes += dayData.sleepMinutes; sleepDays++; }
+    if (dayData.restingHeartRate != null) { weekTotalRestingHR += dayData.restingHeartRate; restingHRDays++; }
+    if (dayData.activeMinutes != null) { weekTotalActiveMinutes += dayData.activeMinutes; activeMinutesDays++; }
+    if (dayData.totalCalories != null) {
+      weekTotalCalBalance += cal - dayData.totalCalories;
       calBalanceDays++;
     }
-    if (record.weightKg != null) latestWeightKg = record.weightKg;
+    if (dayData.weightKg != null) latestWeightKg = dayData.weightKg;
 
-    // 日別の確定スコア（アプリ側で確定計算）。体重が取れていればそれを使う。
-    const effectiveWeight = record.weightKg ?? ASSUMED_WEIGHT_KG;
-    const sc = calculateDailyScore(dayData, effectiveWeight, goals);
+    // 日別の確定スコア（アプリ側で確定計算）。体重は傾向体重 → 当日の実測 → 想定体重の順
+    const effectiveWeight = weightOf(dateStr) ?? dayData.weightKg ?? ASSUMED_WEIGHT_KG;
+    const sc = calculateDailyScore(dayData, effectiveWeight, goals, strengthByDate.get(dateStr) ?? null, profile);
     weekTotalScore += sc.total;
     scoredDays++;
     dailyScoreLines.push(`${dateStr}: ${sc.total}点`);
@@ -500,6 +498,7 @@ export async function generateWeeklyPrompt(sundayStr: string): Promise<string> {
     : "";
 
   const weeklyScoreBlock = `## 確定スコア（再計算せず、日別スコアと週平均にこの数値をそのまま転記すること）
+- 採点プロファイル: ${profile.name}
 ${dailyScoreLines.join("\n")}
 - 週平均スコア: ${avgScore}点（記録あり${scoredDays}日の平均）`;
 
@@ -16,10 +16,12 @@ const ACTIVITY_FACTOR: Record<string, number> = {
 /**
  * からだ設定（身長・体重・年齢・性別・活動レベル）から目標カロリー・PFCを算出する。
  * 初期ユーザーは手動で目標を入れず、この算出値を使う想定。
+ * @param trendWeightKg 体組成ログの傾向体重。あれば設定の体重より優先する
  * @returns 算出可能な場合のみ Goals、不足時は null
  */
-export function computeGoalsFromPersonal(personal: Personal): Goals | null {
-  const { heightCm, weightKg, age, sex, activityLevel } = personal;
+export function computeGoalsFromPersonal(personal: Personal, trendWeightKg?: number | null): Goals | null {
+  const { heightCm, age, sex, activityLevel } = personal;
+  const weightKg = trendWeightKg != null && trendWeightKg > 0 ? trendWeightKg : personal.weightKg;
   if (heightCm == null || heightCm <= 0 || weightKg == null || weightKg <= 0) return null;
   const ageNum = age ?? 30;
   const factor = activityLevel ? ACTIVITY_FACTOR[activityLevel] ?? 1.375 : 1.375;
@@ -4,6 +4,9 @@
  * Google Drive / Google Fit など複数の API クライアントから利用する。
  */
 
+import { DEFAULT_USER_ID } from "./dbConfig";
+import { getCredential } from "./credentialVault";
+
 const TOKEN_URL = "https://oauth2.googleapis.com/token";
 
 export type GoogleOAuthConfig = {
@@ -21,6 +24,21 @@ export function getGoogleOAuthConfig(): GoogleOAuthConfig | null {
   return { clientId, clientSecret, refreshToken };
 }
 
+/**
+ * ユーザーの OAuth 設定を取得。クライアント ID / シークレットは env 共通、
+ * リフレッシュトークンは暗号化ストアを優先し、無ければ default ユーザーのみ env を使う。未設定なら null
+ */
+export async function resolveGoogleOAuthConfig(
+  userId: string = DEFAULT_USER_ID
+): Promise<GoogleOAuthConfig | null> {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  if (!clientId || !clientSecret) return null;
+  const stored = await getCredential(userId, "google");
+  if (stored) return { clientId, clientSecret, refreshToken: stored.refreshToken };
+  return userId === DEFAULT_USER_ID ? getGoogleOAuthConfig() : null;
+}
+
 /** リフレッシュトークンからアクセストークンを取得 */
 export async function getGoogleAccessToken(config: GoogleOAuthConfig): Promise<string> {
   const res = await fetch(TOKEN_URL, {
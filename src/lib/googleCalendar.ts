@@ -5,45 +5,15 @@
  * 休日: 土日
  */
 
-const TOKEN_URL = "https://oauth2.googleapis.com/token";
-const CALENDAR_API = "https://www.googleapis.com/calendar/v3/calendars";
-
-/** 環境変数から OAuth 設定を取得（Calendar 用。Drive と同じ GOOGLE_* を使用） */
-function getConfig(): { clientId: string; clientSecret: string; refreshToken: string; calendarId: string } | null {
-  const clientId = process.env.GOOGLE_CLIENT_ID;
-  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
-  const refreshToken = process.env.GOOGLE_REFRESH_TOKEN;
-  if (!clientId || !clientSecret || !refreshToken) return null;
-  return {
-    clientId,
-    clientSecret,
-    refreshToken,
-    calendarId: process.env.GOOGLE_CALENDAR_ID || "primary",
-  };
-}
-
-/** リフレッシュトークンからアクセストークンを取得 */
-async function getAccessToken(
-  config: NonNullable<ReturnType<typeof getConfig>>
-): Promise<string> {
-  const res = await fetch(TOKEN_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      client_id: config.clientId,
-      client_secret: config.clientSecret,
-      refresh_token: config.refreshToken,
-      grant_type: "refresh_token",
-    }),
-  });
+import { getGoogleAccessToken, resolveGoogleOAuthConfig, type GoogleOAuthConfig } from "./googleAuth";
 
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Google アクセストークン取得失敗: ${res.status} ${err}`);
-  }
+const CALENDAR_API = "https://www.googleapis.com/calendar/v3/calendars";
 
-  const data = (await res.json()) as { access_token: string };
-  return data.access_token;
+/** ユーザーの OAuth 設定を取得（Calendar 用。Drive と同じ Google 認証情報を使用） */
+async function getConfig(userId?: string): Promise<(GoogleOAuthConfig & { calendarId: string }) | null> {
+  const oauth = await resolveGoogleOAuthConfig(userId);
+  if (!oauth) return null;
+  return { ...oauth, calendarId: process.env.GOOGLE_CALENDAR_ID || "primary" };
 }
 
 /** 日付文字列からその日の曜日を取得（0=日, 6=土） */
@@ -62,13 +32,15 @@ function isWeekday(dateStr: string): boolean {
  * 指定期間内で「出社」を含む予定がある日付の集合を取得する
  * @param startDate YYYY-MM-DD（含む）
  * @param endDate YYYY-MM-DD（含む）
+ * @param userId 未指定時は "default"
  * @returns 出社日の YYYY-MM-DD の Set。API 未設定時は null。API エラー時も null（勤務形態を「データなし」にするため）
  */
 export async function getOfficeDaysInRange(
   startDate: string,
-  endDate: string
+  endDate: string,
+  userId?: string
 ): Promise<Set<string> | null> {
-  const config = getConfig();
+  const config = await getConfig(userId);
   if (!config) return null;
 
   try {
@@ -82,7 +54,7 @@ export async function getOfficeDaysInRange(
       maxResults: "500",
     });
     const url = `${CALENDAR_API}/${encodeURIComponent(config.calendarId)}/events?${params}`;
-    const accessToken = await getAccessToken(config);
+    const accessToken = await getGoogleAccessToken(config);
     const res = await fetch(url, {
       headers: { Authorization: `Bearer ${accessToken}` },
     });
@@ -117,25 +89,26 @@ export async function getOfficeDaysInRange(
  * - 在宅: 平日のうち出社でない日
  * - 休日: 土日
  * @param dateStr YYYY-MM-DD
+ * @param userId 未指定時は "default"
  * @returns "出社" | "在宅" | "休日"。API 未設定・エラー時は null
  */
-export async function getWorkLocation(dateStr: string): Promise<"出社" | "在宅" | "休日" | null> {
-  const config = getConfig();
-  if (!config) return null;
-
+export async function getWorkLocation(
+  dateStr: string,
+  userId?: string
+): Promise<"出社" | "在宅" | "休日" | null> {
   const [y, m] = dateStr.split("-").map(Number);
   const firstDay = `${y}-${String(m).padStart(2, "0")}-01`;
   const lastDay = new Date(y, m, 0);
   const lastDayStr = `${y}-${String(m).padStart(2, "0")}-${String(lastDay.getDate()).padStart(2, "0")}`;
 
-  const officeDays = await getOfficeDaysInRange(firstDay, lastDayStr);
+  const officeDays = await getOfficeDaysInRange(firstDay, lastDayStr, userId);
   if (officeDays === null) return null;
   if (officeDays.has(dateStr)) return "出社";
   if (!isWeekday(dateStr)) return "休日";
   return "在宅";
 }
 
-/** Google Calendar 連携が有効か（同一の GOOGLE_* で Drive と共有。Calendar スコープが必要） */
-export function isGoogleCalendarConfigured(): boolean {
-  return getConfig() !== null;
+/** Google Calendar 連携が有効か（ユーザーの Google 認証情報。Drive と共有。Calendar スコープが必要。userId 未指定時は "default"） */
+export async function isGoogleCalendarConfigured(userId?: string): Promise<boolean> {
+  return (await resolveGoogleOAuthConfig(userId)) !== null;
 }
@@ -4,7 +4,7 @@
  * 認証部分は googleAuth.ts に共通化済み。
  */
 
-import { getGoogleAccessToken, getGoogleOAuthConfig } from "./googleAuth";
+import { getGoogleAccessToken, resolveGoogleOAuthConfig } from "./googleAuth";
 
 const DRIVE_API = "https://www.googleapis.com/drive/v3";
 
@@ -15,20 +15,21 @@ type DriveConfig = {
   folderId: string;
 };
 
-function getConfig(): DriveConfig | null {
-  const oauth = getGoogleOAuthConfig();
+async function getConfig(userId?: string): Promise<DriveConfig | null> {
+  const oauth = await resolveGoogleOAuthConfig(userId);
   if (!oauth) return null;
   const folderId = process.env.GOOGLE_DRIVE_STRONG_FOLDER_ID;
   return { ...oauth, folderId: folderId || "" };
 }
 
-/** フォルダ内の .txt ファイル一覧を取得（nextPageToken を辿り全件取得） */
-async function listTxtFiles(
+/** フォルダ内のファイル一覧を取得（nextPageToken を辿り全件取得）。fileFilter は Drive の q 条件 */
+async function listFiles(
   accessToken: string,
   folderId: string,
+  fileFilter: string,
   modifiedAfterIso?: string
 ): Promise<{ id: string; name: string; modifiedTime: string }[]> {
-  let query = `'${folderId}' in parents and mimeType='text/plain' and trashed=false`;
+  let query = `'${folderId}' in parents and ${fileFilter} and trashed=false`;
   // 同期対象期間より十分前のファイルを除外（フォルダが成長しても全件DLしないため）
   if (modifiedAfterIso) query += ` and modifiedTime > '${modifiedAfterIso}'`;
   const fields = "nextPageToken,files(id,name,modifiedTime)";
@@ -80,20 +81,23 @@ async function downloadFile(accessToken: string, fileId: string): Promise<string
 }
 
 /**
- * Google Drive の Strong フォルダから .txt ファイルを取得する
+ * Google Drive の Strong フォルダから .txt / .csv ファイルを取得する
  * @param modifiedAfterIso この時刻(RFC3339)より後に更新されたファイルのみ取得（省略時は全件）
+ * @param userId 未指定時は "default"。リフレッシュトークンは resolveGoogleOAuthConfig(userId) で取得
  * @returns ファイル名と内容の配列。環境変数未設定時はnull
  */
 export async function fetchStrongFilesFromDrive(
-  modifiedAfterIso?: string
+  modifiedAfterIso?: string,
+  userId?: string
 ): Promise<{ name: string; content: string }[] | null> {
-  const config = getConfig();
+  const config = await getConfig(userId);
   if (!config || !config.folderId) {
     return null;
   }
 
   const accessToken = await getGoogleAccessToken(config);
-  const files = await listTxtFiles(accessToken, config.folderId, modifiedAfterIso);
+  // 共有テキスト（.txt）と CSV エクスポート（.csv）
+  const files = await listFiles(accessToken, config.folderId, "(mimeType='text/plain' or name contains '.csv')", modifiedAfterIso);
 
   if (files.length === 0) {
     return [];
@@ -113,8 +117,39 @@ export async function fetchStrongFilesFromDrive(
 }
 
 /**
- * Google Drive が設定されているか確認
+ * 指定フォルダから .csv ファイルを取得する（MyFitnessPal / Cronometer のエクスポート等）
+ * @param folderId Drive のフォルダ ID
+ * @param userId 未指定時は "default"。リフレッシュトークンは resolveGoogleOAuthConfig(userId) で取得
+ * @returns 更新日時の新しい順。OAuth 未設定時は null
+ */
+export async function fetchCsvFilesFromDrive(
+  folderId: string,
+  userId?: string
+): Promise<{ name: string; content: string }[] | null> {
+  const oauth = await resolveGoogleOAuthConfig(userId);
+  if (!oauth) return null;
+
+  const accessToken = await getGoogleAccessToken(oauth);
+  // アップロード元によって text/csv 以外（application/vnd.ms-excel 等）になるため拡張子で絞る
+  const files = await listFiles(accessToken, folderId, "name contains '.csv'");
+
+  const results: { name: string; content: string }[] = [];
+  for (const file of files) {
+    try {
+      const content = await downloadFile(accessToken, file.id);
+      results.push({ name: file.name, content });
+    } catch (e) {
+      console.error(`Google Drive: ${file.name} のダウンロード失敗:`, e);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Google Drive が設定されているか確認（Strong フォルダと、ユーザーの Google 認証情報）
+ * @param userId 未指定時は "default"
  */
-export function isGoogleDriveConfigured(): boolean {
-  return getConfig() !== null && !!process.env.GOOGLE_DRIVE_STRONG_FOLDER_ID;
+export async function isGoogleDriveConfigured(userId?: string): Promise<boolean> {
+  return !!process.env.GOOGLE_DRIVE_STRONG_FOLDER_ID && (await resolveGoogleOAuthConfig(userId)) !== null;
 }
@@ -8,7 +8,7 @@
  * src/lib/sources/appleHealth.ts のインターフェースを変えずに、本ファイルの実装を差し替えるだけで移行できる構成にしている。
  */
 
-import { getGoogleAccessToken, getGoogleOAuthConfig } from "./googleAuth";
+import { getGoogleAccessToken, resolveGoogleOAuthConfig } from "./googleAuth";
 
 const FIT_AGGREGATE_URL = "https://www.googleapis.com/fitness/v1/users/me/dataset:aggregate";
 const FIT_SESSIONS_URL = "https://www.googleapis.com/fitness/v1/users/me/sessions";
@@ -51,9 +51,9 @@ function jstMidnightMillis(date: string): number {
   return new Date(`${date}T00:00:00+09:00`).getTime();
 }
 
-/** 設定済みかどうか */
-export function isGoogleFitConfigured(): boolean {
-  return getGoogleOAuthConfig() !== null;
+/** 設定済みかどうか（userId 未指定時は "default"） */
+export async function isGoogleFitConfigured(userId?: string): Promise<boolean> {
+  return (await resolveGoogleOAuthConfig(userId)) !== null;
 }
 
 /**
@@ -335,9 +335,13 @@ export type FitRangeResult = {
 /**
  * 日付リストから日次集計を取得（順次実行・100ms 間隔で軽くレート制御）
  * 未設定時は null を返してスキップ。
+ * @param userId 未指定時は "default"。リフレッシュトークンは resolveGoogleOAuthConfig(userId) で取得
  */
-export async function fetchFitDailyAggregateRange(dates: string[]): Promise<FitRangeResult | null> {
-  const config = getGoogleOAuthConfig();
+export async function fetchFitDailyAggregateRange(
+  dates: string[],
+  userId?: string
+): Promise<FitRangeResult | null> {
+  const config = await resolveGoogleOAuthConfig(userId);
   if (!config) return null;
 
   const result = new Map<string, FitDailyMetrics>();
@@ -25,7 +25,7 @@
  * 1日分の各指標が `data[]` 内の1ポイントとして並ぶ。日付は JST 想定。
  */
 
-import { getGoogleAccessToken, getGoogleOAuthConfig } from "./googleAuth";
+import { getGoogleAccessToken, resolveGoogleOAuthConfig } from "./googleAuth";
 import type { HealthDayData } from "./sources/types";
 
 const DRIVE_API = "https://www.googleapis.com/drive/v3";
@@ -100,6 +100,19 @@ export function parseHealthAutoExport(json: HaeExport): Map<string, HealthDayDat
     if (u === "g" || u === "gram") return qty / 1000;
     return qty;
   }
+  // 体脂肪率は % 表記（18.5）と比率（0.185）の両方があり得る
+  function bodyFatToPct(qty: number, units?: string): number {
+    if (units === "%" || qty > 1) return qty;
+    return qty * 100;
+  }
+  function lengthToCm(qty: number, units?: string): number {
+    if (!units) return qty;
+    const u = units.toLowerCase();
+    if (u === "in" || u === "inch" || u === "inches") return qty * 2.54;
+    if (u === "m") return qty * 100;
+    if (u === "mm") return qty / 10;
+    return qty;
+  }
 
   for (const metric of metrics) {
     const name = metric.name ?? "";
@@ -119,6 +132,10 @@ export function parseHealthAutoExport(json: HaeExport): Map<string, HealthDayDat
         const minutes = Math.round((endMs - startMs) / 60000);
         const day = getOrCreate(date);
         day.sleepMinutes = (day.sleepMinutes ?? 0) + minutes;
+        // 入眠時刻は分割された睡眠（中途覚醒で複数ポイントになる）のうち最も早い開始
+        if (day.sleepStartAt == null || startMs < new Date(day.sleepStartAt).getTime()) {
+          day.sleepStartAt = new Date(startMs).toISOString();
+        }
         continue;
       }
 
@@ -156,6 +173,12 @@ export function parseHealthAutoExport(json: HaeExport): Map<string, HealthDayDat
         case "body_mass":
           if (qty != null) day.weightKg = weightToKg(qty, metric.units);
           break;
+        case "body_fat_percentage":
+          if (qty != null) day.bodyFatPct = bodyFatToPct(qty, metric.units);
+          break;
+        case "waist_circumference":
+          if (qty != null) day.waistCm = lengthToCm(qty, metric.units);
+          break;
         case "walking_running_distance":
         case "distance_walking_running":
           if (qty != null) {
@@ -187,8 +210,9 @@ export function parseHealthAutoExport(json: HaeExport): Map<string, HealthDayDat
 /** Health Auto Export 用フォルダIDの環境変数キー */
 const HAE_FOLDER_ENV = "GOOGLE_DRIVE_HEALTH_FOLDER_ID";
 
-export function isHealthAutoExportConfigured(): boolean {
-  return !!process.env[HAE_FOLDER_ENV] && getGoogleOAuthConfig() !== null;
+/** Health Auto Export の取得が設定済みか（フォルダと、ユーザーの Google 認証情報。userId 未指定時は "default"） */
+export async function isHealthAutoExportConfigured(userId?: string): Promise<boolean> {
+  return !!process.env[HAE_FOLDER_ENV] && (await resolveGoogleOAuthConfig(userId)) !== null;
 }
 
 /** フォルダ内の .json ファイル一覧を取得（nextPageToken を辿り全件取得。日次でファイルが増えるため 1000 件超でも取得漏れが起きないようにする） */
@@ -244,9 +268,13 @@ export type HaeRangeResult = {
 /**
  * Google Drive 上の Health Auto Export JSON 全件をスキャンし、指定日付集合に
  * 該当する HealthDayData を返す。
+ * @param userId 未指定時は "default"。リフレッシュトークンは resolveGoogleOAuthConfig(userId) で取得
  */
-export async function fetchHealthFromAutoExport(targetDates: Set<string>): Promise<HaeRangeResult | null> {
-  const config = getGoogleOAuthConfig();
+export async function fetchHealthFromAutoExport(
+  targetDates: Set<string>,
+  userId?: string
+): Promise<HaeRangeResult | null> {
+  const config = await resolveGoogleOAuthConfig(userId);
   const folderId = process.env[HAE_FOLDER_ENV];
   if (!config || !folderId) return null;
 
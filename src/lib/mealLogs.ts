@@ -0,0 +1,94 @@
+/**
+ * 手入力の食事（MealLog）の集計値と期間指定の一覧
+ * totalCal / totalProtein / totalFat / totalCarb は品目から求め、作成・編集のたびに入れ直す
+ */
+
+import type { MealItem, MealLog, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getEffectiveDayRange } from "./dateUtils";
+import type { CreateMealInput } from "./schemas/meal";
+
+export type MealTotals = Pick<MealLog, "totalCal" | "totalProtein" | "totalFat" | "totalCarb">;
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/** 品目の合計。値のある品目が1つも無い栄養素は null */
+export function computeMealTotals(items: Pick<MealItem, "cal" | "protein" | "fat" | "carb">[]): MealTotals {
+  const sum = (key: "cal" | "protein" | "fat" | "carb") => {
+    const values = items.map((it) => it[key]).filter((v): v is number => v != null);
+    return values.length > 0 ? round1(values.reduce((a, b) => a + b, 0)) : null;
+  };
+  return { totalCal: sum("cal"), totalProtein: sum("protein"), totalFat: sum("fat"), totalCarb: sum("carb") };
+}
+
+/** 一覧の1ページの件数（limit 省略時） */
+export const DEFAULT_MEAL_PAGE_SIZE = 100;
+
+export type MealLogQuery = {
+  /** 実効日（JST 5:00 区切り）の範囲。両端を含む */
+  from: string;
+  to: string;
+  mealTypes?: string[];
+  sources?: string[];
+  /** 前のページの nextCursor（MealLog.id） */
+  cursor?: string;
+  limit?: number;
+};
+
+/**
+ * 期間内の食事を日時順に返す（cursor で続きを取得）
+ * 日の区切りは getEffectiveTodayStr と同じ JST 5:00。nextCursor が null なら最後のページ
+ */
+export async function listMealLogs(
+  userId: string,
+  query: MealLogQuery
+): Promise<{ mealLogs: (MealLog & { items: MealItem[] })[]; nextCursor: string | null }> {
+  const limit = query.limit ?? DEFAULT_MEAL_PAGE_SIZE;
+  const where: Prisma.MealLogWhereInput = {
+    userId,
+    loggedAt: { gte: getEffectiveDayRange(query.from).start, lt: getEffectiveDayRange(query.to).end },
+    ...(query.mealTypes?.length ? { mealType: { in: query.mealTypes } } : {}),
+    ...(query.sources?.length ? { source: { in: query.sources } } : {}),
+  };
+  const rows = await prisma.mealLog.findMany({
+    where,
+    include: { items: true },
+    orderBy: [{ loggedAt: "asc" }, { id: "asc" }],
+    take: limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+  const hasMore = rows.length > limit;
+  const mealLogs = hasMore ? rows.slice(0, limit) : rows;
+  return { mealLogs, nextCursor: hasMore ? mealLogs[mealLogs.length - 1].id : null };
+}
+
+/** 食事を品目つきで記録する（合計も入れる）。ユーザーが無ければ作る */
+export async function createMealLog(userId: string, input: CreateMealInput): Promise<MealLog & { items: MealItem[] }> {
+  const { mealLog: ml, items } = input;
+  const itemRows = items.map((it) => ({
+    name: it.name,
+    amount: it.amount ?? null,
+    unit: it.unit ?? null,
+    cal: it.cal ?? null,
+    protein: it.protein ?? null,
+    fat: it.fat ?? null,
+    carb: it.carb ?? null,
+  }));
+  return prisma.mealLog.create({
+    data: {
+      loggedAt: new Date(ml.loggedAt),
+      mealType: ml.mealType,
+      source: ml.source ?? null,
+      note: ml.note ?? null,
+      ...computeMealTotals(itemRows),
+      user: {
+        connectOrCreate: {
+          where: { id: userId },
+          create: { id: userId },
+        },
+      },
+      items: { create: itemRows },
+    },
+    include: { items: true },
+  });
+}
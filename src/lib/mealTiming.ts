@@ -0,0 +1,282 @@
+/**
+ * 食事時刻の分析（食事の時間帯・最後の食事から入眠まで・食事ごとのたんぱく質配分）
+ * 手入力の食事は MealLog.loggedAt、あすけんは食事タイプ単位なので DailyData.mealTimes（ユーザー入力）を使い、
+ * 無い食事タイプは手入力・入力済みの時刻の中央値（それも無ければ DEFAULT_MEAL_TIMES）で推定する。
+ * 入眠時刻は翌日（起床日）の DailyData.sleepStartAt。時刻はすべてその日の 0:00 (JST) からの分数で扱う
+ * （手入力の食事は実効日（JST 5:00 区切り）に振り分けるので、翌 0:00〜5:00 の食事は 1440 分以上になる）。
+ */
+
+import { prisma } from "./prisma";
+import { computeDayIntake, getManualMealsByDate, type IntakeDay, type IntakeSource, type ManualMeal } from "./dayIntake";
+import type { AskenItem, AskenNutrients } from "./gemini";
+import { nutrientValue, parseMealNutrients } from "./nutrients";
+import type { MealTimes } from "./schemas/mealTiming";
+
+/** logged: 記録時刻（MealLog）/ recorded: あすけん分のユーザー入力 / estimated: 推定 */
+export type MealTimeSource = "logged" | "recorded" | "estimated";
+
+/** 時刻の記録も実績も無い食事タイプの推定時刻 */
+export const DEFAULT_MEAL_TIMES: Record<string, string> = {
+  "朝食": "07:30",
+  "昼食": "12:30",
+  "間食": "15:00",
+  "夕食": "19:00",
+};
+
+/** 筋タンパク合成の目安として数える1食あたりのたんぱく質 (g) */
+export const PROTEIN_MEAL_THRESHOLD_G = 20;
+
+export type TimedMeal = {
+  mealType: string;
+  /** その日の 0:00 からの分数（日付をまたぐと 1440 以上） */
+  minutes: number;
+  source: IntakeSource;
+  timeSource: MealTimeSource;
+  calories: number;
+  /** PFC が分からない食事は null */
+  protein: number | null;
+};
+
+export type DayMealTiming = {
+  date: string;
+  /** 時刻順 */
+  meals: TimedMeal[];
+  firstMealMinutes: number;
+  lastMealMinutes: number;
+  /** 最初の食事から最後の食事まで（1食だけの日は 0） */
+  eatingWindowMinutes: number;
+  /** その日の夜の入眠（0:00 からの分数）。データが無ければ null */
+  sleepStartMinutes: number | null;
+  /** 最後の食事から入眠まで。入眠が最後の食事より前（昼寝など）なら null */
+  lastMealToSleepMinutes: number | null;
+  /** 推定時刻の食事を含むか */
+  hasEstimated: boolean;
+};
+
+export type MealTimingSummary = {
+  days: number;
+  avgFirstMealMinutes: number | null;
+  avgLastMealMinutes: number | null;
+  avgEatingWindowMinutes: number | null;
+  avgLastMealToSleepMinutes: number | null;
+  /** 食事タイプごとの1日平均たんぱく質と、期間の合計に占める割合 */
+  proteinByMealType: { mealType: string; avgProtein: number; share: number }[];
+  /** たんぱく質 PROTEIN_MEAL_THRESHOLD_G 以上の食事の1日平均回数 */
+  avgProteinMealsPerDay: number | null;
+};
+
+/** 分析に使う1日分（DayData の一部 + 時刻） */
+export type TimingDay = IntakeDay & {
+  date: string;
+  mealTimes: MealTimes | null;
+  /** その日の夜の入眠時刻（翌日の DailyData.sleepStartAt） */
+  sleepStartAt: Date | null;
+};
+
+/** "07:30" → 450。形式不正なら null */
+export function parseClock(s: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(s.trim());
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return Number(m[2]) < 60 ? minutes : null;
+}
+
+/** 450 → "07:30"（1440 以上は "25:10" のように 24 時以降で表す） */
+export function formatClock(minutes: number): string {
+  const m = Math.round(minutes);
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/** 日時 → date の 0:00 (JST) からの分数（実効日の翌 0:00〜5:00 は 1440 以上） */
+export function minutesSinceDayStart(at: Date, date: string): number {
+  return Math.round((at.getTime() - new Date(`${date}T00:00:00+09:00`).getTime()) / 60000);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((s, v) => s + v, 0) / values.length) : null;
+
+/** 食事タイプごとの典型的な時刻（記録・入力済みの時刻の中央値、無ければ DEFAULT_MEAL_TIMES） */
+export function typicalMealTimes(observed: { mealType: string; minutes: number }[]): Record<string, number> {
+  const byType = new Map<string, number[]>();
+  for (const o of observed) byType.set(o.mealType, [...(byType.get(o.mealType) ?? []), o.minutes]);
+  const out: Record<string, number> = {};
+  for (const [mealType, clock] of Object.entries(DEFAULT_MEAL_TIMES)) out[mealType] = parseClock(clock)!;
+  for (const [mealType, values] of byType) out[mealType] = median(values);
+  return out;
+}
+
+/** 記録・入力済みの時刻（推定の材料） */
+function observedTimes(day: TimingDay): { mealType: string; minutes: number }[] {
+  const out: { mealType: string; minutes: number }[] = [];
+  for (const [mealType, clock] of Object.entries(day.mealTimes ?? {})) {
+    const minutes = parseClock(clock);
+    if (minutes != null) out.push({ mealType, minutes });
+  }
+  for (const meal of day.manualMeals ?? []) {
+    out.push({ mealType: meal.mealType, minutes: minutesSinceDayStart(meal.loggedAt, day.date) });
+  }
+  return out;
+}
+
+/**
+ * 1日分の食事を時刻付きで並べ、食事の時間帯・入眠までの間隔を出す
+ * あすけんは食事タイプ単位、手入力は MealLog 単位で1食とする（重複の扱いは computeDayIntake と同じ）。食事が無い日は null
+ */
+export function computeDayMealTiming(day: TimingDay, typical: Record<string, number>): DayMealTiming | null {
+  const intake = computeDayIntake(day);
+  const meals: TimedMeal[] = [];
+
+  const askenTypes = new Map<string, { calories: number; protein: number | null }>();
+  for (const [mealType, meal] of Object.entries(day.askenNutrients ?? {})) {
+    if (!meal || typeof meal !== "object") continue;
+    const rec = parseMealNutrients(meal);
+    askenTypes.set(mealType, { calories: nutrientValue(rec, "energy"), protein: rec.protein ? rec.protein.value : null });
+  }
+  for (const item of intake.items) {
+    if (item.source !== "asken" || askenTypes.has(item.mealType)) continue;
+    askenTypes.set(item.mealType, { calories: 0, protein: null });
+  }
+  for (const item of intake.items) {
+    if (item.source !== "asken" || day.askenNutrients?.[item.mealType]) continue;
+    askenTypes.get(item.mealType)!.calories += item.calories;
+  }
+  for (const [mealType, totals] of askenTypes) {
+    const recorded = day.mealTimes?.[mealType] != null ? parseClock(day.mealTimes[mealType]) : null;
+    const estimated = typical[mealType];
+    if (recorded == null && estimated == null) continue;
+    meals.push({
+      mealType,
+      minutes: recorded ?? estimated,
+      source: "asken",
+      timeSource: recorded != null ? "recorded" : "estimated",
+      ...totals,
+    });
+  }
+
+  const manualById = new Map<string, ManualMeal>((day.manualMeals ?? []).map((m) => [m.id, m]));
+  const manualTotals = new Map<string, { calories: number; protein: number | null }>();
+  for (const item of intake.items) {
+    if (item.source !== "manual" || !item.mealLogId) continue;
+    const t = manualTotals.get(item.mealLogId) ?? { calories: 0, protein: null };
+    t.calories += item.calories;
+    if (item.protein != null) t.protein = (t.protein ?? 0) + item.protein;
+    manualTotals.set(item.mealLogId, t);
+  }
+  for (const [id, totals] of manualTotals) {
+    const meal = manualById.get(id);
+    if (!meal) continue;
+    meals.push({
+      mealType: meal.mealType,
+      minutes: minutesSinceDayStart(meal.loggedAt, day.date),
+      source: "manual",
+      timeSource: "logged",
+      ...totals,
+    });
+  }
+
+  if (meals.length === 0) return null;
+  meals.sort((a, b) => a.minutes - b.minutes);
+  const firstMealMinutes = meals[0].minutes;
+  const lastMealMinutes = meals[meals.length - 1].minutes;
+  const sleepStartMinutes = day.sleepStartAt ? minutesSinceDayStart(day.sleepStartAt, day.date) : null;
+  return {
+    date: day.date,
+    meals,
+    firstMealMinutes,
+    lastMealMinutes,
+    eatingWindowMinutes: lastMealMinutes - firstMealMinutes,
+    sleepStartMinutes,
+    lastMealToSleepMinutes:
+      sleepStartMinutes != null && sleepStartMinutes >= lastMealMinutes ? sleepStartMinutes - lastMealMinutes : null,
+    hasEstimated: meals.some((m) => m.timeSource === "estimated"),
+  };
+}
+
+/** 期間の平均と、食事タイプごとのたんぱく質配分 */
+export function summarizeMealTiming(days: DayMealTiming[]): MealTimingSummary {
+  const proteinByType = new Map<string, number>();
+  let proteinTotal = 0;
+  let proteinMeals = 0;
+  for (const day of days) {
+    for (const meal of day.meals) {
+      if (meal.protein == null) continue;
+      proteinByType.set(meal.mealType, (proteinByType.get(meal.mealType) ?? 0) + meal.protein);
+      proteinTotal += meal.protein;
+      if (meal.protein >= PROTEIN_MEAL_THRESHOLD_G) proteinMeals += 1;
+    }
+  }
+  const round1 = (v: number) => Math.round(v * 10) / 10;
+  return {
+    days: days.length,
+    avgFirstMealMinutes: average(days.map((d) => d.firstMealMinutes)),
+    avgLastMealMinutes: average(days.map((d) => d.lastMealMinutes)),
+    avgEatingWindowMinutes: average(days.map((d) => d.eatingWindowMinutes)),
+    avgLastMealToSleepMinutes: average(
+      days.map((d) => d.lastMealToSleepMinutes).filter((v): v is number => v != null)
+    ),
+    proteinByMealType: [...proteinByType.entries()]
+      .map(([mealType, protein]) => ({
+        mealType,
+        avgProtein: round1(protein / days.length),
+        share: proteinTotal > 0 ? round1((protein / proteinTotal) * 100) / 100 : 0,
+      }))
+      .sort((a, b) => b.avgProtein - a.avgProtein),
+    avgProteinMealsPerDay: days.length > 0 ? round1(proteinMeals / days.length) : null,
+  };
+}
+
+const nextDate = (date: string) => {
+  const dt = new Date(date + "T00:00:00Z");
+  dt.setUTCDate(dt.getUTCDate() + 1);
+  return dt.toISOString().slice(0, 10);
+};
+
+/**
+ * 期間の食事時刻の分析
+ * 推定時刻は期間内の記録・入力済みの時刻から作る（期間外は見ない）
+ */
+export async function getMealTiming(
+  ownerId: string,
+  from: string,
+  to: string
+): Promise<{ from: string; to: string; typicalTimes: Record<string, string>; days: DayMealTiming[]; summary: MealTimingSummary }> {
+  const [records, manual] = await Promise.all([
+    prisma.dailyData.findMany({
+      where: { ownerId, date: { gte: from, lte: nextDate(to) } },
+      select: { date: true, askenItems: true, askenNutrients: true, mealTimes: true, sleepStartAt: true },
+    }),
+    getManualMealsByDate(ownerId, { from, to }),
+  ]);
+  const recordMap = new Map(records.map((r) => [r.date, r]));
+  const dates = [...new Set([...records.map((r) => r.date).filter((d) => d <= to), ...manual.keys()])].sort();
+
+  const timingDays: TimingDay[] = dates.map((date) => {
+    const r = recordMap.get(date);
+    return {
+      date,
+      askenItems: (r?.askenItems as AskenItem[] | null) ?? null,
+      askenNutrients: (r?.askenNutrients as AskenNutrients | null) ?? null,
+      manualMeals: manual.get(date) ?? [],
+      mealTimes: (r?.mealTimes as MealTimes | null) ?? null,
+      sleepStartAt: recordMap.get(nextDate(date))?.sleepStartAt ?? null,
+    };
+  });
+  const typical = typicalMealTimes(timingDays.flatMap(observedTimes));
+  const days = timingDays
+    .map((d) => computeDayMealTiming(d, typical))
+    .filter((d): d is DayMealTiming => d != null);
+
+  return {
+    from,
+    to,
+    typicalTimes: Object.fromEntries(Object.entries(typical).map(([k, v]) => [k, formatClock(v)])),
+    days,
+    summary: summarizeMealTiming(days),
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * 微量栄養素（食物繊維・食塩・ビタミン・ミネラル）の目標と評価
+ * 目標は日本人の食事摂取基準（2020年版）の推奨量・目安量・目標量を年齢・性別（Personal）で引き、ユーザーの上書き（UserConfig.micronutrientTargets）を優先する。
+ * 食塩相当量だけは上限（目標量）として扱い、それ以外は下限として不足を判定する。
+ */
+
+import { prisma } from "./prisma";
+import { getMicronutrientTargetOverrides, getPersonal, type Personal } from "./dbConfig";
+import type { AskenItem, AskenNutrients } from "./gemini";
+import { computeDayIntake, getManualMealsByDate } from "./dayIntake";
+import { NUTRIENTS, type NutrientRecord, type NutrientUnit } from "./nutrients";
+import { MICRONUTRIENT_KEYS, type MicronutrientKey, type MicronutrientTargetOverrides } from "./schemas/micronutrient";
+
+export { MICRONUTRIENT_KEYS, type MicronutrientKey };
+
+/** min: 目標以上で達成 / max: 目標以下で達成 */
+export type MicronutrientDirection = "min" | "max";
+
+export type MicronutrientTargets = Record<MicronutrientKey, number>;
+
+export type MicronutrientStatus = "ok" | "low" | "high" | "noData";
+
+export type MicronutrientEvaluation = {
+  key: MicronutrientKey;
+  label: string;
+  unit: NutrientUnit;
+  /** その日の摂取量。データが無い栄養素は null */
+  intake: number | null;
+  target: number;
+  direction: MicronutrientDirection;
+  /** intake / target（データが無いときは null） */
+  ratio: number | null;
+  status: MicronutrientStatus;
+};
+
+export const MICRONUTRIENT_DIRECTIONS: Record<MicronutrientKey, MicronutrientDirection> = {
+  fiber: "min",
+  salt: "max",
+  potassium: "min",
+  calcium: "min",
+  iron: "min",
+  vitaminA: "min",
+  vitaminB1: "min",
+  vitaminB2: "min",
+  vitaminB6: "min",
+  vitaminB12: "min",
+  vitaminC: "min",
+  vitaminD: "min",
+  vitaminE: "min",
+  folate: "min",
+};
+
+/** 年齢区分の下限（18歳未満は 18-29 の値を使う） */
+const AGE_BANDS = [18, 30, 50, 65, 75] as const;
+
+type DriRow = [number, number, number, number, number, number, number, number, number, number, number, number, number, number];
+
+/** 食事摂取基準（2020年版）。列は MICRONUTRIENT_KEYS の順、行は AGE_BANDS の順。鉄の女性は月経ありの値（50-64 以降は月経なし） */
+const DRI: Record<"male" | "female", DriRow[]> = {
+  male: [
+    [21, 7.5, 3000, 800, 7.5, 850, 1.4, 1.6, 1.4, 2.4, 100, 8.5, 6.0, 240],
+    [21, 7.5, 3000, 750, 7.5, 900, 1.4, 1.6, 1.4, 2.4, 100, 8.5, 6.0, 240],
+    [21, 7.5, 3000, 750, 7.5, 900, 1.3, 1.5, 1.4, 2.4, 100, 8.5, 7.0, 240],
+    [20, 7.5, 3000, 750, 7.5, 850, 1.3, 1.5, 1.4, 2.4, 100, 8.5, 7.0, 240],
+    [20, 7.5, 3000, 700, 7.0, 800, 1.2, 1.3, 1.4, 2.4, 100, 8.5, 6.5, 240],
+  ],
+  female: [
+    [18, 6.5, 2600, 650, 10.5, 650, 1.1, 1.2, 1.1, 2.4, 100, 8.5, 5.0, 240],
+    [18, 6.5, 2600, 650, 10.5, 700, 1.1, 1.2, 1.1, 2.4, 100, 8.5, 5.5, 240],
+    [18, 6.5, 2600, 650, 6.5, 700, 1.1, 1.2, 1.1, 2.4, 100, 8.5, 6.0, 240],
+    [17, 6.5, 2600, 650, 6.0, 700, 1.1, 1.2, 1.1, 2.4, 100, 8.5, 6.5, 240],
+    [17, 6.5, 2600, 600, 6.0, 650, 0.9, 1.0, 1.1, 2.4, 100, 8.5, 6.5, 240],
+  ],
+};
+
+/** 直近何日分の不足連続日数を数えるか */
+export const DEFICIENCY_LOOKBACK_DAYS = 14;
+
+/**
+ * 年齢・性別から食事摂取基準の目標を引く
+ * 年齢未設定は 30 歳、性別が female 以外（未設定含む）は男性の値
+ */
+export function driTargets(personal: Pick<Personal, "age" | "sex">): MicronutrientTargets {
+  const age = personal.age ?? 30;
+  let band = 0;
+  AGE_BANDS.forEach((min, i) => {
+    if (age >= min) band = i;
+  });
+  const row = DRI[personal.sex === "female" ? "female" : "male"][band];
+  return Object.fromEntries(MICRONUTRIENT_KEYS.map((key, i) => [key, row[i]])) as MicronutrientTargets;
+}
+
+/** ナトリウム (mg) → 食塩相当量 (g) */
+const SODIUM_TO_SALT = 2.54 / 1000;
+
+function intakeOf(nutrients: NutrientRecord, key: MicronutrientKey): number | null {
+  const amount = nutrients[key];
+  if (amount) return amount.value;
+  if (key === "salt" && nutrients.sodium) return nutrients.sodium.value * SODIUM_TO_SALT;
+  return null;
+}
+
+/** 1日分の栄養素を目標と比べる。食塩相当量が無くナトリウムだけある日はナトリウムから換算する */
+export function evaluateMicronutrients(nutrients: NutrientRecord, targets: MicronutrientTargets): MicronutrientEvaluation[] {
+  return MICRONUTRIENT_KEYS.map((key) => {
+    const intake = intakeOf(nutrients, key);
+    const target = targets[key];
+    const direction = MICRONUTRIENT_DIRECTIONS[key];
+    const ratio = intake != null && target > 0 ? intake / target : null;
+    let status: MicronutrientStatus = "noData";
+    if (intake != null) {
+      if (direction === "max") status = intake > target ? "high" : "ok";
+      else status = intake < target ? "low" : "ok";
+    }
+    return { key, label: NUTRIENTS[key].labels[0], unit: NUTRIENTS[key].unit, intake, target, direction, ratio, status };
+  });
+}
+
+const prevDate = (date: string) => {
+  const dt = new Date(date + "T00:00:00Z");
+  dt.setUTCDate(dt.getUTCDate() - 1);
+  return dt.toISOString().slice(0, 10);
+};
+
+/**
+ * 栄養素ごとに、date から遡って目標未達（low / high）が続いている日数
+ * データの無い日（その栄養素が noData、または日付自体が無い）で途切れる
+ */
+export function deficiencyStreaks(
+  days: Map<string, NutrientRecord>,
+  date: string,
+  targets: MicronutrientTargets
+): Record<MicronutrientKey, number> {
+  const evaluations = new Map<string, MicronutrientEvaluation[]>();
+  for (const [d, nutrients] of days) evaluations.set(d, evaluateMicronutrients(nutrients, targets));
+
+  return Object.fromEntries(
+    MICRONUTRIENT_KEYS.map((key, i) => {
+      let streak = 0;
+      for (let d = date; ; d = prevDate(d)) {
+        const status = evaluations.get(d)?.[i].status;
+        if (status !== "low" && status !== "high") break;
+        streak += 1;
+      }
+      return [key, streak];
+    })
+  ) as Record<MicronutrientKey, number>;
+}
+
+/** 食事摂取基準の値にユーザーの上書きを重ねる */
+export function mergeMicronutrientTargets(
+  defaults: MicronutrientTargets,
+  overrides: MicronutrientTargetOverrides
+): MicronutrientTargets {
+  const out = { ...defaults };
+  for (const key of MICRONUTRIENT_KEYS) {
+    const v = overrides[key];
+    if (typeof v === "number" && v > 0) out[key] = v;
+  }
+  return out;
+}
+
+/** 指定ユーザーの目標（Personal の年齢・性別による基準値 + 上書き） */
+export async function getMicronutrientTargets(userId: string): Promise<{
+  targets: MicronutrientTargets;
+  defaults: MicronutrientTargets;
+  overrides: MicronutrientTargetOverrides;
+}> {
+  const [personal, overrides] = await Promise.all([getPersonal(userId), getMicronutrientTargetOverrides(userId)]);
+  const defaults = driTargets(personal);
+  return { targets: mergeMicronutrientTargets(defaults, overrides), defaults, overrides };
+}
+
+export type MicronutrientReport = {
+  date: string;
+  targets: MicronutrientTargets;
+  /** その日の評価。date の摂取データが無ければ全栄養素 noData */
+  nutrients: (MicronutrientEvaluation & { streak: number })[];
+  /** 目標未達（low / high）の栄養素 */
+  shortfalls: MicronutrientKey[];
+};
+
+/**
+ * 指定日の微量栄養素の評価と不足の連続日数
+ * 摂取量はあすけん + 手入力を computeDayIntake で合算した値（手入力の品目は PFC・エネルギーのみ）
+ */
+export async function getMicronutrientReport(
+  ownerId: string,
+  date: string,
+  lookbackDays: number = DEFICIENCY_LOOKBACK_DAYS
+): Promise<MicronutrientReport> {
+  let from = date;
+  for (let i = 1; i < lookbackDays; i++) from = prevDate(from);
+
+  const [{ targets }, records, manual] = await Promise.all([
+    getMicronutrientTargets(ownerId),
+    prisma.dailyData.findMany({
+      where: { ownerId, date: { gte: from, lte: date } },
+      select: { date: true, askenItems: true, askenNutrients: true },
+    }),
+    getManualMealsByDate(ownerId, { from, to: date }),
+  ]);
+
+  const recordMap = new Map(records.map((r) => [r.date, r]));
+  const days = new Map<string, NutrientRecord>();
+  for (const d of new Set([...recordMap.keys(), ...manual.keys()])) {
+    const r = recordMap.get(d);
+    const intake = computeDayIntake({
+      askenItems: (r?.askenItems as AskenItem[] | null) ?? null,
+      askenNutrients: (r?.askenNutrients as AskenNutrients | null) ?? null,
+      manualMeals: manual.get(d) ?? [],
+    });
+    days.set(d, intake.nutrients);
+  }
+
+  const streaks = deficiencyStreaks(days, date, targets);
+  const nutrients = evaluateMicronutrients(days.get(date) ?? {}, targets).map((e) => ({ ...e, streak: streaks[e.key] }));
+  return {
+    date,
+    targets,
+    nutrients,
+    shortfalls: nutrients.filter((e) => e.status === "low" || e.status === "high").map((e) => e.key),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * 栄養素の値のパース（あすけん・食品 CSV の "12.3g" / "1,234kcal" / "120mg" / "5µg" 形式）
+ * 食事ごとの栄養素（askenNutrients の1食分）を単位付きの NutrientRecord にし、摂取量の集計（dayIntake）はこれを使う。
+ */
+
+export type NutrientUnit = "kcal" | "g" | "mg" | "µg";
+
+export type NutrientAmount = { value: number; unit: NutrientUnit };
+
+export type NutrientKey =
+  | "energy"
+  | "protein"
+  | "fat"
+  | "carbs"
+  | "sugar"
+  | "fiber"
+  | "salt"
+  | "sodium"
+  | "potassium"
+  | "calcium"
+  | "magnesium"
+  | "iron"
+  | "zinc"
+  | "cholesterol"
+  | "saturatedFat"
+  | "vitaminA"
+  | "vitaminB1"
+  | "vitaminB2"
+  | "vitaminB6"
+  | "vitaminB12"
+  | "vitaminC"
+  | "vitaminD"
+  | "vitaminE"
+  | "vitaminK"
+  | "folate";
+
+/** 1食分・1日分の栄養素。値は NUTRIENTS[key].unit に揃える */
+export type NutrientRecord = Partial<Record<NutrientKey, NutrientAmount>>;
+
+/** 栄養素の定義。labels はあすけん・食品 CSV で使われる表記（先頭が保存時の正式名） */
+export const NUTRIENTS: Record<NutrientKey, { labels: string[]; unit: NutrientUnit }> = {
+  energy: { labels: ["エネルギー"], unit: "kcal" },
+  protein: { labels: ["たんぱく質", "タンパク質"], unit: "g" },
+  fat: { labels: ["脂質"], unit: "g" },
+  carbs: { labels: ["炭水化物"], unit: "g" },
+  sugar: { labels: ["糖質"], unit: "g" },
+  fiber: { labels: ["食物繊維"], unit: "g" },
+  salt: { labels: ["食塩相当量"], unit: "g" },
+  sodium: { labels: ["ナトリウム"], unit: "mg" },
+  potassium: { labels: ["カリウム"], unit: "mg" },
+  calcium: { labels: ["カルシウム"], unit: "mg" },
+  magnesium: { labels: ["マグネシウム"], unit: "mg" },
+  iron: { labels: ["鉄"], unit: "mg" },
+  zinc: { labels: ["亜鉛"], unit: "mg" },
+  cholesterol: { labels: ["コレステロール"], unit: "mg" },
+  saturatedFat: { labels: ["飽和脂肪酸"], unit: "g" },
+  vitaminA: { labels: ["ビタミンA"], unit: "µg" },
+  vitaminB1: { labels: ["ビタミンB1"], unit: "mg" },
+  vitaminB2: { labels: ["ビタミンB2"], unit: "mg" },
+  vitaminB6: { labels: ["ビタミンB6"], unit: "mg" },
+  vitaminB12: { labels: ["ビタミンB12"], unit: "µg" },
+  vitaminC: { labels: ["ビタミンC"], unit: "mg" },
+  vitaminD: { labels: ["ビタミンD"], unit: "µg" },
+  vitaminE: { labels: ["ビタミンE"], unit: "mg" },
+  vitaminK: { labels: ["ビタミンK"], unit: "µg" },
+  folate: { labels: ["葉酸"], unit: "µg" },
+};
+
+const LABEL_TO_KEY = new Map<string, NutrientKey>(
+  (Object.entries(NUTRIENTS) as [NutrientKey, { labels: string[] }][]).flatMap(([key, def]) =>
+    def.labels.map((label) => [label, key] as const)
+  )
+);
+
+/** 質量単位の g 換算 */
+const MASS_IN_GRAMS: Record<Exclude<NutrientUnit, "kcal">, number> = { g: 1, mg: 1e-3, "µg": 1e-6 };
+
+/** 単位表記の揺れを揃える（mcg / ug / μg(ギリシャ文字) → µg、KCAL → kcal）。不明なら null */
+export function normalizeNutrientUnit(unit: string): NutrientUnit | null {
+  const u = unit.trim().toLowerCase();
+  if (u === "kcal") return "kcal";
+  if (u === "g") return "g";
+  if (u === "mg") return "mg";
+  if (u === "µg" || u === "μg" || u === "mcg" || u === "ug") return "µg";
+  return null;
+}
+
+/** 表記上のラベル（"タンパク質" など）→ 栄養素キー。対象外なら null */
+export function nutrientKeyOf(label: string): NutrientKey | null {
+  return LABEL_TO_KEY.get(label.trim()) ?? null;
+}
+
+/**
+ * "12.3g" / "1,234 kcal" / "5µg" → { value, unit }
+ * 数値だけ（"12.3" や 12.3）のときは unit: null。数値が無い（"-" や空文字）なら null
+ */
+export function parseNutrientValue(raw: unknown): { value: number; unit: NutrientUnit | null } | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? { value: raw, unit: null } : null;
+  if (typeof raw !== "string") return null;
+  const m = raw.replace(/,/g, "").match(/(\d+(?:\.\d+)?|\.\d+)\s*([a-zA-Zµμ]+)?/);
+  if (!m) return null;
+  const value = parseFloat(m[1]);
+  if (!Number.isFinite(value)) return null;
+  return { value, unit: m[2] ? normalizeNutrientUnit(m[2]) : null };
+}
+
+/** 値を to の単位に換算する。from が null（単位なし）はそのまま、kcal と質量の換算はできないので null */
+export function convertNutrientUnit(value: number, from: NutrientUnit | null, to: NutrientUnit): number | null {
+  if (from === null || from === to) return value;
+  if (from === "kcal" || to === "kcal") return null;
+  return (value * MASS_IN_GRAMS[from]) / MASS_IN_GRAMS[to];
+}
+
+/**
+ * 1食分の栄養素（{ "たんぱく質": "20.5g", ... }）を NutrientRecord にする
+ * 対象外のラベル・数値の無い値・単位が合わない値は捨てる
+ */
+export function parseMealNutrients(meal: Record<string, unknown> | null | undefined): NutrientRecord {
+  const out: NutrientRecord = {};
+  if (!meal || typeof meal !== "object") return out;
+  for (const [label, raw] of Object.entries(meal)) {
+    const key = nutrientKeyOf(label);
+    if (!key) continue;
+    const parsed = parseNutrientValue(raw);
+    if (!parsed) continue;
+    const unit = NUTRIENTS[key].unit;
+    const value = convertNutrientUnit(parsed.value, parsed.unit, unit);
+    if (value === null) continue;
+    out[key] = { value: (out[key]?.value ?? 0) + value, unit };
+  }
+  return out;
+}
+
+/** 栄養素を足し合わせる（どれかにある栄養素だけ結果に入る） */
+export function sumNutrients(records: NutrientRecord[]): NutrientRecord {
+  const out: NutrientRecord = {};
+  for (const rec of records) {
+    for (const [key, amount] of Object.entries(rec) as [NutrientKey, NutrientAmount][]) {
+      out[key] = { value: (out[key]?.value ?? 0) + amount.value, unit: amount.unit };
+    }
+  }
+  return out;
+}
+
+/** 栄養素の値（無ければ 0） */
+export function nutrientValue(rec: NutrientRecord, key: NutrientKey): number {
+  return rec[key]?.value ?? 0;
+}
+
+/** 炭水化物（無ければ糖質で代用） */
+export function carbsOf(rec: NutrientRecord): number {
+  return rec.carbs ? rec.carbs.value : nutrientValue(rec, "sugar");
+}
@@ -0,0 +1,154 @@
+/**
+ * バーコード（JAN）で引く市販品の商品表（Product）
+ * コンビニ等の包装食品を CSV から取り込み、手入力フォームでスキャン・入力した JAN から MealItem を作る。
+ * 栄養素は1包装あたり（amount unit が内容量）。
+ */
+
+import type { Product } from "@prisma/client";
+import { prisma } from "./prisma";
+import { detectCsvDelimiter, parseCsvRecords } from "./csv";
+import type { MealItemInput } from "./schemas/meal";
+
+export type ProductValues = Pick<Product, "jan" | "name" | "brand" | "amount" | "unit" | "cal" | "protein" | "fat" | "carb">;
+
+export type ProductCsvParseResult = {
+  products: ProductValues[];
+  errors: string[];
+};
+
+/** CSV 列名（小文字・単位の括弧を除く） → 項目 */
+const PRODUCT_COLUMNS: Record<keyof ProductValues, string[]> = {
+  jan: ["jan", "janコード", "jan code", "barcode", "バーコード"],
+  name: ["name", "商品名", "品名"],
+  brand: ["brand", "メーカー", "ブランド"],
+  amount: ["amount", "内容量"],
+  unit: ["unit", "単位"],
+  cal: ["cal", "calories", "energy", "kcal", "エネルギー", "カロリー"],
+  protein: ["protein", "たんぱく質", "タンパク質"],
+  fat: ["fat", "脂質"],
+  carb: ["carb", "carbs", "carbohydrates", "炭水化物"],
+};
+
+/** 内容量の無い商品の単位（1包装） */
+const DEFAULT_UNIT = "個";
+
+/** "JAN", "たんぱく質(g)", "エネルギー（kcal）" → "jan" / "たんぱく質" / "エネルギー" */
+function normalizeHeader(header: string): string {
+  return header.replace(/\s*[(（][^()（）]*[)）]\s*$/, "").trim().toLowerCase();
+}
+
+/** 数字以外（空白・ハイフン）を除いた JAN。8桁・13桁でチェックディジットが合わなければ null */
+export function normalizeJan(value: string): string | null {
+  const digits = value.replace(/[\s-]/g, "");
+  if (!/^(\d{8}|\d{13})$/.test(digits)) return null;
+  const body = digits.slice(0, -1).split("").map(Number).reverse();
+  // 右端（チェックディジットの隣）から奇数桁 ×3、偶数桁 ×1
+  const sum = body.reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  const check = (10 - (sum % 10)) % 10;
+  return check === Number(digits[digits.length - 1]) ? digits : null;
+}
+
+/** "1,234.5" / "12.3g" → 数値。空・数値でなければ null */
+function toNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const n = parseFloat(value.replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** "200ml" のように内容量に単位が付いていれば分ける */
+function splitAmount(value: string | undefined): { amount: number | null; unit: string | null } {
+  const m = /^\s*(\d+(?:\.\d+)?)\s*(\D+)?$/.exec((value ?? "").replace(/,/g, ""));
+  if (!m) return { amount: null, unit: null };
+  return { amount: Number(m[1]), unit: m[2]?.trim() || null };
+}
+
+/**
+ * 商品表の CSV をパースする。必須列は JAN・商品名・エネルギー・たんぱく質・脂質・炭水化物（1包装あたり）
+ * JAN が不正・商品名や栄養素が無い行はエラーにして飛ばす。同じ JAN が複数あれば後の行を使う
+ */
+export function parseProductCsv(content: string): ProductCsvParseResult {
+  const { headers, records } = parseCsvRecords(content, detectCsvDelimiter(content));
+  const errors: string[] = [];
+  const column = Object.fromEntries(
+    (Object.keys(PRODUCT_COLUMNS) as (keyof ProductValues)[]).map((key) => [
+      key,
+      headers.find((h) => PRODUCT_COLUMNS[key].includes(normalizeHeader(h))),
+    ])
+  ) as Record<keyof ProductValues, string | undefined>;
+
+  const missing = (["jan", "name", "cal", "protein", "fat", "carb"] as const).filter((key) => !column[key]);
+  if (missing.length > 0) {
+    errors.push(`必須の列がありません: ${missing.join(", ")}`);
+    return { products: [], errors };
+  }
+
+  const byJan = new Map<string, ProductValues>();
+  records.forEach((rec, i) => {
+    const get = (key: keyof ProductValues) => (column[key] ? rec[column[key]!] ?? "" : "");
+    const jan = normalizeJan(get("jan"));
+    if (!jan) {
+      errors.push(`${i + 2}行目: JAN コードが不正です (${get("jan")})`);
+      return;
+    }
+    const name = get("name");
+    const [cal, protein, fat, carb] = (["cal", "protein", "fat", "carb"] as const).map((key) => toNumber(get(key)));
+    if (!name || cal === null || protein === null || fat === null || carb === null) {
+      errors.push(`${i + 2}行目: 商品名か栄養素（エネルギー・たんぱく質・脂質・炭水化物）がありません (${jan})`);
+      return;
+    }
+    const { amount, unit } = splitAmount(get("amount"));
+    byJan.set(jan, {
+      jan,
+      name,
+      brand: get("brand") || null,
+      amount,
+      unit: get("unit") || unit,
+      cal,
+      protein,
+      fat,
+      carb,
+    });
+  });
+  return { products: [...byJan.values()], errors };
+}
+
+/** 商品を取り込む（同じ JAN は上書き） */
+export async function importProducts(ownerId: string, products: ProductValues[]): Promise<{ total: number; created: number; updated: number }> {
+  if (products.length === 0) return { total: 0, created: 0, updated: 0 };
+  const existing = await prisma.product.findMany({
+    where: { ownerId, jan: { in: products.map((p) => p.jan) } },
+    select: { jan: true },
+  });
+  const known = new Set(existing.map((p) => p.jan));
+  await prisma.$transaction(
+    products.map(({ jan, ...values }) =>
+      prisma.product.upsert({
+        where: { ownerId_jan: { ownerId, jan } },
+        update: values,
+        create: { ownerId, jan, ...values },
+      })
+    )
+  );
+  const updated = products.filter((p) => known.has(p.jan)).length;
+  return { total: products.length, created: products.length - updated, updated };
+}
+
+/** JAN で商品を引く。JAN が不正・未登録なら null */
+export async function findProductByJan(ownerId: string, jan: string): Promise<Product | null> {
+  const normalized = normalizeJan(jan);
+  if (!normalized) return null;
+  return prisma.product.findUnique({ where: { ownerId_jan: { ownerId, jan: normalized } } });
+}
+
+/** 商品1包装分の MealItem（createMealSchema の items にそのまま入る形）。内容量が無ければ 1個 */
+export function productToMealItem(product: ProductValues): MealItemInput {
+  return {
+    name: product.brand ? `${product.name}（${product.brand}）` : product.name,
+    cal: product.cal,
+    amount: product.amount ?? 1,
+    unit: product.unit ?? DEFAULT_UNIT,
+    protein: product.protein,
+    fat: product.fat,
+    carb: product.carb,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * 自炊の料理（Recipe）
+ * 材料（食品カタログの食品 or 栄養素を直接入れた材料）と何人前かから、1人前のカロリー・PFC を求める。
+ * 食事として記録するときは「料理名の1品目」か「材料ごとの品目」にして MealLog を作る。
+ */
+
+import type { Recipe } from "@prisma/client";
+import { prisma } from "./prisma";
+import { scaleFood } from "./foods";
+import type { MealItemInput } from "./schemas/meal";
+import type { RecipeIngredientInput, RecipeInput, RecipeLogInput } from "./schemas/recipe";
+
+/** 保存する材料。食品カタログの材料は保存時に量に合わせて換算した値を持つ */
+export type RecipeIngredient = {
+  foodId: string | null;
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  cal: number;
+  protein: number | null;
+  fat: number | null;
+  carb: number | null;
+};
+
+export type Macros = { cal: number; protein: number | null; fat: number | null; carb: number | null };
+
+export type RecipeNutrition = { total: Macros; perServing: Macros };
+
+export type RecipeView = Omit<Recipe, "ingredients"> & { ingredients: RecipeIngredient[]; nutrition: RecipeNutrition };
+
+/** 材料に指定した食品がカタログに無い */
+export class RecipeIngredientError extends Error {}
+
+/** 1人前の品目の単位 */
+const SERVING_UNIT = "人前";
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/** 栄養素を ratio 倍する（値の無い栄養素は null のまま） */
+function scaleMacros(m: Macros, ratio: number): Macros {
+  const scale = (v: number | null) => (v == null ? null : round1(v * ratio));
+  return { cal: round1(m.cal * ratio), protein: scale(m.protein), fat: scale(m.fat), carb: scale(m.carb) };
+}
+
+/** 材料の合計と1人前の栄養素。PFC は値のある材料だけ合計し、1つも無ければ null */
+export function computeRecipeNutrition(ingredients: RecipeIngredient[], servings: number): RecipeNutrition {
+  const sum = (key: "protein" | "fat" | "carb") => {
+    const values = ingredients.map((it) => it[key]).filter((v): v is number => v != null);
+    return values.length > 0 ? round1(values.reduce((a, b) => a + b, 0)) : null;
+  };
+  const total: Macros = {
+    cal: round1(ingredients.reduce((a, it) => a + it.cal, 0)),
+    protein: sum("protein"),
+    fat: sum("fat"),
+    carb: sum("carb"),
+  };
+  return { total, perServing: scaleMacros(total, 1 / servings) };
+}
+
+/** 入力の材料を保存する形にする。食品カタログの材料は量に合わせて換算する */
+export async function resolveIngredients(ownerId: string, inputs: RecipeIngredientInput[]): Promise<RecipeIngredient[]> {
+  const foodIds = inputs.flatMap((it) => ("foodId" in it ? [it.foodId] : []));
+  const foods = foodIds.length > 0 ? await prisma.food.findMany({ where: { ownerId, id: { in: foodIds } } }) : [];
+  const byId = new Map(foods.map((f) => [f.id, f]));
+  return inputs.map((it) => {
+    if ("foodId" in it) {
+      const food = byId.get(it.foodId);
+      if (!food) throw new RecipeIngredientError(`食品が見つかりません (${it.foodId})`);
+      return { foodId: food.id, name: food.name, amount: it.amount, unit: food.baseUnit, ...scaleFood(food, it.amount) };
+    }
+    return {
+      foodId: null,
+      name: it.name,
+      amount: it.amount ?? null,
+      unit: it.unit ?? null,
+      cal: it.cal,
+      protein: it.protein ?? null,
+      fat: it.fat ?? null,
+      carb: it.carb ?? null,
+    };
+  });
+}
+
+function toRecipeView(row: Recipe): RecipeView {
+  const ingredients = Array.isArray(row.ingredients) ? (row.ingredients as unknown as RecipeIngredient[]) : [];
+  return { ...row, ingredients, nutrition: computeRecipeNutrition(ingredients, row.servings) };
+}
+
+export async function listRecipes(ownerId: string): Promise<RecipeView[]> {
+  const rows = await prisma.recipe.findMany({ where: { ownerId }, orderBy: { name: "asc" } });
+  return rows.map(toRecipeView);
+}
+
+export async function getRecipe(ownerId: string, id: string): Promise<RecipeView | null> {
+  const row = await prisma.recipe.findFirst({ where: { id, ownerId } });
+  return row ? toRecipeView(row) : null;
+}
+
+/** レシピを保存する（同名は上書き）。材料の食品が無ければ RecipeIngredientError */
+export async function saveRecipe(ownerId: string, input: RecipeInput): Promise<RecipeView> {
+  const ingredients = await resolveIngredients(ownerId, input.ingredients);
+  const values = { servings: input.servings, note: input.note ?? null, ingredients: ingredients as unknown as object };
+  const row = await prisma.recipe.upsert({
+    where: { ownerId_name: { ownerId, name: input.name } },
+    update: values,
+    create: { ownerId, name: input.name, ...values },
+  });
+  return toRecipeView(row);
+}
+
+/** @returns 削除した場合 true */
+export async function deleteRecipe(ownerId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.recipe.deleteMany({ where: { id, ownerId } });
+  return count > 0;
+}
+
+/** 値のある栄養素だけ入れた MealItem */
+function toMealItem(name: string, amount: number | null, unit: string | null, m: Macros): MealItemInput {
+  return {
+    name,
+    cal: m.cal,
+    ...(amount != null ? { amount: round1(amount) } : {}),
+    ...(unit ? { unit } : {}),
+    ...(m.protein != null ? { protein: m.protein } : {}),
+    ...(m.fat != null ? { fat: m.fat } : {}),
+    ...(m.carb != null ? { carb: m.carb } : {}),
+  };
+}
+
+/**
+ * servings 人前食べた分の MealItem
+ * - single: 料理名の1品目（amount は人前）
+ * - ingredients: 材料ごとの品目（量・栄養素を servings / レシピの人前 倍にする）
+ */
+export function recipeToMealItems(
+  recipe: Pick<RecipeView, "name" | "servings" | "ingredients" | "nutrition">,
+  servings: number,
+  expand: RecipeLogInput["expand"]
+): MealItemInput[] {
+  const ratio = servings / recipe.servings;
+  if (expand === "single") {
+    return [toMealItem(recipe.name, servings, SERVING_UNIT, scaleMacros(recipe.nutrition.total, ratio))];
+  }
+  return recipe.ingredients.map((it) =>
+    toMealItem(it.name, it.amount == null ? null : it.amount * ratio, it.unit, scaleMacros(it, ratio))
+  );
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+const dateStr = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD');
+
+/** 手入力の体組成。null はその項目の削除 */
+export const bodyMetricInputSchema = z
+  .object({
+    date: dateStr,
+    weightKg: z.number().positive().max(500).nullable().optional(),
+    bodyFatPct: z.number().min(0).max(100).nullable().optional(),
+    waistCm: z.number().positive().max(300).nullable().optional(),
+  })
+  .refine((v) => v.weightKg !== undefined || v.bodyFatPct !== undefined || v.waistCm !== undefined, {
+    message: 'at least one of weightKg, bodyFatPct, waistCm is required',
+  });
+
+export const bodyMetricRangeSchema = z.object({
+  from: dateStr.optional(),
+  to: dateStr.optional(),
+});
+
+export type BodyMetricInput = z.infer<typeof bodyMetricInputSchema>;
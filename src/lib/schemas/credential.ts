@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const askenCredentialSchema = z.object({
+  email: z.string().min(1, 'email is required'),
+  password: z.string().min(1, 'password is required'),
+});
+
+export const googleCredentialSchema = z.object({
+  refreshToken: z.string().min(1, 'refreshToken is required'),
+});
+
+export type AskenCredentialInput = z.infer<typeof askenCredentialSchema>;
+export type GoogleCredentialInput = z.infer<typeof googleCredentialSchema>;
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+/**
+ * エクスポートした ZIP（dataExport.ts）の中身の検証
+ * JSON と CSV の両方を受けるため、CSV の文字列（空文字 = null、JSON 列は JSON 文字列）はここで型に戻す
+ */
+
+const emptyToNull = (v: unknown) => (v === '' ? null : v);
+
+const str = z.string();
+const optStr = z.preprocess(emptyToNull, z.string().nullable().optional());
+const num = z.preprocess(emptyToNull, z.coerce.number().finite().nullable().optional());
+const int = z.preprocess(emptyToNull, z.coerce.number().int().nullable().optional());
+const date = z.coerce.date();
+const optDate = z.preprocess(emptyToNull, z.coerce.date().nullable().optional());
+const bool = z.preprocess((v) => (v === 'true' ? true : v === 'false' ? false : v), z.boolean());
+const json = z.preprocess((v) => {
+  if (typeof v !== 'string') return v ?? null;
+  if (v === '') return null;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return v;
+  }
+}, z.union([z.record(z.unknown()), z.array(z.unknown())]).nullable().optional());
+
+export const importManifestSchema = z.object({
+  schemaVersion: z.number().int(),
+  app: z.literal('nutrition-app'),
+  exportedAt: z.string(),
+  ownerId: z.string(),
+  range: z.object({ from: z.string().nullable(), to: z.string().nullable() }),
+  format: z.enum(['json', 'csv']),
+  files: z.array(z.object({ path: z.string(), table: z.string(), count: z.number().int() })),
+});
+
+export const importDailyDataSchema = z.object({
+  date: str.regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD'),
+  askenItems: json,
+  askenNutrients: json,
+  strongData: json,
+  steps: int,
+  exerciseCalories: num,
+  totalCalories: num,
+  restingHeartRate: int,
+  avgHeartRate: int,
+  sleepMinutes: int,
+  sleepStartAt: optDate,
+  distanceMeters: num,
+  activeMinutes: int,
+  weightKg: num,
+  healthRaw: json,
+  healthSyncedAt: optDate,
+  hasHiking: bool.default(false),
+  mealTimes: json,
+});
+
+export const importMealItemSchema = z.object({
+  mealId: optStr,
+  name: str.min(1),
+  amount: num,
+  unit: optStr,
+  cal: num,
+  protein: num,
+  fat: num,
+  carb: num,
+});
+
+export const importMealLogSchema = z.object({
+  id: str.min(1),
+  loggedAt: date,
+  mealType: str.min(1),
+  source: optStr,
+  note: optStr,
+  items: z.array(importMealItemSchema).optional(),
+});
+
+export const importAiEvaluationSchema = z.object({
+  date: str.regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD'),
+  type: str.min(1),
+  model: str,
+  prompt: str,
+  response: str,
+  trigger: str,
+  createdAt: date,
+});
+
+export const importUserConfigSchema = z.object({
+  goals: json,
+  personal: json,
+  systemPrompt: optStr,
+  scoringProfile: json,
+  micronutrientTargets: json,
+});
+
+/** POST /api/import の body。bundle は ZIP の base64 */
+export const importRequestSchema = z.object({
+  bundle: z.string().min(1, 'bundle is required'),
+  strategy: z.enum(['skip', 'overwrite', 'merge']).default('skip'),
+  dryRun: z.boolean().default(true),
+});
+
+export type ImportManifest = z.infer<typeof importManifestSchema>;
+export type ImportDailyData = z.infer<typeof importDailyDataSchema>;
+export type ImportMealItem = z.infer<typeof importMealItemSchema>;
+export type ImportMealLog = z.infer<typeof importMealLogSchema>;
+export type ImportAiEvaluation = z.infer<typeof importAiEvaluationSchema>;
+export type ImportUserConfig = z.infer<typeof importUserConfigSchema>;
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+export type ImportStrategy = ImportRequest['strategy'];
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+const dateStr = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD');
+
+/** GET /api/export のクエリ。from / to 省略時は全期間 */
+export const exportQuerySchema = z
+  .object({
+    from: dateStr.optional(),
+    to: dateStr.optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .refine((v) => !(v.from && v.to && v.from > v.to), { message: 'from must be on or before to' });
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
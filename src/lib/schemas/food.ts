@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { mealItemSchema } from './meal';
+
+/** 食品の登録・編集。栄養素は baseAmount baseUnit あたり（グラムの食品は 100g あたり） */
+export const foodInputSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(200),
+  baseAmount: z.number().positive(),
+  baseUnit: z.string().trim().min(1, 'baseUnit is required').max(20),
+  cal: z.number().min(0),
+  protein: z.number().min(0).nullable().optional(),
+  fat: z.number().min(0).nullable().optional(),
+  carb: z.number().min(0).nullable().optional(),
+  servingAmount: z.number().positive().nullable().optional(),
+});
+
+export const foodSearchSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+export const favoriteMealInputSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  mealType: z.string().min(1).optional(),
+  items: z.array(mealItemSchema).min(1, 'at least one item is required'),
+});
+
+export type FoodInput = z.infer<typeof foodInputSchema>;
+export type FavoriteMealInput = z.infer<typeof favoriteMealInputSchema>;
@@ -22,6 +22,62 @@ export const createMealSchema = z.object({
   items: z.array(mealItemSchema),
 });
 
+/** 品目の部分更新。null で量・単位・PFC を消す */
+export const mealItemPatchSchema = z.object({
+  id: z.string().min(1, 'id is required'),
+  name: z.string().min(1, 'name is required').optional(),
+  cal: z.number().optional(),
+  amount: z.number().nullable().optional(),
+  unit: z.string().nullable().optional(),
+  protein: z.number().nullable().optional(),
+  fat: z.number().nullable().optional(),
+  carb: z.number().nullable().optional(),
+});
+
+/** MealLog の部分更新と品目の追加・更新・削除（PATCH /api/meals/[id]） */
+export const updateMealSchema = z
+  .object({
+    mealLog: z
+      .object({
+        loggedAt: mealLogSchema.shape.loggedAt.optional(),
+        mealType: mealLogSchema.shape.mealType.optional(),
+        source: z.string().nullable().optional(),
+        note: z.string().nullable().optional(),
+      })
+      .optional(),
+    items: z
+      .object({
+        add: z.array(mealItemSchema).optional(),
+        update: z.array(mealItemPatchSchema).optional(),
+        remove: z.array(z.string().min(1)).optional(),
+      })
+      .optional(),
+  })
+  .refine((v) => v.mealLog !== undefined || v.items !== undefined, { message: 'mealLog or items is required' });
+
+const dateStr = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD');
+
+/** カンマ区切り（?mealType=朝食,昼食）または繰り返し（?mealType=朝食&mealType=昼食）の指定を配列にする */
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .transform((v) => (Array.isArray(v) ? v : v.split(',')).map((s) => s.trim()).filter((s) => s !== ''));
+
+/** GET /api/meals のクエリ。日付は実効日（JST 5:00 区切り）。date は from=to=date と同じ */
+export const mealQuerySchema = z
+  .object({
+    date: dateStr.optional(),
+    from: dateStr.optional(),
+    to: dateStr.optional(),
+    mealType: listParam.optional(),
+    source: listParam.optional(),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional(),
+  })
+  .refine((v) => !(v.date && (v.from || v.to)), { message: 'date cannot be combined with from/to' });
+
 export type MealItemInput = z.infer<typeof mealItemSchema>;
 export type MealLogInput = z.infer<typeof mealLogSchema>;
 export type CreateMealInput = z.infer<typeof createMealSchema>;
+export type MealItemPatchInput = z.infer<typeof mealItemPatchSchema>;
+export type UpdateMealInput = z.infer<typeof updateMealSchema>;
+export type MealQueryInput = z.infer<typeof mealQuerySchema>;
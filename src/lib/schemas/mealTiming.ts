@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+const dateStr = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD');
+
+/** "HH:MM"（24時間表記。日付をまたぐ夜食は 24:30 のように 24 以降も可） */
+export const mealTimeSchema = z.string().regex(/^([01]\d|2[0-9]):[0-5]\d$/, 'must be HH:MM');
+
+/** あすけんの食事タイプごとの食事時刻 { 朝食: "07:30", ... } */
+export const mealTimesSchema = z.record(z.string().min(1), mealTimeSchema);
+
+export const mealTimingRangeSchema = z.object({
+  from: dateStr.optional(),
+  to: dateStr.optional(),
+});
+
+export type MealTimes = z.infer<typeof mealTimesSchema>;
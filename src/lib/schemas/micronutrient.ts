@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const MICRONUTRIENT_KEYS = [
+  'fiber',
+  'salt',
+  'potassium',
+  'calcium',
+  'iron',
+  'vitaminA',
+  'vitaminB1',
+  'vitaminB2',
+  'vitaminB6',
+  'vitaminB12',
+  'vitaminC',
+  'vitaminD',
+  'vitaminE',
+  'folate',
+] as const;
+
+export type MicronutrientKey = (typeof MICRONUTRIENT_KEYS)[number];
+
+/** 目標の上書き。省略した栄養素は食事摂取基準の値を使う */
+export const micronutrientTargetsSchema = z
+  .object(
+    Object.fromEntries(MICRONUTRIENT_KEYS.map((k) => [k, z.number().positive().optional()])) as Record<
+      MicronutrientKey,
+      z.ZodOptional<z.ZodNumber>
+    >
+  )
+  .strict();
+
+export type MicronutrientTargetOverrides = z.infer<typeof micronutrientTargetsSchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/** JAN コード（8桁 or 13桁。空白・ハイフンは除く）。チェックディジットは products.normalizeJan で確認する */
+export const janSchema = z
+  .string()
+  .transform((v) => v.replace(/[\s-]/g, ''))
+  .pipe(z.string().regex(/^(\d{8}|\d{13})$/, 'jan must be 8 or 13 digits'));
+
+export const productImportSchema = z.object({
+  files: z
+    .array(z.object({ name: z.string(), content: z.string() }))
+    .min(1, 'at least one file is required'),
+});
+
+export type ProductImportInput = z.infer<typeof productImportSchema>;
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { mealLogSchema } from './meal';
+
+/** 食品カタログの食品を材料にする。amount は食品の baseUnit 単位 */
+export const recipeFoodIngredientSchema = z.object({
+  foodId: z.string().min(1, 'foodId is required'),
+  amount: z.number().positive(),
+});
+
+/** カタログに無い材料。栄養素は材料の量あたり（amount unit は表示用） */
+export const recipeCustomIngredientSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(200),
+  amount: z.number().positive().optional(),
+  unit: z.string().trim().max(20).optional(),
+  cal: z.number().min(0),
+  protein: z.number().min(0).optional(),
+  fat: z.number().min(0).optional(),
+  carb: z.number().min(0).optional(),
+});
+
+export const recipeIngredientSchema = z.union([recipeFoodIngredientSchema, recipeCustomIngredientSchema]);
+
+export const recipeInputSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  servings: z.number().positive(),
+  note: z.string().max(1000).optional(),
+  ingredients: z.array(recipeIngredientSchema).min(1, 'at least one ingredient is required'),
+});
+
+/**
+ * レシピを食事として記録する
+ * expand: "single"（料理名の1品目）| "ingredients"（材料ごとの品目）
+ */
+export const recipeLogSchema = mealLogSchema.extend({
+  servings: z.number().positive().default(1),
+  expand: z.enum(['single', 'ingredients']).default('single'),
+});
+
+export type RecipeIngredientInput = z.infer<typeof recipeIngredientSchema>;
+export type RecipeInput = z.infer<typeof recipeInputSchema>;
+export type RecipeLogInput = z.infer<typeof recipeLogSchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+const dateStr = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD');
+
+export const rescoreRangeSchema = z
+  .object({
+    from: dateStr,
+    to: dateStr,
+  })
+  .refine((v) => v.from <= v.to, { message: 'from must be on or before to', path: ['to'] });
+
+export type RescoreRangeInput = z.infer<typeof rescoreRangeSchema>;
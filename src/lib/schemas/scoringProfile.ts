@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+const points = z.number().min(0);
+
+/** しきい値の帯。上から順に min ≤ x かつ x < max（maxInclusive なら ≤）の最初の帯を採用。min / max 省略は無制限 */
+export const scoreBandSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  maxInclusive: z.boolean().optional(),
+  points,
+  label: z.string().min(1, 'label is required'),
+});
+
+const bandsSchema = z.array(scoreBandSchema).min(1, 'at least one band is required');
+
+export const scoringWeightsSchema = z.object({
+  energy: points,
+  protein: points,
+  stimulus: points,
+  recovery: points,
+  activity: points,
+  nutritionBalance: points,
+});
+
+export const scoringProfileSchema = z
+  .object({
+    version: z.literal(1),
+    id: z.string().min(1, 'id is required'),
+    name: z.string().min(1, 'name is required'),
+    weights: scoringWeightsSchema,
+    /** 摂取 − 推定消費（kcal） */
+    energyBands: bandsSchema,
+    /** たんぱく質 g/kg */
+    proteinBands: bandsSchema,
+    stimulus: z.object({
+      minSets: z.number().int().min(0),
+      restDayPoints: points,
+      hikingPoints: points,
+    }),
+    /** 睡眠時間（h） */
+    recoveryBands: bandsSchema,
+    recoveryNoDataPoints: points,
+    /** 歩数 */
+    activityBands: bandsSchema,
+    /** 脂質エネルギー比（%） */
+    fatRatioBands: bandsSchema,
+    nutritionNoDataPoints: points,
+    bonus: z.object({
+      max: points,
+      hiking: points,
+      lowerBody: points,
+      cardio: points,
+      cardioMinKcal: z.number().min(0),
+    }),
+  })
+  .superRefine((p, ctx) => {
+    const total = Object.values(p.weights).reduce((a, b) => a + b, 0);
+    if (total !== 100) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['weights'], message: 'weights must sum to 100' });
+    }
+    const checks: [keyof typeof p.weights, z.infer<typeof bandsSchema>, string][] = [
+      ['energy', p.energyBands, 'energyBands'],
+      ['protein', p.proteinBands, 'proteinBands'],
+      ['recovery', p.recoveryBands, 'recoveryBands'],
+      ['activity', p.activityBands, 'activityBands'],
+      ['nutritionBalance', p.fatRatioBands, 'fatRatioBands'],
+    ];
+    for (const [key, bands, path] of checks) {
+      if (bands.some((b) => b.points > p.weights[key])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: `points must not exceed weights.${key}` });
+      }
+    }
+  });
+
+/** PUT /api/settings/scoring-profile: プリセットを選ぶか、独自プロファイルを丸ごと渡す */
+export const scoringProfileUpdateSchema = z.union([
+  z.object({ preset: z.string().min(1, 'preset is required') }),
+  z.object({ profile: scoringProfileSchema }),
+]);
+
+export type ScoreBand = z.infer<typeof scoreBandSchema>;
+export type ScoringWeights = z.infer<typeof scoringWeightsSchema>;
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+export type ScoringProfileUpdateInput = z.infer<typeof scoringProfileUpdateSchema>;
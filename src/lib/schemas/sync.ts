@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+const dateStr = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD');
+
+/** POST /api/sync の body。省略時は前日〜当日の2日分（日数の上限は syncJobs.MAX_SYNC_RANGE_DAYS） */
+export const syncRequestSchema = z
+  .object({
+    from: dateStr.optional(),
+    to: dateStr.optional(),
+  })
+  .refine((v) => !(v.from && v.to && v.from > v.to), { message: 'from must be on or before to' });
+
+export type SyncRequest = z.infer<typeof syncRequestSchema>;
+
+/** GET /api/sync/status のクエリ（履歴のページング） */
+export const syncStatusQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type SyncStatusQuery = z.infer<typeof syncStatusQuerySchema>;
@@ -0,0 +1,249 @@
+/**
+ * 日次スコアのスナップショット（DailyScore）
+ * 日が確定したら（実効的な今日より前になったら）その時点の目標・採点プロファイルで採点して保存し、/api/days はそれを返す。
+ * 目標やプロファイルを後から変えても、rescoreRange を呼ぶまで過去のスコアは変わらない。
+ * 同期・編集で触れていない過去の日（導入前の日など）は、/api/days が初めて見たときに確定する（getOrFinalizeScoreSnapshots）。
+ */
+
+import type { DailyScore } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getGoals, getScoringProfile, type Goals } from "./dbConfig";
+import { getEffectiveTodayStr } from "./dateUtils";
+import { ASSUMED_WEIGHT_KG, dailyDataToDayData, emptyDayData, type DayData } from "./gemini";
+import { SCORING_MODEL_VERSION, calculateDailyScore, type ScoreBreakdown } from "./scoring";
+import { DEFAULT_SCORING_PROFILE, parseScoringProfile, type ScoringProfile } from "./scoringProfile";
+import { getStrengthSummaries, type StrengthDaySummary } from "./strengthProgress";
+import { getBodyWeightResolver } from "./bodyMetrics";
+import { getManualMealsByDate } from "./dayIntake";
+
+/** finalize: 日の確定 / data: 確定後にデータが更新された（採点時の目標のまま再計算）/ rescore: 明示的な再計算 */
+export type ScoreSnapshotReason = "finalize" | "data" | "rescore";
+
+export type ScoreSnapshot = {
+  date: string;
+  total: number;
+  breakdown: ScoreBreakdown;
+  goals: Goals;
+  profile: ScoringProfile;
+  weightKg: number;
+  scoringVersion: number;
+  reason: ScoreSnapshotReason;
+  computedAt: Date;
+};
+
+type ScoringSettings = { goals: Goals; profile: ScoringProfile };
+
+function toSnapshot(row: DailyScore): ScoreSnapshot {
+  return {
+    date: row.date,
+    total: row.total,
+    breakdown: row.breakdown as unknown as ScoreBreakdown,
+    goals: row.goals as unknown as Goals,
+    profile: parseScoringProfile(row.profile) ?? DEFAULT_SCORING_PROFILE,
+    weightKg: row.weightKg,
+    scoringVersion: row.scoringVersion,
+    reason: row.reason as ScoreSnapshotReason,
+    computedAt: row.computedAt,
+  };
+}
+
+/**
+ * 日付ごとの最新スナップショット
+ * @param dates 省略時は全日付
+ */
+export async function getLatestScoreSnapshots(ownerId: string, dates?: string[]): Promise<Map<string, ScoreSnapshot>> {
+  const rows = await prisma.dailyScore.findMany({
+    where: { ownerId, ...(dates ? { date: { in: dates } } : {}) },
+    orderBy: { computedAt: "desc" },
+  });
+  const latest = new Map<string, ScoreSnapshot>();
+  for (const row of rows) {
+    if (!latest.has(row.date)) latest.set(row.date, toSnapshot(row));
+  }
+  return latest;
+}
+
+/** 採点に使う体重。その日時点の傾向体重 → 当日の実測 → 想定体重の順 */
+export function scoringWeightKg(measuredWeightKg: number | null | undefined, bodyWeightKg: number | null): number {
+  return bodyWeightKg ?? (measuredWeightKg != null && measuredWeightKg > 0 ? measuredWeightKg : ASSUMED_WEIGHT_KG);
+}
+
+/** 1日分を採点する（体重は scoringWeightKg） */
+function scoreDay(
+  day: DayData,
+  settings: ScoringSettings,
+  strength: StrengthDaySummary | null,
+  bodyWeightKg: number | null
+): { breakdown: ScoreBreakdown; weightKg: number } {
+  const weightKg = scoringWeightKg(day.weightKg, bodyWeightKg);
+  return { weightKg, breakdown: calculateDailyScore(day, weightKg, settings.goals, strength, settings.profile) };
+}
+
+function toCreateInput(
+  ownerId: string,
+  date: string,
+  settings: ScoringSettings,
+  scored: { breakdown: ScoreBreakdown; weightKg: number },
+  reason: ScoreSnapshotReason
+) {
+  return {
+    ownerId,
+    date,
+    total: scored.breakdown.total,
+    breakdown: scored.breakdown as unknown as object,
+    goals: settings.goals as unknown as object,
+    profile: settings.profile as unknown as object,
+    weightKg: scored.weightKg,
+    scoringVersion: SCORING_MODEL_VERSION,
+    reason,
+  };
+}
+
+const sameScore = (a: ScoreBreakdown, b: ScoreBreakdown) =>
+  a.total === b.total && JSON.stringify(a.details) === JSON.stringify(b.details);
+
+/**
+ * 対象日の日次データ（DailyData + 手入力の食事）・筋力サマリー・体重をまとめて読む
+ * DailyData も手入力も無い日は days に含めない
+ */
+async function loadDays(ownerId: string, dates: string[]) {
+  const sorted = [...dates].sort();
+  const from = sorted[0];
+  const to = sorted[sorted.length - 1];
+  const [records, manual, strength, weightOf] = await Promise.all([
+    prisma.dailyData.findMany({ where: { ownerId, date: { in: sorted } }, orderBy: { date: "asc" } }),
+    getManualMealsByDate(ownerId, { from, to }),
+    getStrengthSummaries(ownerId, from, to),
+    getBodyWeightResolver(ownerId, to),
+  ]);
+  const recordMap = new Map(records.map((r) => [r.date, r]));
+  const days: DayData[] = [];
+  for (const date of sorted) {
+    const record = recordMap.get(date);
+    const manualMeals = manual.get(date) ?? [];
+    if (!record && manualMeals.length === 0) continue;
+    days.push({ ...(record ? dailyDataToDayData(record) : emptyDayData(date)), manualMeals });
+  }
+  return { days, strength, weightOf };
+}
+
+/**
+ * 確定済みの日（実効的な今日より前）のスコアを保存する
+ * スナップショットが無い日は現在の目標・プロファイルで確定し、ある日は採点時の目標・プロファイルのまま再計算して
+ * 結果が変わったときだけ追記する（同期でデータが更新された日向け）。今日以降の日は対象外。
+ * @returns finalized: 新たに確定した日数 / updated: データ更新で追記した日数
+ */
+export async function finalizeDayScores(
+  ownerId: string,
+  dates: string[],
+  now?: Date
+): Promise<{ finalized: number; updated: number }> {
+  const todayStr = getEffectiveTodayStr(now);
+  const past = [...new Set(dates)].filter((d) => d < todayStr);
+  if (past.length === 0) return { finalized: 0, updated: 0 };
+
+  const [{ days, strength, weightOf }, latest] = await Promise.all([
+    loadDays(ownerId, past),
+    getLatestScoreSnapshots(ownerId, past),
+  ]);
+  if (days.length === 0) return { finalized: 0, updated: 0 };
+
+  let current: ScoringSettings | null = null;
+  const rows: ReturnType<typeof toCreateInput>[] = [];
+  let finalized = 0;
+  let updated = 0;
+  for (const day of days) {
+    const prev = latest.get(day.date);
+    if (!prev) {
+      current ??= { goals: await getGoals(ownerId), profile: await getScoringProfile(ownerId) };
+      rows.push(toCreateInput(ownerId, day.date, current, scoreDay(day, current, strength.get(day.date) ?? null, weightOf(day.date)), "finalize"));
+      finalized += 1;
+      continue;
+    }
+    const settings = { goals: prev.goals, profile: prev.profile };
+    const scored = scoreDay(day, settings, strength.get(day.date) ?? null, weightOf(day.date));
+    if (sameScore(scored.breakdown, prev.breakdown)) continue;
+    rows.push(toCreateInput(ownerId, day.date, settings, scored, "data"));
+    updated += 1;
+  }
+  if (rows.length > 0) await prisma.dailyScore.createMany({ data: rows });
+  return { finalized, updated };
+}
+
+/** 期間内で DailyData か手入力の食事がある、確定済み（今日より前）の日付 */
+async function pastDatesWithData(ownerId: string, from: string, to: string, todayStr: string): Promise<string[]> {
+  const [records, manual] = await Promise.all([
+    prisma.dailyData.findMany({
+      where: { ownerId, date: { gte: from, lte: to, lt: todayStr } },
+      select: { date: true },
+    }),
+    getManualMealsByDate(ownerId, { from, to }),
+  ]);
+  return [...new Set([...records.map((r) => r.date), ...manual.keys()])].filter((d) => d < todayStr);
+}
+
+/**
+ * from から昨日までの確定済みの日を finalizeDayScores する
+ * 体重を記録・削除した日以降は傾向体重が変わるため、体組成の手入力後に呼ぶ
+ */
+export async function finalizeDayScoresFrom(
+  ownerId: string,
+  from: string,
+  now?: Date
+): Promise<{ finalized: number; updated: number }> {
+  const todayStr = getEffectiveTodayStr(now);
+  if (from >= todayStr) return { finalized: 0, updated: 0 };
+  return finalizeDayScores(ownerId, await pastDatesWithData(ownerId, from, todayStr, todayStr), now);
+}
+
+/**
+ * ユーザーの全日付の最新スナップショット。dates のうち確定済み（今日より前）なのにスナップショットが無い日は、
+ * 現在の目標・プロファイルで確定してから返す（以降は目標を変えても変わらない）
+ */
+export async function getOrFinalizeScoreSnapshots(
+  ownerId: string,
+  dates: string[],
+  now?: Date
+): Promise<Map<string, ScoreSnapshot>> {
+  const latest = await getLatestScoreSnapshots(ownerId);
+  const todayStr = getEffectiveTodayStr(now);
+  const missing = dates.filter((d) => d < todayStr && !latest.has(d));
+  if (missing.length === 0) return latest;
+  const { finalized } = await finalizeDayScores(ownerId, missing, now);
+  if (finalized === 0) return latest;
+  for (const [date, snapshot] of await getLatestScoreSnapshots(ownerId, missing)) latest.set(date, snapshot);
+  return latest;
+}
+
+/**
+ * 期間内の確定済みの日を、現在の目標・採点プロファイルで再計算して追記する
+ * 今日以降は確定していないため対象外。
+ * @returns rescored: 再計算した日数 / changed: 直前のスナップショットから total が変わった日数
+ */
+export async function rescoreRange(
+  ownerId: string,
+  from: string,
+  to: string,
+  now?: Date
+): Promise<{ rescored: number; changed: number }> {
+  const todayStr = getEffectiveTodayStr(now);
+  const dates = await pastDatesWithData(ownerId, from, to, todayStr);
+  if (dates.length === 0) return { rescored: 0, changed: 0 };
+
+  const [{ days, strength, weightOf }, goals, profile, latest] = await Promise.all([
+    loadDays(ownerId, dates),
+    getGoals(ownerId),
+    getScoringProfile(ownerId),
+    getLatestScoreSnapshots(ownerId, dates),
+  ]);
+  const settings = { goals, profile };
+
+  let changed = 0;
+  const rows = days.map((day) => {
+    const scored = scoreDay(day, settings, strength.get(day.date) ?? null, weightOf(day.date));
+    if (latest.get(day.date)?.total !== scored.breakdown.total) changed += 1;
+    return toCreateInput(ownerId, day.date, settings, scored, "rescore");
+  });
+  await prisma.dailyScore.createMany({ data: rows });
+  return { rescored: rows.length, changed };
+}
@@ -1,9 +1,15 @@
 /**
  * 筋トレ・食事 評価スコアモデル（100点満点）
- * 減量しつつ筋量維持＋登山適性向上を目的とした日次スコア計算
+ * 配点・しきい値は採点プロファイル（scoringProfile.ts）に従う。既定は減量＋登山向けの cut。
  */
 import type { DayData } from './gemini';
 import { DEFAULT_GOALS, type Goals } from './dbConfig';
+import { REP_RANGE, type StrengthDaySummary } from './strengthProgress';
+import { DEFAULT_SCORING_PROFILE, pickBand, type ScoreBand, type ScoringProfile } from './scoringProfile';
+import { computeDayIntake } from './dayIntake';
+
+/** 採点ロジックのバージョン。判定方法を変えたら上げる（スコアのスナップショットに記録） */
+export const SCORING_MODEL_VERSION = 2;
 
 /** デフォルト体重（kg）- データがない場合に使用 */
 const DEFAULT_WEIGHT_KG = 75;
@@ -13,87 +19,75 @@ function getEstimatedExpenditure(goalCalories: number, exerciseCalories: number)
   return goalCalories + Math.max(0, exerciseCalories);
 }
 
-/** スコア内訳（新モデル: エネルギー30+たんぱく質20+刺激20+回復15+活動量10+栄養5+登山ボーナス最大8） */
+type ScoreItem = { score: number; label: string };
+
+/** スコア内訳（満点はプロファイルの weights。cut: エネルギー30+たんぱく質20+刺激20+回復15+活動量10+栄養5+登山ボーナス最大8） */
 export type ScoreBreakdown = {
   total: number;
+  /** 採点に使ったプロファイル。各 label の末尾にも [name] を付ける */
+  profile: { id: string; name: string; version: number };
   details: {
-    energy: { score: number; label: string };      // 30点
-    protein: { score: number; label: string };     // 20点
-    stimulus: { score: number; label: string };  // 20点
-    recovery: { score: number; label: string };    // 15点
-    activity: { score: number; label: string };    // 10点
-    nutritionBalance: { score: number; label: string }; // 5点
-    climbingBonus: { score: number; label: string };   // 最大+8
+    energy: ScoreItem;
+    protein: ScoreItem;
+    stimulus: ScoreItem;
+    recovery: ScoreItem;
+    activity: ScoreItem;
+    nutritionBalance: ScoreItem;
+    climbingBonus: ScoreItem;
   };
 };
 
-function parseNumeric(v: string | number): number {
-  if (typeof v === 'number') return v;
-  const m = String(v).match(/[\d.]+/);
-  return m ? parseFloat(m[0]) : 0;
+/** 帯に当てはめて点数とラベルを作る（該当する帯が無ければ0点） */
+function scoreByBands(bands: ScoreBand[], x: number, prefix = ''): ScoreItem {
+  const band = pickBand(bands, x);
+  if (!band) return { score: 0, label: `${prefix}該当なし (0点)` };
+  return { score: band.points, label: `${prefix}${band.label} (${band.points}点)` };
 }
 
-/** 摂取カロリー・PFC を DayData から計算 */
-function getIntake(day: DayData): { calories: number; protein: number; fat: number; carbs: number } {
-  let calories = 0;
-  let protein = 0;
-  let fat = 0;
-  let carbs = 0;
-  const nutrientMealTypes = new Set<string>(day.askenNutrients ? Object.keys(day.askenNutrients) : []);
-
-  if (day.askenNutrients) {
-    for (const meal of Object.values(day.askenNutrients)) {
-      if (!meal) continue;
-      if (meal['エネルギー']) calories += parseNumeric(meal['エネルギー']);
-      if (meal['たんぱく質']) protein += parseNumeric(meal['たんぱく質']);
-      if (meal['脂質']) fat += parseNumeric(meal['脂質']);
-      if (meal['炭水化物']) carbs += parseNumeric(meal['炭水化物']);
-    }
-  }
-  if (day.askenItems) {
-    for (const item of day.askenItems) {
-      if (!nutrientMealTypes.has(item.mealType)) {
-        calories += item.calories;
-      }
-    }
-  }
-  return { calories, protein, fat, carbs };
-}
-
-/** ① エネルギーバランス（30点） カロリー差 = 摂取 - 推定消費。高活動日は大きなマイナスでも責めない */
-function scoreEnergy(calories: number, goalCalories: number, exerciseCalories: number): { score: number; label: string } {
+/** ① エネルギーバランス カロリー差 = 摂取 - 推定消費 */
+function scoreEnergy(calories: number, goalCalories: number, exerciseCalories: number, profile: ScoringProfile): ScoreItem {
   const expenditure = getEstimatedExpenditure(goalCalories, exerciseCalories);
-  const diff = calories - expenditure;
-
-  // 連続区間で判定する（整数前提の区間だと -199.5 のような小数値が全区間から漏れる）
-  if (diff < -700) return { score: 22, label: '-700以下・高活動日 (22点)' };
-  if (diff < -500) return { score: 27, label: '-500〜-700 (27点)' };
-  if (diff <= -300) return { score: 30, label: '-300〜-500 (30点)' };
-  if (diff <= -200) return { score: 27, label: '-200〜-299 (27点)' };
-  if (diff <= -100) return { score: 23, label: '-100〜-199 (23点)' };
-  if (diff <= 100) return { score: 18, label: '±100以内 (18点)' };
-  if (diff < 200) return { score: 13, label: '+100〜+199 (13点)' };
-  return { score: 9, label: '+200以上 (9点)' };
+  return scoreByBands(profile.energyBands, calories - expenditure);
 }
 
-/** ② たんぱく質（20点） g/kg */
-function scoreProtein(protein: number, weightKg: number): { score: number; label: string } {
+/** ② たんぱく質 g/kg */
+function scoreProtein(protein: number, weightKg: number, profile: ScoringProfile): ScoreItem {
   const gPerKg = weightKg > 0 ? protein / weightKg : 0;
-  if (gPerKg >= 2.0) return { score: 20, label: '2.0以上 (20点)' };
-  if (gPerKg >= 1.8) return { score: 17, label: '1.8–1.99 (17点)' };
-  if (gPerKg >= 1.6) return { score: 14, label: '1.6–1.79 (14点)' };
-  if (gPerKg >= 1.4) return { score: 11, label: '1.4–1.59 (11点)' };
-  return { score: 8, label: '1.4未満 (8点)' };
+  return scoreByBands(profile.proteinBands, gPerKg);
+}
+
+/**
+ * 6-12回の判定。セット行のサマリーがあれば本セットの半数以上、
+ * 無ければ（共有テキストのみの古いデータ）ワークアウト合計の平均レップ数で判定
+ */
+function isInRepRange(day: DayData, strength: StrengthDaySummary | null): boolean {
+  if (strength && strength.workingSets > 0) {
+    return strength.setsInRepRange * 2 >= strength.workingSets;
+  }
+  let sets = 0;
+  let reps = 0;
+  for (const w of day.strongData?.workouts ?? []) {
+    sets += w.totals?.sets ?? 0;
+    reps += w.totals?.reps ?? 0;
+  }
+  if (sets === 0) return false;
+  const avg = reps / sets;
+  return avg >= REP_RANGE.min && avg <= REP_RANGE.max;
 }
 
-/** ③ トレーニング刺激（20点）各5点: コンパウンド・10セット以上・6-12回・漸進性 */
-function scoreStimulus(day: DayData): { score: number; label: string } {
+/**
+ * ③ トレーニング刺激 4基準で満点を等分: コンパウンド・minSets 以上・6-12回・漸進性
+ * 漸進性は前回の同種目よりボリュームか推定1RMが上がった種目があるときのみ（比較できなければ加点しない）
+ */
+function scoreStimulus(day: DayData, strength: StrengthDaySummary | null, profile: ScoringProfile): ScoreItem {
+  const max = profile.weights.stimulus;
+  const { minSets, restDayPoints, hikingPoints } = profile.stimulus;
   const workouts = day.strongData?.workouts ?? [];
   if (workouts.length === 0) {
     if (day.hasHiking) {
-      return { score: 18, label: '登山実施 (下半身・持久の高負荷 18点)' };
+      return { score: hikingPoints, label: `登山実施 (下半身・持久の高負荷 ${hikingPoints}点)` };
     }
-    return { score: 20, label: '休息日 (満点扱い)' };
+    return { score: restDayPoints, label: restDayPoints >= max ? '休息日 (満点扱い)' : `休息日 (${restDayPoints}点)` };
   }
 
   const compoundKeywords = ['Bench', 'Squat', 'Deadlift', 'Press', 'Row', 'Chin', 'Dip', 'スクワット', 'デッド', 'ベンチ', 'プレス', 'ロー'];
@@ -107,74 +101,86 @@ function scoreStimulus(day: DayData): { score: number; label: string } {
       if (compoundKeywords.some(k => name.includes(k.toLowerCase()))) hasCompound = true;
     }
   }
+  const enoughSets = totalSets >= minSets;
+  const repRange = isInRepRange(day, strength);
+  const progressed = (strength?.progressed ?? 0) > 0;
 
   let count = 0;
   if (hasCompound) count++;
-  if (totalSets >= 10) count++;
-  count++;
-  count++;
+  if (enoughSets) count++;
+  if (repRange) count++;
+  if (progressed) count++;
 
-  const score = Math.min(20, count * 5);
+  const score = Math.min(max, Math.round((count * max) / 4));
   const parts: string[] = [];
   if (hasCompound) parts.push('コンパウンド');
-  if (totalSets >= 10) parts.push('10セット以上');
-  parts.push('刺激');
-  return { score, label: `${score}/20 (${parts.join('・')})` };
+  if (enoughSets) parts.push(`${minSets}セット以上`);
+  if (repRange) parts.push('6-12回');
+  if (strength && progressed) parts.push(`漸進性 ${strength.progressed}/${strength.compared}種目`);
+  else if (!strength || strength.compared === 0) parts.push('前回比較なし');
+  return { score, label: `${score}/${max} (${parts.join('・')})` };
 }
 
-/** ④ 回復（15点）睡眠時間（分）。データなしは満点扱い（減点しない） */
-function scoreRecovery(day: DayData): { score: number; label: string } {
+/** ④ 回復 睡眠時間（分）。データなしは recoveryNoDataPoints（既定は満点扱いで減点しない） */
+function scoreRecovery(day: DayData, profile: ScoringProfile): ScoreItem {
   const minutes = day.sleepMinutes ?? null;
   if (minutes == null) {
-    return { score: 15, label: '睡眠データなし (満点扱い)' };
+    const points = profile.recoveryNoDataPoints;
+    return { score: points, label: points >= profile.weights.recovery ? '睡眠データなし (満点扱い)' : `睡眠データなし (${points}点)` };
   }
   const hours = minutes / 60;
-  if (hours >= 7) return { score: 15, label: `${hours.toFixed(1)}h・7時間以上 (15点)` };
-  if (hours >= 6.5) return { score: 13, label: `${hours.toFixed(1)}h・6.5-6.9 (13点)` };
-  if (hours >= 6.0) return { score: 11, label: `${hours.toFixed(1)}h・6.0-6.4 (11点)` };
-  if (hours >= 5.5) return { score: 8, label: `${hours.toFixed(1)}h・5.5-5.9 (8点)` };
-  return { score: 5, label: `${hours.toFixed(1)}h・5.5未満 (5点)` };
+  return scoreByBands(profile.recoveryBands, hours, `${hours.toFixed(1)}h・`);
 }
 
-/** ⑤ 活動量（10点）歩数 */
-function scoreActivity(steps: number | null): { score: number; label: string } {
-  const s = steps ?? 0;
-  if (s >= 10000) return { score: 10, label: '10000歩以上 (10点)' };
-  if (s >= 8000) return { score: 8, label: '8000–9999歩 (8点)' };
-  if (s >= 6000) return { score: 7, label: '6000–7999歩 (7点)' };
-  if (s >= 4000) return { score: 5, label: '4000–5999歩 (5点)' };
-  return { score: 3, label: '4000歩未満 (3点)' };
+/** ⑤ 活動量 歩数 */
+function scoreActivity(steps: number | null, profile: ScoringProfile): ScoreItem {
+  return scoreByBands(profile.activityBands, steps ?? 0);
 }
 
-/** ⑥ 栄養バランス（5点）脂質割合 */
-function scoreNutritionBalance(calories: number, fat: number): { score: number; label: string } {
-  if (calories <= 0) return { score: 3, label: 'データ不足 (3点)' };
-  const fatRatio = (fat * 9 / calories) * 100;
-  if (fatRatio >= 20 && fatRatio <= 30) return { score: 5, label: '脂質20–30% (5点)' };
-  if ((fatRatio >= 15 && fatRatio < 20) || (fatRatio > 30 && fatRatio <= 35)) return { score: 4, label: '脂質15–20%/30–35% (4点)' };
-  if (fatRatio > 35) return { score: 2, label: '脂質35%以上 (2点)' };
-  return { score: 4, label: '脂質15%未満 (4点)' };
+/** ⑥ 栄養バランス 脂質エネルギー比 */
+function scoreNutritionBalance(calories: number, fat: number, profile: ScoringProfile): ScoreItem {
+  if (calories <= 0) {
+    const points = profile.nutritionNoDataPoints;
+    return { score: points, label: `データ不足 (${points}点)` };
+  }
+  return scoreByBands(profile.fatRatioBands, (fat * 9 / calories) * 100);
 }
 
-/** 登山適性ボーナス（最大+8）登山実施+5, 下半身+3, 有酸素200kcal以上+2 */
-function scoreClimbingBonus(day: DayData, hasLower: boolean): { score: number; label: string } {
+/** 登山適性ボーナス（cut: 最大+8 登山実施+5, 下半身+3, 有酸素200kcal以上+2）。0点の項目は数えない */
+function scoreClimbingBonus(day: DayData, hasLower: boolean, profile: ScoringProfile): ScoreItem {
+  const { max, hiking, lowerBody, cardio, cardioMinKcal } = profile.bonus;
   let bonus = 0;
   const parts: string[] = [];
 
-  if (day.hasHiking) {
-    bonus += 5;
-    parts.push('登山+5');
+  if (day.hasHiking && hiking > 0) {
+    bonus += hiking;
+    parts.push(`登山+${hiking}`);
   }
-  if (hasLower) {
-    bonus += 3;
-    parts.push('下半身+3');
+  if (hasLower && lowerBody > 0) {
+    bonus += lowerBody;
+    parts.push(`下半身+${lowerBody}`);
   }
   const exCal = day.exerciseCalories ?? 0;
-  if (exCal >= 200) {
-    bonus += 2;
-    parts.push('有酸素+2');
+  if (exCal >= cardioMinKcal && cardio > 0) {
+    bonus += cardio;
+    parts.push(`有酸素+${cardio}`);
   }
-  return { score: Math.min(8, bonus), label: parts.length ? `+${Math.min(8, bonus)} (${parts.join(' ')})` : '0' };
+  const score = Math.min(max, bonus);
+  return { score, label: parts.length ? `+${score} (${parts.join(' ')})` : '0' };
+}
+
+/** 各項目のラベル末尾にプロファイル名を付ける */
+function withProfileLabels(details: ScoreBreakdown['details'], profile: ScoringProfile): ScoreBreakdown['details'] {
+  const tag = (item: ScoreItem): ScoreItem => ({ score: item.score, label: `${item.label} [${profile.name}]` });
+  return {
+    energy: tag(details.energy),
+    protein: tag(details.protein),
+    stimulus: tag(details.stimulus),
+    recovery: tag(details.recovery),
+    activity: tag(details.activity),
+    nutritionBalance: tag(details.nutritionBalance),
+    climbingBonus: tag(details.climbingBonus),
+  };
 }
 
 /**
@@ -182,40 +188,46 @@ function scoreClimbingBonus(day: DayData, hasLower: boolean): { score: number; l
  * 食事カロリー・筋トレ・登山のいずれも無い日は「記録なし」とみなす（歩数のみは記録なし扱い）。
  */
 export function isDayRecorded(day: DayData): boolean {
-  const intake = getIntake(day);
+  const intake = computeDayIntake(day);
   const hasWorkout = (day.strongData?.workouts?.length ?? 0) > 0;
   return intake.calories > 0 || hasWorkout || !!day.hasHiking;
 }
 
 /**
- * 1日分のデータから新スコアモデルでスコアを計算する
+ * 1日分のデータから採点プロファイルに従ってスコアを計算する
  * @param goals 未指定時は DEFAULT_GOALS を使用
+ * @param strength その日の筋力サマリー（getStrengthSummaries）。無ければ漸進性は加点しない
+ * @param profile 採点プロファイル（getScoringProfile）。未指定時は cut
  * @returns 記録なし日は total=0・各項目0（label「記録なし」）を返す
  */
 export function calculateDailyScore(
   day: DayData,
   weightKg: number = DEFAULT_WEIGHT_KG,
-  goals: Goals = DEFAULT_GOALS
+  goals: Goals = DEFAULT_GOALS,
+  strength: StrengthDaySummary | null = null,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): ScoreBreakdown {
+  const profileInfo = { id: profile.id, name: profile.name, version: profile.version };
   // 記録なし日は採点しない（floor によって空の日が高得点になるのを防ぐ）
   if (!isDayRecorded(day)) {
-    const none = (): { score: number; label: string } => ({ score: 0, label: '記録なし' });
+    const none = (): ScoreItem => ({ score: 0, label: '記録なし' });
     return {
       total: 0,
-      details: {
+      profile: profileInfo,
+      details: withProfileLabels({
         energy: none(), protein: none(), stimulus: none(), recovery: none(),
         activity: none(), nutritionBalance: none(), climbingBonus: none(),
-      },
+      }, profile),
     };
   }
 
-  const intake = getIntake(day);
-  const energy = scoreEnergy(intake.calories, goals.calories, day.exerciseCalories ?? 0);
-  const protein = scoreProtein(intake.protein, weightKg);
-  const stimulus = scoreStimulus(day);
-  const recovery = scoreRecovery(day);
-  const activity = scoreActivity(day.steps);
-  const nutritionBalance = scoreNutritionBalance(intake.calories, intake.fat);
+  const intake = computeDayIntake(day);
+  const energy = scoreEnergy(intake.calories, goals.calories, day.exerciseCalories ?? 0, profile);
+  const protein = scoreProtein(intake.protein, weightKg, profile);
+  const stimulus = scoreStimulus(day, strength, profile);
+  const recovery = scoreRecovery(day, profile);
+  const activity = scoreActivity(day.steps, profile);
+  const nutritionBalance = scoreNutritionBalance(intake.calories, intake.fat, profile);
 
   const workouts = day.strongData?.workouts ?? [];
   const lowerKeywords = ['Squat', 'Lunge', 'Leg', 'スクワット', 'ランジ', 'レッグ'];
@@ -230,7 +242,7 @@ export function calculateDailyScore(
     }
     if (hasLower) break;
   }
-  const climbingBonus = scoreClimbingBonus(day, hasLower);
+  const climbingBonus = scoreClimbingBonus(day, hasLower, profile);
 
   const total = Math.min(100,
     energy.score + protein.score + stimulus.score + recovery.score + activity.score + nutritionBalance.score + climbingBonus.score
@@ -238,7 +250,8 @@ export function calculateDailyScore(
 
   return {
     total,
-    details: {
+    profile: profileInfo,
+    details: withProfileLabels({
       energy,
       protein,
       stimulus,
@@ -246,6 +259,6 @@ export function calculateDailyScore(
       activity,
       nutritionBalance,
       climbingBonus,
-    },
+    }, profile),
   };
 }
@@ -0,0 +1,186 @@
+/**
+ * 日次スコアの採点プロファイル（配点・しきい値）
+ * UserConfig.scoringProfile に version 付きの JSON で保存し、calculateDailyScore が読む。
+ * 組み込みプリセット: cut（減量・従来モデル）/ maintain / bulk / endurance
+ */
+
+import { scoringProfileSchema, type ScoreBand, type ScoringProfile } from "./schemas/scoringProfile";
+
+export type { ScoreBand, ScoringProfile, ScoringWeights } from "./schemas/scoringProfile";
+
+/** 現行の保存形式のバージョン */
+export const SCORING_PROFILE_VERSION = 1;
+
+export type ScoringPresetId = "cut" | "maintain" | "bulk" | "endurance";
+
+/** 睡眠・脂質比は目的によらず共通 */
+const recoveryBands = (w: number): ScoreBand[] => [
+  { min: 7, points: w, label: "7時間以上" },
+  { min: 6.5, points: Math.round(w * 0.87), label: "6.5-6.9" },
+  { min: 6, points: Math.round(w * 0.73), label: "6.0-6.4" },
+  { min: 5.5, points: Math.round(w * 0.53), label: "5.5-5.9" },
+  { points: Math.round(w * 0.33), label: "5.5未満" },
+];
+
+const fatRatioBands: ScoreBand[] = [
+  { min: 20, max: 30, maxInclusive: true, points: 5, label: "脂質20–30%" },
+  { min: 15, max: 35, maxInclusive: true, points: 4, label: "脂質15–20%/30–35%" },
+  { min: 35, points: 2, label: "脂質35%以上" },
+  { points: 4, label: "脂質15%未満" },
+];
+
+/** 減量しつつ筋量維持＋登山適性向上（従来の固定モデル） */
+const CUT: ScoringProfile = {
+  version: 1,
+  id: "cut",
+  name: "減量",
+  weights: { energy: 30, protein: 20, stimulus: 20, recovery: 15, activity: 10, nutritionBalance: 5 },
+  energyBands: [
+    { max: -700, points: 22, label: "-700以下・高活動日" },
+    { max: -500, points: 27, label: "-500〜-700" },
+    { max: -300, maxInclusive: true, points: 30, label: "-300〜-500" },
+    { max: -200, maxInclusive: true, points: 27, label: "-200〜-299" },
+    { max: -100, maxInclusive: true, points: 23, label: "-100〜-199" },
+    { max: 100, maxInclusive: true, points: 18, label: "±100以内" },
+    { max: 200, points: 13, label: "+100〜+199" },
+    { points: 9, label: "+200以上" },
+  ],
+  proteinBands: [
+    { min: 2.0, points: 20, label: "2.0以上" },
+    { min: 1.8, points: 17, label: "1.8–1.99" },
+    { min: 1.6, points: 14, label: "1.6–1.79" },
+    { min: 1.4, points: 11, label: "1.4–1.59" },
+    { points: 8, label: "1.4未満" },
+  ],
+  stimulus: { minSets: 10, restDayPoints: 20, hikingPoints: 18 },
+  recoveryBands: recoveryBands(15),
+  recoveryNoDataPoints: 15,
+  activityBands: [
+    { min: 10000, points: 10, label: "10000歩以上" },
+    { min: 8000, points: 8, label: "8000–9999歩" },
+    { min: 6000, points: 7, label: "6000–7999歩" },
+    { min: 4000, points: 5, label: "4000–5999歩" },
+    { points: 3, label: "4000歩未満" },
+  ],
+  fatRatioBands,
+  nutritionNoDataPoints: 3,
+  bonus: { max: 8, hiking: 5, lowerBody: 3, cardio: 2, cardioMinKcal: 200 },
+};
+
+/** 体重維持。カロリー収支は ±100 が満点 */
+const MAINTAIN: ScoringProfile = {
+  ...CUT,
+  id: "maintain",
+  name: "維持",
+  energyBands: [
+    { max: -500, points: 9, label: "-500未満" },
+    { max: -300, points: 14, label: "-300〜-499" },
+    { max: -200, points: 20, label: "-200〜-299" },
+    { max: -100, points: 25, label: "-100〜-199" },
+    { max: 100, maxInclusive: true, points: 30, label: "±100以内" },
+    { max: 200, maxInclusive: true, points: 25, label: "+100〜+200" },
+    { max: 300, maxInclusive: true, points: 20, label: "+200〜+300" },
+    { points: 14, label: "+300超" },
+  ],
+  proteinBands: [
+    { min: 1.6, points: 20, label: "1.6以上" },
+    { min: 1.4, points: 16, label: "1.4–1.59" },
+    { min: 1.2, points: 12, label: "1.2–1.39" },
+    { points: 8, label: "1.2未満" },
+  ],
+  bonus: { max: 5, hiking: 3, lowerBody: 2, cardio: 2, cardioMinKcal: 200 },
+};
+
+/** 増量（筋肥大）。+200〜+400 の余剰とトレーニング量を重視 */
+const BULK: ScoringProfile = {
+  ...CUT,
+  id: "bulk",
+  name: "増量",
+  weights: { energy: 30, protein: 20, stimulus: 25, recovery: 15, activity: 5, nutritionBalance: 5 },
+  energyBands: [
+    { max: -100, points: 9, label: "-100未満" },
+    { max: 100, maxInclusive: true, points: 18, label: "±100以内" },
+    { max: 200, points: 25, label: "+100〜+199" },
+    { max: 400, maxInclusive: true, points: 30, label: "+200〜+400" },
+    { max: 600, maxInclusive: true, points: 22, label: "+401〜+600" },
+    { points: 13, label: "+600超" },
+  ],
+  proteinBands: [
+    { min: 1.8, points: 20, label: "1.8以上" },
+    { min: 1.6, points: 17, label: "1.6–1.79" },
+    { min: 1.4, points: 13, label: "1.4–1.59" },
+    { points: 8, label: "1.4未満" },
+  ],
+  stimulus: { minSets: 12, restDayPoints: 25, hikingPoints: 18 },
+  activityBands: [
+    { min: 8000, points: 5, label: "8000歩以上" },
+    { min: 5000, points: 4, label: "5000–7999歩" },
+    { min: 3000, points: 3, label: "3000–4999歩" },
+    { points: 2, label: "3000歩未満" },
+  ],
+  bonus: { max: 3, hiking: 0, lowerBody: 3, cardio: 0, cardioMinKcal: 200 },
+};
+
+/** 持久系（登山・ランニング）。活動量と有酸素を重視し、補給不足を強めに減点 */
+const ENDURANCE: ScoringProfile = {
+  ...CUT,
+  id: "endurance",
+  name: "持久力",
+  weights: { energy: 25, protein: 15, stimulus: 15, recovery: 15, activity: 25, nutritionBalance: 5 },
+  energyBands: [
+    { max: -500, points: 10, label: "-500未満" },
+    { max: -300, points: 16, label: "-300〜-499" },
+    { max: -100, points: 21, label: "-100〜-299" },
+    { max: 200, maxInclusive: true, points: 25, label: "-100〜+200" },
+    { max: 400, maxInclusive: true, points: 20, label: "+201〜+400" },
+    { points: 13, label: "+400超" },
+  ],
+  proteinBands: [
+    { min: 1.6, points: 15, label: "1.6以上" },
+    { min: 1.4, points: 12, label: "1.4–1.59" },
+    { min: 1.2, points: 9, label: "1.2–1.39" },
+    { points: 6, label: "1.2未満" },
+  ],
+  stimulus: { minSets: 8, restDayPoints: 15, hikingPoints: 15 },
+  activityBands: [
+    { min: 15000, points: 25, label: "15000歩以上" },
+    { min: 12000, points: 21, label: "12000–14999歩" },
+    { min: 10000, points: 17, label: "10000–11999歩" },
+    { min: 8000, points: 13, label: "8000–9999歩" },
+    { min: 6000, points: 9, label: "6000–7999歩" },
+    { points: 5, label: "6000歩未満" },
+  ],
+  bonus: { max: 10, hiking: 6, lowerBody: 2, cardio: 4, cardioMinKcal: 300 },
+};
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringProfile> = {
+  cut: CUT,
+  maintain: MAINTAIN,
+  bulk: BULK,
+  endurance: ENDURANCE,
+};
+
+/** 未設定ユーザーのプロファイル（従来モデルと同じ配点） */
+export const DEFAULT_SCORING_PROFILE = CUT;
+
+export function isScoringPresetId(id: string): id is ScoringPresetId {
+  return Object.prototype.hasOwnProperty.call(SCORING_PRESETS, id);
+}
+
+/**
+ * 保存済み JSON をプロファイルにする。形式が不正・未知のバージョンなら null
+ * 形式を変えるときは version を上げ、ここで旧形式を変換する
+ */
+export function parseScoringProfile(json: unknown): ScoringProfile | null {
+  const parsed = scoringProfileSchema.safeParse(json);
+  return parsed.success ? parsed.data : null;
+}
+
+/** 帯の中から x に該当する最初の帯を返す（該当なしは null） */
+export function pickBand(bands: ScoreBand[], x: number): ScoreBand | null {
+  return (
+    bands.find(
+      (b) => (b.min == null || x >= b.min) && (b.max == null || (b.maxInclusive ? x <= b.max : x < b.max))
+    ) ?? null
+  );
+}
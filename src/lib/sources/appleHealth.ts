@@ -12,10 +12,11 @@
 
 import { fetchFitDailyAggregateRange } from "../googleFit";
 import { fetchHealthFromAutoExport, isHealthAutoExportConfigured } from "../healthAutoExport";
+import { registerSource } from "./registry";
 import type { FetchHealthResult, HealthDayData } from "./types";
 
-/** 環境変数による実装選択。明示指定が無ければ Drive 設定の有無で自動判定する */
-function selectSource(): "fit" | "drive" {
+/** 環境変数による実装選択。明示指定が無ければユーザーの Drive 設定の有無で自動判定する */
+async function selectSource(userId?: string): Promise<"fit" | "drive"> {
   const env = (process.env.HEALTH_SOURCE ?? "").toLowerCase();
   if (env === "drive") return "drive";
   if (env === "fit") {
@@ -25,18 +26,18 @@ function selectSource(): "fit" | "drive" {
     return "fit";
   }
   // 自動判定: 設定が無く Drive が設定されていれば drive、それ以外は fit
-  if (isHealthAutoExportConfigured()) return "drive";
+  if (await isHealthAutoExportConfigured(userId)) return "drive";
   console.warn(
     "Google Fit API は 2026-06-30 に終了済みです。HEALTH_SOURCE=drive への移行を推奨します。"
   );
   return "fit";
 }
 
-async function fetchFromFit(dates: Set<string>): Promise<FetchHealthResult> {
+async function fetchFromFit(dates: Set<string>, userId?: string): Promise<FetchHealthResult> {
   const errors: string[] = [];
   const result = new Map<string, HealthDayData>();
   const dateList = Array.from(dates).sort();
-  const fitResult = await fetchFitDailyAggregateRange(dateList);
+  const fitResult = await fetchFitDailyAggregateRange(dateList, userId);
   if (fitResult === null) return { data: result, errors };
   errors.push(...fitResult.errors);
   for (const [date, m] of fitResult.data) {
@@ -58,10 +59,10 @@ async function fetchFromFit(dates: Set<string>): Promise<FetchHealthResult> {
   return { data: result, errors };
 }
 
-async function fetchFromDrive(dates: Set<string>): Promise<FetchHealthResult> {
+async function fetchFromDrive(dates: Set<string>, userId?: string): Promise<FetchHealthResult> {
   const errors: string[] = [];
   const result = new Map<string, HealthDayData>();
-  const haeResult = await fetchHealthFromAutoExport(dates);
+  const haeResult = await fetchHealthFromAutoExport(dates, userId);
   if (haeResult === null) return { data: result, errors };
   errors.push(...haeResult.errors);
   for (const [date, day] of haeResult.data) {
@@ -74,22 +75,32 @@ async function fetchFromDrive(dates: Set<string>): Promise<FetchHealthResult> {
 /**
  * 日付集合に対するヘルスケアデータをまとめて取得する。
  * 未設定時は空 Map を返す（エラー扱いではない）。
+ * @param userId 未指定時は "default"。Google 認証情報（Drive / Fit）の持ち主
  */
-export async function fetchHealthForDateRange(dates: Set<string>): Promise<FetchHealthResult> {
+export async function fetchHealthForDateRange(dates: Set<string>, userId?: string): Promise<FetchHealthResult> {
   const errors: string[] = [];
   const result = new Map<string, HealthDayData>();
 
   if (dates.size === 0) return { data: result, errors };
 
   try {
-    const source = selectSource();
+    const source = await selectSource(userId);
     // Drive 明示指定 or Drive 設定済み(明示指定なし) で Fit が必要ない場合
-    if (source === "drive" && isHealthAutoExportConfigured()) {
-      return await fetchFromDrive(dates);
+    if (source === "drive" && (await isHealthAutoExportConfigured(userId))) {
+      return await fetchFromDrive(dates, userId);
     }
-    return await fetchFromFit(dates);
+    return await fetchFromFit(dates, userId);
   } catch (e) {
     errors.push(`Health: ${String(e)}`);
     return { data: result, errors };
   }
 }
+
+registerSource({
+  id: "appleHealth",
+  name: "Apple Watch（ヘルスケア）",
+  kind: "health",
+  description: "歩数・消費カロリー・心拍・睡眠・体重",
+  enabledByDefault: true,
+  source: { fetchForDateRange: (dates, userId) => fetchHealthForDateRange(dates, userId) },
+});
@@ -1,133 +1,122 @@
 /**
  * あすけんデータソース（栄養・歩数等）
- * スクレイピング子プロセスを実行し、1日分のデータを返す。将来は他アプリのプロバイダーも同じ interface で追加可能。
+ * スクレイパー（scripts/asken/scraper.ts）を同じプロセスで呼び、1日分のデータを返す。将来は他アプリのプロバイダーも同じ interface で追加可能。
+ * 複数日の同期（openSession）は1つのブラウザコンテキストを日付間で使い回す。
+ * 失敗はセッション切れ・Bot 拒否・ページ構成の変更・タイムアウトを区別して errorKind と ScrapingLog に残す。
  */
 
 import fs from "fs";
-import path from "path";
-import { spawn } from "child_process";
 import { getAskenCredentials } from "./credentials";
-import type { NutritionDayResult, FetchNutritionResult } from "./types";
+import { registerSource } from "./registry";
+import type { NutritionDayResult, FetchErrorKind, FetchNutritionResult, NutritionSourceSession } from "./types";
 import { prisma } from "../prisma";
-
-const SECRETS_DIR = path.join(process.cwd(), "secrets");
-const ASKEN_STATE_FILE = path.join(SECRETS_DIR, "asken-state.json");
+import { getEffectiveTodayStr } from "../dateUtils";
+import { TimeoutError, withTimeout } from "../concurrency";
+import { openAskenScraper, type AskenScraper } from "../../../scripts/asken/scraper";
+import { AskenScrapeError } from "../../../scripts/asken/errors";
+import { askenDayFile, askenStateFile } from "../../../scripts/asken/paths";
 
 /** ScrapingLog テーブルにログを保存（失敗しても本処理は継続） */
-async function saveScrapingLog(dateStr: string, status: string, message: string, details?: string) {
+async function saveScrapingLog(
+  ownerId: string,
+  dateStr: string,
+  status: string,
+  message: string,
+  details?: string,
+  errorKind?: FetchErrorKind
+) {
   try {
     await prisma.scrapingLog.create({
-      data: { date: dateStr, source: "asken", status, message, details },
+      data: { ownerId, date: dateStr, source: "asken", status, message, details, errorKind },
     });
   } catch (e) {
     console.warn("ScrapingLog 保存失敗:", e);
   }
 }
 
+/** 例外を取得失敗の種類に分類する */
+function errorKindOf(e: unknown): FetchErrorKind {
+  if (e instanceof AskenScrapeError) return e.kind;
+  if (e instanceof TimeoutError) return "timeout";
+  return "unknown";
+}
+
 /**
- * stdout から `{"date": ...}` の JSON ブロックを抽出する。
- * run.ts は pretty-print 出力 + 末尾に `Saved: ...` を出すため、
- * 単純な regex では境界が取れない。ブレースカウントで top-level のみ拾う。
+ * 複数日取得用のセッションを開く。ブラウザは最初の取得時に起動し、以降の日付（並行呼び出しを含む）で使い回す
+ * 起動・セッション確認に失敗した場合は各日付の取得エラーとして返す
+ * @param options.dateTimeoutMs 1日分（ブラウザ起動後）の上限時間。省略時はページ読み込みのタイムアウトのみ
  */
-function extractDateJsonBlock(text: string): string | null {
-  const startMatch = text.match(/\{\s*"date"\s*:/);
-  if (!startMatch || startMatch.index === undefined) return null;
-  const start = startMatch.index;
-  let depth = 0;
-  let inString = false;
-  let escape = false;
-  for (let i = start; i < text.length; i++) {
-    const ch = text[i];
-    if (escape) { escape = false; continue; }
-    if (ch === "\\") { escape = true; continue; }
-    if (ch === '"') { inString = !inString; continue; }
-    if (inString) continue;
-    if (ch === "{") depth++;
-    else if (ch === "}") {
-      depth--;
-      if (depth === 0) return text.slice(start, i + 1);
-    }
-  }
-  return null;
+export async function openNutritionSession(
+  userId?: string,
+  options?: { dateTimeoutMs?: number }
+): Promise<NutritionSourceSession> {
+  const owner = userId ?? "default";
+  const credentials = await getAskenCredentials(owner);
+  const missingMsg = !credentials && !fs.existsSync(askenStateFile(owner))
+    ? "ASKEN_EMAIL / ASKEN_PASSWORD が未設定で、asken-state.json もありません。"
+    : null;
+  const timeoutMs = options?.dateTimeoutMs;
+  let scraper: Promise<AskenScraper> | null = null;
+
+  return {
+    async fetchForDate(dateStr) {
+      if (missingMsg) {
+        await saveScrapingLog(owner, dateStr, "error", missingMsg, undefined, "session_expired");
+        return { ok: false, error: missingMsg, errorKind: "session_expired" };
+      }
+      try {
+        scraper ??= openAskenScraper({
+          headless: true,
+          verifyDate: getEffectiveTodayStr(),
+          credentials: credentials ?? undefined,
+          userId: owner,
+        });
+        const scrape = (await scraper).scrapeDate(dateStr);
+        const data = timeoutMs ? await withTimeout(scrape, timeoutMs, `${timeoutMs}ms 以内に終わりませんでした`) : await scrape;
+        await saveScrapingLog(owner, dateStr, "ok", `${data.items.length}件取得`);
+        return { ok: true, data };
+      } catch (e) {
+        const errorKind = errorKindOf(e);
+        const msg = (e instanceof Error ? e.message : String(e)).slice(0, 500);
+        await saveScrapingLog(owner, dateStr, "error", msg, e instanceof Error ? e.stack : undefined, errorKind);
+        return { ok: false, error: msg, errorKind };
+      }
+    },
+    async close() {
+      if (!scraper) return;
+      try {
+        await (await scraper).close();
+      } catch {
+        // 起動に失敗していれば閉じるものは無い
+      }
+    },
+  };
 }
 
 /**
- * あすけんスクレイピングを子プロセスで実行し、1日分のデータを返す
+ * あすけんから1日分のデータを取得する（ブラウザを起動して閉じる。複数日は openNutritionSession）
  * @param dateStr YYYY-MM-DD
- * @param userId 未指定時は "default"。認証情報は getAskenCredentials(userId) で取得（現状は env のみ）
+ * @param userId 未指定時は "default"。認証情報は getAskenCredentials(userId) で取得（暗号化ストア → default のみ env）
  */
 export async function fetchNutritionForDate(
   dateStr: string,
   userId?: string
 ): Promise<FetchNutritionResult> {
-  const credentials = await getAskenCredentials(userId ?? "default");
-  if (!credentials) {
-    if (!fs.existsSync(ASKEN_STATE_FILE)) {
-      const msg = "ASKEN_EMAIL / ASKEN_PASSWORD が未設定で、asken-state.json もありません。";
-      await saveScrapingLog(dateStr, "error", msg);
-      return { ok: false, error: msg };
-    }
+  const session = await openNutritionSession(userId);
+  try {
+    return await session.fetchForDate(dateStr);
+  } finally {
+    await session.close();
   }
-
-  const env = {
-    ...process.env,
-    HEADLESS: "true",
-    ...(credentials ? { ASKEN_EMAIL: credentials.email, ASKEN_PASSWORD: credentials.password } : {}),
-  };
-
-  return new Promise((resolve) => {
-    const proc = spawn("npx", ["tsx", "scripts/asken/run.ts", dateStr], {
-      cwd: process.cwd(),
-      env,
-      stdio: ["ignore", "pipe", "pipe"],
-      shell: true,
-    });
-    let stdout = "";
-    let stderr = "";
-    proc.stdout?.on("data", (d) => { stdout += d.toString(); });
-    proc.stderr?.on("data", (d) => { stderr += d.toString(); });
-
-    proc.on("close", async (code) => {
-      if (code !== 0) {
-        const errorMsg = stderr.slice(0, 500) || `exit ${code}`;
-        await saveScrapingLog(dateStr, "error", errorMsg, stderr);
-        resolve({ ok: false, error: errorMsg });
-        return;
-      }
-      try {
-        const jsonText = extractDateJsonBlock(stdout);
-        if (jsonText) {
-          const data = JSON.parse(jsonText) as NutritionDayResult;
-          await saveScrapingLog(dateStr, "ok", `${data.items?.length ?? 0}件取得`);
-          resolve({ ok: true, data });
-        } else {
-          const msg = `stdout に JSON が見つかりません: ${stdout.slice(0, 200)}`;
-          console.warn(`Asken ${dateStr}:`, msg);
-          await saveScrapingLog(dateStr, "error", msg, stdout.slice(0, 2000));
-          resolve({ ok: true });
-        }
-      } catch (parseErr) {
-        const msg = `JSON パース失敗: ${String(parseErr)}`;
-        console.warn(`Asken ${dateStr}:`, msg, stdout.slice(0, 200));
-        await saveScrapingLog(dateStr, "error", msg, stdout.slice(0, 2000));
-        resolve({ ok: true });
-      }
-    });
-
-    proc.on("error", async (e) => {
-      const msg = String(e);
-      await saveScrapingLog(dateStr, "error", msg);
-      resolve({ ok: false, error: msg });
-    });
-  });
 }
 
 /**
  * あすけんのキャッシュファイル（asken-day-${date}.json）から取得する
  * スクレイピング未実行時や失敗時のフォールバック用
+ * @param userId 未指定時は "default"。キャッシュはユーザーごとに分かれている
  */
-export function readNutritionFallbackFile(dateStr: string): NutritionDayResult | null {
-  const jsonPath = path.join(SECRETS_DIR, `asken-day-${dateStr}.json`);
+export function readNutritionFallbackFile(dateStr: string, userId?: string): NutritionDayResult | null {
+  const jsonPath = askenDayFile(dateStr, userId);
   if (!fs.existsSync(jsonPath)) return null;
   try {
     return JSON.parse(fs.readFileSync(jsonPath, "utf-8")) as NutritionDayResult;
@@ -135,3 +124,16 @@ export function readNutritionFallbackFile(dateStr: string): NutritionDayResult |
     return null;
   }
 }
+
+registerSource({
+  id: "asken",
+  name: "あすけん",
+  kind: "nutrition",
+  description: "食事・栄養",
+  enabledByDefault: true,
+  source: {
+    fetchForDate: fetchNutritionForDate,
+    openSession: openNutritionSession,
+    readFallback: (date, userId) => readNutritionFallbackFile(date, userId),
+  },
+});
@@ -0,0 +1,267 @@
+/**
+ * MyFitnessPal / Cronometer の CSV エクスポートを栄養データソースとして取り込む
+ * 行を NutritionDayResult（items + 食事ごとの栄養素）に変換し、あすけんと同じ askenItems / askenNutrients に保存する。
+ * スコア計算・/api/day・Gemini プロンプトはあすけんのデータと同じ形で扱える。
+ *
+ * 取り込み経路:
+ * - POST /api/sync/food-csv でアップロード
+ * - Google Drive の GOOGLE_DRIVE_FOOD_CSV_FOLDER_ID フォルダ（同期時に registry 経由で取得）
+ */
+
+import { parseCsvRecords } from "../csv";
+import { NUTRIENTS, normalizeNutrientUnit, type NutrientKey } from "../nutrients";
+import { DEFAULT_USER_ID } from "../dbConfig";
+import { fetchCsvFilesFromDrive } from "../googleDrive";
+import { registerSource } from "./registry";
+import type { FetchNutritionResult, NutritionDayResult, NutritionItem } from "./types";
+
+export type FoodCsvFormat = "myfitnesspal" | "cronometer";
+
+export type FoodCsvParseResult = {
+  format: FoodCsvFormat | null;
+  days: Map<string, NutritionDayResult>;
+  errors: string[];
+};
+
+const FORMAT_LABEL: Record<FoodCsvFormat, string> = {
+  myfitnesspal: "MyFitnessPal",
+  cronometer: "Cronometer",
+};
+
+const DRIVE_FOLDER_ENV = "GOOGLE_DRIVE_FOOD_CSV_FOLDER_ID";
+
+/** Drive から読んだ CSV を同期1回分使い回す時間（日付ごとに全ファイルを再ダウンロードしないため） */
+const DRIVE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** 英語の食事区分 → あすけんの食事区分。該当しないもの（Snacks / Uncategorized 等）は間食 */
+const MEAL_TYPE_MAP: Record<string, string> = {
+  breakfast: "朝食",
+  lunch: "昼食",
+  dinner: "夕食",
+  朝食: "朝食",
+  昼食: "昼食",
+  夕食: "夕食",
+};
+
+/**
+ * CSV 列 → 栄養素（保存時のラベル・単位は NUTRIENTS に従う）
+ * names はヘッダーから単位の括弧を除いた列名（小文字）。unitless はヘッダーに単位が無くても正式な単位とみなしてよい列
+ */
+const NUTRIENT_COLUMNS: { names: string[]; key: NutrientKey; unitless?: boolean }[] = [
+  { names: ["calories", "energy"], key: "energy", unitless: true },
+  { names: ["protein"], key: "protein" },
+  { names: ["fat"], key: "fat" },
+  { names: ["carbohydrates", "carbs"], key: "carbs" },
+  { names: ["net carbs"], key: "sugar" },
+  { names: ["fiber"], key: "fiber", unitless: true },
+  { names: ["sodium"], key: "sodium" },
+  { names: ["potassium"], key: "potassium", unitless: true },
+  { names: ["calcium"], key: "calcium" },
+  { names: ["iron"], key: "iron" },
+  { names: ["vitamin a"], key: "vitaminA" },
+  { names: ["b1 (thiamine)", "vitamin b1", "thiamine"], key: "vitaminB1" },
+  { names: ["b2 (riboflavin)", "vitamin b2", "riboflavin"], key: "vitaminB2" },
+  { names: ["b6 (pyridoxine)", "vitamin b6"], key: "vitaminB6" },
+  { names: ["b12 (cobalamin)", "vitamin b12"], key: "vitaminB12" },
+  { names: ["vitamin c"], key: "vitaminC" },
+  { names: ["vitamin d"], key: "vitaminD" },
+  { names: ["vitamin e"], key: "vitaminE" },
+  { names: ["folate"], key: "folate" },
+];
+
+/** ナトリウム(mg) → 食塩相当量(g) の換算係数 */
+const SODIUM_TO_SALT = 2.54 / 1000;
+
+/** "Protein (g)" → { name: "protein", unit: "g" }。"B1 (Thiamine) (mg)" のように括弧が複数あれば末尾を単位とみなす */
+function splitHeader(header: string): { name: string; unit: string | null } {
+  const m = header.match(/^(.*?)\s*\(([^()]*)\)\s*$/);
+  if (m && /^(kcal|g|mg|µg|μg|mcg|ug|iu|%)$/i.test(m[2].trim())) {
+    return { name: m[1].trim().toLowerCase(), unit: normalizeNutrientUnit(m[2]) ?? m[2].trim().toLowerCase() };
+  }
+  return { name: header.trim().toLowerCase(), unit: null };
+}
+
+/** ヘッダー → 取り込む栄養素列（単位が合わない列は捨てる。例: MyFitnessPal の Calcium は %DV） */
+function resolveNutrientColumns(headers: string[]): { header: string; key: string; unit: string }[] {
+  const out: { header: string; key: string; unit: string }[] = [];
+  for (const header of headers) {
+    const { name, unit } = splitHeader(header);
+    const def = NUTRIENT_COLUMNS.find((c) => c.names.includes(name));
+    if (!def) continue;
+    const { labels, unit: defUnit } = NUTRIENTS[def.key];
+    if (unit === null ? !def.unitless : unit !== defUnit) continue;
+    out.push({ header, key: labels[0], unit: defUnit });
+  }
+  return out;
+}
+
+/** ヘッダーから CSV の種類を判定する。不明なら null */
+export function detectFoodCsvFormat(headers: string[]): FoodCsvFormat | null {
+  const set = new Set(headers.map((h) => h.trim().toLowerCase()));
+  if (set.has("day") && set.has("food name")) return "cronometer";
+  if (set.has("date") && set.has("meal") && set.has("calories")) return "myfitnesspal";
+  return null;
+}
+
+/** "2024-01-05" / "2024/1/5" / "1/5/2024" → "2024-01-05"。解釈できなければ null */
+function parseCsvDate(value: string): string | null {
+  const pad = (n: string) => n.padStart(2, "0");
+  let m = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (m) return `${m[1]}-${pad(m[2])}-${pad(m[3])}`;
+  m = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (m) return `${m[3]}-${pad(m[1])}-${pad(m[2])}`;
+  return null;
+}
+
+function toMealType(value: string): string {
+  return MEAL_TYPE_MAP[value.trim().toLowerCase()] ?? MEAL_TYPE_MAP[value.trim()] ?? "間食";
+}
+
+/** "1,234.5" → 1234.5。空・数値でなければ null */
+function toNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const n = parseFloat(value.replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** あすけんと同じ "12.3g" 形式（小数1桁、.0 は省く） */
+function formatAmount(value: number, unit: string): string {
+  return `${Math.round(value * 10) / 10}${unit}`;
+}
+
+/**
+ * CSV テキストを日付ごとの NutritionDayResult にする
+ * - Cronometer（servings.csv）: 1行1食品。Group を食事区分に、Food Name / Amount を items にする
+ * - MyFitnessPal（Nutrition Summary）: 1行1食事。食品名が無いため食事ごとに1件の items にする
+ */
+export function parseFoodCsv(content: string): FoodCsvParseResult {
+  const { headers, records } = parseCsvRecords(content);
+  const format = detectFoodCsvFormat(headers);
+  const days = new Map<string, NutritionDayResult>();
+  const errors: string[] = [];
+  if (!format) {
+    errors.push("MyFitnessPal / Cronometer の CSV として認識できませんでした");
+    return { format, days, errors };
+  }
+
+  const columns = resolveNutrientColumns(headers);
+  const dateHeader = headers.find((h) => h.toLowerCase() === (format === "cronometer" ? "day" : "date"))!;
+  const mealHeader = headers.find((h) => h.toLowerCase() === (format === "cronometer" ? "group" : "meal"));
+  const nameHeader = headers.find((h) => ["food name", "food"].includes(h.toLowerCase()));
+  const amountHeader = headers.find((h) => h.toLowerCase() === "amount");
+  const energyHeader = columns.find((c) => c.key === NUTRIENTS.energy.labels[0])?.header;
+
+  const totals = new Map<string, Map<string, Map<string, number>>>();
+  const items = new Map<string, NutritionItem[]>();
+
+  records.forEach((rec, i) => {
+    const date = parseCsvDate(rec[dateHeader] ?? "");
+    if (!date) {
+      errors.push(`${i + 2}行目: 日付を解釈できません (${rec[dateHeader] ?? ""})`);
+      return;
+    }
+    const mealType = toMealType(mealHeader ? rec[mealHeader] ?? "" : "");
+    const calories = energyHeader ? toNumber(rec[energyHeader]) ?? 0 : 0;
+    const name = (nameHeader && rec[nameHeader]) || `${mealType}（${FORMAT_LABEL[format]}）`;
+
+    if (!items.has(date)) items.set(date, []);
+    items.get(date)!.push({
+      mealType,
+      name,
+      amount: amountHeader ? rec[amountHeader] ?? "" : "",
+      calories: Math.round(calories),
+    });
+
+    if (!totals.has(date)) totals.set(date, new Map());
+    const byMeal = totals.get(date)!;
+    if (!byMeal.has(mealType)) byMeal.set(mealType, new Map());
+    const sums = byMeal.get(mealType)!;
+    for (const { header, key } of columns) {
+      const v = toNumber(rec[header]);
+      if (v === null) continue;
+      sums.set(key, (sums.get(key) ?? 0) + v);
+    }
+  });
+
+  for (const [date, byMeal] of totals) {
+    const nutrients: NutritionDayResult["nutrients"] = {};
+    for (const [mealType, sums] of byMeal) {
+      const meal: Record<string, string> = {};
+      for (const { key, unit } of columns) {
+        const v = sums.get(key);
+        if (v !== undefined) meal[key] = formatAmount(v, unit);
+      }
+      const sodium = sums.get(NUTRIENTS.sodium.labels[0]);
+      // あすけんは食塩相当量で持つため、ナトリウムから換算して同じキーでも入れる
+      if (sodium !== undefined) meal[NUTRIENTS.salt.labels[0]] = formatAmount(sodium * SODIUM_TO_SALT, NUTRIENTS.salt.unit);
+      nutrients[mealType] = meal;
+    }
+    days.set(date, { date, items: items.get(date) ?? [], nutrients });
+  }
+
+  return { format, days, errors };
+}
+
+/** 複数ファイルの結果をまとめる。同じ日付は後のファイルで丸ごと置き換える（重複エクスポートの二重計上を防ぐ） */
+export function mergeFoodCsvDays(results: FoodCsvParseResult[]): Map<string, NutritionDayResult> {
+  const merged = new Map<string, NutritionDayResult>();
+  for (const r of results) {
+    for (const [date, day] of r.days) merged.set(date, day);
+  }
+  return merged;
+}
+
+const driveCache = new Map<string, { at: number; results: Promise<FoodCsvParseResult[]> }>();
+
+/** Drive フォルダの CSV を読み込んでパースする（古い順。未設定なら null） */
+async function loadDriveCsv(userId: string): Promise<FoodCsvParseResult[] | null> {
+  const folderId = process.env[DRIVE_FOLDER_ENV];
+  if (!folderId) return null;
+  const cached = driveCache.get(userId);
+  if (cached && Date.now() - cached.at < DRIVE_CACHE_TTL_MS) return cached.results;
+
+  const results = fetchCsvFilesFromDrive(folderId, userId).then((files) =>
+    (files ?? []).reverse().map((f) => parseFoodCsv(f.content))
+  );
+  driveCache.set(userId, { at: Date.now(), results });
+  // 失敗結果はキャッシュしない（次の同期で再試行させる）
+  results.catch(() => driveCache.delete(userId));
+  return results;
+}
+
+/**
+ * 指定形式の CSV から1日分を取得する（Drive 経由）。その日の行が無ければ ok のみ
+ * Drive フォルダが未設定なら（アップロードだけで使う場合）取得するものが無いので ok のみ
+ */
+async function fetchFoodCsvForDate(
+  format: FoodCsvFormat,
+  dateStr: string,
+  userId?: string
+): Promise<FetchNutritionResult> {
+  try {
+    const results = await loadDriveCsv(userId ?? DEFAULT_USER_ID);
+    if (results === null) return { ok: true };
+    const day = mergeFoodCsvDays(results.filter((r) => r.format === format)).get(dateStr);
+    return day ? { ok: true, data: day } : { ok: true };
+  } catch (e) {
+    return { ok: false, error: String(e) };
+  }
+}
+
+registerSource({
+  id: "myfitnesspal",
+  name: "MyFitnessPal",
+  kind: "nutrition",
+  description: "食事・栄養（CSV エクスポート）",
+  enabledByDefault: false,
+  source: { fetchForDate: (date, userId) => fetchFoodCsvForDate("myfitnesspal", date, userId) },
+});
+
+registerSource({
+  id: "cronometer",
+  name: "Cronometer",
+  kind: "nutrition",
+  description: "食事・栄養（CSV エクスポート）",
+  enabledByDefault: false,
+  source: { fetchForDate: (date, userId) => fetchFoodCsvForDate("cronometer", date, userId) },
+});
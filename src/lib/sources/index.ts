@@ -1,14 +1,32 @@
 /**
  * データソース拡張レイヤー
- * 栄養・トレーニングの取得をプロバイダーで抽象化。あすけん・Strong は現状の実装、将来他アプリを追加可能。
+ * 栄養・トレーニング・ヘルスケアの取得をプロバイダーで抽象化し、registry に登録する。あすけん・Strong・Apple Watch・MyFitnessPal / Cronometer（CSV）を登録済み。
  */
 
 export * from "./types";
 export { getAskenCredentials } from "./credentials";
-export { fetchNutritionForDate, readNutritionFallbackFile } from "./asken";
+export {
+  registerSource,
+  getRegisteredSources,
+  getSource,
+  getEnabledSourceIds,
+  getEnabledSources,
+  setSourceEnabled,
+} from "./registry";
+export { fetchNutritionForDate, openNutritionSession, readNutritionFallbackFile } from "./asken";
 export {
   fetchTrainingForDateRange,
   parseTxtContent,
+  parseStrongCsv,
+  parseStrongFileContent,
+  isStrongCsv,
   buildStrongData,
+  groupStrongWorkoutsByDate,
   parseStrongFiles,
+  readStrongFiles,
+  readStrongFilesFromDrive,
+  getLocalStrongPath,
 } from "./strong";
+export { fetchHealthForDateRange } from "./appleHealth";
+export { parseFoodCsv, mergeFoodCsvDays, detectFoodCsvFormat } from "./foodCsv";
+export type { FoodCsvFormat, FoodCsvParseResult } from "./foodCsv";
@@ -0,0 +1,62 @@
+/**
+ * データソースレジストリ
+ * 各プロバイダー（asken.ts / strong.ts / appleHealth.ts 等）がモジュール読み込み時に registerSource で自身を登録する。
+ * ユーザーごとの有効・無効は Integration テーブル（sourceType = 登録 id）で管理する。
+ */
+
+import { prisma } from "../prisma";
+import { DEFAULT_USER_ID } from "../dbConfig";
+import type { RegisteredSource } from "./types";
+
+const registry = new Map<string, RegisteredSource>();
+
+/** データソースを登録する（同じ id は後勝ちで上書き） */
+export function registerSource(def: RegisteredSource): void {
+  registry.set(def.id, def);
+}
+
+/** 登録済みの全データソース（登録順） */
+export function getRegisteredSources(): RegisteredSource[] {
+  return Array.from(registry.values());
+}
+
+/** id からデータソースを取得。未登録なら null */
+export function getSource(id: string): RegisteredSource | null {
+  return registry.get(id) ?? null;
+}
+
+/**
+ * ユーザーが有効にしているデータソース id の集合を返す。
+ * default ユーザーは enabledByDefault のソースを初期値とし（env だけで運用していた既存環境の互換）、Integration 行で上書きする。
+ * 他ユーザーは Integration 行で enabled のものだけ（default の Drive・あすけん設定を流用させないため）。
+ */
+export async function getEnabledSourceIds(userId: string = DEFAULT_USER_ID): Promise<Set<string>> {
+  const rows = await prisma.integration.findMany({
+    where: { userId },
+    select: { sourceType: true, enabled: true },
+  });
+  const ids = new Set<string>(
+    userId === DEFAULT_USER_ID ? getRegisteredSources().filter((s) => s.enabledByDefault).map((s) => s.id) : []
+  );
+  for (const row of rows) {
+    if (!registry.has(row.sourceType)) continue;
+    if (row.enabled) ids.add(row.sourceType);
+    else ids.delete(row.sourceType);
+  }
+  return ids;
+}
+
+/** ユーザーが有効にしているデータソース（登録順） */
+export async function getEnabledSources(userId: string = DEFAULT_USER_ID): Promise<RegisteredSource[]> {
+  const ids = await getEnabledSourceIds(userId);
+  return getRegisteredSources().filter((s) => ids.has(s.id));
+}
+
+/** ユーザーのデータソース有効・無効を保存する */
+export async function setSourceEnabled(userId: string, sourceId: string, enabled: boolean): Promise<void> {
+  await prisma.integration.upsert({
+    where: { userId_sourceType: { userId, sourceType: sourceId } },
+    update: { enabled },
+    create: { userId, sourceType: sourceId, enabled },
+  });
+}
@@ -1,12 +1,15 @@
 /**
  * Strong データソース（筋トレ記録）
- * ローカルフォルダまたは Google Drive からテキストを読み、日付別にパースする。将来は他アプリのプロバイダーも同じ interface で追加可能。
+ * ローカルフォルダまたは Google Drive から共有テキスト（.txt）・CSV エクスポート（.csv）を読み、日付別にパースする。
+ * 将来は他アプリのプロバイダーも同じ interface で追加可能。
  */
 
 import fs from "fs";
 import path from "path";
+import { detectCsvDelimiter, parseCsvRecords } from "../csv";
 import { fetchStrongFilesFromDrive } from "../googleDrive";
-import type { StrongDayData } from "./types";
+import { registerSource } from "./registry";
+import type { ParsedStrongSet, ParsedStrongWorkout, StrongDayData, StrongSetDetail, StrongSetType } from "./types";
 import type { FetchTrainingResult } from "./types";
 
 const DEFAULT_STRONG_PATH = process.env.STRONG_DATA_PATH || "G:\\マイドライブ\\30_Home\\00_Training";
@@ -31,13 +34,11 @@ function parseSetLine(line: string): { weight: number; reps: number } | null {
 }
 
 /** テキスト内容から Strong ワークアウトをパースする（API アップロード用にも使用） */
-export function parseTxtContent(
-  content: string
-): { date: string; workoutName: string; exercises: { name: string; weight: number; reps: number }[] } | null {
+export function parseTxtContent(content: string): ParsedStrongWorkout | null {
   const lines = content.split(/\r?\n/).map((l) => l.trim());
   let workoutName = "";
   let dateStr: string | null = null;
-  const exercises: { name: string; weight: number; reps: number }[] = [];
+  const exercises: ParsedStrongSet[] = [];
   let currentExercise = "";
 
   for (let i = 0; i < lines.length; i++) {
@@ -59,32 +60,224 @@ export function parseTxtContent(
   return { date: dateStr, workoutName, exercises };
 }
 
-function parseTxtFile(filePath: string) {
-  const content = fs.readFileSync(filePath, "utf-8");
-  return parseTxtContent(content);
+const LB_TO_KG = 0.45359237;
+const MILE_TO_M = 1609.344;
+
+/** "1h 5m" / "45m" / "30s" / "1:05:00" / "3900"（秒）→ 秒。解釈できなければ undefined */
+function parseDurationSec(value: string): number | undefined {
+  const v = value.trim();
+  if (!v) return undefined;
+  if (/^\d+(\.\d+)?$/.test(v)) return Math.round(parseFloat(v));
+  const clock = v.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return clock[3] !== undefined
+      ? Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+      : Number(clock[1]) * 60 + Number(clock[2]);
+  }
+  let total = 0;
+  let matched = false;
+  for (const [, n, unit] of v.matchAll(/(\d+(?:\.\d+)?)\s*(h|m|s)/gi)) {
+    matched = true;
+    total += parseFloat(n) * (unit.toLowerCase() === "h" ? 3600 : unit.toLowerCase() === "m" ? 60 : 1);
+  }
+  return matched ? Math.round(total) : undefined;
+}
+
+/** "W" / "D" / "F" / 数値 → セット種別。Rest Timer 等のセットでない行は null */
+function parseSetType(value: string): StrongSetType | null {
+  const v = value.trim().toUpperCase();
+  if (/^\d+$/.test(v)) return "normal";
+  if (v === "W") return "warmup";
+  if (v === "D") return "drop";
+  if (v === "F") return "failure";
+  return null;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const n = parseFloat(value.replace(",", "."));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** ヘッダー名を大文字小文字・単位付き表記の違いを吸収して探す（"Weight" / "Weight (kg)" 等） */
+function findHeader(headers: string[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find((h) => h.toLowerCase() === lower || h.toLowerCase().startsWith(`${lower} (`));
+}
+
+/** ヘッダー末尾の単位 "Weight (lbs)" → "lbs" */
+function headerUnit(header: string | undefined): string | null {
+  const m = header?.match(/\(([^()]+)\)\s*$/);
+  return m ? m[1].trim().toLowerCase() : null;
+}
+
+/** Strong の CSV エクスポートか（Exercise Name と Set Order 列がある） */
+export function isStrongCsv(content: string): boolean {
+  const firstLine = content.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0].toLowerCase();
+  return firstLine.includes("exercise name") && firstLine.includes("set order");
+}
+
+/**
+ * Strong 公式の CSV エクスポート（全履歴）をワークアウト単位にパースする
+ * 1行1セット。Date + Workout Name（+ Workout #）でワークアウトをまとめ、RPE・メモ・時間・距離はセット詳細に残す。
+ * 重量は lbs の書き出しなら kg、距離は m に換算する。
+ */
+export function parseStrongCsv(content: string): { workouts: ParsedStrongWorkout[]; errors: string[] } {
+  const errors: string[] = [];
+  const { headers, records } = parseCsvRecords(content, detectCsvDelimiter(content));
+  const col = (name: string) => findHeader(headers, name);
+  const dateCol = col("Date");
+  const exerciseCol = col("Exercise Name");
+  const orderCol = col("Set Order");
+  if (!dateCol || !exerciseCol || !orderCol) {
+    return { workouts: [], errors: ["Strong の CSV ヘッダー（Date / Exercise Name / Set Order）が見つかりません"] };
+  }
+  const workoutNoCol = col("Workout #");
+  const nameCol = col("Workout Name");
+  const durationCol = col("Duration");
+  const weightCol = col("Weight");
+  const repsCol = col("Reps");
+  const rpeCol = col("RPE");
+  const distanceCol = col("Distance");
+  const secondsCol = col("Seconds");
+  const notesCol = col("Notes");
+  const workoutNotesCol = col("Workout Notes");
+  const weightUnitCol = col("Weight Unit");
+  const distanceUnitCol = col("Distance Unit");
+
+  const workouts = new Map<string, ParsedStrongWorkout>();
+  const orderCounters = new Map<string, number>();
+
+  records.forEach((rec, i) => {
+    const dateMatch = rec[dateCol].match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!dateMatch) {
+      errors.push(`${i + 2}行目: 日付を解釈できません (${rec[dateCol]})`);
+      return;
+    }
+    const setType = parseSetType(rec[orderCol]);
+    if (!setType) return;
+
+    const workoutName = nameCol ? rec[nameCol] : "";
+    const key = [workoutNoCol ? rec[workoutNoCol] : "", rec[dateCol], workoutName].join("\u0000");
+    let workout = workouts.get(key);
+    if (!workout) {
+      workout = {
+        date: dateMatch[0],
+        workoutName,
+        exercises: [],
+        startedAt: rec[dateCol],
+        durationSec: durationCol ? parseDurationSec(rec[durationCol]) : undefined,
+        notes: (workoutNotesCol && rec[workoutNotesCol]) || undefined,
+      };
+      workouts.set(key, workout);
+    }
+
+    const weightUnit = (weightUnitCol && rec[weightUnitCol].toLowerCase()) || headerUnit(weightCol) || "kg";
+    const rawWeight = weightCol ? toNumber(rec[weightCol]) ?? 0 : 0;
+    const weightKg = Math.round((weightUnit.startsWith("lb") ? rawWeight * LB_TO_KG : rawWeight) * 100) / 100;
+    const reps = repsCol ? Math.round(toNumber(rec[repsCol]) ?? 0) : 0;
+
+    const distanceUnit = (distanceUnitCol && rec[distanceUnitCol].toLowerCase()) || headerUnit(distanceCol) || "m";
+    const rawDistance = distanceCol ? toNumber(rec[distanceCol]) : undefined;
+    const distanceMeters = !rawDistance
+      ? undefined
+      : distanceUnit.startsWith("km")
+        ? rawDistance * 1000
+        : distanceUnit.startsWith("mi")
+          ? rawDistance * MILE_TO_M
+          : rawDistance;
+
+    // Set Order の番号は通常セットだけに振られ W / D / F は番号を持たないため、種目内の行の順で振る
+    const exerciseName = rec[exerciseCol] || "不明";
+    const counterKey = `${key}\u0000${exerciseName}`;
+    const order = (orderCounters.get(counterKey) ?? 0) + 1;
+    orderCounters.set(counterKey, order);
+
+    const seconds = secondsCol ? toNumber(rec[secondsCol]) : undefined;
+    const rpe = rpeCol ? toNumber(rec[rpeCol]) : undefined;
+    const detail: StrongSetDetail = {
+      order,
+      setType,
+      weightKg,
+      reps,
+      ...(rpe ? { rpe } : {}),
+      ...(distanceMeters ? { distanceMeters: Math.round(distanceMeters * 10) / 10 } : {}),
+      ...(seconds ? { seconds } : {}),
+      ...(notesCol && rec[notesCol] ? { notes: rec[notesCol] } : {}),
+    };
+    workout.exercises.push({ name: exerciseName, weight: weightKg, reps, detail });
+  });
+
+  return { workouts: Array.from(workouts.values()), errors };
 }
 
-/** テキスト内容の配列から StrongDayData マップを構築する（アップロード API 用） */
-export function buildStrongData(
-  parsed: { date: string; workoutName: string; exercises: { name: string; weight: number; reps: number }[] }[]
-): Map<string, StrongDayData> {
-  const byDate = new Map<string, { workoutName: string; exercises: { name: string; weight: number; reps: number }[] }[]>();
+/**
+ * ファイル1つ分をパースする。CSV エクスポートなら複数ワークアウト、共有テキストなら1ワークアウト
+ * @param name ファイル名（エラーメッセージ用）
+ */
+export function parseStrongFileContent(
+  name: string,
+  content: string
+): { workouts: ParsedStrongWorkout[]; errors: string[] } {
+  if (isStrongCsv(content)) {
+    const result = parseStrongCsv(content);
+    return { workouts: result.workouts, errors: result.errors.map((e) => `${name}: ${e}`) };
+  }
+  const parsed = parseTxtContent(content);
+  if (!parsed) return { workouts: [], errors: [`${name}: パースできませんでした（日付が見つかりません）`] };
+  return { workouts: [parsed], errors: [] };
+}
 
+/**
+ * 同じワークアウトの重複を除く
+ * - CSV 同士（全履歴のエクスポートを複数回置いた場合）は開始日時 + 名前が同じものを先勝ちで1つに
+ * - CSV に同じ日・同じ名前のワークアウトがあれば、共有テキスト側は捨てる（CSV の方がセット詳細を持つため）
+ */
+function dedupeWorkouts(parsed: ParsedStrongWorkout[]): ParsedStrongWorkout[] {
+  const seenCsv = new Set<string>();
+  const csvDayKeys = new Set<string>();
+  const out: ParsedStrongWorkout[] = [];
   for (const p of parsed) {
+    if (p.startedAt === undefined) continue;
+    const key = `${p.startedAt}\u0000${p.workoutName}`;
+    if (seenCsv.has(key)) continue;
+    seenCsv.add(key);
+    csvDayKeys.add(`${p.date}\u0000${p.workoutName}`);
+    out.push(p);
+  }
+  for (const p of parsed) {
+    if (p.startedAt !== undefined) continue;
+    if (csvDayKeys.has(`${p.date}\u0000${p.workoutName}`)) continue;
+    out.push(p);
+  }
+  return out;
+}
+
+/** パース結果を重複除去して日付ごとにまとめる（Workout テーブルへの保存単位） */
+export function groupStrongWorkoutsByDate(parsed: ParsedStrongWorkout[]): Map<string, ParsedStrongWorkout[]> {
+  const byDate = new Map<string, ParsedStrongWorkout[]>();
+  for (const p of dedupeWorkouts(parsed)) {
     if (!byDate.has(p.date)) byDate.set(p.date, []);
-    byDate.get(p.date)!.push({ workoutName: p.workoutName, exercises: p.exercises });
+    byDate.get(p.date)!.push(p);
   }
+  return byDate;
+}
+
+/** パース結果の配列から StrongDayData マップを構築する（アップロード API 用） */
+export function buildStrongData(parsed: ParsedStrongWorkout[]): Map<string, StrongDayData> {
+  const byDate = groupStrongWorkoutsByDate(parsed);
 
   const result = new Map<string, StrongDayData>();
   for (const [dateStr, workoutList] of byDate) {
     const workouts: StrongDayData["workouts"] = [];
     for (const w of workoutList) {
-      const byExercise = new Map<string, { sets: number; volumeKg: number; reps: number }>();
+      const byExercise = new Map<string, { sets: number; volumeKg: number; reps: number; details: StrongSetDetail[] }>();
       for (const e of w.exercises) {
-        const cur = byExercise.get(e.name) || { sets: 0, volumeKg: 0, reps: 0 };
+        const cur = byExercise.get(e.name) || { sets: 0, volumeKg: 0, reps: 0, details: [] };
         cur.sets += 1;
         cur.volumeKg += e.weight * e.reps;
         cur.reps += e.reps;
+        if (e.detail) cur.details.push(e.detail);
         byExercise.set(e.name, cur);
       }
       const exercises = Array.from(byExercise.entries()).map(([name, t]) => ({
@@ -92,12 +285,15 @@ export function buildStrongData(
         sets: t.sets,
         volumeKg: Math.round(t.volumeKg * 10) / 10,
         ...(t.volumeKg === 0 && t.reps > 0 ? { reps: t.reps } : {}),
+        ...(t.details.length > 0 ? { setDetails: t.details } : {}),
       }));
       const volumeKg = w.exercises.reduce((s, e) => s + e.weight * e.reps, 0);
       workouts.push({
         title: w.workoutName,
         totals: { sets: w.exercises.length, reps: w.exercises.reduce((s, e) => s + e.reps, 0), volumeKg: Math.round(volumeKg * 10) / 10 },
         exercises,
+        ...(w.durationSec !== undefined ? { durationSec: w.durationSec } : {}),
+        ...(w.notes ? { notes: w.notes } : {}),
       });
     }
     const totalVolume = workouts.reduce((s, w) => s + w.totals.volumeKg, 0);
@@ -110,23 +306,39 @@ export function buildStrongData(
   return result;
 }
 
-/** Strong テキストファイルからワークアウトデータをパースする（ディレクトリ版） */
+/** Strong のテキスト・CSV ファイルからワークアウトデータをパースする（ディレクトリ版） */
 export function parseStrongFiles(
   dirPath: string,
   dateRange?: Set<string>
 ): { data: Map<string, StrongDayData>; errors: string[] } {
+  const { workouts, errors } = readStrongFiles(dirPath, dateRange);
+  return { data: buildStrongData(workouts), errors };
+}
+
+/** フォルダ内の Strong ファイルを読み、ワークアウト単位のパース結果を返す（dateRange 指定時はその日付のみ） */
+export function readStrongFiles(
+  dirPath: string,
+  dateRange?: Set<string>
+): { workouts: ParsedStrongWorkout[]; errors: string[] } {
   const errors: string[] = [];
 
   if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
-    return { data: new Map(), errors: [`フォルダが見つかりません: ${dirPath}`] };
+    return { workouts: [], errors: [`フォルダが見つかりません: ${dirPath}`] };
   }
 
-  const files = fs.readdirSync(dirPath).filter((f) => f.endsWith(".txt"));
-  const allParsed: { date: string; workoutName: string; exercises: { name: string; weight: number; reps: number }[] }[] = [];
+  const files = fs.readdirSync(dirPath).filter((f) => f.endsWith(".txt") || f.endsWith(".csv"));
+  const allParsed: ParsedStrongWorkout[] = [];
 
   for (const f of files) {
     try {
-      const parsed = parseTxtFile(path.join(dirPath, f));
+      const content = fs.readFileSync(path.join(dirPath, f), "utf-8");
+      if (isStrongCsv(content)) {
+        const result = parseStrongCsv(content);
+        errors.push(...result.errors.map((e) => `${f}: ${e}`));
+        allParsed.push(...result.workouts.filter((w) => !dateRange || dateRange.has(w.date)));
+        continue;
+      }
+      const parsed = parseTxtContent(content);
       if (!parsed) continue;
       if (dateRange && !dateRange.has(parsed.date)) continue;
       allParsed.push(parsed);
@@ -135,54 +347,95 @@ export function parseStrongFiles(
     }
   }
 
-  return { data: buildStrongData(allParsed), errors };
+  return { workouts: allParsed, errors };
+}
+
+/**
+ * Google Drive の Strong フォルダからワークアウトを読む
+ * @param dates 指定時はその日付のみ。さらに最古日の30日前より後に更新されたファイルだけ取得する。省略時は全ファイル（バックフィル用）
+ * @param userId 未指定時は "default"。Google 認証情報の持ち主
+ * @returns Drive 未設定なら null
+ */
+export async function readStrongFilesFromDrive(
+  dates?: Set<string>,
+  userId?: string
+): Promise<{ workouts: ParsedStrongWorkout[]; errors: string[] } | null> {
+  const errors: string[] = [];
+  // Drive の全件ダウンロードを避ける: 対象期間の最古日から30日前より後に
+  // 更新されたファイルだけ取得する（Strongのエクスポートはワークアウト日の
+  // 直後に書かれるため十分な余裕。それ以前に再編集された古いファイルは対象外）
+  let modifiedAfterIso: string | undefined;
+  const sorted = dates ? Array.from(dates).sort() : [];
+  if (sorted.length > 0) {
+    const oldest = new Date(sorted[0] + "T00:00:00Z");
+    if (!Number.isNaN(oldest.getTime())) {
+      modifiedAfterIso = new Date(oldest.getTime() - 30 * 86400000).toISOString();
+    }
+  }
+  const driveFiles = await fetchStrongFilesFromDrive(modifiedAfterIso, userId);
+  if (!driveFiles) return null;
+
+  const inRange = (date: string) => !dates || dates.has(date);
+  const workouts: ParsedStrongWorkout[] = [];
+  for (const file of driveFiles) {
+    try {
+      if (isStrongCsv(file.content)) {
+        const result = parseStrongCsv(file.content);
+        errors.push(...result.errors.map((e) => `Drive ${file.name}: ${e}`));
+        workouts.push(...result.workouts.filter((w) => inRange(w.date)));
+        continue;
+      }
+      const parsed = parseTxtContent(file.content);
+      if (parsed && inRange(parsed.date)) {
+        workouts.push(parsed);
+      }
+    } catch (e) {
+      errors.push(`Drive ${file.name}: ${String(e)}`);
+    }
+  }
+  return { workouts, errors };
 }
 
 /**
  * 指定日付範囲の Strong データを取得する（ローカルパス or Google Drive）
- * 既存の syncData と同一の取得ロジック。
+ * 既存の syncData と同一の取得ロジック。workouts は Workout テーブル保存用のセット単位のデータ。
+ * @param userId 未指定時は "default"。Drive 経由のときの Google 認証情報の持ち主
  */
-export async function fetchTrainingForDateRange(dates: Set<string>): Promise<FetchTrainingResult> {
+export async function fetchTrainingForDateRange(dates: Set<string>, userId?: string): Promise<FetchTrainingResult> {
   const errors: string[] = [];
-  const strongPath = DEFAULT_STRONG_PATH;
-  let strongMap = new Map<string, StrongDayData>();
+  let parsed: ParsedStrongWorkout[] = [];
 
-  if (fs.existsSync(strongPath)) {
-    const result = parseStrongFiles(strongPath, dates);
-    strongMap = result.data;
+  // ローカルフォルダ（STRONG_DATA_PATH）は default ユーザーのもの。他のユーザーは Drive だけを見る
+  const localPath = (userId ?? "default") === "default" ? getLocalStrongPath() : null;
+  if (localPath) {
+    const result = readStrongFiles(localPath, dates);
+    parsed = result.workouts;
     errors.push(...result.errors);
   } else {
     try {
-      // Drive の全件ダウンロードを避ける: 対象期間の最古日から30日前より後に
-      // 更新されたファイルだけ取得する（Strongのエクスポートはワークアウト日の
-      // 直後に書かれるため十分な余裕。それ以前に再編集された古いファイルは対象外）
-      let modifiedAfterIso: string | undefined;
-      const sorted = Array.from(dates).sort();
-      if (sorted.length > 0) {
-        const oldest = new Date(sorted[0] + "T00:00:00Z");
-        if (!Number.isNaN(oldest.getTime())) {
-          modifiedAfterIso = new Date(oldest.getTime() - 30 * 86400000).toISOString();
-        }
-      }
-      const driveFiles = await fetchStrongFilesFromDrive(modifiedAfterIso);
-      if (driveFiles && driveFiles.length > 0) {
-        const allParsed: { date: string; workoutName: string; exercises: { name: string; weight: number; reps: number }[] }[] = [];
-        for (const file of driveFiles) {
-          try {
-            const parsed = parseTxtContent(file.content);
-            if (parsed && dates.has(parsed.date)) {
-              allParsed.push(parsed);
-            }
-          } catch (e) {
-            errors.push(`Drive ${file.name}: ${String(e)}`);
-          }
-        }
-        strongMap = buildStrongData(allParsed);
+      const result = await readStrongFilesFromDrive(dates, userId);
+      if (result) {
+        parsed = result.workouts;
+        errors.push(...result.errors);
       }
     } catch (e) {
       errors.push(`Google Drive: ${String(e)}`);
     }
   }
 
-  return { data: strongMap, errors };
+  return { data: buildStrongData(parsed), workouts: groupStrongWorkoutsByDate(parsed), errors };
+}
+
+/** ローカルの Strong フォルダ（STRONG_DATA_PATH）。存在しなければ Drive を使う */
+export function getLocalStrongPath(): string | null {
+  return fs.existsSync(DEFAULT_STRONG_PATH) ? DEFAULT_STRONG_PATH : null;
 }
+
+registerSource({
+  id: "strong",
+  name: "Strong",
+  kind: "training",
+  description: "筋トレ記録",
+  enabledByDefault: true,
+  source: { fetchForDateRange: (dates, userId) => fetchTrainingForDateRange(dates, userId) },
+});
@@ -1,6 +1,6 @@
 /**
  * データソース拡張用の型・インターフェース
- * 現状はあすけん・Strong のみ。将来他アプリ対応時に同じ型で扱う。
+ * 各プロバイダーは registry.ts に自身を登録し、syncData は同じ型で扱う。
  */
 
 /** あすけんの1食分アイテム */
@@ -22,12 +22,48 @@ export type NutritionDayResult = {
   exercise?: NutritionExercise;
 };
 
+/** Strong のセット種別（CSV の Set Order が W / D / F のとき warmup / drop / failure） */
+export type StrongSetType = "normal" | "warmup" | "drop" | "failure";
+
+/** Strong 1セットの詳細（CSV エクスポート由来。共有テキストには無い） */
+export type StrongSetDetail = {
+  order: number;
+  setType: StrongSetType;
+  weightKg: number;
+  reps: number;
+  rpe?: number;
+  distanceMeters?: number;
+  seconds?: number;
+  notes?: string;
+};
+
+/** パース済みの1セット。name / weight / reps は共有テキスト・CSV 共通、detail は CSV のみ */
+export type ParsedStrongSet = {
+  name: string;
+  weight: number;
+  reps: number;
+  detail?: StrongSetDetail;
+};
+
+/** パース済みの1ワークアウト（parseTxtContent / parseStrongCsv の結果） */
+export type ParsedStrongWorkout = {
+  date: string;
+  workoutName: string;
+  exercises: ParsedStrongSet[];
+  /** CSV の Date 列そのまま（"2026-03-01 07:30:00"）。同じワークアウトの重複取り込み判定に使う */
+  startedAt?: string;
+  durationSec?: number;
+  notes?: string;
+};
+
 /** Strong 1種目の集計 */
 export type StrongExercise = {
   name: string;
   sets: number;
   volumeKg: number;
   reps?: number;
+  /** セットごとの詳細（CSV から取り込んだときのみ） */
+  setDetails?: StrongSetDetail[];
 };
 
 /** Strong 1ワークアウト */
@@ -35,6 +71,8 @@ export type StrongWorkout = {
   title: string;
   totals: { sets: number; reps: number; volumeKg: number };
   exercises: StrongExercise[];
+  durationSec?: number;
+  notes?: string;
 };
 
 /** 1日分のトレーニングデータ（Strong パース結果） */
@@ -43,27 +81,50 @@ export type StrongDayData = {
   totals: { workouts: number; sets: number; volumeKg: number };
 };
 
+/**
+ * 取得失敗の種類（ScrapingLog.errorKind に保存し、同期ジョブの再試行の要否に使う）
+ * session_expired: セッション切れ・未ログイン / bot_blocked: Bot 対策で拒否 / layout_changed: ページ構成の変更 / timeout: 時間切れ
+ */
+export type FetchErrorKind = "session_expired" | "bot_blocked" | "layout_changed" | "timeout" | "unknown";
+
 /** 栄養データ取得の戻り値（1日分） */
 export type FetchNutritionResult = {
   ok: boolean;
   data?: NutritionDayResult;
   error?: string;
+  /** ok: false のときの失敗の種類 */
+  errorKind?: FetchErrorKind;
 };
 
 /** トレーニングデータ取得の戻り値（複数日） */
 export type FetchTrainingResult = {
   data: Map<string, StrongDayData>;
+  /** セット単位のデータ（日付ごと）。あれば Workout / ExerciseSet に保存し、strongData はそこから導出する */
+  workouts?: Map<string, ParsedStrongWorkout[]>;
   errors: string[];
 };
 
+/** 複数日を取得するときのセッション（ブラウザ等を日付間で使い回す）。fetchForDate は並行に呼ばれる */
+export interface NutritionSourceSession {
+  fetchForDate(date: string): Promise<FetchNutritionResult>;
+  close(): Promise<void>;
+}
+
 /** 栄養データソース（あすけん・将来の他アプリ）のインターフェース */
 export interface INutritionSource {
   fetchForDate(date: string, userId?: string): Promise<FetchNutritionResult>;
+  /**
+   * 複数日の取得用セッションを開く。任意（無ければ日付ごとに fetchForDate）
+   * @param options.dateTimeoutMs 1日分の上限時間。超えた日は errorKind: "timeout" で返す
+   */
+  openSession?(userId?: string, options?: { dateTimeoutMs?: number }): Promise<NutritionSourceSession>;
+  /** 取得は成功したがデータが無かった日のフォールバック（キャッシュファイル等）。任意 */
+  readFallback?(date: string, userId?: string): NutritionDayResult | null;
 }
 
 /** トレーニングデータソース（Strong・将来の他アプリ）のインターフェース */
 export interface ITrainingSource {
-  fetchForDateRange(dates: Set<string>): Promise<FetchTrainingResult>;
+  fetchForDateRange(dates: Set<string>, userId?: string): Promise<FetchTrainingResult>;
 }
 
 /** 1日分のヘルスケアデータ（AppleWatch / Google Fit 由来） */
@@ -75,9 +136,13 @@ export type HealthDayData = {
   restingHeartRate?: number;
   avgHeartRate?: number;
   sleepMinutes?: number;
+  /** 入眠時刻（ISO8601）。この日に起床した睡眠の開始 */
+  sleepStartAt?: string;
   distanceMeters?: number;
   activeMinutes?: number;
   weightKg?: number;
+  bodyFatPct?: number;
+  waistCm?: number;
   raw?: unknown;
 };
 
@@ -89,5 +154,23 @@ export type FetchHealthResult = {
 
 /** ヘルスケアデータソース（Google Fit・将来の Health Auto Export 等）のインターフェース */
 export interface IHealthSource {
-  fetchForDateRange(dates: Set<string>): Promise<FetchHealthResult>;
+  fetchForDateRange(dates: Set<string>, userId?: string): Promise<FetchHealthResult>;
 }
+
+/** データソースの種別（同期時の保存先カラムを決める） */
+export type DataSourceKind = "nutrition" | "training" | "health";
+
+/** レジストリに登録するデータソースのメタ情報（id は Integration.sourceType と一致させる） */
+type DataSourceMeta = {
+  id: string;
+  name: string;
+  description: string;
+  /** Integration 行が1件も無い default ユーザーで有効とみなすか（既存の env 設定のみの運用向け） */
+  enabledByDefault: boolean;
+};
+
+/** レジストリに登録されたデータソース */
+export type RegisteredSource =
+  | (DataSourceMeta & { kind: "nutrition"; source: INutritionSource })
+  | (DataSourceMeta & { kind: "training"; source: ITrainingSource })
+  | (DataSourceMeta & { kind: "health"; source: IHealthSource });
@@ -0,0 +1,229 @@
+/**
+ * 筋力の推移（種目ごとの推定 1RM・ボリューム・漸進性）
+ * Workout / ExerciseSet の行から種目×日のセッションを作り、同じ種目の前回セッションと比較する。
+ * スコアの「6-12回」「漸進性」判定と /api/stats/exercise/[name] が使う。
+ */
+
+import { prisma } from "./prisma";
+
+/** 推定 1RM の計算式 */
+export type E1rmFormula = "epley" | "brzycki";
+
+/** 推定 1RM に使うレップ数の上限（高レップは誤差が大きいので除外） */
+const E1RM_MAX_REPS = 12;
+
+/** 「6-12回」判定の範囲 */
+export const REP_RANGE = { min: 6, max: 12 } as const;
+
+/** Epley: w × (1 + r/30)。1回なら重量そのもの */
+export function epley1RM(weightKg: number, reps: number): number {
+  if (reps <= 0 || weightKg <= 0) return 0;
+  return reps === 1 ? weightKg : weightKg * (1 + reps / 30);
+}
+
+/** Brzycki: w × 36 / (37 - r) */
+export function brzycki1RM(weightKg: number, reps: number): number {
+  if (reps <= 0 || reps >= 37 || weightKg <= 0) return 0;
+  return (weightKg * 36) / (37 - reps);
+}
+
+export function estimate1RM(weightKg: number, reps: number, formula: E1rmFormula = "epley"): number {
+  return formula === "brzycki" ? brzycki1RM(weightKg, reps) : epley1RM(weightKg, reps);
+}
+
+/** 集計に使う1セット（ExerciseSet の必要列 + 日付） */
+export type StrengthSetRow = {
+  date: string;
+  exerciseName: string;
+  setType: string;
+  weightKg: number;
+  reps: number;
+};
+
+/** 1種目・1日分のセッション（ウォームアップを除いた本セットのみ） */
+export type ExerciseSession = {
+  date: string;
+  exerciseName: string;
+  workingSets: number;
+  totalReps: number;
+  volumeKg: number;
+  /** 本セット中で推定 1RM が最大のセット。自重種目など重量が無ければ null */
+  topSet: { weightKg: number; reps: number } | null;
+  e1rm: { epley: number; brzycki: number } | null;
+};
+
+/** 前回セッションとの比較 */
+export type ExerciseProgress = {
+  exerciseName: string;
+  current: ExerciseSession;
+  previous: ExerciseSession | null;
+  volumeUp: boolean;
+  e1rmUp: boolean;
+  /** 重量が無い種目（自重）は合計レップ数の増加で判定 */
+  repsUp: boolean;
+  progressed: boolean;
+};
+
+/** 1日分の筋力サマリー（スコアの刺激判定に渡す） */
+export type StrengthDaySummary = {
+  date: string;
+  workingSets: number;
+  /** 本セットのうち 6-12 回のセット数 */
+  setsInRepRange: number;
+  exercises: ExerciseProgress[];
+  /** 前回セッションがあり比較できた種目数 */
+  compared: number;
+  progressed: number;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function isWorkingSet(s: StrengthSetRow): boolean {
+  return s.setType !== "warmup" && s.reps > 0;
+}
+
+/** 同じ日・同じ種目のセットを1セッションにまとめる */
+export function summarizeSession(date: string, exerciseName: string, sets: StrengthSetRow[]): ExerciseSession {
+  const working = sets.filter(isWorkingSet);
+  let volumeKg = 0;
+  let totalReps = 0;
+  let topSet: ExerciseSession["topSet"] = null;
+  let best = 0;
+  for (const s of working) {
+    volumeKg += s.weightKg * s.reps;
+    totalReps += s.reps;
+    if (s.reps > E1RM_MAX_REPS) continue;
+    const e = epley1RM(s.weightKg, s.reps);
+    if (e > best) {
+      best = e;
+      topSet = { weightKg: s.weightKg, reps: s.reps };
+    }
+  }
+  return {
+    date,
+    exerciseName,
+    workingSets: working.length,
+    totalReps,
+    volumeKg: round1(volumeKg),
+    topSet,
+    e1rm: topSet
+      ? { epley: round1(epley1RM(topSet.weightKg, topSet.reps)), brzycki: round1(brzycki1RM(topSet.weightKg, topSet.reps)) }
+      : null,
+  };
+}
+
+/** セット行を種目×日のセッションにする（日付昇順） */
+export function buildSessions(rows: StrengthSetRow[]): ExerciseSession[] {
+  const groups = new Map<string, StrengthSetRow[]>();
+  for (const r of rows) {
+    const key = `${r.date}\t${r.exerciseName}`;
+    const list = groups.get(key) ?? [];
+    list.push(r);
+    groups.set(key, list);
+  }
+  return [...groups.values()]
+    .map((sets) => summarizeSession(sets[0].date, sets[0].exerciseName, sets))
+    .filter((s) => s.workingSets > 0)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.exerciseName.localeCompare(b.exerciseName));
+}
+
+/** 前回セッションと比較する（前回が無ければ進捗なし扱い） */
+export function compareSessions(current: ExerciseSession, previous: ExerciseSession | null): ExerciseProgress {
+  const volumeUp = !!previous && current.volumeKg > previous.volumeKg;
+  const e1rmUp = !!previous && !!current.e1rm && !!previous.e1rm && current.e1rm.epley > previous.e1rm.epley;
+  const repsUp = !!previous && current.volumeKg === 0 && previous.volumeKg === 0 && current.totalReps > previous.totalReps;
+  return {
+    exerciseName: current.exerciseName,
+    current,
+    previous,
+    volumeUp,
+    e1rmUp,
+    repsUp,
+    progressed: volumeUp || e1rmUp || repsUp,
+  };
+}
+
+/** 各セッションを同じ種目の直前セッションと比較した一覧（日付昇順） */
+export function buildProgressHistory(sessions: ExerciseSession[]): ExerciseProgress[] {
+  const last = new Map<string, ExerciseSession>();
+  const out: ExerciseProgress[] = [];
+  for (const s of [...sessions].sort((a, b) => a.date.localeCompare(b.date))) {
+    out.push(compareSessions(s, last.get(s.exerciseName) ?? null));
+    last.set(s.exerciseName, s);
+  }
+  return out;
+}
+
+/**
+ * セット行から日ごとのサマリーを作る
+ * @param rows 対象期間のセット + 比較用に期間より前の同種目のセット
+ * @param from この日付以降のみ返す（YYYY-MM-DD）
+ */
+export function buildStrengthSummaries(rows: StrengthSetRow[], from = ""): Map<string, StrengthDaySummary> {
+  const byDate = new Map<string, StrengthDaySummary>();
+  for (const p of buildProgressHistory(buildSessions(rows))) {
+    const date = p.current.date;
+    if (date < from) continue;
+    const day = byDate.get(date) ?? { date, workingSets: 0, setsInRepRange: 0, exercises: [], compared: 0, progressed: 0 };
+    day.exercises.push(p);
+    if (p.previous) day.compared += 1;
+    if (p.progressed) day.progressed += 1;
+    byDate.set(date, day);
+  }
+  for (const r of rows) {
+    const day = byDate.get(r.date);
+    if (!day || !isWorkingSet(r)) continue;
+    day.workingSets += 1;
+    if (r.reps >= REP_RANGE.min && r.reps <= REP_RANGE.max) day.setsInRepRange += 1;
+  }
+  return byDate;
+}
+
+const setSelect = {
+  exerciseName: true,
+  setType: true,
+  weightKg: true,
+  reps: true,
+  workout: { select: { date: true } },
+} as const;
+
+type SelectedSet = { exerciseName: string; setType: string; weightKg: number; reps: number; workout: { date: string } };
+
+const toRow = (s: SelectedSet): StrengthSetRow => ({
+  date: s.workout.date,
+  exerciseName: s.exerciseName,
+  setType: s.setType,
+  weightKg: s.weightKg,
+  reps: s.reps,
+});
+
+/**
+ * 期間内の日ごとの筋力サマリーを DB から作る
+ * 期間内に出てきた種目だけ、期間より前の履歴も読んで前回比較に使う。
+ */
+export async function getStrengthSummaries(
+  ownerId: string,
+  from: string,
+  to: string
+): Promise<Map<string, StrengthDaySummary>> {
+  const inRange = await prisma.exerciseSet.findMany({
+    where: { workout: { ownerId, date: { gte: from, lte: to } } },
+    select: setSelect,
+  });
+  if (inRange.length === 0) return new Map();
+  const names = [...new Set(inRange.map((s) => s.exerciseName))];
+  const before = await prisma.exerciseSet.findMany({
+    where: { exerciseName: { in: names }, workout: { ownerId, date: { lt: from } } },
+    select: setSelect,
+  });
+  return buildStrengthSummaries([...before, ...inRange].map(toRow), from);
+}
+
+/** 1種目の全セッション履歴（前回比較付き・日付昇順） */
+export async function getExerciseHistory(ownerId: string, exerciseName: string): Promise<ExerciseProgress[]> {
+  const sets = await prisma.exerciseSet.findMany({
+    where: { exerciseName, workout: { ownerId } },
+    select: setSelect,
+  });
+  return buildProgressHistory(buildSessions(sets.map(toRow)));
+}
@@ -0,0 +1,61 @@
+/**
+ * 画面から同期を依頼し、ジョブが終わるまで進捗を待つ（クライアント用）
+ * POST /api/sync でジョブを積み、GET /api/sync/jobs/[batchId] を一定間隔で確認する。
+ */
+
+import type { SyncBatchProgress } from "./syncJobs";
+
+/** 進捗を確認する間隔 */
+const POLL_INTERVAL_MS = 2000;
+
+/** これを過ぎたら待つのをやめる（ジョブはワーカーで続く） */
+const POLL_TIMEOUT_MS = 10 * 60_000;
+
+export type { SyncBatchProgress };
+
+/**
+ * 同期を依頼して完了まで待つ。onProgress には確認のたびの進捗を渡す
+ * 依頼に失敗した場合・待ち時間を過ぎた場合は Error
+ */
+export async function requestSyncAndWait(
+  range: { from?: string; to?: string } = {},
+  onProgress?: (progress: SyncBatchProgress) => void
+): Promise<SyncBatchProgress> {
+  const res = await fetch("/api/sync", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(range),
+  });
+  const json = await res.json();
+  if (!res.ok || !json.batchId) {
+    throw new Error(json.error || `同期の依頼に失敗しました (HTTP ${res.status})`);
+  }
+  if (json.jobCount === 0) {
+    // 有効なデータソースが無い
+    return {
+      batchId: json.batchId,
+      total: 0,
+      pending: 0,
+      running: 0,
+      succeeded: 0,
+      failed: 0,
+      done: true,
+      askenCount: 0,
+      strongCount: 0,
+      healthCount: 0,
+      errors: [],
+      jobs: [],
+    };
+  }
+
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    const r = await fetch(`/api/sync/jobs/${encodeURIComponent(json.batchId)}`, { cache: "no-store" });
+    if (!r.ok) continue;
+    const progress: SyncBatchProgress = await r.json();
+    onProgress?.(progress);
+    if (progress.done) return progress;
+  }
+  throw new Error("同期に時間がかかっています。しばらくしてから再読み込みしてください");
+}
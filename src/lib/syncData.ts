@@ -1,20 +1,20 @@
 /**
- * あすけん + Strong の同期オーケストレーション
- * データ取得は sources/asken と sources/strong に委譲。既存の API 互換のため parseTxtContent / buildStrongData / parseStrongFiles は re-export。
+ * あすけん + Strong + ヘルスケアの同期オーケストレーション
+ * データ取得は sources/registry に登録されたプロバイダーのうち、ユーザーが Integration で有効にしているものに委譲。
+ * 既存の API 互換のため parseTxtContent / buildStrongData / parseStrongFiles は re-export。
  */
 
 import { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
 import { getEffectiveToday, getEffectiveTodayStr, formatDateJst } from "./dateUtils";
-import { fetchNutritionForDate, readNutritionFallbackFile } from "./sources/asken";
-import {
-  fetchTrainingForDateRange,
-  parseTxtContent,
-  buildStrongData,
-  parseStrongFiles,
-} from "./sources/strong";
-import { fetchHealthForDateRange } from "./sources/appleHealth";
-import type { HealthDayData, NutritionDayResult } from "./sources/types";
+// sources/index は全プロバイダーを読み込むため、ここで import すればレジストリ登録が済む
+import { getEnabledSources, parseTxtContent, buildStrongData, parseStrongFiles } from "./sources";
+import { saveWorkoutsByDate } from "./workouts";
+import { finalizeDayScores } from "./scoreSnapshots";
+import { saveBodyMetric } from "./bodyMetrics";
+import { DEFAULT_USER_ID } from "./dbConfig";
+import { mapWithConcurrency, TimeoutError, withTimeout } from "./concurrency";
+import type { FetchErrorKind, FetchNutritionResult, HealthDayData, NutritionDayResult, RegisteredSource } from "./sources";
 
 // 既存 API（api/sync/strong 等）のため re-export
 export { parseTxtContent, buildStrongData, parseStrongFiles };
@@ -24,7 +24,7 @@ export { parseTxtContent, buildStrongData, parseStrongFiles };
  * @param from 開始日 (YYYY-MM-DD)。省略時は前日〜当日の2日分（今すぐ取得用）
  * @param to 終了日 (YYYY-MM-DD)。省略時は today
  */
-function getTargetDates(from?: string, to?: string): string[] {
+export function getTargetDates(from?: string, to?: string): string[] {
   const endDate = to ? new Date(to + "T00:00:00") : getEffectiveToday();
   const startDate = from ? new Date(from + "T00:00:00") : new Date(endDate.getTime() - 86400000);
   const dates: string[] = [];
@@ -36,6 +36,17 @@ function getTargetDates(from?: string, to?: string): string[] {
   return dates;
 }
 
+type SourceOf<K extends RegisteredSource["kind"]> = Extract<RegisteredSource, { kind: K }>;
+
+const isNutritionSource = (s: RegisteredSource): s is SourceOf<"nutrition"> => s.kind === "nutrition";
+const isTrainingSource = (s: RegisteredSource): s is SourceOf<"training"> => s.kind === "training";
+const isHealthSource = (s: RegisteredSource): s is SourceOf<"health"> => s.kind === "health";
+
+/** エラーメッセージ用のソース表記（"asken" → "Asken"） */
+function sourceLabel(id: string): string {
+  return id.charAt(0).toUpperCase() + id.slice(1);
+}
+
 /** 日付 d が「今日」から何日前か（正の数＝過去） */
 function daysAgo(dateStr: string, todayStr: string): number {
   const d = new Date(dateStr + "T00:00:00").getTime();
@@ -43,143 +54,279 @@ function daysAgo(dateStr: string, todayStr: string): number {
   return Math.floor((t - d) / 86400000);
 }
 
-/**
- * あすけん + Strong データを取得し、DB に upsert する
- * @param options.from 開始日 (YYYY-MM-DD)。省略時は前日〜当日の2日分
- * @param options.to 終了日 (YYYY-MM-DD)。省略時は today
- * @param options.skipExistingPastDays この日数より前の日付は、既にあすけんデータがあれば取得をスキップ（過去分cron用）
- */
-export async function syncData(options?: { from?: string; to?: string; skipExistingPastDays?: number }): Promise<{
+/** 栄養ソース（あすけん等）を並行に取得する日数の既定値（env ASKEN_SYNC_CONCURRENCY で変更） */
+export const DEFAULT_NUTRITION_CONCURRENCY = 3;
+/** 栄養ソース1日分の取得の上限時間の既定値（env ASKEN_DATE_TIMEOUT_MS で変更） */
+export const DEFAULT_NUTRITION_DATE_TIMEOUT_MS = 120_000;
+
+function positiveIntEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/** エラーメッセージに付ける失敗の種類（unknown は付けない） */
+const FETCH_ERROR_LABELS: Record<Exclude<FetchErrorKind, "unknown">, string> = {
+  session_expired: "セッション切れ",
+  bot_blocked: "Bot対策で拒否",
+  layout_changed: "ページ構成の変更",
+  timeout: "タイムアウト",
+};
+
+/** どの日付でも同じ結果になる失敗。1日でも起きたら残りの日付は取得しない */
+type SessionErrorKind = "session_expired" | "bot_blocked";
+const isSessionErrorKind = (kind?: FetchErrorKind): kind is SessionErrorKind =>
+  kind === "session_expired" || kind === "bot_blocked";
+
+/** 栄養ソース1日分の同期結果 */
+export type NutritionDaySyncResult = { saved: boolean; errors: string[]; errorKind?: FetchErrorKind };
+
+/** 1ソース・指定日の同期結果（日数はソースの種類ごと） */
+export type SourceSyncResult = {
   askenCount: number;
   strongCount: number;
   healthCount: number;
-  dayCount: number;
   errors: string[];
-}> {
-  const errors: string[] = [];
-  const targetDates = getTargetDates(options?.from, options?.to);
-  const dateRange = new Set(targetDates);
-  const todayStr = getEffectiveTodayStr();
-  const skipThreshold = options?.skipExistingPastDays ?? 0;
-
-  // あすけんは食事系のみを担当。歩数・運動カロリーは AppleWatch (Google Fit) 経由で上書きされる。
-  const upsertAskenDay = async (date: string, data: NutritionDayResult) => {
-    const payload = {
-      askenItems: data.items as unknown as Prisma.InputJsonValue,
-      askenNutrients: data.nutrients as unknown as Prisma.InputJsonValue,
-    };
-    await prisma.dailyData.upsert({
-      where: { date },
-      update: payload,
-      create: { date, ...payload },
-    });
+  /** 栄養ソースの取得失敗の種類（重複なし） */
+  errorKinds?: FetchErrorKind[];
+  /** 栄養ソースの日付ごとの結果（同期ジョブを日付ごとに更新するため）。中止した日付はその理由のエラー */
+  nutritionDays?: Map<string, NutritionDaySyncResult>;
+};
+
+// あすけんは食事系のみを担当。歩数・運動カロリーは AppleWatch (Google Fit) 経由で上書きされる。
+async function upsertAskenDay(ownerId: string, date: string, data: NutritionDayResult) {
+  const payload = {
+    askenItems: data.items as unknown as Prisma.InputJsonValue,
+    askenNutrients: data.nutrients as unknown as Prisma.InputJsonValue,
+  };
+  await prisma.dailyData.upsert({
+    where: { ownerId_date: { ownerId, date } },
+    update: payload,
+    create: { ownerId, date, ...payload },
+  });
+}
+
+// null は更新しない（取得失敗日の既往値を壊さないため）。体組成は BodyMetric にも記録する
+async function upsertHealthDay(ownerId: string, sourceId: string, date: string, data: HealthDayData) {
+  const payload: Prisma.DailyDataUpdateInput = {
+    healthSyncedAt: new Date(),
+    healthRaw: (data.raw ?? null) as unknown as Prisma.InputJsonValue,
   };
+  if (data.steps != null) payload.steps = data.steps;
+  if (data.activeCalories != null) payload.exerciseCalories = data.activeCalories;
+  if (data.totalCalories != null) payload.totalCalories = data.totalCalories;
+  if (data.restingHeartRate != null) payload.restingHeartRate = data.restingHeartRate;
+  if (data.avgHeartRate != null) payload.avgHeartRate = data.avgHeartRate;
+  if (data.sleepMinutes != null) payload.sleepMinutes = data.sleepMinutes;
+  if (data.sleepStartAt != null) payload.sleepStartAt = new Date(data.sleepStartAt);
+  if (data.distanceMeters != null) payload.distanceMeters = data.distanceMeters;
+  if (data.activeMinutes != null) payload.activeMinutes = data.activeMinutes;
+  if (data.weightKg != null) payload.weightKg = data.weightKg;
+
+  await prisma.dailyData.upsert({
+    where: { ownerId_date: { ownerId, date } },
+    update: payload,
+    create: { ...(payload as Prisma.DailyDataCreateInput), ownerId, date },
+  });
 
-  // null は更新しない（取得失敗日の既往値を壊さないため）
-  const upsertHealthDay = async (date: string, data: HealthDayData) => {
-    const payload: Prisma.DailyDataUpdateInput = {
-      healthSyncedAt: new Date(),
-      healthRaw: (data.raw ?? null) as unknown as Prisma.InputJsonValue,
-    };
-    if (data.steps != null) payload.steps = data.steps;
-    if (data.activeCalories != null) payload.exerciseCalories = data.activeCalories;
-    if (data.totalCalories != null) payload.totalCalories = data.totalCalories;
-    if (data.restingHeartRate != null) payload.restingHeartRate = data.restingHeartRate;
-    if (data.avgHeartRate != null) payload.avgHeartRate = data.avgHeartRate;
-    if (data.sleepMinutes != null) payload.sleepMinutes = data.sleepMinutes;
-    if (data.distanceMeters != null) payload.distanceMeters = data.distanceMeters;
-    if (data.activeMinutes != null) payload.activeMinutes = data.activeMinutes;
-    if (data.weightKg != null) payload.weightKg = data.weightKg;
-
-    await prisma.dailyData.upsert({
-      where: { date },
-      update: payload,
-      create: { ...(payload as Prisma.DailyDataCreateInput), date },
+  if (data.weightKg != null || data.bodyFatPct != null || data.waistCm != null) {
+    await saveBodyMetric(ownerId, date, sourceId, {
+      weightKg: data.weightKg,
+      bodyFatPct: data.bodyFatPct,
+      waistCm: data.waistCm,
     });
-  };
+  }
+}
 
-  let askenCount = 0;
-  for (const d of targetDates) {
-    if (skipThreshold > 0 && daysAgo(d, todayStr) >= skipThreshold) {
+/**
+ * 栄養ソースの1日分を取得して保存する（syncSource から並行に呼ばれる）
+ * 取得・保存の失敗は errors に、取得失敗の種類は errorKind に入れて返す
+ */
+async function syncNutritionDay(
+  ownerId: string,
+  registered: SourceOf<"nutrition">,
+  d: string,
+  fetch: () => Promise<FetchNutritionResult>,
+  options: { skipExistingPastDays: number; todayStr: string }
+): Promise<NutritionDaySyncResult> {
+  const { source } = registered;
+  const label = sourceLabel(registered.id);
+  if (options.skipExistingPastDays > 0 && daysAgo(d, options.todayStr) >= options.skipExistingPastDays) {
+    const existing = await prisma.dailyData.findUnique({
+      where: { ownerId_date: { ownerId, date: d } },
+      select: { askenItems: true, askenNutrients: true },
+    });
+    const hasAsken = existing && (
+      (Array.isArray(existing.askenItems) && existing.askenItems.length > 0) ||
+      (existing.askenNutrients && typeof existing.askenNutrients === "object" && Object.keys(existing.askenNutrients as object).length > 0)
+    );
+    if (hasAsken) return { saved: false, errors: [] };
+  }
+
+  let fetched: FetchNutritionResult;
+  try {
+    fetched = await fetch();
+  } catch (e) {
+    fetched = e instanceof TimeoutError
+      ? { ok: false, error: e.message, errorKind: "timeout" }
+      : { ok: false, error: String(e), errorKind: "unknown" };
+  }
+
+  if (fetched.ok && fetched.data) {
+    try {
+      await upsertAskenDay(ownerId, d, fetched.data);
+      return { saved: true, errors: [] };
+    } catch (e) {
+      return { saved: false, errors: [`DB保存 ${label} ${d}: ${String(e)}`] };
+    }
+  }
+  if (fetched.ok) {
+    const fileData = source.readFallback?.(d, ownerId) ?? null;
+    if (!fileData) return { saved: false, errors: [] };
+    try {
       const existing = await prisma.dailyData.findUnique({
-        where: { date: d },
-        select: { askenItems: true, askenNutrients: true },
+        where: { ownerId_date: { ownerId, date: d } },
+        select: { date: true },
       });
-      const hasAsken = existing && (
-        (Array.isArray(existing.askenItems) && existing.askenItems.length > 0) ||
-        (existing.askenNutrients && typeof existing.askenNutrients === "object" && Object.keys(existing.askenNutrients as object).length > 0)
-      );
-      if (hasAsken) continue;
+      if (existing) {
+        return { saved: false, errors: [`${label} ${d}: 取得結果を取得できませんでした（既存データは上書きしません）`] };
+      }
+      await upsertAskenDay(ownerId, d, fileData);
+      return { saved: true, errors: [] };
+    } catch (e) {
+      return { saved: false, errors: [`DB保存 ${label}(file) ${d}: ${String(e)}`] };
     }
+  }
+  if (!fetched.error) return { saved: false, errors: [] };
+  const errorKind = fetched.errorKind ?? "unknown";
+  const kindLabel = errorKind === "unknown" ? "" : `（${FETCH_ERROR_LABELS[errorKind]}）`;
+  return { saved: false, errors: [`${label} ${d}${kindLabel}: ${fetched.error}`], errorKind };
+}
 
-    const result = await fetchNutritionForDate(d);
-    if (result.ok && result.data) {
-      try {
-        await upsertAskenDay(d, result.data);
-        askenCount += 1;
-      } catch (e) {
-        errors.push(`DB保存 Asken ${d}: ${String(e)}`);
+/**
+ * 1つのデータソースについて指定日を取得し、DB に upsert する（syncData と同期ジョブで共通）
+ * 取得・保存の失敗は errors に入れて続ける
+ * @param options.skipExistingPastDays この日数より前の日付は、既にあすけんデータがあれば取得をスキップ
+ * @param options.concurrency 栄養ソースを並行に取得する日数（省略時は ASKEN_SYNC_CONCURRENCY または 3）
+ * @param options.dateTimeoutMs 栄養ソース1日分の上限時間（省略時は ASKEN_DATE_TIMEOUT_MS または 120 秒）。超えた日はエラー
+ * 栄養ソースでセッション切れ・Bot 拒否が起きたら、まだ始めていない日付は取得せずに1件のエラーにまとめる
+ */
+export async function syncSource(
+  ownerId: string,
+  registered: RegisteredSource,
+  targetDates: string[],
+  options?: { skipExistingPastDays?: number; concurrency?: number; dateTimeoutMs?: number }
+): Promise<SourceSyncResult> {
+  const result: SourceSyncResult = { askenCount: 0, strongCount: 0, healthCount: 0, errors: [] };
+  const { errors } = result;
+  const dateRange = new Set(targetDates);
+  const label = sourceLabel(registered.id);
+
+  // 栄養ソース（あすけん等）: セッション（ブラウザ等）を日付間で使い回し、concurrency 日ずつ並行に取得
+  if (isNutritionSource(registered)) {
+    const { source } = registered;
+    const concurrency = options?.concurrency ?? positiveIntEnv("ASKEN_SYNC_CONCURRENCY", DEFAULT_NUTRITION_CONCURRENCY);
+    const timeoutMs = options?.dateTimeoutMs ?? positiveIntEnv("ASKEN_DATE_TIMEOUT_MS", DEFAULT_NUTRITION_DATE_TIMEOUT_MS);
+    // セッションは自身で日ごとの上限時間を守る。セッションの無いソースはここで打ち切る
+    const session = source.openSession ? await source.openSession(ownerId, { dateTimeoutMs: timeoutMs }) : null;
+    const fetchForDate = (d: string) =>
+      session
+        ? session.fetchForDate(d)
+        : withTimeout(source.fetchForDate(d, ownerId), timeoutMs, `${timeoutMs}ms 以内に終わりませんでした`);
+    const dayOptions = { skipExistingPastDays: options?.skipExistingPastDays ?? 0, todayStr: getEffectiveTodayStr() };
+    // ワーカー内で書き換えるので、null への絞り込みを避ける
+    let abortedBy = null as SessionErrorKind | null;
+    try {
+      const days = await mapWithConcurrency(targetDates, concurrency, async (d) => {
+        if (abortedBy) return null;
+        const day = await syncNutritionDay(ownerId, registered, d, () => fetchForDate(d), dayOptions);
+        if (isSessionErrorKind(day.errorKind)) abortedBy ??= day.errorKind;
+        return day;
+      });
+      const kinds = new Set<FetchErrorKind>();
+      result.nutritionDays = new Map();
+      for (const [i, day] of days.entries()) {
+        if (!day) continue;
+        result.askenCount += day.saved ? 1 : 0;
+        errors.push(...day.errors);
+        if (day.errorKind) kinds.add(day.errorKind);
+        result.nutritionDays.set(targetDates[i], day);
       }
-    } else if (result.ok) {
-      const fileData = readNutritionFallbackFile(d);
-      if (fileData) {
-        try {
-          const existing = await prisma.dailyData.findUnique({ where: { date: d }, select: { date: true } });
-          if (!existing) {
-            await upsertAskenDay(d, fileData);
-            askenCount += 1;
-          } else {
-            errors.push(`Asken ${d}: 取得結果を取得できませんでした（既存データは上書きしません）`);
-          }
-        } catch (e) {
-          errors.push(`DB保存 Asken(file) ${d}: ${String(e)}`);
+      const skipped = targetDates.filter((_, i) => days[i] === null);
+      if (abortedBy && skipped.length > 0) {
+        const reason = FETCH_ERROR_LABELS[abortedBy];
+        errors.push(`${label}: ${reason}のため残り ${skipped.length} 日の取得を中止しました`);
+        for (const d of skipped) {
+          result.nutritionDays.set(d, { saved: false, errors: [`${label} ${d}: ${reason}のため取得を中止しました`], errorKind: abortedBy });
         }
       }
-    } else if (result.error) {
-      errors.push(`Asken ${d}: ${result.error}`);
+      if (kinds.size > 0) result.errorKinds = [...kinds];
+    } finally {
+      await session?.close();
     }
   }
 
-  const { data: strongMap, errors: strongErrors } = await fetchTrainingForDateRange(dateRange);
-  errors.push(...strongErrors);
+  // トレーニングソース（Strong 等）
+  if (isTrainingSource(registered)) {
+    const { data: strongMap, workouts, errors: strongErrors } = await registered.source.fetchForDateRange(dateRange, ownerId);
+    errors.push(...strongErrors);
 
-  let strongCount = 0;
-  for (const [dateStr, strongData] of strongMap) {
-    try {
-      await prisma.dailyData.upsert({
-        where: { date: dateStr },
-        update: {
-          strongData: strongData as unknown as Prisma.InputJsonValue,
-        },
-        create: {
-          date: dateStr,
-          strongData: strongData as unknown as Prisma.InputJsonValue,
-        },
-      });
-      strongCount += 1;
-    } catch (e) {
-      errors.push(`DB保存 Strong ${dateStr}: ${String(e)}`);
+    // セット単位のデータがあるソースは Workout / ExerciseSet に保存し、strongData はそこから導出する
+    // アップロード済みの CSV（RPE・メモ等）を消さないよう、同じワークアウトだけ置き換える
+    if (workouts) {
+      const saved = await saveWorkoutsByDate(ownerId, workouts, { merge: true });
+      result.strongCount += saved.savedDays;
+      errors.push(...saved.failures.map((f) => `DB保存 ${label} ${f.date}: ${String(f.error)}`));
+      return result;
+    }
+
+    for (const [dateStr, strongData] of strongMap) {
+      try {
+        await prisma.dailyData.upsert({
+          where: { ownerId_date: { ownerId, date: dateStr } },
+          update: {
+            strongData: strongData as unknown as Prisma.InputJsonValue,
+          },
+          create: {
+            ownerId,
+            date: dateStr,
+            strongData: strongData as unknown as Prisma.InputJsonValue,
+          },
+        });
+        result.strongCount += 1;
+      } catch (e) {
+        errors.push(`DB保存 ${label} ${dateStr}: ${String(e)}`);
+      }
     }
   }
 
   // AppleWatch / Google Fit のヘルスケアデータ
-  let healthCount = 0;
-  const { data: healthMap, errors: healthErrors } = await fetchHealthForDateRange(dateRange);
-  errors.push(...healthErrors);
-  for (const [dateStr, healthData] of healthMap) {
-    try {
-      await upsertHealthDay(dateStr, healthData);
-      healthCount += 1;
-    } catch (e) {
-      errors.push(`DB保存 Health ${dateStr}: ${String(e)}`);
+  if (isHealthSource(registered)) {
+    const { data: healthMap, errors: healthErrors } = await registered.source.fetchForDateRange(dateRange, ownerId);
+    errors.push(...healthErrors);
+    for (const [dateStr, healthData] of healthMap) {
+      try {
+        await upsertHealthDay(ownerId, registered.id, dateStr, healthData);
+        result.healthCount += 1;
+      } catch (e) {
+        errors.push(`DB保存 Health ${dateStr}: ${String(e)}`);
+      }
     }
   }
 
+  return result;
+}
+
+/**
+ * 同期後の後処理: 対象日の DailyData 行を確保し、確定済み（今日より前）の日のスコアを保存する
+ * 既に確定していれば採点時の目標のまま再計算する。失敗はエラーメッセージで返す
+ */
+export async function finishSyncDays(ownerId: string, targetDates: string[]): Promise<string[]> {
+  const errors: string[] = [];
   for (const d of targetDates) {
     try {
       await prisma.dailyData.upsert({
-        where: { date: d },
-        create: { date: d },
+        where: { ownerId_date: { ownerId, date: d } },
+        create: { ownerId, date: d },
         update: {},
       });
     } catch (e) {
@@ -187,7 +334,56 @@ export async function syncData(options?: { from?: string; to?: string; skipExist
     }
   }
 
-  const dayCount = await prisma.dailyData.count();
+  try {
+    await finalizeDayScores(ownerId, targetDates);
+  } catch (e) {
+    errors.push(`スコア確定: ${String(e)}`);
+  }
+  return errors;
+}
+
+/**
+ * あすけん + Strong データを取得し、DB に upsert する
+ * @param options.from 開始日 (YYYY-MM-DD)。省略時は前日〜当日の2日分
+ * @param options.to 終了日 (YYYY-MM-DD)。省略時は today
+ * @param options.skipExistingPastDays この日数より前の日付は、既にあすけんデータがあれば取得をスキップ（過去分cron用）
+ * @param options.userId 保存先の DailyData.ownerId。省略時は "default"
+ * @param options.concurrency あすけん等を並行に取得する日数（省略時は ASKEN_SYNC_CONCURRENCY または 3）
+ */
+export async function syncData(options?: {
+  from?: string;
+  to?: string;
+  skipExistingPastDays?: number;
+  userId?: string;
+  concurrency?: number;
+}): Promise<{
+  askenCount: number;
+  strongCount: number;
+  healthCount: number;
+  dayCount: number;
+  errors: string[];
+}> {
+  const targetDates = getTargetDates(options?.from, options?.to);
+  const ownerId = options?.userId ?? DEFAULT_USER_ID;
+  const total: SourceSyncResult = { askenCount: 0, strongCount: 0, healthCount: 0, errors: [] };
+
+  // 栄養 → トレーニング → ヘルスケアの順（栄養ソースが複数有効な場合は後のソースが同じ日を上書きする）
+  const sources = await getEnabledSources(ownerId);
+  const ordered = [...sources.filter(isNutritionSource), ...sources.filter(isTrainingSource), ...sources.filter(isHealthSource)];
+  for (const registered of ordered) {
+    const result = await syncSource(ownerId, registered, targetDates, {
+      skipExistingPastDays: options?.skipExistingPastDays,
+      concurrency: options?.concurrency,
+    });
+    total.askenCount += result.askenCount;
+    total.strongCount += result.strongCount;
+    total.healthCount += result.healthCount;
+    total.errors.push(...result.errors);
+  }
+
+  total.errors.push(...(await finishSyncDays(ownerId, targetDates)));
+
+  const dayCount = await prisma.dailyData.count({ where: { ownerId } });
 
-  return { askenCount, strongCount, healthCount, dayCount, errors };
+  return { ...total, dayCount };
 }
@@ -0,0 +1,361 @@
+/**
+ * 同期ジョブのキュー（SyncJob）
+ * 同期の依頼を「日付 × データソース」のジョブに分けて DB に積み、ワーカー（scripts/cron-sync.ts）が処理する。
+ * 栄養ソースは同じ依頼・ソースの実行できるジョブをまとめて取り、1つのセッション（ブラウザ）で並行に取得する。
+ * あすけんの1日分が遅くても依頼全体（HTTP リクエスト）が時間切れにならず、失敗したジョブだけ指数バックオフで再試行する
+ * （セッション切れ・Bot 拒否・ページ構成の変更は再試行しても直らないのですぐ failed にする）。
+ * 依頼の単位は batchId（POST /api/sync が返し、GET /api/sync/jobs/[batchId] で進捗を返す）。
+ * 依頼ごとに実行履歴（SyncRun）を作り、全ジョブが終わった時点で結果を入れる。
+ */
+
+import crypto from "crypto";
+import type { SyncJob } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getEnabledSources, getSource, type FetchErrorKind, type RegisteredSource } from "./sources";
+import { finishSyncDays, getTargetDates, syncSource } from "./syncData";
+import { finishSyncRun, syncRunCreateInput, type SyncTrigger } from "./syncRuns";
+
+export type SyncJobStatus = "pending" | "running" | "succeeded" | "failed";
+
+/** 1回の依頼で積める日数（日付 × ソースの数だけジョブができる） */
+export const MAX_SYNC_RANGE_DAYS = 366;
+
+/** 1回目の失敗から再試行までの待ち時間（以降は倍々） */
+export const SYNC_JOB_BACKOFF_BASE_MS = 60_000;
+
+/** running のまま更新が無いジョブはワーカーが落ちたとみなして積み直す */
+export const SYNC_JOB_STALE_MS = 15 * 60_000;
+
+/**
+ * 栄養ソースで1つのセッションにまとめて取るジョブの上限
+ * （並行数 3・1日 120 秒でも SYNC_JOB_STALE_MS 以内に終わる件数）
+ */
+export const SYNC_JOB_SESSION_MAX_JOBS = 10;
+
+/** 依頼の日付範囲が不正（400 で返す） */
+export class SyncRangeError extends Error {}
+
+/** 再試行しても直らない取得失敗（セッションの入れ直しやスクレイパーの修正が要る） */
+const PERMANENT_ERROR_KINDS: ReadonlySet<FetchErrorKind> = new Set(["session_expired", "bot_blocked", "layout_changed"]);
+
+/** 栄養 → トレーニング → ヘルスケアの順に処理する（syncData と同じ。栄養ソースは後のものが同じ日を上書きする） */
+const KIND_ORDER: Record<RegisteredSource["kind"], number> = { nutrition: 0, training: 1, health: 2 };
+
+/** attempts 回目の失敗のあと、次の試行までの待ち時間 */
+export function syncJobBackoffMs(attempts: number): number {
+  return SYNC_JOB_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * ユーザーの有効なデータソースについて、日付ごとのジョブと実行履歴を積む（ジョブが無ければ履歴も作らない）
+ * @param options.from / options.to 省略時は前日〜当日の2日分（syncData と同じ）
+ * @param options.skipExistingPastDays この日数より前の日付は、既にあすけんデータがあれば取得をスキップ（過去分cron用）
+ * @param options.trigger 実行履歴の起点。省略時は manual
+ */
+export async function enqueueSyncJobs(
+  ownerId: string,
+  options: { from?: string; to?: string; skipExistingPastDays?: number; trigger?: SyncTrigger } = {}
+): Promise<{ batchId: string; jobCount: number }> {
+  const dates = getTargetDates(options.from, options.to);
+  if (dates.length > MAX_SYNC_RANGE_DAYS) {
+    throw new SyncRangeError(`同期できるのは ${MAX_SYNC_RANGE_DAYS} 日分までです`);
+  }
+
+  const sources = [...(await getEnabledSources(ownerId))].sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+  const batchId = crypto.randomUUID();
+  const data = dates.flatMap((date) =>
+    sources.map((s) => ({
+      batchId,
+      ownerId,
+      date,
+      source: s.id,
+      skipExistingPastDays: options.skipExistingPastDays ?? 0,
+    }))
+  );
+  if (data.length > 0) {
+    await prisma.$transaction([
+      prisma.syncRun.create({ data: syncRunCreateInput(ownerId, options.trigger ?? "manual", dates, batchId) }),
+      prisma.syncJob.createMany({ data }),
+    ]);
+  }
+  return { batchId, jobCount: data.length };
+}
+
+/**
+ * 実行できる（runAfter を過ぎた）pending のジョブを1件取り、running にする
+ * 複数のワーカーが同じジョブを取らないよう、pending のままの場合だけ更新する
+ */
+export async function claimNextSyncJob(now: Date = new Date()): Promise<SyncJob | null> {
+  for (;;) {
+    const next = await prisma.syncJob.findFirst({
+      where: { status: "pending", runAfter: { lte: now } },
+      orderBy: [{ runAfter: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+    });
+    if (!next) return null;
+    const { count } = await prisma.syncJob.updateMany({
+      where: { id: next.id, status: "pending" },
+      data: { status: "running", startedAt: now, attempts: { increment: 1 } },
+    });
+    if (count === 1) return { ...next, status: "running", startedAt: now, attempts: next.attempts + 1 };
+  }
+}
+
+/**
+ * 取った栄養ソースのジョブと同じ依頼・ソースの、実行できる pending のジョブを日付順に取り、running にする
+ * 栄養ソース以外は job だけを返す
+ * @param maxJobs job を含めた上限
+ */
+export async function claimSyncJobGroup(
+  job: SyncJob,
+  maxJobs: number = SYNC_JOB_SESSION_MAX_JOBS,
+  now: Date = new Date()
+): Promise<SyncJob[]> {
+  const group = [job];
+  if (getSource(job.source)?.kind !== "nutrition" || group.length >= maxJobs) return group;
+  const candidates = await prisma.syncJob.findMany({
+    where: {
+      status: "pending",
+      runAfter: { lte: now },
+      batchId: job.batchId,
+      ownerId: job.ownerId,
+      source: job.source,
+      id: { not: job.id },
+    },
+    orderBy: [{ date: "asc" }, { id: "asc" }],
+    take: maxJobs - 1,
+  });
+  for (const next of candidates) {
+    const { count } = await prisma.syncJob.updateMany({
+      where: { id: next.id, status: "pending" },
+      data: { status: "running", startedAt: now, attempts: { increment: 1 } },
+    });
+    if (count === 1) group.push({ ...next, status: "running", startedAt: now, attempts: next.attempts + 1 });
+  }
+  return group;
+}
+
+/**
+ * running のまま SYNC_JOB_STALE_MS を過ぎたジョブを積み直す（試行回数を使い切ったものは failed）
+ * @returns 積み直した件数
+ */
+export async function requeueStaleSyncJobs(now: Date = new Date()): Promise<number> {
+  const where = { status: "running", startedAt: { lt: new Date(now.getTime() - SYNC_JOB_STALE_MS) } };
+  const lastError = "ワーカーが応答しなくなったため中断しました";
+  await prisma.syncJob.updateMany({
+    where: { ...where, attempts: { gte: prisma.syncJob.fields.maxAttempts } },
+    data: { status: "failed", finishedAt: now, lastError },
+  });
+  const { count } = await prisma.syncJob.updateMany({
+    where,
+    data: { status: "pending", runAfter: now, lastError },
+  });
+  return count;
+}
+
+/**
+ * 取ったジョブ（running）を実行し、結果を保存する
+ * エラーがあれば attempts < maxAttempts の間はバックオフして pending に戻し、使い切ったら failed
+ */
+export async function runSyncJob(job: SyncJob): Promise<SyncJob> {
+  const [done] = await runSyncJobs([job]);
+  return done;
+}
+
+/**
+ * 同じ依頼・ソースの取ったジョブ（claimSyncJobGroup）を1回の syncSource で実行し、ジョブごとに結果を保存する
+ * 栄養ソースは日付ごとの結果、それ以外（1件）はソース全体の結果をジョブに入れる
+ */
+export async function runSyncJobs(jobs: SyncJob[]): Promise<SyncJob[]> {
+  const [first] = jobs;
+  const started = Date.now();
+  const dates = jobs.map((job) => job.date);
+  // 日付ごとの結果。無い日付はソース全体の結果（shared）を使う
+  const byDate = new Map<string, { errors: string[]; savedDays: number; retryable: boolean }>();
+  let shared: { errors: string[]; savedDays: number; retryable: boolean };
+
+  const registered = getSource(first.source);
+  if (!registered) {
+    // ソースの登録が消えた場合は再試行しても変わらない
+    shared = { errors: [`未登録のデータソースです: ${first.source}`], savedDays: 0, retryable: false };
+  } else {
+    try {
+      const result = await syncSource(first.ownerId, registered, dates, {
+        skipExistingPastDays: first.skipExistingPastDays,
+      });
+      const finishErrors = await finishSyncDays(first.ownerId, dates);
+      shared = {
+        errors: [...result.errors, ...finishErrors],
+        savedDays: result.askenCount + result.strongCount + result.healthCount,
+        retryable: !result.errorKinds?.some((kind) => PERMANENT_ERROR_KINDS.has(kind)),
+      };
+      for (const [date, day] of result.nutritionDays ?? []) {
+        byDate.set(date, {
+          errors: [...day.errors, ...finishErrors],
+          savedDays: day.saved ? 1 : 0,
+          retryable: !(day.errorKind && PERMANENT_ERROR_KINDS.has(day.errorKind)),
+        });
+      }
+    } catch (e) {
+      shared = { errors: [String(e)], savedDays: 0, retryable: true };
+    }
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - started;
+  const done: SyncJob[] = [];
+  for (const job of jobs) {
+    const { errors, savedDays, retryable } = byDate.get(job.date) ?? shared;
+    done.push(await saveSyncJobResult(job, { errors, savedDays, retryable, durationMs, finishedAt }));
+  }
+  return done;
+}
+
+async function saveSyncJobResult(
+  job: SyncJob,
+  outcome: { errors: string[]; savedDays: number; retryable: boolean; durationMs: number; finishedAt: Date }
+): Promise<SyncJob> {
+  const { errors, savedDays, retryable, durationMs, finishedAt } = outcome;
+  if (errors.length === 0) {
+    return prisma.syncJob.update({
+      where: { id: job.id },
+      data: { status: "succeeded", savedDays, lastError: null, durationMs, finishedAt },
+    });
+  }
+  const lastError = errors.join(" / ");
+  if (retryable && job.attempts < job.maxAttempts) {
+    return prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: "pending",
+        savedDays,
+        lastError,
+        durationMs,
+        runAfter: new Date(finishedAt.getTime() + syncJobBackoffMs(job.attempts)),
+      },
+    });
+  }
+  return prisma.syncJob.update({
+    where: { id: job.id },
+    data: { status: "failed", savedDays, lastError, durationMs, finishedAt },
+  });
+}
+
+/** 依頼の全ジョブが終わっていれば、実行履歴に結果を入れる（終了時点の DailyData 件数も） */
+export async function finishSyncBatchRun(ownerId: string, batchId: string): Promise<void> {
+  const progress = await getSyncBatchProgress(ownerId, batchId);
+  if (!progress?.done) return;
+  const run = await prisma.syncRun.findUnique({ where: { batchId } });
+  if (!run || run.status !== "running") return;
+  const dayCount = await prisma.dailyData.count({ where: { ownerId } });
+  await finishSyncRun(run, { ...progress, dayCount });
+}
+
+/**
+ * 実行できるジョブが無くなるまで（または maxJobs 件まで）順に処理する（ワーカー用）
+ * 栄養ソースは同じ依頼・ソースのジョブを SYNC_JOB_SESSION_MAX_JOBS 件までまとめて1つのセッションで実行する
+ * @returns 処理したジョブ（実行後の状態）
+ */
+export async function processSyncJobs(options?: { maxJobs?: number }): Promise<SyncJob[]> {
+  await requeueStaleSyncJobs();
+  const processed: SyncJob[] = [];
+  const maxJobs = options?.maxJobs ?? Infinity;
+  while (processed.length < maxJobs) {
+    const job = await claimNextSyncJob();
+    if (!job) break;
+    const group = await claimSyncJobGroup(job, Math.min(SYNC_JOB_SESSION_MAX_JOBS, maxJobs - processed.length));
+    const done = await runSyncJobs(group);
+    processed.push(...done);
+    if (done.every((d) => d.status === "pending")) continue;
+    try {
+      await finishSyncBatchRun(job.ownerId, job.batchId);
+    } catch (e) {
+      console.error("SyncRun 保存失敗:", e);
+    }
+  }
+  return processed;
+}
+
+export type SyncBatchProgress = {
+  batchId: string;
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  /** すべてのジョブが succeeded か failed */
+  done: boolean;
+  /** 保存できた日数（ソースの種類ごと。POST /api/sync の以前のレスポンスと同じ名前） */
+  askenCount: number;
+  strongCount: number;
+  healthCount: number;
+  /** failed になったジョブのエラー */
+  errors: string[];
+  jobs: Pick<
+    SyncJob,
+    | "id"
+    | "date"
+    | "source"
+    | "status"
+    | "attempts"
+    | "maxAttempts"
+    | "runAfter"
+    | "savedDays"
+    | "lastError"
+    | "durationMs"
+    | "startedAt"
+    | "finishedAt"
+  >[];
+};
+
+const COUNT_KEY: Record<RegisteredSource["kind"], "askenCount" | "strongCount" | "healthCount"> = {
+  nutrition: "askenCount",
+  training: "strongCount",
+  health: "healthCount",
+};
+
+/** 依頼（batchId）の進捗。ownerId のジョブが無ければ null */
+export async function getSyncBatchProgress(ownerId: string, batchId: string): Promise<SyncBatchProgress | null> {
+  const jobs = await prisma.syncJob.findMany({
+    where: { ownerId, batchId },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+    select: {
+      id: true,
+      date: true,
+      source: true,
+      status: true,
+      attempts: true,
+      maxAttempts: true,
+      runAfter: true,
+      savedDays: true,
+      lastError: true,
+      durationMs: true,
+      startedAt: true,
+      finishedAt: true,
+    },
+  });
+  if (jobs.length === 0) return null;
+
+  const progress: SyncBatchProgress = {
+    batchId,
+    total: jobs.length,
+    pending: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    done: false,
+    askenCount: 0,
+    strongCount: 0,
+    healthCount: 0,
+    errors: [],
+    jobs,
+  };
+  for (const job of jobs) {
+    const status = job.status as SyncJobStatus;
+    if (status in progress) progress[status] += 1;
+    const kind = getSource(job.source)?.kind;
+    if (kind && status === "succeeded") progress[COUNT_KEY[kind]] += job.savedDays;
+    if (status === "failed" && job.lastError) progress.errors.push(job.lastError);
+  }
+  progress.done = progress.succeeded + progress.failed === progress.total;
+  return progress;
+}
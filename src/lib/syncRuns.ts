@@ -0,0 +1,163 @@
+/**
+ * 同期の実行履歴（SyncRun）
+ * 手動・cron・過去分・session-guard のすべての同期を1回1行で記録する（以前の SyncLog は id=1 を上書きしていた）。
+ * 記録の失敗で同期自体を失敗させないよう、書き込みエラーはログに出して続ける。
+ */
+
+import type { Prisma, SyncRun } from "@prisma/client";
+import { prisma } from "./prisma";
+import { DEFAULT_USER_ID } from "./dbConfig";
+import { getTargetDates, syncData } from "./syncData";
+
+export type SyncTrigger = "manual" | "cron" | "past-only" | "session-guard";
+
+export type SyncRunStatus = "running" | "succeeded" | "partial" | "failed";
+
+/** 同期結果（syncData・同期ジョブの依頼の集計） */
+export type SyncRunResult = {
+  askenCount: number;
+  strongCount: number;
+  healthCount: number;
+  dayCount: number;
+  errors: string[];
+};
+
+/** 履歴の1ページの件数（limit 省略時） */
+export const DEFAULT_SYNC_RUN_PAGE_SIZE = 20;
+
+/** エラーが無ければ succeeded、エラーがあっても保存できた日があれば partial、何も保存できなければ failed */
+export function syncRunStatus(result: Omit<SyncRunResult, "dayCount">): Exclude<SyncRunStatus, "running"> {
+  if (result.errors.length === 0) return "succeeded";
+  return result.askenCount + result.strongCount + result.healthCount > 0 ? "partial" : "failed";
+}
+
+/** 同期の開始を記録する。期間は targetDates の最初と最後 */
+export function syncRunCreateInput(
+  ownerId: string,
+  trigger: SyncTrigger,
+  targetDates: string[],
+  batchId?: string
+): Prisma.SyncRunCreateInput {
+  return {
+    ownerId,
+    trigger,
+    fromDate: targetDates[0],
+    toDate: targetDates[targetDates.length - 1],
+    ...(batchId ? { batchId } : {}),
+  };
+}
+
+/** 同期の結果を記録する */
+export async function finishSyncRun(
+  run: Pick<SyncRun, "id" | "startedAt">,
+  result: SyncRunResult,
+  finishedAt: Date = new Date()
+): Promise<void> {
+  await prisma.syncRun.update({
+    where: { id: run.id },
+    data: {
+      status: syncRunStatus(result),
+      askenCount: result.askenCount,
+      strongCount: result.strongCount,
+      healthCount: result.healthCount,
+      dayCount: result.dayCount,
+      errors: result.errors,
+      finishedAt,
+      durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+    },
+  });
+}
+
+/**
+ * syncData を実行し、実行履歴に記録する（/api/sync/cron・session-guard など同一プロセスで同期する場合）
+ * 例外の場合も failed として記録してから投げ直す
+ */
+export async function syncDataWithRun(
+  trigger: SyncTrigger,
+  options: Parameters<typeof syncData>[0] = {}
+): Promise<Awaited<ReturnType<typeof syncData>>> {
+  const ownerId = options.userId ?? DEFAULT_USER_ID;
+  let run: SyncRun | null = null;
+  try {
+    run = await prisma.syncRun.create({
+      data: syncRunCreateInput(ownerId, trigger, getTargetDates(options.from, options.to)),
+    });
+  } catch (e) {
+    console.error("SyncRun 保存失敗:", e);
+  }
+
+  try {
+    const result = await syncData(options);
+    if (run) await finishSyncRun(run, result).catch((e) => console.error("SyncRun 保存失敗:", e));
+    return result;
+  } catch (e) {
+    if (run) {
+      await finishSyncRun(run, { askenCount: 0, strongCount: 0, healthCount: 0, dayCount: 0, errors: [String(e)] }).catch(
+        (logErr) => console.error("SyncRun 保存失敗:", logErr)
+      );
+    }
+    throw e;
+  }
+}
+
+export type SyncRunSummary = Omit<SyncRun, "errors"> & { errors: string[] };
+
+export type SyncStatus = {
+  /** 最後に終わった同期 */
+  lastRun: SyncRunSummary | null;
+  /** 直近の終わった同期のうち、エラーのあった（partial / failed）ものが何回続いているか */
+  failureStreak: number;
+  /** 最後にエラー無く終わった時刻 */
+  lastSuccessAt: Date | null;
+  /** 新しい順の履歴（実行中を含む） */
+  runs: SyncRunSummary[];
+  /** 次のページの cursor。null なら最後のページ */
+  nextCursor: string | null;
+};
+
+function toSummary(run: SyncRun): SyncRunSummary {
+  return { ...run, errors: Array.isArray(run.errors) ? run.errors.map(String) : [] };
+}
+
+/** 連続エラー回数を数えるときに見る件数（これ以上は「N 回以上」） */
+const FAILURE_STREAK_SCAN = 50;
+
+/**
+ * 同期の状態: 最後に終わった実行・連続エラー回数・最終成功時刻と、新しい順の履歴（cursor で続きを取得）
+ */
+export async function getSyncStatus(
+  ownerId: string,
+  page: { cursor?: string; limit?: number } = {}
+): Promise<SyncStatus> {
+  const limit = page.limit ?? DEFAULT_SYNC_RUN_PAGE_SIZE;
+  const orderBy = [{ startedAt: "desc" as const }, { id: "desc" as const }];
+  const [rows, recent, lastSuccess] = await Promise.all([
+    prisma.syncRun.findMany({
+      where: { ownerId },
+      orderBy,
+      take: limit + 1,
+      ...(page.cursor ? { cursor: { id: page.cursor }, skip: 1 } : {}),
+    }),
+    prisma.syncRun.findMany({
+      where: { ownerId, status: { not: "running" } },
+      orderBy,
+      take: FAILURE_STREAK_SCAN,
+    }),
+    prisma.syncRun.findFirst({
+      where: { ownerId, status: "succeeded" },
+      orderBy,
+      select: { finishedAt: true },
+    }),
+  ]);
+
+  const streakEnd = recent.findIndex((r) => r.status === "succeeded");
+  const hasMore = rows.length > limit;
+  const runs = (hasMore ? rows.slice(0, limit) : rows).map(toSummary);
+  return {
+    lastRun: recent[0] ? toSummary(recent[0]) : null,
+    failureStreak: streakEnd === -1 ? recent.length : streakEnd,
+    lastSuccessAt: lastSuccess?.finishedAt ?? null,
+    runs,
+    nextCursor: hasMore ? runs[runs.length - 1].id : null,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Strong ワークアウトの保存（Workout / ExerciseSet）
+ * セット単位の行を正とし、DailyData.strongData（集計 JSON）は保存した行から導出して書き込む。
+ * バックフィルは ownerId + date 単位で丸ごと置き換え、同期・アップロードは同じワークアウトだけを置き換える（merge）。
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { buildStrongData, groupStrongWorkoutsByDate } from "./sources/strong";
+import type { ParsedStrongWorkout, StrongDayData, StrongSetType } from "./sources/types";
+
+export type WorkoutWithSets = Prisma.WorkoutGetPayload<{ include: { sets: true } }>;
+
+/** 保存済みの行をパース結果の形に戻す（position 順。CSV 由来のみセット詳細を付ける） */
+export function workoutRowsToParsed(rows: WorkoutWithSets[]): ParsedStrongWorkout[] {
+  return [...rows]
+    .sort((a, b) => a.position - b.position)
+    .map((w) => ({
+      date: w.date,
+      workoutName: w.title,
+      ...(w.startedAt != null ? { startedAt: w.startedAt } : {}),
+      ...(w.durationSec != null ? { durationSec: w.durationSec } : {}),
+      ...(w.notes ? { notes: w.notes } : {}),
+      exercises: [...w.sets]
+        .sort((a, b) => a.position - b.position)
+        .map((s) => ({
+          name: s.exerciseName,
+          weight: s.weightKg,
+          reps: s.reps,
+          ...(w.format === "csv"
+            ? {
+                detail: {
+                  order: s.setOrder,
+                  setType: s.setType as StrongSetType,
+                  weightKg: s.weightKg,
+                  reps: s.reps,
+                  ...(s.rpe != null ? { rpe: s.rpe } : {}),
+                  ...(s.distanceMeters != null ? { distanceMeters: s.distanceMeters } : {}),
+                  ...(s.seconds != null ? { seconds: s.seconds } : {}),
+                  ...(s.notes ? { notes: s.notes } : {}),
+                },
+              }
+            : {}),
+        })),
+    }));
+}
+
+/** 1日分の行から strongData を導出する。行が無ければ null */
+export function deriveStrongDayData(rows: WorkoutWithSets[]): StrongDayData | null {
+  if (rows.length === 0) return null;
+  return buildStrongData(workoutRowsToParsed(rows)).get(rows[0].date) ?? null;
+}
+
+/** パース済みワークアウト → ExerciseSet の作成データ（共有テキストは種目内の出現順をセット番号にする） */
+function toSetRows(workout: ParsedStrongWorkout): Prisma.ExerciseSetCreateWithoutWorkoutInput[] {
+  const counters = new Map<string, number>();
+  return workout.exercises.map((e, position) => {
+    const order = e.detail?.order ?? (counters.get(e.name) ?? 0) + 1;
+    counters.set(e.name, order);
+    return {
+      position,
+      exerciseName: e.name,
+      setOrder: order,
+      setType: e.detail?.setType ?? "normal",
+      weightKg: e.weight,
+      reps: e.reps,
+      rpe: e.detail?.rpe ?? null,
+      distanceMeters: e.detail?.distanceMeters ?? null,
+      seconds: e.detail?.seconds ?? null,
+      notes: e.detail?.notes ?? null,
+    };
+  });
+}
+
+/** 同じワークアウトとみなすキー（CSV は開始時刻 + 名前、共有テキストは名前） */
+function workoutKey(w: ParsedStrongWorkout): string {
+  return w.startedAt !== undefined ? `csv\u0000${w.startedAt}\u0000${w.workoutName}` : `text\u0000${w.workoutName}`;
+}
+
+/**
+ * 保存済みのワークアウトに新しいものを重ねる。同じワークアウトは新しいもので置き換え、
+ * CSV と同じ名前の共有テキストは CSV を残す（セット詳細を共有テキストで上書きしない）
+ */
+function mergeWorkouts(date: string, existing: ParsedStrongWorkout[], incoming: ParsedStrongWorkout[]): ParsedStrongWorkout[] {
+  const incomingKeys = new Set(incoming.map(workoutKey));
+  const kept = existing.filter((w) => !incomingKeys.has(workoutKey(w)));
+  return groupStrongWorkoutsByDate([...kept, ...incoming]).get(date) ?? [];
+}
+
+/**
+ * 1日分のワークアウトを置き換え、行から導出した strongData を DailyData に保存する
+ * @param workouts その日のワークアウト（groupStrongWorkoutsByDate 済みのもの）
+ * @param options.merge true なら保存済みのワークアウトを残し、同じワークアウトだけ置き換える
+ * @returns 保存した strongData
+ */
+export async function replaceWorkoutsForDay(
+  ownerId: string,
+  date: string,
+  workouts: ParsedStrongWorkout[],
+  options?: { merge?: boolean }
+): Promise<StrongDayData | null> {
+  return prisma.$transaction(async (tx) => {
+    let toSave = workouts;
+    if (options?.merge) {
+      const existing = await tx.workout.findMany({ where: { ownerId, date }, include: { sets: true } });
+      toSave = mergeWorkouts(date, workoutRowsToParsed(existing), workouts);
+    }
+    await tx.workout.deleteMany({ where: { ownerId, date } });
+    for (const [position, w] of toSave.entries()) {
+      await tx.workout.create({
+        data: {
+          ownerId,
+          date,
+          position,
+          title: w.workoutName,
+          format: w.startedAt !== undefined ? "csv" : "text",
+          startedAt: w.startedAt ?? null,
+          durationSec: w.durationSec ?? null,
+          notes: w.notes ?? null,
+          sets: { create: toSetRows(w) },
+        },
+      });
+    }
+
+    const rows = await tx.workout.findMany({ where: { ownerId, date }, include: { sets: true } });
+    const strongData = deriveStrongDayData(rows);
+    const value = strongData === null ? Prisma.DbNull : (strongData as unknown as Prisma.InputJsonValue);
+    await tx.dailyData.upsert({
+      where: { ownerId_date: { ownerId, date } },
+      update: { strongData: value },
+      create: { ownerId, date, strongData: value },
+    });
+    return strongData;
+  });
+}
+
+/**
+ * 日付ごとのワークアウトをまとめて保存する（失敗した日は failures に積んで続行）
+ * エラーの表示形式は呼び出し側（同期ログ / API レスポンス）で決める
+ * @param options.merge replaceWorkoutsForDay の merge
+ */
+export async function saveWorkoutsByDate(
+  ownerId: string,
+  byDate: Map<string, ParsedStrongWorkout[]>,
+  options?: { merge?: boolean }
+): Promise<{ savedDays: number; failures: { date: string; error: unknown }[] }> {
+  let savedDays = 0;
+  const failures: { date: string; error: unknown }[] = [];
+  for (const [date, workouts] of byDate) {
+    try {
+      await replaceWorkoutsForDay(ownerId, date, workouts, options);
+      savedDays += 1;
+    } catch (error) {
+      failures.push({ date, error });
+    }
+  }
+  return { savedDays, failures };
+}
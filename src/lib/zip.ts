@@ -0,0 +1,193 @@
+/**
+ * ZIP の書き出し（エクスポート用）と読み込み（インポート用）
+ * 依存ライブラリを増やさないため、各ファイルを zlib の deflate で圧縮し、ローカルヘッダとセントラルディレクトリを自前で書く。
+ * ファイル単位で sink に書き出すので、全ファイルをメモリに溜めずにレスポンスへ流せる。ZIP64（4GB 超）・暗号化は非対応。
+ */
+
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+/** 書き出し先（NextApiResponse / fs.WriteStream など） */
+export type ZipSink = { write(chunk: Buffer): unknown };
+
+type CentralEntry = {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+};
+
+/** ファイル名を UTF-8 で格納する（汎用フラグ bit 11） */
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS 形式の日時（ローカル時刻ではなく UTC で入れる） */
+function toDosDateTime(d: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(d.getUTCFullYear(), 1980);
+  return {
+    dosTime: (d.getUTCHours() << 11) | (d.getUTCMinutes() << 5) | Math.floor(d.getUTCSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((d.getUTCMonth() + 1) << 5) | d.getUTCDate(),
+  };
+}
+
+export class ZipWriter {
+  private offset = 0;
+  private readonly entries: CentralEntry[] = [];
+  private finished = false;
+
+  constructor(
+    private readonly sink: ZipSink,
+    private readonly modifiedAt: Date = new Date()
+  ) {}
+
+  private emit(chunk: Buffer): void {
+    this.sink.write(chunk);
+    this.offset += chunk.length;
+  }
+
+  /** ファイルを1つ追加する（この時点で sink に書き出す） */
+  addFile(path: string, content: string | Buffer): void {
+    if (this.finished) throw new Error("ZipWriter is already finished");
+    const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+    const compressed = deflateRawSync(data);
+    const name = Buffer.from(path, "utf8");
+    const entry: CentralEntry = {
+      name,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+      ...toDosDateTime(this.modifiedAt),
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(METHOD_DEFLATE, 8);
+    header.writeUInt16LE(entry.dosTime, 10);
+    header.writeUInt16LE(entry.dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    this.emit(Buffer.concat([header, name, compressed]));
+    this.entries.push(entry);
+  }
+
+  /** セントラルディレクトリと終端レコードを書く */
+  finish(): void {
+    if (this.finished) return;
+    this.finished = true;
+    const start = this.offset;
+    for (const e of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(FLAG_UTF8, 8);
+      header.writeUInt16LE(METHOD_DEFLATE, 10);
+      header.writeUInt16LE(e.dosTime, 12);
+      header.writeUInt16LE(e.dosDate, 14);
+      header.writeUInt32LE(e.crc, 16);
+      header.writeUInt32LE(e.compressedSize, 20);
+      header.writeUInt32LE(e.size, 24);
+      header.writeUInt16LE(e.name.length, 28);
+      header.writeUInt32LE(e.offset, 42);
+      this.emit(Buffer.concat([header, e.name]));
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    this.emit(end);
+  }
+}
+
+/** ZIP として読めない・非対応の形式 */
+export class ZipFormatError extends Error {}
+
+/** 展開後の合計サイズの上限（圧縮率の極端に高い ZIP でメモリを使い切らないため） */
+export const MAX_UNZIPPED_BYTES = 256 * 1024 * 1024;
+
+/** 終端レコードを末尾から探す（コメントは最大 65535 バイト） */
+function findEndOfCentralDirectory(buf: Buffer): number {
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) return i;
+  }
+  throw new ZipFormatError("ZIP の終端レコードが見つかりません");
+}
+
+/** deflate を展開する。セントラルディレクトリのサイズより大きくは展開しない */
+function inflateEntry(name: string, raw: Buffer, size: number): Buffer {
+  try {
+    // maxOutputLength は 1 以上
+    return inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw new ZipFormatError(`${name}: 展開後のサイズが宣言より大きいです`);
+    throw new ZipFormatError(`${name}: 展開できません`);
+  }
+}
+
+/**
+ * ZIP を読み、パス → 中身 のマップにする（ディレクトリは除く）
+ * 無圧縮・deflate のみ対応。CRC・サイズが合わないファイル、展開後の合計が maxTotalBytes を超える ZIP は ZipFormatError
+ */
+export function readZip(buf: Buffer, maxTotalBytes: number = MAX_UNZIPPED_BYTES): Map<string, Buffer> {
+  const end = findEndOfCentralDirectory(buf);
+  const count = buf.readUInt16LE(end + 10);
+  let p = buf.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    if (buf.readUInt32LE(p) !== 0x02014b50) throw new ZipFormatError("セントラルディレクトリが壊れています");
+    const method = buf.readUInt16LE(p + 10);
+    const crc = buf.readUInt32LE(p + 16);
+    const compressedSize = buf.readUInt32LE(p + 20);
+    const size = buf.readUInt32LE(p + 24);
+    const nameLength = buf.readUInt16LE(p + 28);
+    const extraLength = buf.readUInt16LE(p + 30);
+    const commentLength = buf.readUInt16LE(p + 32);
+    const offset = buf.readUInt32LE(p + 42);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLength);
+    p += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+    total += size;
+    if (total > maxTotalBytes) throw new ZipFormatError(`展開後のサイズが上限（${maxTotalBytes} バイト）を超えます`);
+
+    if (buf.readUInt32LE(offset) !== 0x04034b50) throw new ZipFormatError(`${name}: ローカルヘッダが壊れています`);
+    const dataStart = offset + 30 + buf.readUInt16LE(offset + 26) + buf.readUInt16LE(offset + 28);
+    const raw = buf.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    if (method === METHOD_STORE) data = Buffer.from(raw);
+    else if (method === METHOD_DEFLATE) data = inflateEntry(name, raw, size);
+    else throw new ZipFormatError(`${name}: 非対応の圧縮方式です (${method})`);
+    if (data.length !== size) throw new ZipFormatError(`${name}: サイズが一致しません`);
+    if (crc32(data) !== crc) throw new ZipFormatError(`${name}: CRC が一致しません`);
+    files.set(name, data);
+  }
+  return files;
+}
@@ -15,6 +15,7 @@ import {
   BarChart,
   Bar,
   Cell,
+  ComposedChart,
 } from "recharts";
 
 type DaySummary = {
@@ -27,6 +28,31 @@ type DaySummary = {
   score: number;
 };
 
+/** /api/stats/meal-timing（時刻は 0:00 からの分数） */
+type MealTiming = {
+  days: {
+    date: string;
+    firstMealMinutes: number;
+    lastMealMinutes: number;
+    eatingWindowMinutes: number;
+    lastMealToSleepMinutes: number | null;
+    hasEstimated: boolean;
+  }[];
+  summary: {
+    days: number;
+    avgFirstMealMinutes: number | null;
+    avgLastMealMinutes: number | null;
+    avgEatingWindowMinutes: number | null;
+    avgLastMealToSleepMinutes: number | null;
+    proteinByMealType: { mealType: string; avgProtein: number; share: number }[];
+    avgProteinMealsPerDay: number | null;
+  };
+};
+
+const formatClock = (minutes: number | null) =>
+  minutes == null ? "—" : `${Math.floor(minutes / 60)}:${String(Math.round(minutes) % 60).padStart(2, "0")}`;
+const formatHours = (minutes: number | null) => (minutes == null ? "—" : `${(minutes / 60).toFixed(1)}h`);
+
 const GOAL_CALORIES = 2267;
 const GOAL_PROTEIN = 150;
 
@@ -39,6 +65,7 @@ export default function AnalyticsPage() {
   const [days, setDays] = useState<DaySummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [period, setPeriod] = useState<PeriodKey>("1M");
+  const [mealTiming, setMealTiming] = useState<MealTiming | null>(null);
 
   useEffect(() => {
     fetch("/api/days", { cache: "no-store" })
@@ -52,6 +79,16 @@ export default function AnalyticsPage() {
   const periodStart =
     period === "1M" ? subMonths(now, 1) : period === "3M" ? subMonths(now, 3) : period === "6M" ? subMonths(now, 6) : null;
 
+  // 食事時刻の分析は期間の初日から（全期間は記録の最初の日から）
+  const timingFrom = periodStart ? format(periodStart, "yyyy-MM-dd") : days.length > 0 ? [...days].sort((a, b) => a.date.localeCompare(b.date))[0].date : null;
+  useEffect(() => {
+    const query = timingFrom ? `?from=${timingFrom}` : "";
+    fetch(`/api/stats/meal-timing${query}`, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setMealTiming)
+      .catch(() => setMealTiming(null));
+  }, [timingFrom]);
+
   const filteredDays = useMemo(() => {
     if (!periodStart) return [...days].sort((a, b) => a.date.localeCompare(b.date));
     const end = startOfDay(new Date());
@@ -427,6 +464,100 @@ export default function AnalyticsPage() {
                 </section>
               )}
 
+              {/* 食事時刻（食事の時間帯と最後の食事から入眠まで） */}
+              {mealTiming && mealTiming.days.length > 0 && (
+                <section className="bg-[var(--bg-card)] border border-[var(--border-card)] rounded-xl p-4">
+                  <h2 className="text-sm font-bold text-[var(--text-secondary)] mb-1">食事時刻</h2>
+                  <p className="text-[10px] text-[var(--text-tertiary)] mb-3">
+                    あすけんの食事は入力した時刻、未入力なら普段の時刻で推定
+                  </p>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4 text-xs">
+                    <div>
+                      <p className="text-[var(--text-tertiary)]">平均の食事時間帯</p>
+                      <p className="font-bold text-[var(--text-primary)] tabular-nums">
+                        {formatClock(mealTiming.summary.avgFirstMealMinutes)} 〜 {formatClock(mealTiming.summary.avgLastMealMinutes)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-[var(--text-tertiary)]">食事の幅</p>
+                      <p className="font-bold text-[var(--text-primary)] tabular-nums">{formatHours(mealTiming.summary.avgEatingWindowMinutes)}</p>
+                    </div>
+                    <div>
+                      <p className="text-[var(--text-tertiary)]">最後の食事 → 入眠</p>
+                      <p className="font-bold text-[var(--text-primary)] tabular-nums">{formatHours(mealTiming.summary.avgLastMealToSleepMinutes)}</p>
+                    </div>
+                    <div>
+                      <p className="text-[var(--text-tertiary)]">たんぱく質 20g 以上の食事</p>
+                      <p className="font-bold text-[var(--text-primary)] tabular-nums">
+                        {mealTiming.summary.avgProteinMealsPerDay != null ? `${mealTiming.summary.avgProteinMealsPerDay} 回/日` : "—"}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart
+                        data={mealTiming.days.map((d) => ({
+                          date: d.date,
+                          window: Math.round((d.eatingWindowMinutes / 60) * 10) / 10,
+                          toSleep: d.lastMealToSleepMinutes != null ? Math.round((d.lastMealToSleepMinutes / 60) * 10) / 10 : null,
+                          estimated: d.hasEstimated,
+                        }))}
+                        margin={{ top: 8, right: 8, left: 0, bottom: 0 }}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" stroke="#244724" vertical={false} />
+                        <XAxis
+                          dataKey="date"
+                          tickFormatter={(v) => (isValid(parseISO(v)) ? format(parseISO(v), "M/d", { locale: ja }) : v)}
+                          tick={{ fontSize: 10, fill: "#94a3b8" }}
+                          axisLine={false}
+                          tickLine={false}
+                        />
+                        <YAxis tick={{ fontSize: 10, fill: "#94a3b8" }} axisLine={false} tickLine={false} width={28} unit="h" />
+                        <Tooltip
+                          content={({ active, payload, label }) => {
+                            if (!active || !payload?.length || label == null) return null;
+                            const d = payload[0]?.payload;
+                            const parsed = parseISO(String(label));
+                            return (
+                              <div className="bg-[var(--surface-darker)] border border-[var(--border-card)] rounded-lg px-3 py-2 shadow-xl text-xs">
+                                <p className="text-[var(--text-tertiary)] mb-1">
+                                  {isValid(parsed) ? format(parsed, "yyyy/M/d (EEE)", { locale: ja }) : String(label)}
+                                  {d?.estimated && "（推定を含む）"}
+                                </p>
+                                <p className="text-[var(--text-primary)] font-bold">食事の幅 {d?.window}h</p>
+                                {d?.toSleep != null && <p className="text-[#a78bfa]">入眠まで {d.toSleep}h</p>}
+                              </div>
+                            );
+                          }}
+                        />
+                        <Bar dataKey="window" radius={[4, 4, 0, 0]}>
+                          {mealTiming.days.map((d) => (
+                            <Cell key={d.date} fill="#19e619" fillOpacity={d.hasEstimated ? 0.45 : 0.9} />
+                          ))}
+                        </Bar>
+                        <Line type="monotone" dataKey="toSleep" stroke="#a78bfa" strokeWidth={2} dot={{ fill: "#a78bfa", r: 3 }} connectNulls />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                  {mealTiming.summary.proteinByMealType.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-xs font-bold text-[var(--text-tertiary)]">たんぱく質の配分（1日平均）</p>
+                      {mealTiming.summary.proteinByMealType.map((p) => (
+                        <div key={p.mealType} className="flex items-center gap-3 text-xs">
+                          <span className="w-10 shrink-0 text-[var(--text-secondary)]">{p.mealType}</span>
+                          <div className="flex-1 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                            <div className="h-full rounded-full bg-[var(--primary)]" style={{ width: `${Math.round(p.share * 100)}%` }} />
+                          </div>
+                          <span className="w-20 text-right tabular-nums text-[var(--text-tertiary)]">
+                            {p.avgProtein}g（{Math.round(p.share * 100)}%）
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+              )}
+
               {/* 最近の日別一覧（参考: Recent Personal Records テーブル） */}
               <section className="bg-[var(--bg-card)] border border-[var(--border-card)] rounded-xl p-4">
                 <div className="flex items-center justify-between mb-3">
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { generateDailyPrompt } from "../../../lib/gemini";
 import { getEffectiveTodayStr } from "../../../lib/dateUtils";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
 
 /**
  * 日次プロンプト生成エンドポイント
@@ -26,7 +27,7 @@ export default async function handler(
   }
 
   try {
-    const prompt = await generateDailyPrompt(dateStr);
+    const prompt = await generateDailyPrompt(dateStr, "manual", getUserIdForConfig(req));
     return res.status(200).json({ date: dateStr, prompt });
   } catch (e) {
     console.error("Daily prompt error:", e);
@@ -3,6 +3,7 @@ import { runDailyEvaluation, runWeeklyEvaluation } from "../../../lib/aiEvaluato
 import { getEffectiveTodayStr } from "../../../lib/dateUtils";
 import { isGeminiConfigured } from "../../../lib/geminiClient";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
 
 /**
  * POST /api/ai/evaluate
@@ -42,11 +43,12 @@ export default async function handler(
     return res.status(400).json({ error: "日付の形式が不正です (YYYY-MM-DD)" });
   }
 
+  const userId = getUserIdForConfig(req);
   try {
     const result =
       type === "weekly"
-        ? await runWeeklyEvaluation(date, trigger, systemPrompt)
-        : await runDailyEvaluation(date, trigger, systemPrompt);
+        ? await runWeeklyEvaluation(date, trigger, systemPrompt, userId)
+        : await runDailyEvaluation(date, trigger, systemPrompt, userId);
 
     return res.status(200).json({ success: true, evaluation: result });
   } catch (e) {
@@ -1,13 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "../../../lib/prisma";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { aiEvaluationOwnerWhere } from "../../../lib/aiEvaluator";
 
 /**
  * GET /api/ai/history?date=YYYY-MM-DD&type=daily
  * 指定日のAI評価履歴を取得する
  *
  * GET /api/ai/history?limit=10
- * 最新のAI評価履歴を取得する
+ * 最新のAI評価履歴を取得する（どちらも認証ユーザー、なければ "default" の分のみ）
  */
 export default async function handler(
   req: NextApiRequest,
@@ -24,14 +26,12 @@ export default async function handler(
       type?: string;
       limit?: string;
     };
+    const ownerWhere = aiEvaluationOwnerWhere(getUserIdForConfig(req));
 
     // 特定の日付を指定した場合
     if (date) {
-      const where: { date: string; type?: string } = { date };
-      if (type) where.type = type;
-
       const evaluations = await prisma.aiEvaluation.findMany({
-        where,
+        where: { ...ownerWhere, date, ...(type ? { type } : {}) },
         orderBy: { createdAt: "desc" },
         select: {
           id: true,
@@ -51,6 +51,7 @@ export default async function handler(
     // 最新の評価一覧
     const take = Math.min(parseInt(limit || "20", 10) || 20, 100);
     const evaluations = await prisma.aiEvaluation.findMany({
+      where: ownerWhere,
       orderBy: { createdAt: "desc" },
       take,
       select: {
@@ -3,6 +3,7 @@ import { previousSunday } from "date-fns";
 import { generateWeeklyPrompt } from "../../../lib/gemini";
 import { getEffectiveToday, formatDateJst } from "../../../lib/dateUtils";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
 
 /**
  * 直近の日曜起点の週開始日を取得する
@@ -35,7 +36,7 @@ export default async function handler(
   }
 
   try {
-    const prompt = await generateWeeklyPrompt(weekStart);
+    const prompt = await generateWeeklyPrompt(weekStart, getUserIdForConfig(req));
 
     const [year, month, day] = weekStart.split("-").map(Number);
     const sat = new Date(year, month - 1, day + 6);
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deleteBodyMetric } from "../../../lib/bodyMetrics";
+import { finalizeDayScoresFrom } from "../../../lib/scoreSnapshots";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * DELETE /api/body-metrics/[date] — その日の手入力分を削除する（同期分は残る）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const date = req.query.date as string;
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: "Invalid date. Use YYYY-MM-DD" });
+  }
+  const userId = getUserIdForConfig(req);
+
+  try {
+    const deleted = await deleteBodyMetric(userId, date);
+    if (!deleted) return res.status(404).json({ error: "Not found" });
+  } catch (e) {
+    console.error("DELETE /api/body-metrics/[date] error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+  try {
+    // 傾向体重は後の日すべてに効くので、この日から昨日までを採点し直す
+    await finalizeDayScoresFrom(userId, date);
+  } catch (e) {
+    console.warn("DELETE /api/body-metrics/[date] finalizeDayScoresFrom failed:", e);
+  }
+  return res.status(200).json({ ok: true, date });
+}
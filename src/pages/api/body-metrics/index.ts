@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listBodyMetrics, saveBodyMetric, MANUAL_SOURCE } from "../../../lib/bodyMetrics";
+import { bodyMetricInputSchema, bodyMetricRangeSchema } from "../../../lib/schemas/bodyMetric";
+import { finalizeDayScoresFrom } from "../../../lib/scoreSnapshots";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * GET  /api/body-metrics?from=&to= — 体組成ログ（1日1件・手入力優先）と各日時点の傾向体重
+ * POST /api/body-metrics — body: { date, weightKg?, bodyFatPct?, waistCm? } で手入力分を保存（null は項目の削除）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "GET") {
+    const parsed = bodyMetricRangeSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    try {
+      const entries = await listBodyMetrics(userId, parsed.data);
+      const latestTrendKg = [...entries].reverse().find((e) => e.trendKg != null)?.trendKg ?? null;
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json({ entries, latestTrendKg });
+    } catch (e) {
+      console.error("GET /api/body-metrics error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = bodyMetricInputSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    const { date, ...values } = parsed.data;
+    try {
+      await saveBodyMetric(userId, date, MANUAL_SOURCE, values);
+    } catch (e) {
+      console.error("POST /api/body-metrics error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+    try {
+      // 傾向体重は後の日すべてに効くので、この日から昨日までを採点し直す
+      await finalizeDayScoresFrom(userId, date);
+    } catch (e) {
+      console.warn("POST /api/body-metrics finalizeDayScoresFrom failed:", e);
+    }
+    return res.status(200).json({ ok: true, date });
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
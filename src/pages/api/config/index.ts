@@ -1,9 +1,11 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { getGoals, getPersonal, setGoals, setPersonal, type Goals } from "../../../lib/dbConfig";
 import { getUserIdForConfig } from "../../../lib/auth";
+import { getTrendWeightKg } from "../../../lib/bodyMetrics";
+import { getEffectiveTodayStr } from "../../../lib/dateUtils";
 
 /**
- * GET /api/config — 目標・パーソナル設定を返す（ユーザー単位）
+ * GET /api/config — 目標・パーソナル設定と今日時点の傾向体重（trendWeightKg、記録なしは null）を返す（ユーザー単位）
  * POST /api/config — body: { goals?, personal? } で更新
  * 認証ヘッダーが無い場合は userId = "default"
  */
@@ -13,8 +15,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (req.method === "GET") {
     try {
       const [goals, personal] = await Promise.all([getGoals(userId), getPersonal(userId)]);
+      let trendWeightKg: number | null = null;
+      try {
+        trendWeightKg = await getTrendWeightKg(userId, getEffectiveTodayStr());
+      } catch (e) {
+        console.warn("GET /api/config getTrendWeightKg failed:", e);
+      }
       res.setHeader("Cache-Control", "no-store, must-revalidate");
-      return res.status(200).json({ goals, personal });
+      return res.status(200).json({ goals, personal, trendWeightKg });
     } catch (e) {
       console.error("GET /api/config error:", e);
       return res.status(500).json({ error: "設定の取得に失敗しました" });
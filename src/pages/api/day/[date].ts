@@ -1,36 +1,60 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../../../lib/prisma";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { finalizeDayScores } from "../../../lib/scoreSnapshots";
+import { computeDayIntake, getManualMealsByDate } from "../../../lib/dayIntake";
 import type { AskenItem, AskenNutrients } from "../../../lib/gemini";
-
-const parseNumeric = (v: string) => {
-  const m = v.match(/[\d.]+/);
-  return m ? parseFloat(m[0]) : 0;
-};
+import { mealTimesSchema } from "../../../lib/schemas/mealTiming";
 
 /**
  * 日次データ取得エンドポイント
  * GET   /api/day/[date] — 指定日のデータを返す（index トップページ用に calories, pfc を含む）
- * PATCH /api/day/[date] — 指定日の hasHiking などユーザー入力フラグを更新する
- *                          body: { hasHiking: boolean }
+ *                        meals: あすけん・手入力をまとめた品目一覧（source 付き）
+ * PATCH /api/day/[date] — 指定日の hasHiking・あすけんの食事時刻などユーザー入力を更新する
+ *                          body: { hasHiking?: boolean, mealTimes?: { 朝食: "07:30", ... } | null }（どちらか必須）
+ * 認証があればそのユーザー、なければ "default" の DailyData を対象にする
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const date = req.query.date as string;
   if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
     return res.status(400).json({ error: "Invalid date. Use YYYY-MM-DD" });
   }
+  const ownerId = getUserIdForConfig(req);
 
   if (req.method === "PATCH") {
     try {
-      const body = (req.body ?? {}) as { hasHiking?: unknown };
-      if (typeof body.hasHiking !== "boolean") {
+      const body = (req.body ?? {}) as { hasHiking?: unknown; mealTimes?: unknown };
+      if (body.hasHiking === undefined && body.mealTimes === undefined) {
+        return res.status(400).json({ error: "hasHiking (boolean) or mealTimes is required" });
+      }
+      if (body.hasHiking !== undefined && typeof body.hasHiking !== "boolean") {
         return res.status(400).json({ error: "hasHiking (boolean) is required" });
       }
+      const update: Prisma.DailyDataUpdateInput = {};
+      if (body.hasHiking !== undefined) update.hasHiking = body.hasHiking;
+      if (body.mealTimes !== undefined) {
+        if (body.mealTimes === null) {
+          update.mealTimes = Prisma.DbNull;
+        } else {
+          const parsed = mealTimesSchema.safeParse(body.mealTimes);
+          if (!parsed.success) {
+            return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+          }
+          update.mealTimes = parsed.data;
+        }
+      }
       const updated = await prisma.dailyData.upsert({
-        where: { date },
-        update: { hasHiking: body.hasHiking },
-        create: { date, hasHiking: body.hasHiking },
-        select: { date: true, hasHiking: true },
+        where: { ownerId_date: { ownerId, date } },
+        update,
+        create: { ...(update as Prisma.DailyDataCreateInput), ownerId, date },
+        select: { date: true, hasHiking: true, mealTimes: true },
       });
+      try {
+        await finalizeDayScores(ownerId, [date]);
+      } catch (e) {
+        console.warn("PATCH /api/day finalizeDayScores failed:", e);
+      }
       res.setHeader("Cache-Control", "no-store, max-age=0");
       return res.status(200).json(updated);
     } catch (err) {
@@ -45,49 +69,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const daily = await prisma.dailyData.findUnique({ where: { date } });
-    if (!daily) {
-      // 該当日の行がなくても 200 でゼロを返す（ダッシュボードで「未取得」表示のため）
-      res.setHeader("Cache-Control", "no-store, max-age=0");
-      return res.status(200).json({
-        date,
-        calories: 0,
-        pfc: { protein: 0, fat: 0, carbs: 0 },
-        steps: null,
-        exerciseCalories: null,
-        hasHiking: false,
-      });
-    }
-
-    const nutrients = daily.askenNutrients as AskenNutrients | null;
-    const items = daily.askenItems as AskenItem[] | null;
-    let calories = 0;
-    let protein = 0;
-    let fat = 0;
-    let carbs = 0;
-    const nutrientMealTypes = new Set<string>();
-
-    if (nutrients) {
-      for (const [mealType, meal] of Object.entries(nutrients)) {
-        if (!meal) continue;
-        nutrientMealTypes.add(mealType);
-        if (meal["エネルギー"]) calories += parseNumeric(meal["エネルギー"]);
-        if (meal["たんぱく質"]) protein += parseNumeric(meal["たんぱく質"]);
-        if (meal["脂質"]) fat += parseNumeric(meal["脂質"]);
-        if (meal["炭水化物"]) carbs += parseNumeric(meal["炭水化物"]);
-      }
-    }
-    if (items) {
-      for (const item of items) {
-        if (!nutrientMealTypes.has(item.mealType)) calories += item.calories;
-      }
-    }
-
+    const [daily, manual] = await Promise.all([
+      prisma.dailyData.findUnique({ where: { ownerId_date: { ownerId, date } } }),
+      getManualMealsByDate(ownerId, { from: date, to: date }),
+    ]);
+    const manualMeals = manual.get(date) ?? [];
+    const intake = computeDayIntake({
+      askenItems: (daily?.askenItems as AskenItem[] | null) ?? null,
+      askenNutrients: (daily?.askenNutrients as AskenNutrients | null) ?? null,
+      manualMeals,
+    });
     const data: Record<string, unknown> = {
       date,
-      calories: Math.round(calories),
-      pfc: { protein: Math.round(protein), fat: Math.round(fat), carbs: Math.round(carbs) },
+      calories: Math.round(intake.calories),
+      pfc: { protein: Math.round(intake.protein), fat: Math.round(intake.fat), carbs: Math.round(intake.carbs) },
+      meals: intake.items,
     };
+    if (!daily) {
+      // 該当日の行がなくても 200 を返す（ダッシュボードで「未取得」表示のため）。手入力の食事があればその分を返す
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json({ ...data, steps: null, exerciseCalories: null, hasHiking: false });
+    }
 
     if (daily.askenItems || daily.askenNutrients) {
       data.asken = {
@@ -112,6 +114,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (daily.activeMinutes != null) data.activeMinutes = daily.activeMinutes;
     if (daily.weightKg != null) data.weightKg = daily.weightKg;
     if (daily.healthSyncedAt != null) data.healthSyncedAt = daily.healthSyncedAt;
+    if (daily.mealTimes != null) data.mealTimes = daily.mealTimes;
     data.hasHiking = !!daily.hasHiking;
 
     res.setHeader("Cache-Control", "no-store, max-age=0");
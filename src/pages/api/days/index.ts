@@ -1,13 +1,21 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "../../../lib/prisma";
 import { calculateDailyScore } from "../../../lib/scoring";
-import { getGoals } from "../../../lib/dbConfig";
+import { getGoals, getScoringProfile } from "../../../lib/dbConfig";
+import { DEFAULT_SCORING_PROFILE } from "../../../lib/scoringProfile";
 import { getUserIdForConfig } from "../../../lib/auth";
+import { aiEvaluationOwnerWhere } from "../../../lib/aiEvaluator";
+import { getStrengthSummaries, type StrengthDaySummary } from "../../../lib/strengthProgress";
+import { getOrFinalizeScoreSnapshots, scoringWeightKg, type ScoreSnapshot } from "../../../lib/scoreSnapshots";
+import { getBodyWeightResolver } from "../../../lib/bodyMetrics";
+import { computeDayIntake, getManualMealsByDate, type ManualMeal } from "../../../lib/dayIntake";
 import type { DayData, AskenItem, AskenNutrients, StrongData } from "../../../lib/gemini";
 
 /**
  * 日付一覧取得エンドポイント
- * GET /api/days — DB に登録されている全日付を返す
+ * GET /api/days — DB に登録されている全日付（DailyData または手入力の食事がある日）を返す（認証ユーザー、なければ "default" の分のみ）
+ * score は確定済みの日ならスナップショット（DailyScore）、未確定の日（今日以降）は現在の目標でその場で計算した値。
+ * スナップショットの無い過去の日はここで確定する。
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "GET") {
@@ -24,8 +32,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       console.warn("GET /api/days getGoals failed, using defaults:", e);
       goals = { calories: 2267, protein: 150, fat: 54, carbs: 293 };
     }
+    let profile = DEFAULT_SCORING_PROFILE;
+    try {
+      profile = await getScoringProfile(userId);
+    } catch (e) {
+      console.warn("GET /api/days getScoringProfile failed, using cut preset:", e);
+    }
 
     const records = await prisma.dailyData.findMany({
+      where: { ownerId: userId },
       select: {
         date: true,
         askenItems: true,
@@ -34,13 +49,39 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         steps: true,
         exerciseCalories: true,
         hasHiking: true,
+        weightKg: true,
       },
       orderBy: { date: "desc" },
     });
 
+    let manualByDate = new Map<string, ManualMeal[]>();
+    try {
+      manualByDate = await getManualMealsByDate(userId);
+    } catch (e) {
+      console.warn("GET /api/days getManualMealsByDate failed:", e);
+    }
+    // 手入力の食事だけの日も一覧に含める（日付降順）
+    const recordDates = new Set(records.map((r) => r.date));
+    const rows = [
+      ...records,
+      ...[...manualByDate.keys()]
+        .filter((date) => !recordDates.has(date))
+        .map((date) => ({
+          date,
+          askenItems: null,
+          askenNutrients: null,
+          strongData: null,
+          steps: null,
+          exerciseCalories: null,
+          hasHiking: false,
+          weightKg: null,
+        })),
+    ].sort((a, b) => b.date.localeCompare(a.date));
+
     let evaluatedDates = new Set<string>();
     try {
       const evaluations = await prisma.aiEvaluation.findMany({
+        where: aiEvaluationOwnerWhere(userId),
         select: { date: true },
         distinct: ["date"],
       });
@@ -49,6 +90,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       console.warn("GET /api/days aiEvaluation findMany failed:", e);
     }
 
+    let snapshots = new Map<string, ScoreSnapshot>();
+    try {
+      snapshots = await getOrFinalizeScoreSnapshots(userId, rows.map((r) => r.date));
+    } catch (e) {
+      console.warn("GET /api/days getOrFinalizeScoreSnapshots failed:", e);
+    }
+
+    let strengthByDate = new Map<string, StrengthDaySummary>();
+    if (rows.length > 0) {
+      try {
+        // rows は日付降順
+        strengthByDate = await getStrengthSummaries(userId, rows[rows.length - 1].date, rows[0].date);
+      } catch (e) {
+        console.warn("GET /api/days getStrengthSummaries failed:", e);
+      }
+    }
+
+    let weightOf: (date: string) => number | null = () => null;
+    try {
+      weightOf = await getBodyWeightResolver(userId);
+    } catch (e) {
+      console.warn("GET /api/days getBodyWeightResolver failed:", e);
+    }
+
     type DaySummary = {
       date: string;
       calories: number;
@@ -59,66 +124,51 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       hasHiking: boolean;
       hasEvaluation: boolean;
       score: number;
+      /** snapshot: 確定時に保存したスコア / live: その場で計算したスコア */
+      scoreSource: "snapshot" | "live";
+      scoredAt: string | null;
     };
 
-    const parseNumeric = (v: string) => {
-      const m = v.match(/[\d.]+/);
-      return m ? parseFloat(m[0]) : 0;
-    };
-
-    const days: DaySummary[] = records.map((r) => {
-      let calories = 0;
-      let p = 0, f = 0, c = 0;
-
-      const nutrientMealTypes = new Set<string>();
+    const days: DaySummary[] = rows.map((r) => {
+      const items = r.askenItems as AskenItem[] | null;
       const nutrients = r.askenNutrients as AskenNutrients | null;
+      const manualMeals = manualByDate.get(r.date) ?? [];
+      const intake = computeDayIntake({ askenItems: items, askenNutrients: nutrients, manualMeals });
 
-      if (nutrients && typeof nutrients === "object") {
-        for (const [mealType, meal] of Object.entries(nutrients)) {
-          if (!meal || typeof meal !== "object") continue;
-          nutrientMealTypes.add(mealType);
-          if (meal["エネルギー"]) calories += parseNumeric(String(meal["エネルギー"]));
-          if (meal["たんぱく質"]) p += parseNumeric(String(meal["たんぱく質"]));
-          if (meal["脂質"]) f += parseNumeric(String(meal["脂質"]));
-          if (meal["炭水化物"]) c += parseNumeric(String(meal["炭水化物"]));
+      const snapshot = snapshots.get(r.date);
+      let score = snapshot?.total ?? 0;
+      if (!snapshot) {
+        try {
+          const dayData: DayData = {
+            date: r.date,
+            askenItems: items ?? null,
+            askenNutrients: nutrients ?? null,
+            strongData: (r.strongData as StrongData) ?? null,
+            steps: r.steps ?? null,
+            exerciseCalories: r.exerciseCalories ?? null,
+            hasHiking: !!r.hasHiking,
+            weightKg: r.weightKg,
+            manualMeals,
+          };
+          const weightKg = scoringWeightKg(r.weightKg, weightOf(r.date));
+          score = calculateDailyScore(dayData, weightKg, goals, strengthByDate.get(r.date) ?? null, profile).total;
+        } catch (e) {
+          console.warn(`GET /api/days score failed for ${r.date}:`, e);
         }
       }
 
-      const items = r.askenItems as AskenItem[] | null;
-      if (Array.isArray(items)) {
-        for (const item of items) {
-          if (item && typeof item.calories === "number" && !nutrientMealTypes.has(item.mealType)) {
-            calories += item.calories;
-          }
-        }
-      }
-
-      let score = 0;
-      try {
-        const dayData: DayData = {
-          date: r.date,
-          askenItems: items ?? null,
-          askenNutrients: nutrients ?? null,
-          strongData: (r.strongData as StrongData) ?? null,
-          steps: r.steps ?? null,
-          exerciseCalories: r.exerciseCalories ?? null,
-          hasHiking: !!r.hasHiking,
-        };
-        score = calculateDailyScore(dayData, undefined, goals).total;
-      } catch (e) {
-        console.warn(`GET /api/days score failed for ${r.date}:`, e);
-      }
-
       return {
         date: r.date,
-        calories: Math.round(calories),
-        pfc: { p: Math.round(p), f: Math.round(f), c: Math.round(c) },
+        calories: Math.round(intake.calories),
+        pfc: { p: Math.round(intake.protein), f: Math.round(intake.fat), c: Math.round(intake.carbs) },
         steps: r.steps,
         exerciseCalories: r.exerciseCalories,
         hasStrong: !!r.strongData,
         hasHiking: !!r.hasHiking,
         hasEvaluation: evaluatedDates.has(r.date),
         score,
+        scoreSource: snapshot ? "snapshot" : "live",
+        scoredAt: snapshot?.computedAt.toISOString() ?? null,
       };
     });
 
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { rescoreRange } from "../../../lib/scoreSnapshots";
+import { rescoreRangeSchema } from "../../../lib/schemas/score";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * POST /api/days/rescore — body: { from, to }（YYYY-MM-DD）
+ * 期間内の確定済みの日を現在の目標・採点プロファイルで再計算し、スナップショットを追記する。
+ * 目標を変えただけでは過去のスコアは変わらないので、履歴も揃えたいときに明示的に呼ぶ。今日以降は対象外。
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = rescoreRangeSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+  }
+
+  const userId = getUserIdForConfig(req);
+  try {
+    const { from, to } = parsed.data;
+    const result = await rescoreRange(userId, from, to);
+    return res.status(200).json({ from, to, ...result });
+  } catch (e) {
+    console.error("POST /api/days/rescore error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
@@ -0,0 +1,88 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { buildExportManifest, exportFiles, MANIFEST_PATH, type ExportFile } from '@/lib/dataExport';
+import { exportQuerySchema } from '@/lib/schemas/export';
+import { getEffectiveTodayStr } from '@/lib/dateUtils';
+import { ZipWriter } from '@/lib/zip';
+
+/**
+ * GET /api/export?from=&to=&format=json|csv — 個人データを ZIP でダウンロードする（JWT 必須）
+ * DailyData・MealLog/MealItem・AiEvaluation・UserConfig・ScrapingLog と manifest.json（schemaVersion つき）
+ * テーブルごとに取得して ZIP に書き出し、そのままレスポンスに流す
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  let userId: string;
+  try {
+    userId = getUserIdFromRequest(req);
+  } catch (e) {
+    if (e instanceof Error && e.message === 'UNAUTHORIZED') {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    console.error(e);
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Validation error',
+      details: parsed.error.flatten(),
+    });
+  }
+  const options = parsed.data;
+
+  const files = exportFiles(userId, options);
+  let first: IteratorResult<ExportFile>;
+  try {
+    // 1テーブル目の取得に失敗した場合はまだヘッダーを送っていないので JSON でエラーを返せる
+    first = await files.next();
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ error: 'Unexpected error' });
+  }
+
+  const exportedAt = new Date();
+  const fileName = `nutrition-export-${getEffectiveTodayStr(exportedAt)}.zip`;
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.setHeader('Cache-Control', 'no-store, max-age=0');
+  res.status(200);
+
+  const zip = new ZipWriter(res, exportedAt);
+  const written: ExportFile[] = [];
+  try {
+    for (let next = first; !next.done; next = await files.next()) {
+      zip.addFile(next.value.path, next.value.content);
+      written.push(next.value);
+    }
+    zip.addFile(MANIFEST_PATH, JSON.stringify(buildExportManifest(userId, options, written, exportedAt), null, 2));
+    zip.finish();
+  } catch (e) {
+    // 送信途中のため ZIP を閉じずに接続を切り、ダウンロードを失敗させる（不完全な ZIP を正常終了で渡さない）
+    console.error('GET /api/export failed while streaming:', e);
+    res.destroy(e instanceof Error ? e : new Error(String(e)));
+    return;
+  }
+
+  console.info(
+    JSON.stringify({
+      timestamp: new Date().toISOString(),
+      userId,
+      operation: 'export',
+      format: options.format,
+      files: written.map((f) => `${f.path}:${f.count}`),
+    })
+  );
+  res.end();
+}
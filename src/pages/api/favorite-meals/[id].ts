@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deleteFavoriteMeal } from "../../../lib/foods";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * DELETE /api/favorite-meals/[id] — お気に入りの食事を削除する
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const id = req.query.id as string;
+  try {
+    const deleted = await deleteFavoriteMeal(getUserIdForConfig(req), id);
+    if (!deleted) return res.status(404).json({ error: "Not found" });
+    return res.status(200).json({ ok: true, id });
+  } catch (e) {
+    console.error("DELETE /api/favorite-meals/[id] error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
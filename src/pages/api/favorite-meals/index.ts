@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listFavoriteMeals, saveFavoriteMeal } from "../../../lib/foods";
+import { favoriteMealInputSchema } from "../../../lib/schemas/food";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * GET  /api/favorite-meals — お気に入りの食事の一覧
+ * POST /api/favorite-meals — body: { name, mealType?, items: [{ name, cal, amount?, unit?, protein?, fat?, carb? }] } で保存（同名は上書き）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "GET") {
+    try {
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json({ favorites: await listFavoriteMeals(userId) });
+    } catch (e) {
+      console.error("GET /api/favorite-meals error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = favoriteMealInputSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    try {
+      return res.status(200).json({ favorite: await saveFavoriteMeal(userId, parsed.data) });
+    } catch (e) {
+      console.error("POST /api/favorite-meals error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deleteFood } from "../../../lib/foods";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * DELETE /api/foods/[id] — 食品カタログから削除する（履歴に残っていれば再作成で戻る）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const id = req.query.id as string;
+  try {
+    const deleted = await deleteFood(getUserIdForConfig(req), id);
+    if (!deleted) return res.status(404).json({ error: "Not found" });
+    return res.status(200).json({ ok: true, id });
+  } catch (e) {
+    console.error("DELETE /api/foods/[id] error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { saveFood, searchFoods } from "../../../lib/foods";
+import { foodInputSchema, foodSearchSchema } from "../../../lib/schemas/food";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * GET  /api/foods?q=&limit= — 食品カタログを名前で検索（よく使う順）。q 省略時はよく使う食品
+ * POST /api/foods — body: { name, baseAmount, baseUnit, cal, protein?, fat?, carb?, servingAmount? } で登録・編集（同名は上書き）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "GET") {
+    const parsed = foodSearchSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    try {
+      const foods = await searchFoods(userId, parsed.data.q || undefined, parsed.data.limit);
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json({ foods });
+    } catch (e) {
+      console.error("GET /api/foods error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = foodInputSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    try {
+      return res.status(200).json({ food: await saveFood(userId, parsed.data) });
+    } catch (e) {
+      console.error("POST /api/foods error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { rebuildFoodCatalog } from "../../../lib/foods";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * POST /api/foods/rebuild — あすけんの品目と手入力の MealItem の履歴から食品カタログを作り直す
+ * ユーザーが登録・編集した食品は栄養素を上書きしない
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    return res.status(200).json(await rebuildFoodCatalog(getUserIdForConfig(req)));
+  } catch (e) {
+    console.error("POST /api/foods/rebuild error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
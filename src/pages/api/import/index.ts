@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { ImportBundleError, importBundle, readImportBundle } from '@/lib/dataImport';
+import { importRequestSchema } from '@/lib/schemas/dataImport';
+
+/**
+ * POST /api/import — /api/export の ZIP を自分の ownerId に取り込む（JWT 必須）
+ * body: { bundle: ZIP の base64, strategy?: 'skip' | 'overwrite' | 'merge'（既定 skip）, dryRun?: boolean（既定 true） }
+ * dryRun では書き込まずにテーブルごとの差分だけ返す
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  let userId: string;
+  try {
+    userId = getUserIdFromRequest(req);
+  } catch (e) {
+    if (e instanceof Error && e.message === 'UNAUTHORIZED') {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    console.error(e);
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const parsed = importRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Validation error',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { strategy, dryRun } = parsed.data;
+
+  try {
+    const bundle = readImportBundle(Buffer.from(parsed.data.bundle, 'base64'));
+    const report = await importBundle(userId, bundle, { strategy, dryRun });
+
+    console.info(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        userId,
+        operation: 'import',
+        strategy,
+        dryRun,
+        sourceOwnerId: bundle.manifest.ownerId,
+        counts: Object.fromEntries(
+          Object.entries(report).map(([table, r]) => [table, 'changes' in r ? `${r.create}/${r.update}/${r.skip}` : r.ignored])
+        ),
+      })
+    );
+    return res.status(200).json({ dryRun, strategy, manifest: bundle.manifest, report });
+  } catch (e) {
+    if (e instanceof ImportBundleError) {
+      return res.status(400).json({ error: e.message });
+    }
+    console.error('POST /api/import error:', e);
+    return res.status(500).json({ error: 'Unexpected error' });
+  }
+}
+
+/** ZIP を base64 で受けるため制限を緩和（デフォルト1MB → 50MB） */
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '50mb',
+    },
+  },
+};
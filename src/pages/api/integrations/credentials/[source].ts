@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ZodError } from "zod";
+import {
+  deleteCredential,
+  isCredentialSource,
+  isCredentialVaultConfigured,
+  saveCredential,
+} from "../../../../lib/credentialVault";
+import { askenCredentialSchema, googleCredentialSchema } from "../../../../lib/schemas/credential";
+import { getUserIdForConfig } from "../../../../lib/auth";
+import { toClientErrorMessage } from "../../../../lib/apiError";
+
+/** 入力値（パスワード等）を返さないよう、項目ごとのメッセージだけ返す */
+function sendValidationError(res: NextApiResponse, error: ZodError) {
+  return res.status(400).json({ error: "Validation error", details: error.flatten().fieldErrors });
+}
+
+/**
+ * PUT /api/integrations/credentials/[source] — 認証情報を暗号化して保存
+ *   asken: { email, password } / google: { refreshToken }
+ * DELETE /api/integrations/credentials/[source] — 保存済みの認証情報を削除
+ * どちらもレスポンスに秘密値は含めない。
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { source } = req.query;
+  if (!isCredentialSource(source)) {
+    return res.status(400).json({ error: "source は asken または google を指定してください" });
+  }
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "PUT") {
+    if (!isCredentialVaultConfigured()) {
+      return res.status(503).json({ error: "CREDENTIAL_ENCRYPTION_KEY が未設定のため保存できません" });
+    }
+    try {
+      if (source === "asken") {
+        const parsed = askenCredentialSchema.safeParse(req.body ?? {});
+        if (!parsed.success) return sendValidationError(res, parsed.error);
+        await saveCredential(userId, "asken", parsed.data);
+      } else {
+        const parsed = googleCredentialSchema.safeParse(req.body ?? {});
+        if (!parsed.success) return sendValidationError(res, parsed.error);
+        await saveCredential(userId, "google", parsed.data);
+      }
+      return res.status(200).json({ source, saved: true });
+    } catch (e) {
+      console.error(`PUT /api/integrations/credentials/${source} error:`, e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "DELETE") {
+    try {
+      const deleted = await deleteCredential(userId, source);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+      return res.status(200).json({ source, saved: false });
+    } catch (e) {
+      console.error(`DELETE /api/integrations/credentials/${source} error:`, e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  res.setHeader("Allow", ["PUT", "DELETE"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
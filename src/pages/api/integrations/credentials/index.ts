@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { CREDENTIAL_SOURCES, isCredentialVaultConfigured, listCredentials } from "../../../../lib/credentialVault";
+import { getUserIdForConfig } from "../../../../lib/auth";
+import { toClientErrorMessage } from "../../../../lib/apiError";
+
+/**
+ * GET /api/integrations/credentials
+ * ユーザーが保存済みの認証情報の有無と更新日時だけを返す（秘密値は返さない）。
+ * configured: 暗号化用マスター鍵（CREDENTIAL_ENCRYPTION_KEY）が設定済みか
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const userId = getUserIdForConfig(req);
+  try {
+    const rows = await listCredentials(userId);
+    const saved = new Map(rows.map((r) => [r.source, r.updatedAt]));
+    const credentials = CREDENTIAL_SOURCES.map((source) => ({
+      source,
+      saved: saved.has(source),
+      updatedAt: saved.get(source)?.toISOString() ?? null,
+    }));
+
+    res.setHeader("Cache-Control", "no-store, max-age=0");
+    return res.status(200).json({ configured: isCredentialVaultConfigured(), credentials });
+  } catch (e) {
+    console.error("GET /api/integrations/credentials error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
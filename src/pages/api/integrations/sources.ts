@@ -1,20 +1,51 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getRegisteredSources, getEnabledSourceIds, getSource, setSourceEnabled } from "../../../lib/sources";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
 
 /**
  * GET /api/integrations/sources
- * 利用可能なデータソース一覧を返す。現状は固定リスト。将来は DB の Integration と連携して「接続済み」などを返す想定。
+ * 登録済みデータソース一覧と、ユーザーの接続状態（Integration で有効か）を返す。
+ *
+ * PUT /api/integrations/sources — body: { id: string, enabled: boolean } で接続・切断する
+ * 認証ヘッダーが無い場合は userId = "default"
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== "GET") {
-    res.setHeader("Allow", ["GET"]);
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "PUT") {
+    const body = (req.body ?? {}) as { id?: unknown; enabled?: unknown };
+    if (typeof body.id !== "string" || !getSource(body.id)) {
+      return res.status(400).json({ error: "id は登録済みのデータソースを指定してください" });
+    }
+    if (typeof body.enabled !== "boolean") {
+      return res.status(400).json({ error: "enabled (boolean) is required" });
+    }
+    try {
+      await setSourceEnabled(userId, body.id, body.enabled);
+    } catch (e) {
+      console.error("PUT /api/integrations/sources error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  } else if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET", "PUT"]);
     return res.status(405).json({ error: "Method Not Allowed" });
   }
 
-  const sources = [
-    { id: "asken", name: "あすけん", type: "nutrition", description: "食事・栄養・歩数" },
-    { id: "strong", name: "Strong", type: "training", description: "筋トレ記録" },
-  ];
+  try {
+    const enabled = await getEnabledSourceIds(userId);
+    const sources = getRegisteredSources().map((s) => ({
+      id: s.id,
+      name: s.name,
+      type: s.kind,
+      description: s.description,
+      connected: enabled.has(s.id),
+    }));
 
-  res.setHeader("Cache-Control", "public, s-maxage=60, stale-while-revalidate=300");
-  return res.status(200).json({ sources });
+    res.setHeader("Cache-Control", "no-store, max-age=0");
+    return res.status(200).json({ sources });
+  } catch (e) {
+    console.error("GET /api/integrations/sources error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
 }
@@ -1,6 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getUserIdFromRequest } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { formatEffectiveDateJst } from '@/lib/dateUtils';
+import { finalizeDayScores } from '@/lib/scoreSnapshots';
+import { recordFoodUse } from '@/lib/foods';
+import { computeMealTotals } from '@/lib/mealLogs';
+import { updateMealSchema } from '@/lib/schemas/meal';
+import type { MealLogWithItems } from './index';
 
 export default async function handler(
   req: NextApiRequest,
@@ -20,8 +26,8 @@ export default async function handler(
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  if (req.method !== 'DELETE') {
-    res.setHeader('Allow', ['DELETE']);
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', ['PATCH', 'DELETE']);
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
@@ -30,10 +36,14 @@ export default async function handler(
     return res.status(400).json({ error: 'Missing meal id' });
   }
 
+  if (req.method === 'PATCH') {
+    return handlePatch(req, res, userId, id);
+  }
+
   try {
     const existing = await prisma.mealLog.findUnique({
       where: { id },
-      select: { id: true, userId: true },
+      select: { id: true, userId: true, loggedAt: true },
     });
     if (!existing) {
       return res.status(404).json({ error: 'Not found' });
@@ -46,6 +56,11 @@ export default async function handler(
       await tx.mealItem.deleteMany({ where: { mealId: id } });
       await tx.mealLog.delete({ where: { id } });
     });
+    try {
+      await finalizeDayScores(userId, [formatEffectiveDateJst(existing.loggedAt)]);
+    } catch (e) {
+      console.warn('DELETE /api/meals/[id] finalizeDayScores failed:', e);
+    }
 
     console.info(
       JSON.stringify({
@@ -61,3 +76,114 @@ export default async function handler(
     return res.status(500).json({ error: 'Unexpected error' });
   }
 }
+
+/**
+ * PATCH /api/meals/[id]
+ * body: { mealLog?: { loggedAt?, mealType?, source?, note? }, items?: { add?: MealItem[], update?: { id, ...変更する項目 }[], remove?: id[] } }
+ * 品目の変更後に totalCal / totalProtein / totalFat / totalCarb を入れ直す
+ */
+async function handlePatch(req: NextApiRequest, res: NextApiResponse, userId: string, id: string) {
+  let body: unknown;
+  try {
+    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  } catch {
+    return res.status(400).json({ error: 'Invalid JSON', details: [] });
+  }
+  const parsed = updateMealSchema.safeParse(body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Validation error',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { mealLog: ml, items: changes } = parsed.data;
+
+  try {
+    const existing = await prisma.mealLog.findUnique({
+      where: { id },
+      select: { id: true, userId: true, loggedAt: true, items: { select: { id: true } } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (existing.userId !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    // 更新・削除する品目はこの食事のものに限る（同じ品目の更新と削除の同時指定も不可）
+    const itemIds = new Set(existing.items.map((it) => it.id));
+    const updateIds = (changes?.update ?? []).map((it) => it.id);
+    const removeIds = changes?.remove ?? [];
+    const invalidIds = [
+      ...[...updateIds, ...removeIds].filter((itemId) => !itemIds.has(itemId)),
+      ...updateIds.filter((itemId) => removeIds.includes(itemId)),
+    ];
+    if (invalidIds.length > 0) {
+      return res.status(400).json({ error: 'Invalid item ids', details: [...new Set(invalidIds)] });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (removeIds.length > 0) {
+        await tx.mealItem.deleteMany({ where: { mealId: id, id: { in: removeIds } } });
+      }
+      for (const { id: itemId, ...data } of changes?.update ?? []) {
+        await tx.mealItem.update({ where: { id: itemId }, data });
+      }
+      if (changes?.add?.length) {
+        await tx.mealItem.createMany({
+          data: changes.add.map((it) => ({
+            mealId: id,
+            name: it.name,
+            amount: it.amount ?? null,
+            unit: it.unit ?? null,
+            cal: it.cal ?? null,
+            protein: it.protein ?? null,
+            fat: it.fat ?? null,
+            carb: it.carb ?? null,
+          })),
+        });
+      }
+      const items = await tx.mealItem.findMany({ where: { mealId: id } });
+      return tx.mealLog.update({
+        where: { id },
+        data: {
+          ...(ml?.loggedAt !== undefined ? { loggedAt: new Date(ml.loggedAt) } : {}),
+          ...(ml?.mealType !== undefined ? { mealType: ml.mealType } : {}),
+          ...(ml?.source !== undefined ? { source: ml.source } : {}),
+          ...(ml?.note !== undefined ? { note: ml.note } : {}),
+          ...computeMealTotals(items),
+        },
+        include: { items: true },
+      });
+    });
+
+    const result = updated as MealLogWithItems;
+    // 日時を動かした場合は元の日と移動先の日の両方を確定・更新する
+    const dates = [...new Set([formatEffectiveDateJst(existing.loggedAt), formatEffectiveDateJst(result.loggedAt)])];
+    try {
+      await finalizeDayScores(userId, dates);
+    } catch (e) {
+      console.warn('PATCH /api/meals/[id] finalizeDayScores failed:', e);
+    }
+    if (changes?.add?.length) {
+      try {
+        await recordFoodUse(userId, changes.add, result.loggedAt);
+      } catch (e) {
+        console.warn('PATCH /api/meals/[id] recordFoodUse failed:', e);
+      }
+    }
+
+    console.info(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        userId,
+        operation: 'update',
+        id,
+      })
+    );
+    return res.status(200).json(result);
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ error: 'Unexpected error' });
+  }
+}
@@ -1,12 +1,20 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getUserIdFromRequest } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
-import { createMealSchema } from '@/lib/schemas/meal';
-import { getEffectiveTodayStr } from '@/lib/dateUtils';
+import { createMealSchema, mealQuerySchema } from '@/lib/schemas/meal';
+import { formatEffectiveDateJst, getEffectiveTodayStr } from '@/lib/dateUtils';
+import { finalizeDayScores } from '@/lib/scoreSnapshots';
+import { recordFoodUse } from '@/lib/foods';
+import { createMealLog, listMealLogs } from '@/lib/mealLogs';
 import type { MealLog, MealItem } from '@prisma/client';
 
 export type MealLogWithItems = MealLog & { items: MealItem[] };
 
+/**
+ * GET  /api/meals?date= | ?from=&to= [&mealType=&source=&cursor=&limit=]
+ *   日付は実効日（JST 5:00 区切り）。省略時は実効的な今日。mealType / source はカンマ区切りで複数指定可
+ *   返り値: { mealLogs, nextCursor, from, to }（nextCursor を cursor に渡すと続きを取得）
+ * POST /api/meals — body: { mealLog, items }
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -26,19 +34,30 @@ export default async function handler(
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const dateStr = (req.query.date as string) || getEffectiveTodayStr();
-    const parsed = /^\d{4}-\d{2}-\d{2}$/.exec(dateStr);
-    const date = parsed ? parsed[0] : getEffectiveTodayStr();
-    const start = new Date(`${date}T00:00:00`);
-    const end = new Date(`${date}T23:59:59.999`);
+    const parsed = mealQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: parsed.error.flatten(),
+      });
+    }
+    const q = parsed.data;
+    const to = q.date ?? q.to ?? q.from ?? getEffectiveTodayStr();
+    const from = q.date ?? q.from ?? to;
+    if (from > to) {
+      return res.status(400).json({ error: 'from must be on or before to' });
+    }
 
     try {
-      const mealLogs = await prisma.mealLog.findMany({
-        where: { userId, loggedAt: { gte: start, lte: end } },
-        include: { items: true },
-        orderBy: { loggedAt: 'asc' },
+      const { mealLogs, nextCursor } = await listMealLogs(userId, {
+        from,
+        to,
+        mealTypes: q.mealType,
+        sources: q.source,
+        cursor: q.cursor,
+        limit: q.limit,
       });
-      return res.status(200).json({ mealLogs });
+      return res.status(200).json({ mealLogs, nextCursor, from, to });
     } catch (e) {
       console.error(e);
       return res.status(500).json({ error: 'Unexpected error' });
@@ -76,39 +95,21 @@ export default async function handler(
       });
     }
 
-    const { mealLog: ml, items } = parsed.data;
+    const { items } = parsed.data;
 
     try {
-      const created = await prisma.mealLog.create({
-        data: {
-          loggedAt: new Date(ml.loggedAt),
-          mealType: ml.mealType,
-          source: ml.source ?? null,
-          note: ml.note ?? null,
-
-          user: {
-            connectOrCreate: {
-              where: { id: userId },
-              create: { id: userId },
-            },
-          },
-
-          items: {
-            create: items.map((it) => ({
-              name: it.name,
-              amount: it.amount ?? null,
-              unit: it.unit ?? null,
-              cal: it.cal ?? null,
-              protein: it.protein ?? null,
-              fat: it.fat ?? null,
-              carb: it.carb ?? null,
-            })),
-          },
-        },
-        include: { items: true },
-      });
-
-      const result = created as MealLogWithItems;
+      const result: MealLogWithItems = await createMealLog(userId, parsed.data);
+      // 確定済みの日に後から記録した分もスコアに反映する
+      try {
+        await finalizeDayScores(userId, [formatEffectiveDateJst(result.loggedAt)]);
+      } catch (e) {
+        console.warn('POST /api/meals finalizeDayScores failed:', e);
+      }
+      try {
+        await recordFoodUse(userId, items, result.loggedAt);
+      } catch (e) {
+        console.warn('POST /api/meals recordFoodUse failed:', e);
+      }
       console.info(
         JSON.stringify({
           timestamp: new Date().toISOString(),
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { getMicronutrientReport } from "../../../lib/micronutrients";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * GET /api/micronutrients/[date] — 指定日の微量栄養素（摂取量・目標・達成状況）と、不足が続いている日数
+ * 目標は Personal の年齢・性別による食事摂取基準 + /api/settings/micronutrient-targets の上書き
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+  const date = req.query.date as string;
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: "Invalid date. Use YYYY-MM-DD" });
+  }
+
+  try {
+    const report = await getMicronutrientReport(getUserIdForConfig(req), date);
+    res.setHeader("Cache-Control", "no-store, max-age=0");
+    return res.status(200).json(report);
+  } catch (e) {
+    console.error("GET /api/micronutrients error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { findProductByJan, productToMealItem } from "../../../lib/products";
+import { janSchema } from "../../../lib/schemas/product";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * GET /api/products/[jan] — JAN コードで商品を引き、1包装分の MealItem（item）と一緒に返す
+ * チェックディジットが合わない・未登録なら 404
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = janSchema.safeParse(req.query.jan);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+  }
+  try {
+    const product = await findProductByJan(getUserIdForConfig(req), parsed.data);
+    if (!product) return res.status(404).json({ error: "Not found" });
+    res.setHeader("Cache-Control", "no-store, max-age=0");
+    return res.status(200).json({ product, item: productToMealItem(product) });
+  } catch (e) {
+    console.error("GET /api/products/[jan] error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { importProducts, parseProductCsv, type ProductValues } from "../../../lib/products";
+import { productImportSchema } from "../../../lib/schemas/product";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * POST /api/products/import
+ * 商品表の CSV を受け取り、JAN ごとに取り込む（同じ JAN は上書き）
+ * body: { files: { name: string; content: string }[] }
+ * 列: JAN, 商品名, メーカー?, 内容量?, 単位?, エネルギー, たんぱく質, 脂質, 炭水化物（英語の列名 jan, name, brand, amount, unit, cal, protein, fat, carb も可）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = productImportSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+  }
+
+  try {
+    const errors: string[] = [];
+    const byJan = new Map<string, ProductValues>();
+    for (const file of parsed.data.files) {
+      const result = parseProductCsv(file.content);
+      errors.push(...result.errors.map((err) => `${file.name}: ${err}`));
+      for (const product of result.products) byJan.set(product.jan, product);
+    }
+    const imported = await importProducts(getUserIdForConfig(req), [...byJan.values()]);
+    return res.status(200).json({ success: true, filesReceived: parsed.data.files.length, ...imported, errors });
+  } catch (e) {
+    console.error("POST /api/products/import error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
+
+/** ファイルサイズ制限を緩和（デフォルト1MB → 10MB） */
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "10mb",
+    },
+  },
+};
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deleteRecipe, getRecipe } from "../../../../lib/recipes";
+import { getUserIdForConfig } from "../../../../lib/auth";
+import { toClientErrorMessage } from "../../../../lib/apiError";
+
+/**
+ * GET    /api/recipes/[id] — レシピ（材料と合計・1人前の栄養素）
+ * DELETE /api/recipes/[id] — レシピを削除する（記録済みの食事はそのまま）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = getUserIdForConfig(req);
+  const id = req.query.id as string;
+
+  if (req.method === "GET") {
+    try {
+      const recipe = await getRecipe(userId, id);
+      if (!recipe) return res.status(404).json({ error: "Not found" });
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json({ recipe });
+    } catch (e) {
+      console.error("GET /api/recipes/[id] error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "DELETE") {
+    try {
+      const deleted = await deleteRecipe(userId, id);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+      return res.status(200).json({ ok: true, id });
+    } catch (e) {
+      console.error("DELETE /api/recipes/[id] error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "DELETE"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
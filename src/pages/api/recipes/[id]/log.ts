@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getUserIdFromRequest } from '@/lib/auth';
+import { getRecipe, recipeToMealItems } from '@/lib/recipes';
+import { createMealLog } from '@/lib/mealLogs';
+import { recipeLogSchema } from '@/lib/schemas/recipe';
+import { formatEffectiveDateJst } from '@/lib/dateUtils';
+import { finalizeDayScores } from '@/lib/scoreSnapshots';
+import { recordFoodUse } from '@/lib/foods';
+
+/**
+ * POST /api/recipes/[id]/log — レシピを食事として記録する
+ * body: { loggedAt, mealType, source?, note?, servings?（既定 1）, expand?: "single" | "ingredients"（既定 "single"） }
+ * single は料理名の1品目、ingredients は材料ごとの品目にして MealLog を作る
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  let userId: string;
+  try {
+    userId = getUserIdFromRequest(req);
+  } catch (e) {
+    if (e instanceof Error && e.message === 'UNAUTHORIZED') {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    console.error(e);
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const parsed = recipeLogSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Validation error',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { servings, expand, ...mealLog } = parsed.data;
+
+  try {
+    const recipe = await getRecipe(userId, req.query.id as string);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    const items = recipeToMealItems(recipe, servings, expand);
+    const result = await createMealLog(userId, { mealLog, items });
+
+    try {
+      await finalizeDayScores(userId, [formatEffectiveDateJst(result.loggedAt)]);
+    } catch (e) {
+      console.warn('POST /api/recipes/[id]/log finalizeDayScores failed:', e);
+    }
+    try {
+      await recordFoodUse(userId, items, result.loggedAt);
+    } catch (e) {
+      console.warn('POST /api/recipes/[id]/log recordFoodUse failed:', e);
+    }
+    return res.status(201).json(result);
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ error: 'Unexpected error' });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listRecipes, RecipeIngredientError, saveRecipe } from "../../../lib/recipes";
+import { recipeInputSchema } from "../../../lib/schemas/recipe";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * GET  /api/recipes — レシピの一覧（nutrition に合計と1人前の栄養素）
+ * POST /api/recipes — body: { name, servings, note?, ingredients: [{ foodId, amount } | { name, cal, amount?, unit?, protein?, fat?, carb? }] } で保存（同名は上書き）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "GET") {
+    try {
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json({ recipes: await listRecipes(userId) });
+    } catch (e) {
+      console.error("GET /api/recipes error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = recipeInputSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    try {
+      return res.status(200).json({ recipe: await saveRecipe(userId, parsed.data) });
+    } catch (e) {
+      if (e instanceof RecipeIngredientError) {
+        return res.status(400).json({ error: e.message });
+      }
+      console.error("POST /api/recipes error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { setMicronutrientTargetOverrides } from "../../../lib/dbConfig";
+import { getMicronutrientTargets } from "../../../lib/micronutrients";
+import { micronutrientTargetsSchema } from "../../../lib/schemas/micronutrient";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/**
+ * GET /api/settings/micronutrient-targets — 目標（targets）と、その内訳の食事摂取基準の値（defaults）・上書き（overrides）
+ * PUT /api/settings/micronutrient-targets — body: { fiber?: number, salt?: number, ... } で上書きを置き換える（省略した栄養素は基準値）
+ * DELETE /api/settings/micronutrient-targets — 上書きを消して基準値に戻す
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "GET") {
+    try {
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json(await getMicronutrientTargets(userId));
+    } catch (e) {
+      console.error("GET /api/settings/micronutrient-targets error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "PUT") {
+    const parsed = micronutrientTargetsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    try {
+      await setMicronutrientTargetOverrides(userId, parsed.data);
+      return res.status(200).json(await getMicronutrientTargets(userId));
+    } catch (e) {
+      console.error("PUT /api/settings/micronutrient-targets error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "DELETE") {
+    try {
+      await setMicronutrientTargetOverrides(userId, null);
+      return res.status(200).json(await getMicronutrientTargets(userId));
+    } catch (e) {
+      console.error("DELETE /api/settings/micronutrient-targets error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
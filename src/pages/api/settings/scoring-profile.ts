@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getScoringProfile, setScoringProfile } from "../../../lib/dbConfig";
+import { SCORING_PRESETS, isScoringPresetId, type ScoringProfile } from "../../../lib/scoringProfile";
+import { scoringProfileUpdateSchema } from "../../../lib/schemas/scoringProfile";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+const presetList = Object.values(SCORING_PRESETS).map((p) => ({ id: p.id, name: p.name, weights: p.weights }));
+
+/**
+ * GET /api/settings/scoring-profile — 現在の採点プロファイルと組み込みプリセット一覧
+ * PUT /api/settings/scoring-profile — body: { preset: "cut" | "maintain" | "bulk" | "endurance" } または { profile }（独自定義）
+ * DELETE /api/settings/scoring-profile — 未設定（cut）に戻す
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = getUserIdForConfig(req);
+
+  if (req.method === "GET") {
+    try {
+      const profile = await getScoringProfile(userId);
+      res.setHeader("Cache-Control", "no-store, max-age=0");
+      return res.status(200).json({ profile, presets: presetList });
+    } catch (e) {
+      console.error("GET /api/settings/scoring-profile error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "PUT") {
+    const parsed = scoringProfileUpdateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+    }
+    const input = parsed.data;
+    let profile: ScoringProfile;
+    if ("preset" in input) {
+      if (!isScoringPresetId(input.preset)) {
+        return res.status(400).json({ error: `preset は ${Object.keys(SCORING_PRESETS).join(" / ")} のいずれかを指定してください` });
+      }
+      profile = SCORING_PRESETS[input.preset];
+    } else {
+      profile = input.profile;
+    }
+    try {
+      await setScoringProfile(userId, profile);
+      return res.status(200).json({ profile });
+    } catch (e) {
+      console.error("PUT /api/settings/scoring-profile error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  if (req.method === "DELETE") {
+    try {
+      await setScoringProfile(userId, null);
+      return res.status(200).json({ profile: await getScoringProfile(userId) });
+    } catch (e) {
+      console.error("DELETE /api/settings/scoring-profile error:", e);
+      return res.status(500).json({ error: toClientErrorMessage(e) });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
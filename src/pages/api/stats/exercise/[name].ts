@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getExerciseHistory } from "../../../../lib/strengthProgress";
+import { getUserIdForConfig } from "../../../../lib/auth";
+import { toClientErrorMessage } from "../../../../lib/apiError";
+
+/**
+ * GET /api/stats/exercise/[name]
+ * 1種目のセッション履歴（日付昇順）を返す。各セッションは本セット数・ボリューム・推定1RM（Epley / Brzycki）と前回比。
+ * best: 推定1RM（Epley）が最大のセッション。履歴が無い種目は sessions: [] / best: null
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const name = typeof req.query.name === "string" ? req.query.name.trim() : "";
+  if (!name) {
+    return res.status(400).json({ error: "種目名を指定してください" });
+  }
+
+  const userId = getUserIdForConfig(req);
+  try {
+    const history = await getExerciseHistory(userId, name);
+    const sessions = history.map((p) => ({
+      date: p.current.date,
+      workingSets: p.current.workingSets,
+      totalReps: p.current.totalReps,
+      volumeKg: p.current.volumeKg,
+      topSet: p.current.topSet,
+      e1rm: p.current.e1rm,
+      previousDate: p.previous?.date ?? null,
+      volumeUp: p.volumeUp,
+      e1rmUp: p.e1rmUp,
+      progressed: p.progressed,
+    }));
+    const best = sessions.reduce<(typeof sessions)[number] | null>(
+      (acc, s) => (s.e1rm && (!acc?.e1rm || s.e1rm.epley > acc.e1rm.epley) ? s : acc),
+      null
+    );
+
+    res.setHeader("Cache-Control", "no-store, max-age=0");
+    return res.status(200).json({ exerciseName: name, sessions, best });
+  } catch (e) {
+    console.error("GET /api/stats/exercise error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { getEffectiveTodayStr, formatDateJst } from "../../../lib/dateUtils";
+import { getMealTiming } from "../../../lib/mealTiming";
+import { mealTimingRangeSchema } from "../../../lib/schemas/mealTiming";
+import { toClientErrorMessage } from "../../../lib/apiError";
+
+/** from 省略時に遡る日数（to を含む） */
+const DEFAULT_RANGE_DAYS = 28;
+
+/**
+ * GET /api/stats/meal-timing?from=&to= — 食事時刻の分析（日別の食事の時間帯・最後の食事から入眠まで・たんぱく質配分と期間平均）
+ * to 省略時は実効的な今日、from 省略時は to を含む直近 28 日
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+  const parsed = mealTimingRangeSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+  }
+
+  const to = parsed.data.to ?? getEffectiveTodayStr();
+  const from =
+    parsed.data.from ??
+    formatDateJst(new Date(new Date(`${to}T00:00:00+09:00`).getTime() - (DEFAULT_RANGE_DAYS - 1) * 86400000));
+  if (from > to) {
+    return res.status(400).json({ error: "from must be on or before to" });
+  }
+
+  try {
+    const result = await getMealTiming(getUserIdForConfig(req), from, to);
+    res.setHeader("Cache-Control", "no-store, max-age=0");
+    return res.status(200).json(result);
+  } catch (e) {
+    console.error("GET /api/stats/meal-timing error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
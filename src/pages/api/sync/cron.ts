@@ -1,6 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { syncData } from "../../../lib/syncData";
-import { prisma } from "../../../lib/prisma";
+import { syncDataWithRun } from "../../../lib/syncRuns";
 import { getEffectiveToday, formatDateJst } from "../../../lib/dateUtils";
 import { toClientErrorMessage } from "../../../lib/apiError";
 
@@ -19,6 +18,7 @@ const SKIP_EXISTING_PAST_DAYS = 3;
  * cron スケジューラーから呼び出される内部同期エンドポイント
  * body.pastOnly === true のときは過去30日間を対象に、3日以上前は未取得のみ取得
  * CRON_SECRET が設定されている場合は x-cron-secret ヘッダーで認証
+ * 結果は実行履歴（SyncRun、trigger は cron / past-only）に記録する
  */
 export default async function handler(
   req: NextApiRequest,
@@ -46,36 +46,12 @@ export default async function handler(
   try {
     const body = (req.body ?? {}) as { pastOnly?: boolean };
     const result = body.pastOnly
-      ? await syncData({
+      ? await syncDataWithRun("past-only", {
           from: formatDateJst(new Date(getEffectiveToday().getTime() - (PAST_SYNC_DAYS - 1) * 86400000)),
           to: formatDateJst(getEffectiveToday()),
           skipExistingPastDays: SKIP_EXISTING_PAST_DAYS,
         })
-      : await syncData();
-
-    // 最終同期時刻を記録
-    try {
-      await prisma.syncLog.upsert({
-        where: { id: 1 },
-        update: {
-          timestamp: new Date(),
-          askenCount: result.askenCount,
-          strongCount: result.strongCount,
-          dayCount: result.dayCount,
-          errors: JSON.stringify(result.errors),
-        },
-        create: {
-          id: 1,
-          timestamp: new Date(),
-          askenCount: result.askenCount,
-          strongCount: result.strongCount,
-          dayCount: result.dayCount,
-          errors: JSON.stringify(result.errors),
-        },
-      });
-    } catch (logErr) {
-      console.error("SyncLog 保存失敗:", logErr);
-    }
+      : await syncDataWithRun("cron");
 
     return res.status(200).json({
       success: true,
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../../lib/prisma";
+import { parseFoodCsv, mergeFoodCsvDays, type FoodCsvParseResult } from "../../../lib/sources";
+import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { finalizeDayScores } from "../../../lib/scoreSnapshots";
+
+/**
+ * POST /api/sync/food-csv
+ * MyFitnessPal / Cronometer の CSV エクスポートを受け取り、パースして DB に保存する
+ * body: { files: { name: string; content: string }[] }
+ * 保存先は認証ユーザー（なければ "default"）の DailyData.askenItems / askenNutrients（CSV に含まれる日は丸ごと置き換え）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const { files } = req.body as { files?: { name: string; content: string }[] };
+    if (!files || !Array.isArray(files) || files.length === 0) {
+      return res.status(400).json({ error: "ファイルが指定されていません" });
+    }
+
+    const ownerId = getUserIdForConfig(req);
+    const errors: string[] = [];
+    const parsed: FoodCsvParseResult[] = [];
+
+    for (const file of files) {
+      try {
+        const result = parseFoodCsv(String(file.content ?? ""));
+        errors.push(...result.errors.map((err) => `${file.name}: ${err}`));
+        if (result.format) parsed.push(result);
+      } catch (e) {
+        console.error(`食事 CSV パースエラー (${file.name}):`, e);
+        errors.push(`${file.name}: ${toClientErrorMessage(e)}`);
+      }
+    }
+
+    const days = mergeFoodCsvDays(parsed);
+    let savedCount = 0;
+
+    for (const [dateStr, day] of days) {
+      const payload = {
+        askenItems: day.items as unknown as Prisma.InputJsonValue,
+        askenNutrients: day.nutrients as unknown as Prisma.InputJsonValue,
+      };
+      try {
+        await prisma.dailyData.upsert({
+          where: { ownerId_date: { ownerId, date: dateStr } },
+          update: payload,
+          create: { ownerId, date: dateStr, ...payload },
+        });
+        savedCount += 1;
+      } catch (e) {
+        console.error(`食事 CSV DB保存エラー (${dateStr}):`, e);
+        errors.push(`DB保存 ${dateStr}: ${toClientErrorMessage(e)}`);
+      }
+    }
+    try {
+      await finalizeDayScores(ownerId, [...days.keys()]);
+    } catch (e) {
+      console.error("食事 CSV スコア確定エラー:", e);
+      errors.push(`スコア確定: ${toClientErrorMessage(e)}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      filesReceived: files.length,
+      formats: parsed.map((p) => p.format),
+      savedDays: savedCount,
+      errors,
+    });
+  } catch (e) {
+    console.error("Food CSV upload error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
+
+/** ファイルサイズ制限を緩和（デフォルト1MB → 10MB） */
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "10mb",
+    },
+  },
+};
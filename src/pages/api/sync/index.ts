@@ -1,32 +1,34 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { syncData } from "../../../lib/syncData";
+import { enqueueSyncJobs, SyncRangeError } from "../../../lib/syncJobs";
+import { syncRequestSchema } from "../../../lib/schemas/sync";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
 
-/** スクレイピングは時間がかかるためタイムアウトを延長 */
-export const config = {
-  maxDuration: 300, // 5分
-};
-
+/**
+ * POST /api/sync
+ * 日付 × データソースの同期ジョブを積んで batchId を返す（取得は cron-sync.ts のワーカーが行う）
+ * 進捗は GET /api/sync/jobs/[batchId]
+ * body: { from?: YYYY-MM-DD, to?: YYYY-MM-DD }（省略時は前日〜当日の2日分）
+ */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
     res.setHeader("Allow", ["POST"]);
     return res.status(405).json({ error: "Method Not Allowed" });
   }
 
-  try {
-    // body から日付範囲を取得（省略時はデフォルト: 前日〜当日の2日分）
-    const { from, to } = (req.body ?? {}) as { from?: string; to?: string };
+  const parsed = syncRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+  }
 
-    const result = await syncData({ from, to });
-    return res.status(200).json({
-      success: true,
-      askenCount: result.askenCount,
-      strongCount: result.strongCount,
-      healthCount: result.healthCount,
-      dayCount: result.dayCount,
-      errors: result.errors,
-    });
+  try {
+    // 認証があればそのユーザー、なければ "default" の DailyData に保存する
+    const { batchId, jobCount } = await enqueueSyncJobs(getUserIdForConfig(req), parsed.data);
+    return res.status(202).json({ success: true, batchId, jobCount });
   } catch (e) {
+    if (e instanceof SyncRangeError) {
+      return res.status(400).json({ success: false, error: e.message });
+    }
     console.error("Sync error:", e);
     return res.status(500).json({
       success: false,
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getSyncBatchProgress } from "../../../../lib/syncJobs";
+import { toClientErrorMessage } from "../../../../lib/apiError";
+import { getUserIdForConfig } from "../../../../lib/auth";
+
+/**
+ * GET /api/sync/jobs/[batchId]
+ * POST /api/sync で積んだジョブの進捗（状態ごとの件数・保存できた日数・失敗したジョブのエラー・ジョブ一覧）
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const { batchId } = req.query;
+  if (typeof batchId !== "string" || !batchId) {
+    return res.status(400).json({ error: "Invalid batchId" });
+  }
+
+  try {
+    const progress = await getSyncBatchProgress(getUserIdForConfig(req), batchId);
+    if (!progress) {
+      return res.status(404).json({ error: "Not found" });
+    }
+    res.setHeader("Cache-Control", "no-store, max-age=0");
+    return res.status(200).json(progress);
+  } catch (e) {
+    console.error("Sync jobs error:", e);
+    return res.status(500).json({ error: toClientErrorMessage(e) });
+  }
+}
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "../../../lib/prisma";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
+import { DEFAULT_USER_ID } from "../../../lib/dbConfig";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "GET") {
@@ -10,7 +12,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const ownerId = getUserIdForConfig(req);
     const logs = await prisma.scrapingLog.findMany({
+      // ownerId 導入前の行（null）は default のもの
+      where: ownerId === DEFAULT_USER_ID ? { OR: [{ ownerId }, { ownerId: null }] } : { ownerId },
       orderBy: { createdAt: "desc" },
       take: limit,
       select: {
@@ -18,6 +23,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         date: true,
         source: true,
         status: true,
+        errorKind: true,
         message: true,
         details: true,
         createdAt: true,
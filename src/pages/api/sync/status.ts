@@ -1,11 +1,14 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { prisma } from "../../../lib/prisma";
+import { getSyncStatus } from "../../../lib/syncRuns";
+import { syncStatusQuerySchema } from "../../../lib/schemas/sync";
 import { isGoogleDriveConfigured } from "../../../lib/googleDrive";
+import { getAskenCredentials } from "../../../lib/sources/credentials";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
 
 /**
- * GET /api/sync/status
- * 最終同期時刻・結果とスケジュール設定を返す
+ * GET /api/sync/status?cursor=&limit=
+ * 最後に終わった同期（lastSync）・連続エラー回数・最終成功時刻・実行履歴（新しい順、cursor でページング）とスケジュール設定を返す
  */
 export default async function handler(
   req: NextApiRequest,
@@ -16,24 +19,41 @@ export default async function handler(
     return res.status(405).json({ error: "Method Not Allowed" });
   }
 
+  const parsed = syncStatusQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.flatten() });
+  }
+
   try {
-    const log = await prisma.syncLog.findUnique({ where: { id: 1 } });
+    const userId = getUserIdForConfig(req);
+    const status = await getSyncStatus(userId, parsed.data);
+    const run = status.lastRun;
     const schedule = process.env.CRON_SCHEDULE || "0 8,12,19,23 * * *";
 
     res.setHeader("Cache-Control", "no-store, max-age=0");
     return res.status(200).json({
-      lastSync: log
+      lastSync: run
         ? {
-            timestamp: log.timestamp.toISOString(),
-            askenCount: log.askenCount,
-            strongCount: log.strongCount,
-            dayCount: log.dayCount,
-            errors: log.errors ? JSON.parse(log.errors) : [],
+            timestamp: (run.finishedAt ?? run.startedAt).toISOString(),
+            trigger: run.trigger,
+            status: run.status,
+            from: run.fromDate,
+            to: run.toDate,
+            askenCount: run.askenCount,
+            strongCount: run.strongCount,
+            healthCount: run.healthCount,
+            dayCount: run.dayCount,
+            errors: run.errors,
+            durationMs: run.durationMs,
           }
         : null,
+      failureStreak: status.failureStreak,
+      lastSuccessAt: status.lastSuccessAt?.toISOString() ?? null,
+      history: status.runs,
+      nextCursor: status.nextCursor,
       schedule,
-      googleDriveConfigured: isGoogleDriveConfigured(),
-      askenConfigured: !!(process.env.ASKEN_EMAIL && process.env.ASKEN_PASSWORD),
+      googleDriveConfigured: await isGoogleDriveConfigured(userId),
+      askenConfigured: (await getAskenCredentials(userId)) !== null,
     });
   } catch (e) {
     console.error("Sync status error:", e);
@@ -1,13 +1,17 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { Prisma } from "@prisma/client";
-import { prisma } from "../../../lib/prisma";
-import { parseTxtContent, buildStrongData } from "../../../lib/syncData";
+import { parseStrongFileContent, groupStrongWorkoutsByDate, type ParsedStrongWorkout } from "../../../lib/sources";
+import { saveWorkoutsByDate } from "../../../lib/workouts";
+import { finalizeDayScores } from "../../../lib/scoreSnapshots";
 import { toClientErrorMessage } from "../../../lib/apiError";
+import { getUserIdForConfig } from "../../../lib/auth";
 
 /**
  * POST /api/sync/strong
- * Strong テキストファイルの内容を受け取り、パースして DB に保存する
+ * Strong の共有テキスト・CSV エクスポートの内容を受け取り、パースして DB に保存する
  * body: { files: { name: string; content: string }[] }
+ * CSV は全履歴を含むため、1回のアップロードで過去分もまとめて取り込める
+ * アップロードしたワークアウトだけを置き換え、同じ日の他のワークアウト（CSV 由来のセット詳細を含む）は残す
+ * 保存先は認証ユーザー（なければ "default"）の DailyData
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
@@ -21,52 +25,41 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: "ファイルが指定されていません" });
     }
 
+    const ownerId = getUserIdForConfig(req);
     const errors: string[] = [];
-    const allParsed: { date: string; workoutName: string; exercises: { name: string; weight: number; reps: number }[] }[] = [];
+    const allParsed: ParsedStrongWorkout[] = [];
 
     // 各ファイルをパース
     for (const file of files) {
       try {
-        const parsed = parseTxtContent(file.content);
-        if (parsed) {
-          allParsed.push(parsed);
-        } else {
-          errors.push(`${file.name}: パースできませんでした（日付が見つかりません）`);
-        }
+        const parsed = parseStrongFileContent(file.name, file.content);
+        allParsed.push(...parsed.workouts);
+        errors.push(...parsed.errors);
       } catch (e) {
         console.error(`Strong パースエラー (${file.name}):`, e);
         errors.push(`${file.name}: ${toClientErrorMessage(e)}`);
       }
     }
 
-    // StrongDayData を構築して DB に upsert
-    const strongMap = buildStrongData(allParsed);
-    let savedCount = 0;
-
-    for (const [dateStr, strongData] of strongMap) {
-      try {
-        await prisma.dailyData.upsert({
-          where: { date: dateStr },
-          update: {
-            strongData: strongData as unknown as Prisma.InputJsonValue,
-          },
-          create: {
-            date: dateStr,
-            strongData: strongData as unknown as Prisma.InputJsonValue,
-          },
-        });
-        savedCount += 1;
-      } catch (e) {
-        console.error(`Strong DB保存エラー (${dateStr}):`, e);
-        errors.push(`DB保存 ${dateStr}: ${toClientErrorMessage(e)}`);
-      }
+    // ワークアウト・セットを保存し、strongData はそこから導出して DailyData に保存
+    const byDate = groupStrongWorkoutsByDate(allParsed);
+    const saved = await saveWorkoutsByDate(ownerId, byDate, { merge: true });
+    for (const { date, error } of saved.failures) {
+      console.error(`Strong DB保存エラー (${date}):`, error);
+      errors.push(`DB保存 ${date}: ${toClientErrorMessage(error)}`);
+    }
+    try {
+      await finalizeDayScores(ownerId, [...byDate.keys()]);
+    } catch (e) {
+      console.error("Strong スコア確定エラー:", e);
+      errors.push(`スコア確定: ${toClientErrorMessage(e)}`);
     }
 
     return res.status(200).json({
       success: true,
       filesReceived: files.length,
       parsedWorkouts: allParsed.length,
-      savedDays: savedCount,
+      savedDays: saved.savedDays,
       errors,
     });
   } catch (e) {
@@ -31,7 +31,8 @@ type DayDetail = {
   date: string;
   calories?: number;
   pfc?: { protein: number; fat: number; carbs: number };
-  asken?: { items?: { mealType: string; name: string; amount: string; calories: number }[] };
+  /** あすけん・手入力をまとめた品目（/api/day/[date] の meals） */
+  meals?: { source: "asken" | "manual"; mealType: string; name: string; amount: string; calories: number }[];
 };
 
 const GOAL_CALORIES = 2267;
@@ -120,12 +121,12 @@ export default function CalendarPage() {
   const calPct = Math.min(1, totalCalories / GOAL_CALORIES);
   const calOffset = circumference * (1 - calPct);
 
-  const groupedMeals: Record<string, { name: string; amount: string; calories: number }[]> = {};
-  if (dayDetail?.asken?.items) {
-    for (const item of dayDetail.asken.items) {
+  const groupedMeals: Record<string, { name: string; amount: string; calories: number; manual: boolean }[]> = {};
+  if (dayDetail?.meals) {
+    for (const item of dayDetail.meals) {
       const type = item.mealType || "その他";
       if (!groupedMeals[type]) groupedMeals[type] = [];
-      groupedMeals[type].push({ name: item.name, amount: item.amount, calories: item.calories });
+      groupedMeals[type].push({ name: item.name, amount: item.amount, calories: item.calories, manual: item.source === "manual" });
     }
   }
 
@@ -262,12 +263,13 @@ export default function CalendarPage() {
                                 <span className="text-xs font-bold text-[var(--text-tertiary)] uppercase">
                                   {mealLabels[mealType] ?? mealType}
                                 </span>
-                                <span className="text-[10px] text-[var(--text-tertiary)]">{total} kcal</span>
+                                <span className="text-[10px] text-[var(--text-tertiary)]">{Math.round(total)} kcal</span>
                               </div>
                               <ul className="space-y-1">
                                 {items.slice(0, 3).map((item, i) => (
                                   <li key={i} className="text-xs text-[var(--text-secondary)] truncate">
-                                    {item.name} {item.calories}kcal
+                                    {item.manual && <span className="text-[var(--primary)]">［手入力］</span>}
+                                    {item.name} {Math.round(item.calories)}kcal
                                   </li>
                                 ))}
                                 {items.length > 3 && (
@@ -2,6 +2,8 @@ import { useRouter } from "next/router";
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import Head from "next/head";
+import { requestSyncAndWait } from "../../lib/syncClient";
+import BodyMetricForm from "../../components/BodyMetricForm";
 type StrongExercise = { name: string; sets: number; volumeKg?: number; reps?: number };
 type StrongWorkout = {
   title?: string;
@@ -14,13 +16,18 @@ type StrongData = {
   totals?: { workouts: number; sets: number; volumeKg?: number };
 };
 type AskenItem = { mealType: string; name: string; amount: string; calories: number };
+/** あすけん・手入力をまとめた品目（/api/day/[date] の meals） */
+type MealEntry = AskenItem & { source: "asken" | "manual" };
 type DayData = {
   date: string;
   calories?: number;
   pfc?: { protein: number; fat: number; carbs: number };
+  meals?: MealEntry[];
   asken?: { date?: string; items?: AskenItem[]; nutrients?: Record<string, Record<string, string>> };
   strong?: StrongData | null;
   hasHiking?: boolean;
+  /** あすけんの食事タイプごとの食事時刻 { 朝食: "07:30", ... } */
+  mealTimes?: Record<string, string>;
   // AppleWatch / Google Fit
   steps?: number;
   exerciseCalories?: number;
@@ -45,6 +52,18 @@ const MEAL_TYPE_LABELS: Record<string, string> = {
   "間食": "間食",
 };
 
+/** /api/micronutrients/[date] の1栄養素分 */
+type MicronutrientRow = {
+  key: string;
+  label: string;
+  unit: string;
+  intake: number | null;
+  target: number;
+  direction: "min" | "max";
+  ratio: number | null;
+  status: "ok" | "low" | "high" | "noData";
+  streak: number;
+};
 
 type AiEval = { id: string; response: string; model: string; trigger: string; createdAt: string };
 
@@ -59,6 +78,7 @@ export default function DayPage() {
   const [evaluating, setEvaluating] = useState(false);
   const [evalError, setEvalError] = useState<string | null>(null);
   const [hikingUpdating, setHikingUpdating] = useState(false);
+  const [micronutrients, setMicronutrients] = useState<MicronutrientRow[] | null>(null);
 
   // この日と前3日分のリトライ取得用 state
   const [syncing, setSyncing] = useState(false);
@@ -80,29 +100,24 @@ export default function DayPage() {
       const start = new Date(end.getTime() - 3 * 86400000);
       const fmt = (x: Date) =>
         `${x.getFullYear()}-${String(x.getMonth() + 1).padStart(2, "0")}-${String(x.getDate()).padStart(2, "0")}`;
-      const res = await fetch("/api/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ from: fmt(start), to: fmt(end) }),
-      });
-      const json = await res.json();
-      if (res.ok && json.success) {
-        setSyncMessage(
-          `取得完了（${fmt(start)} 〜 ${fmt(end)}） — あすけん: ${json.askenCount}日 / 筋トレ: ${json.strongCount}日 / 健康: ${json.healthCount ?? 0}日`
-        );
-        setSyncErrors(Array.isArray(json.errors) ? json.errors : []);
-        // 取得結果を画面に反映するためこの日のデータを再取得
-        try {
-          const r = await fetch(`/api/day/${date}`, { cache: "no-store" });
-          if (r.ok) {
-            setData(await r.json());
-            setNotFound(false);
-          }
-        } catch {
-          /* 再取得失敗は無視（取得自体は成功している） */
+      const result = await requestSyncAndWait({ from: fmt(start), to: fmt(end) }, (p) =>
+        setSyncMessage(`取得中… ${p.succeeded + p.failed}/${p.total}`)
+      );
+      setSyncMessage(
+        `取得完了（${fmt(start)} 〜 ${fmt(end)}） — あすけん: ${result.askenCount}日 / 筋トレ: ${result.strongCount}日 / 健康: ${result.healthCount}日`
+      );
+      setSyncErrors(result.errors);
+      // 取得結果を画面に反映するためこの日のデータを再取得
+      try {
+        const r = await fetch(`/api/day/${date}`, { cache: "no-store" });
+        if (r.ok) {
+          setData(await r.json());
+          setNotFound(false);
         }
-      } else {
-        setSyncErrors([json.error || `取得に失敗しました (HTTP ${res.status})`]);
+        const m = await fetch(`/api/micronutrients/${date}`, { cache: "no-store" });
+        if (m.ok) setMicronutrients((await m.json()).nutrients ?? null);
+      } catch {
+        /* 再取得失敗は無視（取得自体は成功している） */
       }
     } catch (e) {
       setSyncErrors([e instanceof Error ? e.message : String(e)]);
@@ -111,6 +126,28 @@ export default function DayPage() {
     }
   };
 
+  /** あすけんの食事時刻を保存する（空にするとその食事タイプの時刻を消す） */
+  const handleMealTimeChange = async (mealType: string, value: string) => {
+    if (!date || typeof date !== "string") return;
+    const current = data?.mealTimes ?? {};
+    if ((current[mealType] ?? "") === value) return;
+    const next = { ...current };
+    if (value) next[mealType] = value;
+    else delete next[mealType];
+    setData((prev) => (prev ? { ...prev, mealTimes: next } : prev));
+    try {
+      const res = await fetch(`/api/day/${date}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mealTimes: Object.keys(next).length > 0 ? next : null }),
+      });
+      if (!res.ok) throw new Error(`PATCH ${res.status}`);
+    } catch (e) {
+      console.error("Failed to update mealTimes", e);
+      setData((prev) => (prev ? { ...prev, mealTimes: current } : prev));
+    }
+  };
+
   /** 登山チェックを切り替える */
   const handleToggleHiking = async () => {
     if (!date || typeof date !== "string" || hikingUpdating) return;
@@ -145,6 +182,11 @@ export default function DayPage() {
       .catch(() => setNotFound(true))
       .finally(() => setLoading(false));
 
+    fetch(`/api/micronutrients/${date}`, noCache)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((d) => setMicronutrients(Array.isArray(d?.nutrients) ? d.nutrients : null))
+      .catch(() => setMicronutrients(null));
+
     fetch(`/api/ai/history?date=${date}&type=daily`, noCache)
       .then((r) => r.json())
       .then((d) => {
@@ -179,9 +221,9 @@ export default function DayPage() {
 
   const hasStrong = data?.strong && (data.strong.workouts?.length ?? 0) > 0;
 
-  const groupedMeals: Record<string, AskenItem[]> = {};
-  if (data?.asken?.items) {
-    for (const item of data.asken.items) {
+  const groupedMeals: Record<string, MealEntry[]> = {};
+  if (data?.meals) {
+    for (const item of data.meals) {
       const type = item.mealType || "その他";
       if (!groupedMeals[type]) groupedMeals[type] = [];
       groupedMeals[type].push(item);
@@ -339,10 +381,21 @@ export default function DayPage() {
                   return (
                     <div key={mealType} className="flex flex-col gap-3">
                       <div className="flex items-center justify-between">
-                        <h4 className="text-sm font-bold uppercase tracking-wider text-[var(--text-secondary)]">
-                          {MEAL_TYPE_LABELS[mealType] ?? mealType}
-                        </h4>
-                        <span className="text-xs font-medium text-[var(--text-tertiary)]">{mealTotal} kcal</span>
+                        <div className="flex items-center gap-3">
+                          <h4 className="text-sm font-bold uppercase tracking-wider text-[var(--text-secondary)]">
+                            {MEAL_TYPE_LABELS[mealType] ?? mealType}
+                          </h4>
+                          {items.some((i) => i.source === "asken") && (
+                            <input
+                              type="time"
+                              aria-label={`${MEAL_TYPE_LABELS[mealType] ?? mealType}の時刻`}
+                              defaultValue={data.mealTimes?.[mealType] ?? ""}
+                              onBlur={(e) => handleMealTimeChange(mealType, e.target.value)}
+                              className="text-xs bg-transparent border border-[var(--border-card)] rounded px-1.5 py-0.5 text-[var(--text-tertiary)]"
+                            />
+                          )}
+                        </div>
+                        <span className="text-xs font-medium text-[var(--text-tertiary)]">{Math.round(mealTotal)} kcal</span>
                       </div>
                       <div className="space-y-2">
                         {items.map((item, i) => (
@@ -356,10 +409,10 @@ export default function DayPage() {
                             <div className="flex-1 min-w-0">
                               <p className="text-sm font-bold text-[var(--text-primary)] truncate">{item.name}</p>
                               <p className="text-xs text-[var(--text-tertiary)] font-medium truncate">
-                                {item.amount && `${item.amount} • `}{item.calories} kcal
+                                {item.source === "manual" && "手入力 • "}{item.amount && `${item.amount} • `}{Math.round(item.calories)} kcal
                               </p>
                             </div>
-                            <span className="text-sm font-bold text-[var(--text-secondary)] tabular-nums">{item.calories}</span>
+                            <span className="text-sm font-bold text-[var(--text-secondary)] tabular-nums">{Math.round(item.calories)}</span>
                           </div>
                         ))}
                       </div>
@@ -376,6 +429,49 @@ export default function DayPage() {
               )}
             </div>
 
+            {/* 微量栄養素カード（あすけんの栄養素がある日のみ） */}
+            {micronutrients && micronutrients.some((n) => n.status !== "noData") && (
+              <div className="mt-8 bg-[var(--bg-card)] border border-[var(--border-card)] rounded-xl p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="w-10 h-10 rounded-lg bg-[var(--accent-muted)] flex items-center justify-center">
+                    <span className="material-symbols-outlined text-[var(--primary)] text-xl">nutrition</span>
+                  </div>
+                  <div>
+                    <h2 className="font-bold text-[var(--text-primary)] text-lg">微量栄養素</h2>
+                    <p className="text-xs text-[var(--text-tertiary)]">食事摂取基準（年齢・性別）との比較。食塩相当量は目標以下が達成</p>
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {micronutrients.map((n) => {
+                    const pct = n.ratio != null ? Math.round(n.ratio * 100) : null;
+                    const barColor = n.status === "ok" ? "bg-[var(--primary)]" : n.status === "high" ? "bg-red-400" : "bg-amber-400";
+                    return (
+                      <div key={n.key}>
+                        <div className="flex items-center justify-between text-xs mb-1 gap-2">
+                          <span className="font-bold text-[var(--text-secondary)]">
+                            {n.label}
+                            {n.streak >= 2 && (
+                              <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-400/15 text-amber-400 text-[10px] font-bold">
+                                {n.streak}日連続{n.direction === "max" ? "超過" : "不足"}
+                              </span>
+                            )}
+                          </span>
+                          <span className="text-[var(--text-tertiary)] tabular-nums">
+                            {n.intake != null ? `${Math.round(n.intake * 10) / 10}` : "-"} / {n.target}
+                            {n.unit}
+                            {n.direction === "max" ? " 以下" : ""}
+                          </span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                          {pct != null && <div className={`h-full rounded-full ${barColor}`} style={{ width: `${Math.min(100, pct)}%` }} />}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* 登山チェックカード */}
             <div className="mt-8 bg-[var(--bg-card)] border border-[var(--border-card)] rounded-xl p-6">
               <div className="flex items-center justify-between gap-4">
@@ -407,6 +503,9 @@ export default function DayPage() {
               </div>
             </div>
 
+            {/* 体組成の手入力 */}
+            <BodyMetricForm date={date} />
+
             {/* 体の管理（AppleWatch / Google Fit） */}
             {(data.steps != null ||
               data.totalCalories != null ||
@@ -3,6 +3,7 @@ import Head from "next/head";
 import { formatDistanceToNow } from "date-fns";
 import { ja } from "date-fns/locale";
 import { getEffectiveTodayStr } from "../lib/dateUtils";
+import { requestSyncAndWait } from "../lib/syncClient";
 
 const GOAL_CALORIES = 2267;
 const GOAL_PFC = { protein: 150, fat: 54, carbs: 293 };
@@ -34,7 +35,9 @@ export default function Home() {
     const [mounted, setMounted] = useState(false); // ハイドレーション対策: 日付表示はクライアントのみ
     const [syncing, setSyncing] = useState(false);
     const [syncResult, setSyncResult] = useState<{ askenCount: number; strongCount: number; healthCount: number; errors: string[] } | null>(null);
-    const [syncStatus, setSyncStatus] = useState<{ schedule: string; lastSync: { timestamp: string; askenCount: number; strongCount: number } | null } | null>(null);
+    /** 同期ジョブの進捗（終わった件数 / 全件数） */
+    const [syncProgress, setSyncProgress] = useState<{ finished: number; total: number } | null>(null);
+    const [syncStatus, setSyncStatus] = useState<{ schedule: string; lastSync: { timestamp: string; askenCount: number; strongCount: number } | null; failureStreak: number } | null>(null);
 
     useEffect(() => {
         setMounted(true);
@@ -106,23 +109,22 @@ export default function Home() {
     const handleAskenSync = async () => {
         setSyncing(true);
         setSyncResult(null);
+        setSyncProgress(null);
         try {
-            const res = await fetch("/api/sync", { method: "POST" });
-            const data = await res.json();
-            const errors = data.errors || [];
-            if (!res.ok && data.error) errors.push(data.error);
+            const result = await requestSyncAndWait({}, (p) => setSyncProgress({ finished: p.succeeded + p.failed, total: p.total }));
             setSyncResult({
-                askenCount: data.askenCount ?? 0,
-                strongCount: data.strongCount ?? 0,
-                healthCount: data.healthCount ?? 0,
-                errors,
+                askenCount: result.askenCount,
+                strongCount: result.strongCount,
+                healthCount: result.healthCount,
+                errors: result.errors,
             });
             await fetchData();
         } catch (e) {
             console.error(e);
-            setSyncResult({ askenCount: 0, strongCount: 0, healthCount: 0, errors: ["通信エラー"] });
+            setSyncResult({ askenCount: 0, strongCount: 0, healthCount: 0, errors: [e instanceof Error ? e.message : "通信エラー"] });
         } finally {
             setSyncing(false);
+            setSyncProgress(null);
         }
     };
 
@@ -329,12 +331,15 @@ export default function Home() {
                                     ) : (
                                         <span className="w-4 h-4 flex-shrink-0 block" aria-hidden />
                                     )}
-                                    <span>{syncing ? "取得中..." : "今すぐ取得"}</span>
+                                    <span>{syncing ? (syncProgress ? `取得中 ${syncProgress.finished}/${syncProgress.total}` : "取得中...") : "今すぐ取得"}</span>
                                 </span>
                             </button>
                             {syncStatus?.lastSync && (
                                 <p className="text-[10px] text-[var(--text-tertiary)] mt-2" suppressHydrationWarning>最終: {formatRelativeTime(syncStatus.lastSync.timestamp)}</p>
                             )}
+                            {syncStatus && syncStatus.failureStreak >= 2 && (
+                                <p className="text-[10px] text-amber-400 mt-1">同期エラーが {syncStatus.failureStreak} 回続いています</p>
+                            )}
                             {syncResult && (
                                 <p className={`text-[10px] mt-1 ${syncResult.errors.length > 0 ? "text-amber-400" : "text-[var(--primary)]"}`}>
                                     {syncResult.errors.length > 0 ? "エラーあり" : `あすけん ${syncResult.askenCount} / Strong ${syncResult.strongCount} / 健康 ${syncResult.healthCount}`}
@@ -1,13 +1,80 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
-import { apiClient } from '../../lib/apiClient';
+import { apiClient, ApiError } from '../../lib/apiClient';
+import { scaleFood } from '../../lib/foodValues';
+
+/** 食品カタログ（/api/foods）。栄養素は baseAmount baseUnit あたり */
+interface Food {
+    id: string;
+    name: string;
+    baseAmount: number;
+    baseUnit: string;
+    cal: number;
+    protein: number | null;
+    fat: number | null;
+    carb: number | null;
+    servingAmount: number | null;
+}
 
 interface MealItemInput {
     name: string;
     cal: number;
+    amount?: number;
+    unit?: string;
+    protein?: number;
+    fat?: number;
+    carb?: number;
+    /** カタログから選んだ食品。量を変えると栄養素を換算し直す */
+    food?: Food;
+}
+
+interface FavoriteMeal {
+    id: string;
+    name: string;
+    mealType: string | null;
+    items: Omit<MealItemInput, 'food'>[];
+}
+
+/** ブラウザの BarcodeDetector（Shape Detection API）。TS の DOM 型に無いので必要な分だけ定義する */
+interface BarcodeDetectorLike {
+    detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
 }
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+    if (typeof window === 'undefined') return null;
+    return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+/** スキャンの間隔（ms） */
+const SCAN_INTERVAL_MS = 300;
+
+const MACROS = [
+    { key: 'protein', label: 'P' },
+    { key: 'fat', label: 'F' },
+    { key: 'carb', label: 'C' },
+] as const;
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/** 食品の栄養素を amount（baseUnit 単位）に換算した品目 */
+function itemFromFood(food: Food, amount: number): MealItemInput {
+    const { cal, protein, fat, carb } = scaleFood(food, amount);
+    return {
+        name: food.name,
+        amount,
+        unit: food.baseUnit,
+        cal,
+        protein: protein ?? undefined,
+        fat: fat ?? undefined,
+        carb: carb ?? undefined,
+        food,
+    };
+}
+
+const toNumberOrUndefined = (value: string) => (value === '' || !Number.isFinite(Number(value)) ? undefined : Number(value));
 
 const MEAL_TYPES = [
     { value: "Breakfast", label: "朝食", icon: "🌅" },
@@ -16,6 +83,19 @@ const MEAL_TYPES = [
     { value: "Snack", label: "間食", icon: "🍪" },
 ];
 
+/** 送信用の品目（未入力の項目は送らない） */
+function toPayloadItem(item: MealItemInput) {
+    return {
+        name: item.name,
+        cal: item.cal || 0,
+        ...(item.amount != null ? { amount: item.amount } : {}),
+        ...(item.unit ? { unit: item.unit } : {}),
+        ...(item.protein != null ? { protein: item.protein } : {}),
+        ...(item.fat != null ? { fat: item.fat } : {}),
+        ...(item.carb != null ? { carb: item.carb } : {}),
+    };
+}
+
 export default function NewMeal() {
     const router = useRouter();
     const [loggedAt, setLoggedAt] = useState('');
@@ -24,6 +104,31 @@ export default function NewMeal() {
     const [items, setItems] = useState<MealItemInput[]>([{ name: '', cal: 0 }]);
     const [submitting, setSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState<number | null>(null);
+    const [suggestions, setSuggestions] = useState<Food[]>([]);
+    const [favorites, setFavorites] = useState<FavoriteMeal[]>([]);
+    const [jan, setJan] = useState('');
+    const [janMessage, setJanMessage] = useState<string | null>(null);
+    const [scanning, setScanning] = useState(false);
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        apiClient<{ favorites: FavoriteMeal[] }>('/favorite-meals')
+            .then((d) => setFavorites(d.favorites ?? []))
+            .catch(() => setFavorites([]));
+    }, []);
+
+    // 入力中の食品名でカタログを検索（入力が止まってから）
+    const activeQuery = activeIndex != null ? items[activeIndex]?.name.trim() ?? '' : '';
+    useEffect(() => {
+        if (activeIndex == null || activeQuery === '') return;
+        const timer = setTimeout(() => {
+            apiClient<{ foods: Food[] }>(`/foods?q=${encodeURIComponent(activeQuery)}&limit=8`)
+                .then((d) => setSuggestions(d.foods ?? []))
+                .catch(() => setSuggestions([]));
+        }, 250);
+        return () => clearTimeout(timer);
+    }, [activeIndex, activeQuery]);
 
     const handleAddItem = () => {
         setItems([...items, { name: '', cal: 0 }]);
@@ -35,20 +140,133 @@ export default function NewMeal() {
         setItems(newItems);
     };
 
-    const handleItemChange = (index: number, field: keyof MealItemInput, value: string | number) => {
+    const handleItemChange = (index: number, field: Exclude<keyof MealItemInput, 'food'>, value: string) => {
         const newItems = [...items];
-        if (field === 'cal') {
-            newItems[index] = { ...newItems[index], [field]: Number(value) };
+        const current = newItems[index];
+        if (field === 'name') {
+            // 名前を変えたらカタログの食品との対応を外す
+            newItems[index] = { ...current, name: value, food: undefined };
+        } else if (field === 'unit') {
+            newItems[index] = { ...current, unit: value || undefined, food: undefined };
+        } else if (field === 'amount' && current.food && toNumberOrUndefined(value) != null) {
+            newItems[index] = itemFromFood(current.food, Number(value));
+        } else if (field === 'cal') {
+            newItems[index] = { ...current, cal: Number(value) };
         } else {
-            newItems[index] = { ...newItems[index], [field]: value as string };
+            newItems[index] = { ...current, [field]: toNumberOrUndefined(value) };
         }
         setItems(newItems);
     };
 
+    const handleSelectFood = (index: number, food: Food) => {
+        const newItems = [...items];
+        newItems[index] = itemFromFood(food, food.servingAmount ?? food.baseAmount);
+        setItems(newItems);
+        setActiveIndex(null);
+    };
+
+    /** JAN で商品表を引き、1包装分の品目を追加する（空の行は置き換える） */
+    const handleLookupJan = async (code: string) => {
+        const normalized = code.replace(/[\s-]/g, '');
+        if (!/^(\d{8}|\d{13})$/.test(normalized)) {
+            setJanMessage('JAN コードは8桁か13桁です');
+            return;
+        }
+        setJanMessage(null);
+        try {
+            const { item } = await apiClient<{ item: Omit<MealItemInput, 'food'> }>(`/products/${normalized}`);
+            setItems((prev) => [...prev.filter((i) => i.name.trim() !== ''), item]);
+            setJan('');
+            setJanMessage(`${item.name} を追加しました`);
+        } catch (err) {
+            setJanMessage(err instanceof ApiError && err.status === 404 ? '商品表に登録されていない JAN コードです' : '商品の取得に失敗しました');
+        }
+    };
+
+    const handleToggleScan = () => {
+        if (!scanning && !getBarcodeDetector()) {
+            setJanMessage('このブラウザはカメラでの読み取りに対応していません。JAN コードを入力してください');
+            return;
+        }
+        setJanMessage(null);
+        setScanning(!scanning);
+    };
+
+    // カメラでバーコードを読み取る（BarcodeDetector 対応ブラウザのみ）。読めたら JAN で商品を引いて止める
+    useEffect(() => {
+        if (!scanning) return;
+        const Detector = getBarcodeDetector();
+        if (!Detector) return;
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let stopped = false;
+        const detector = new Detector({ formats: ['ean_13', 'ean_8'] });
+
+        const scan = async () => {
+            const video = videoRef.current;
+            if (stopped || !video) return;
+            try {
+                const [code] = await detector.detect(video);
+                if (code?.rawValue && !stopped) {
+                    setScanning(false);
+                    setJan(code.rawValue);
+                    void handleLookupJan(code.rawValue);
+                    return;
+                }
+            } catch {
+                // 映像の準備ができていないフレームは無視して次へ
+            }
+            timer = setTimeout(scan, SCAN_INTERVAL_MS);
+        };
+
+        navigator.mediaDevices
+            .getUserMedia({ video: { facingMode: 'environment' } })
+            .then((s) => {
+                stream = s;
+                if (stopped || !videoRef.current) return;
+                videoRef.current.srcObject = s;
+                return videoRef.current.play().then(scan);
+            })
+            .catch(() => {
+                setJanMessage('カメラを使えませんでした。JAN コードを入力してください');
+                setScanning(false);
+            });
+
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+            stream?.getTracks().forEach((t) => t.stop());
+        };
+    }, [scanning]);
+
+    const handleApplyFavorite = (favorite: FavoriteMeal) => {
+        const filled = items.filter((i) => i.name.trim() !== '');
+        setItems([...filled, ...favorite.items.map((i) => ({ ...i }))]);
+        if (favorite.mealType) setMealType(favorite.mealType);
+    };
+
+    const handleSaveFavorite = async () => {
+        const filled = items.filter((i) => i.name.trim() !== '');
+        if (filled.length === 0) return;
+        const name = window.prompt('お気に入りの名前');
+        if (!name?.trim()) return;
+        try {
+            const { favorite } = await apiClient<{ favorite: FavoriteMeal }>('/favorite-meals', {
+                method: 'POST',
+                body: { name: name.trim(), mealType, items: filled.map(toPayloadItem) },
+            });
+            setFavorites((prev) => [...prev.filter((f) => f.id !== favorite.id), favorite].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (err) {
+            setError(err instanceof Error && err.message ? err.message : 'お気に入りの保存に失敗しました');
+        }
+    };
+
     const calculateTotal = () => {
         return items.reduce((sum, item) => sum + (item.cal || 0), 0);
     };
 
+    const macroTotal = (key: (typeof MACROS)[number]['key']) => round1(items.reduce((sum, item) => sum + (item[key] ?? 0), 0));
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!loggedAt) {
@@ -69,7 +287,7 @@ export default function NewMeal() {
                     mealType,
                     source
                 },
-                items: items.filter(i => i.name.trim() !== '')
+                items: items.filter(i => i.name.trim() !== '').map(toPayloadItem)
             };
 
             await apiClient('/meals', {
@@ -164,60 +382,194 @@ export default function NewMeal() {
                         />
                     </div>
 
+                    {/* バーコード（JAN） */}
+                    <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+                        <label className="block text-sm font-semibold text-gray-700 mb-2">バーコード（JAN）</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                placeholder="4901234567894"
+                                value={jan}
+                                onChange={(e) => setJan(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        e.preventDefault();
+                                        void handleLookupJan(jan);
+                                    }
+                                }}
+                                className="flex-1 px-4 py-3 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent bg-white"
+                            />
+                            <button
+                                type="button"
+                                onClick={() => handleLookupJan(jan)}
+                                disabled={jan.trim() === ''}
+                                className="px-4 py-3 rounded-xl border border-gray-200 text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                追加
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleToggleScan}
+                                className={`px-4 py-3 rounded-xl border text-sm transition-colors ${
+                                    scanning ? 'bg-emerald-50 border-emerald-300 text-emerald-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                                }`}
+                            >
+                                {scanning ? '停止' : '📷 スキャン'}
+                            </button>
+                        </div>
+                        {scanning && <video ref={videoRef} muted playsInline className="mt-3 w-full rounded-xl bg-black aspect-video object-cover" />}
+                        {janMessage && <p className="mt-2 text-xs text-gray-500">{janMessage}</p>}
+                    </div>
+
+                    {/* お気に入りの食事 */}
+                    {favorites.length > 0 && (
+                        <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
+                            <label className="block text-sm font-semibold text-gray-700 mb-3">お気に入り</label>
+                            <div className="flex flex-wrap gap-2">
+                                {favorites.map((f) => (
+                                    <button
+                                        key={f.id}
+                                        type="button"
+                                        onClick={() => handleApplyFavorite(f)}
+                                        className="px-3 py-1.5 rounded-full border border-gray-200 text-sm text-gray-600 hover:bg-emerald-50 hover:border-emerald-300 hover:text-emerald-700 transition-colors"
+                                    >
+                                        {f.name}
+                                        <span className="ml-1 text-xs text-gray-400">
+                                            {Math.round(f.items.reduce((sum, i) => sum + (i.cal || 0), 0))} kcal
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* 食品リスト */}
                     <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-sm">
                         <div className="flex items-center justify-between mb-4">
                             <label className="text-sm font-semibold text-gray-700">食品リスト</label>
                             <span className="text-sm font-semibold text-gray-700">
                                 合計: <span className="text-emerald-600">{calculateTotal().toLocaleString()} kcal</span>
+                                <span className="ml-2 text-xs font-normal text-gray-500">
+                                    {MACROS.map((m) => `${m.label} ${macroTotal(m.key)}g`).join(' / ')}
+                                </span>
                             </span>
                         </div>
-                        <div className="space-y-3">
+                        <div className="space-y-4">
                             {items.map((item, index) => (
-                                <div key={index} className="flex items-center gap-3">
-                                    <input
-                                        type="text"
-                                        placeholder="食品名"
-                                        value={item.name}
-                                        onChange={(e) => handleItemChange(index, 'name', e.target.value)}
-                                        className="flex-[2] px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                                        required
-                                    />
-                                    <div className="relative flex-1">
+                                <div key={index} className="space-y-2">
+                                    <div className="flex items-center gap-3">
+                                        <div className="relative flex-[2]">
+                                            <input
+                                                type="text"
+                                                placeholder="食品名（履歴から検索）"
+                                                value={item.name}
+                                                onChange={(e) => handleItemChange(index, 'name', e.target.value)}
+                                                onFocus={() => setActiveIndex(index)}
+                                                onBlur={() => setTimeout(() => setActiveIndex((cur) => (cur === index ? null : cur)), 150)}
+                                                className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                                                required
+                                            />
+                                            {activeIndex === index && activeQuery !== '' && suggestions.length > 0 && (
+                                                <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                                                    {suggestions.map((food) => (
+                                                        <li key={food.id}>
+                                                            <button
+                                                                type="button"
+                                                                onMouseDown={(e) => e.preventDefault()}
+                                                                onClick={() => handleSelectFood(index, food)}
+                                                                className="w-full text-left px-3 py-2 text-sm hover:bg-emerald-50"
+                                                            >
+                                                                <span className="font-medium text-gray-800">{food.name}</span>
+                                                                <span className="ml-2 text-xs text-gray-400">
+                                                                    {food.baseAmount}{food.baseUnit}あたり {Math.round(food.cal)} kcal
+                                                                    {food.protein != null && ` • P ${food.protein}g`}
+                                                                </span>
+                                                            </button>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
+                                        <div className="relative flex-1">
+                                            <input
+                                                type="number"
+                                                placeholder="0"
+                                                value={item.cal || ''}
+                                                onChange={(e) => handleItemChange(index, 'cal', e.target.value)}
+                                                className="w-full px-3 py-2.5 pr-12 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                                                min="0"
+                                                step="any"
+                                            />
+                                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">kcal</span>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemoveItem(index)}
+                                            disabled={items.length === 1}
+                                            className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                            title="削除"
+                                        >
+                                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                            </svg>
+                                        </button>
+                                    </div>
+                                    <div className="flex items-center gap-2 pr-10">
                                         <input
                                             type="number"
-                                            placeholder="0"
-                                            value={item.cal || ''}
-                                            onChange={(e) => handleItemChange(index, 'cal', e.target.value)}
-                                            className="w-full px-3 py-2.5 pr-12 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                                            placeholder="量"
+                                            value={item.amount ?? ''}
+                                            onChange={(e) => handleItemChange(index, 'amount', e.target.value)}
+                                            className="w-20 px-2 py-1.5 border border-gray-200 rounded-lg text-xs text-right focus:outline-none focus:ring-2 focus:ring-emerald-500"
                                             min="0"
+                                            step="any"
+                                        />
+                                        <input
+                                            type="text"
+                                            placeholder="単位"
+                                            value={item.unit ?? ''}
+                                            onChange={(e) => handleItemChange(index, 'unit', e.target.value)}
+                                            className="w-14 px-2 py-1.5 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500"
                                         />
-                                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">kcal</span>
+                                        {MACROS.map((m) => (
+                                            <div key={m.key} className="relative flex-1">
+                                                <input
+                                                    type="number"
+                                                    placeholder={m.label}
+                                                    value={item[m.key] ?? ''}
+                                                    onChange={(e) => handleItemChange(index, m.key, e.target.value)}
+                                                    className="w-full px-2 py-1.5 pr-6 border border-gray-200 rounded-lg text-xs text-right focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                                                    min="0"
+                                                    step="any"
+                                                />
+                                                <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-gray-400">g</span>
+                                            </div>
+                                        ))}
                                     </div>
-                                    <button
-                                        type="button"
-                                        onClick={() => handleRemoveItem(index)}
-                                        disabled={items.length === 1}
-                                        className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                        title="削除"
-                                    >
-                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                                        </svg>
-                                    </button>
                                 </div>
                             ))}
                         </div>
-                        <button
-                            type="button"
-                            onClick={handleAddItem}
-                            className="mt-4 w-full py-2.5 border-2 border-dashed border-gray-200 rounded-xl text-sm text-gray-500 hover:text-emerald-600 hover:border-emerald-300 transition-colors flex items-center justify-center gap-1"
-                        >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                            </svg>
-                            行を追加
-                        </button>
+                        <div className="mt-4 grid grid-cols-2 gap-2">
+                            <button
+                                type="button"
+                                onClick={handleAddItem}
+                                className="w-full py-2.5 border-2 border-dashed border-gray-200 rounded-xl text-sm text-gray-500 hover:text-emerald-600 hover:border-emerald-300 transition-colors flex items-center justify-center gap-1"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                                </svg>
+                                行を追加
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleSaveFavorite}
+                                disabled={!items.some((i) => i.name.trim() !== '')}
+                                className="w-full py-2.5 border-2 border-dashed border-gray-200 rounded-xl text-sm text-gray-500 hover:text-emerald-600 hover:border-emerald-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                            >
+                                ★ お気に入りに保存
+                            </button>
+                        </div>
                     </div>
 
                     {/* 登録ボタン */}
@@ -110,6 +110,8 @@ export default function PersonalPage() {
     activityLevel: null,
   });
   const [goals, setGoals] = useState<Goals>(DEFAULT_GOALS);
+  /** 体組成ログの傾向体重（目標算出に設定の体重より優先して使う） */
+  const [trendWeightKg, setTrendWeightKg] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   /** DB から設定を取得済みか。推奨ポップアップはこの後にのみ表示する */
   const [configLoaded, setConfigLoaded] = useState(false);
@@ -129,12 +131,14 @@ export default function PersonalPage() {
       .then(({ ok, data }) => {
         if (cancelled) return;
         setConfigLoaded(true);
-        const body = data as { error?: string; personal?: unknown; goals?: Goals } | undefined;
+        const body = data as { error?: string; personal?: unknown; goals?: Goals; trendWeightKg?: number | null } | undefined;
         if (!ok || body?.error) return;
         const personalData = normalizePersonal(body?.personal);
         const goalsData = body?.goals ?? DEFAULT_GOALS;
+        const trend = typeof body?.trendWeightKg === "number" ? body.trendWeightKg : null;
         setPersonal(personalData);
-        const computed = computeGoalsFromPersonal(personalData);
+        setTrendWeightKg(trend);
+        const computed = computeGoalsFromPersonal(personalData, trend);
         const isDefaultGoals =
           goalsData.calories === DEFAULT_GOALS.calories &&
           goalsData.protein === DEFAULT_GOALS.protein &&
@@ -345,6 +349,11 @@ export default function PersonalPage() {
                       className="w-full px-2.5 py-1.5 rounded-lg border border-[var(--border-card)] bg-[var(--bg-input)] text-[var(--text-primary)] text-sm"
                     />
                     {bmi && <p className="text-[10px] text-[var(--text-tertiary)] mt-0.5">{bmi}</p>}
+                    {trendWeightKg != null && (
+                      <p className="text-[10px] text-[var(--text-tertiary)] mt-0.5">
+                        傾向体重 {trendWeightKg.toFixed(1)} kg（記録から算出・目標算出に使用）
+                      </p>
+                    )}
                   </div>
                   <div>
                     <label className="block text-xs text-[var(--text-tertiary)] mb-0.5">年齢 (歳)</label>
@@ -416,7 +425,7 @@ export default function PersonalPage() {
               <section>
                 <h2 className="text-sm font-bold text-[var(--text-primary)] mb-1">目標（カロリー・PFC）</h2>
                 <p className="text-[10px] text-[var(--text-tertiary)] mb-2">
-                  {computeGoalsFromPersonal(personal)
+                  {computeGoalsFromPersonal(personal, trendWeightKg)
                     ? "身長・体重・年齢・活動レベルから自動算出しています。変更して保存もできます。"
                     : "はじめはそのままでOK。からだを入力すると自動算出されます。あとから変更もできます。"}
                 </p>
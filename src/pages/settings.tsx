@@ -18,11 +18,20 @@ type ScrapingLogEntry = {
   date: string;
   source: string;
   status: string;
+  errorKind: string | null;
   message: string | null;
   details: string | null;
   createdAt: string;
 };
 
+/** ScrapingLog.errorKind の表示名 */
+const ERROR_KIND_LABELS: Record<string, string> = {
+  session_expired: "セッション切れ",
+  bot_blocked: "Bot対策で拒否",
+  layout_changed: "ページ構成の変更",
+  timeout: "タイムアウト",
+};
+
 export default function SettingsPage() {
   const [promptDraft, setPromptDraft] = useState("");
   const [promptLoading, setPromptLoading] = useState(true);
@@ -169,6 +178,9 @@ export default function SettingsPage() {
                             }`}>
                               {log.status}
                             </span>
+                            {log.errorKind && log.errorKind !== "unknown" && (
+                              <span className="ml-1 text-[10px] text-red-400">{ERROR_KIND_LABELS[log.errorKind] ?? log.errorKind}</span>
+                            )}
                           </td>
                           <td className="py-1.5 pr-3 text-[var(--text-secondary)] max-w-[240px] truncate">{log.message ?? "—"}</td>
                           <td className="py-1.5 text-[var(--text-tertiary)] whitespace-nowrap">{new Date(log.createdAt).toLocaleString("ja-JP")}</td>
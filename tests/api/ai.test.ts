@@ -20,6 +20,7 @@ jest.mock("@/lib/gemini", () => ({
 // gem-prompt が実 Prisma に接続しないよう dbConfig もモックする
 jest.mock("@/lib/dbConfig", () => ({
   getSystemPrompt: jest.fn().mockResolvedValue(null),
+  DEFAULT_USER_ID: "default",
 }));
 
 // ─── ヘルパー ──────────────────────────────────────
@@ -75,7 +76,7 @@ describe("GET /api/ai/daily", () => {
     expect(res._status).toBe(200);
     expect((res._body as { date: string; prompt: string }).date).toBe("2026-02-11");
     expect((res._body as { date: string; prompt: string }).prompt).toBe("テストプロンプト");
-    expect(mockGenerateDailyPrompt).toHaveBeenCalledWith("2026-02-11");
+    expect(mockGenerateDailyPrompt).toHaveBeenCalledWith("2026-02-11", "manual", "default");
   });
 
   it("不正な日付形式で 400 を返す", async () => {
@@ -128,7 +129,7 @@ describe("GET /api/ai/weekly", () => {
     expect(body.weekStart).toBe("2026-02-01");
     expect(body.weekEnd).toBe("2026-02-07");
     expect(body.prompt).toBe("週次テストプロンプト");
-    expect(mockGenerateWeeklyPrompt).toHaveBeenCalledWith("2026-02-01");
+    expect(mockGenerateWeeklyPrompt).toHaveBeenCalledWith("2026-02-01", "default");
   });
 
   it("不正な日付形式で 400 を返す", async () => {
@@ -5,6 +5,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 
 const mockFindUnique = jest.fn();
 const mockUpsert = jest.fn();
+const mockMealFindMany = jest.fn().mockResolvedValue([]);
 
 jest.mock("@/lib/prisma", () => ({
   prisma: {
@@ -12,9 +13,14 @@ jest.mock("@/lib/prisma", () => ({
       findUnique: (...args: unknown[]) => mockFindUnique(...args),
       upsert: (...args: unknown[]) => mockUpsert(...args),
     },
+    mealLog: { findMany: (...args: unknown[]) => mockMealFindMany(...args) },
   },
 }));
 
+jest.mock("@/lib/scoreSnapshots", () => ({
+  finalizeDayScores: jest.fn().mockResolvedValue({ finalized: 0, updated: 0 }),
+}));
+
 function createRes(): NextApiResponse & { _status?: number; _json?: unknown; _headers?: Record<string, string> } {
   const res = {
     _status: undefined as number | undefined,
@@ -34,7 +40,7 @@ describe("GET /api/day/[date]", () => {
   it("該当行がない場合は 200 で calories:0, pfc:0 を返す", async () => {
     mockFindUnique.mockResolvedValue(null);
     const handler = (await import("@/pages/api/day/[date]")).default;
-    const req = { method: "GET", query: { date: "2026-02-24" } } as unknown as NextApiRequest;
+    const req = { method: "GET", query: { date: "2026-02-24" }, headers: {} } as unknown as NextApiRequest;
     const res = createRes();
     await handler(req, res);
     expect(res._status).toBe(200);
@@ -42,6 +48,7 @@ describe("GET /api/day/[date]", () => {
       date: "2026-02-24",
       calories: 0,
       pfc: { protein: 0, fat: 0, carbs: 0 },
+      meals: [],
       steps: null,
       exerciseCalories: null,
       hasHiking: false,
@@ -59,7 +66,7 @@ describe("GET /api/day/[date]", () => {
       hasHiking: true,
     });
     const handler = (await import("@/pages/api/day/[date]")).default;
-    const req = { method: "GET", query: { date: "2026-02-24" } } as unknown as NextApiRequest;
+    const req = { method: "GET", query: { date: "2026-02-24" }, headers: {} } as unknown as NextApiRequest;
     const res = createRes();
     await handler(req, res);
     expect(res._status).toBe(200);
@@ -70,9 +77,57 @@ describe("GET /api/day/[date]", () => {
     expect(body.hasHiking).toBe(true);
   });
 
+  it("手入力の食事をあすけん分と合算し、source 付きで返す", async () => {
+    mockFindUnique.mockResolvedValue({
+      date: "2026-02-24",
+      askenNutrients: { 朝食: { エネルギー: "500kcal", たんぱく質: "20g", 脂質: "15g", 炭水化物: "60g" } },
+      askenItems: [{ mealType: "朝食", name: "トースト", amount: "1枚", calories: 500 }],
+      strongData: null,
+      steps: null,
+      exerciseCalories: null,
+      hasHiking: false,
+    });
+    mockMealFindMany.mockResolvedValueOnce([
+      {
+        id: "m1",
+        loggedAt: new Date("2026-02-24T15:00:00+09:00"),
+        mealType: "間食",
+        source: null,
+        items: [{ name: "プロテインバー", amount: 1, unit: "本", cal: 200, protein: 15, fat: 8, carb: 20 }],
+      },
+    ]);
+    const handler = (await import("@/pages/api/day/[date]")).default;
+    const req = { method: "GET", query: { date: "2026-02-24" }, headers: {} } as unknown as NextApiRequest;
+    const res = createRes();
+    await handler(req, res);
+    const body = res._json as { calories: number; pfc: { protein: number }; meals: { source: string; name: string }[] };
+    expect(body.calories).toBe(700);
+    expect(body.pfc.protein).toBe(35);
+    expect(body.meals.map((m) => [m.source, m.name])).toEqual([
+      ["asken", "トースト"],
+      ["manual", "プロテインバー"],
+    ]);
+  });
+
+  it("認証ユーザーの ownerId で DailyData を検索する", async () => {
+    mockFindUnique.mockResolvedValue(null);
+    const handler = (await import("@/pages/api/day/[date]")).default;
+    const req = {
+      method: "GET",
+      query: { date: "2026-02-24" },
+      headers: { authorization: "Bearer dummy" },
+    } as unknown as NextApiRequest;
+    const res = createRes();
+    await handler(req, res);
+    expect(res._status).toBe(200);
+    expect(mockFindUnique).toHaveBeenCalledWith({
+      where: { ownerId_date: { ownerId: "dev-user", date: "2026-02-24" } },
+    });
+  });
+
   it("日付が不正な場合は 400 を返す", async () => {
     const handler = (await import("@/pages/api/day/[date]")).default;
-    const req = { method: "GET", query: { date: "invalid" } } as unknown as NextApiRequest;
+    const req = { method: "GET", query: { date: "invalid" }, headers: {} } as unknown as NextApiRequest;
     const res = createRes();
     await handler(req, res);
     expect(res._status).toBe(400);
@@ -89,6 +144,7 @@ describe("PATCH /api/day/[date]", () => {
     const req = {
       method: "PATCH",
       query: { date: "2026-05-18" },
+      headers: {},
       body: { hasHiking: true },
     } as unknown as NextApiRequest;
     const res = createRes();
@@ -96,18 +152,50 @@ describe("PATCH /api/day/[date]", () => {
     expect(res._status).toBe(200);
     expect(res._json).toEqual({ date: "2026-05-18", hasHiking: true });
     expect(mockUpsert).toHaveBeenCalledWith({
-      where: { date: "2026-05-18" },
+      where: { ownerId_date: { ownerId: "default", date: "2026-05-18" } },
       update: { hasHiking: true },
-      create: { date: "2026-05-18", hasHiking: true },
-      select: { date: true, hasHiking: true },
+      create: { ownerId: "default", date: "2026-05-18", hasHiking: true },
+      select: { date: true, hasHiking: true, mealTimes: true },
     });
   });
 
+  it("あすけんの食事時刻を保存する", async () => {
+    mockUpsert.mockResolvedValue({ date: "2026-05-18", hasHiking: false, mealTimes: { "朝食": "07:15" } });
+    const handler = (await import("@/pages/api/day/[date]")).default;
+    const req = {
+      method: "PATCH",
+      query: { date: "2026-05-18" },
+      headers: {},
+      body: { mealTimes: { "朝食": "07:15" } },
+    } as unknown as NextApiRequest;
+    const res = createRes();
+    await handler(req, res);
+    expect(res._status).toBe(200);
+    expect(mockUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { mealTimes: { "朝食": "07:15" } } })
+    );
+  });
+
+  it("食事時刻が HH:MM でない場合は 400 を返す", async () => {
+    const handler = (await import("@/pages/api/day/[date]")).default;
+    const req = {
+      method: "PATCH",
+      query: { date: "2026-05-18" },
+      headers: {},
+      body: { mealTimes: { "朝食": "7時" } },
+    } as unknown as NextApiRequest;
+    const res = createRes();
+    await handler(req, res);
+    expect(res._status).toBe(400);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
   it("body.hasHiking が boolean でない場合は 400 を返す", async () => {
     const handler = (await import("@/pages/api/day/[date]")).default;
     const req = {
       method: "PATCH",
       query: { date: "2026-05-18" },
+      headers: {},
       body: { hasHiking: "yes" },
     } as unknown as NextApiRequest;
     const res = createRes();
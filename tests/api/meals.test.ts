@@ -1,5 +1,5 @@
 /**
- * Tests for /api/meals (GET, POST) and /api/meals/[id] (DELETE).
+ * Tests for /api/meals (GET, POST) and /api/meals/[id] (PATCH, DELETE).
  * Prisma and auth are mocked via jest.mock.
  */
 
@@ -13,6 +13,9 @@ const mockCreate = jest.fn();
 const mockCreateMany = jest.fn();
 const mockDeleteMany = jest.fn();
 const mockDelete = jest.fn();
+const mockUpdate = jest.fn();
+const mockItemUpdate = jest.fn();
+const mockItemFindMany = jest.fn();
 
 jest.mock('@/lib/prisma', () => ({
   prisma: {
@@ -22,15 +25,28 @@ jest.mock('@/lib/prisma', () => ({
       findUniqueOrThrow: (...args: unknown[]) => mockFindUniqueOrThrow(...args),
       create: (...args: unknown[]) => mockCreate(...args),
       delete: (...args: unknown[]) => mockDelete(...args),
+      update: (...args: unknown[]) => mockUpdate(...args),
     },
     mealItem: {
       createMany: (...args: unknown[]) => mockCreateMany(...args),
       deleteMany: (...args: unknown[]) => mockDeleteMany(...args),
+      update: (...args: unknown[]) => mockItemUpdate(...args),
+      findMany: (...args: unknown[]) => mockItemFindMany(...args),
     },
     $transaction: (fn: (tx: unknown) => Promise<unknown>) => mockTransaction(fn),
   },
 }));
 
+const mockFinalizeDayScores = jest.fn().mockResolvedValue({ finalized: 0, updated: 0 });
+jest.mock('@/lib/scoreSnapshots', () => ({
+  finalizeDayScores: (...args: unknown[]) => mockFinalizeDayScores(...args),
+}));
+
+const mockRecordFoodUse = jest.fn().mockResolvedValue(undefined);
+jest.mock('@/lib/foods', () => ({
+  recordFoodUse: (...args: unknown[]) => mockRecordFoodUse(...args),
+}));
+
 const mockGetUserIdFromRequest = jest.fn();
 jest.mock('@/lib/auth', () => ({
   getUserIdFromRequest: (req: NextApiRequest) => {
@@ -127,12 +143,13 @@ describe('GET /api/meals', () => {
       expect.objectContaining({
         where: expect.objectContaining({ userId: TEST_USER }),
         include: { items: true },
-        orderBy: { loggedAt: 'asc' },
+        orderBy: [{ loggedAt: 'asc' }, { id: 'asc' }],
       })
     );
+    expect((res._body as { nextCursor: string | null }).nextCursor).toBeNull();
   });
 
-  it('uses query date when provided', async () => {
+  it('uses query date with the JST 05:00 day boundary', async () => {
     mockFindMany.mockResolvedValueOnce([]);
     const handler = (await import('@/pages/api/meals/index')).default;
     const req = mockReq({ method: 'GET', query: { date: '2026-01-25' } });
@@ -142,14 +159,59 @@ describe('GET /api/meals', () => {
       expect.objectContaining({
         where: expect.objectContaining({
           loggedAt: {
-            gte: new Date('2026-01-25T00:00:00'),
-            lte: new Date('2026-01-25T23:59:59.999'),
+            gte: new Date('2026-01-25T05:00:00+09:00'),
+            lt: new Date('2026-01-26T05:00:00+09:00'),
           },
         }),
       })
     );
   });
 
+  it('queries a date range with filters and returns nextCursor when more rows exist', async () => {
+    mockFindMany.mockResolvedValueOnce([
+      { id: 'm1', loggedAt: new Date('2026-01-20T08:00:00+09:00'), items: [] },
+      { id: 'm2', loggedAt: new Date('2026-01-21T08:00:00+09:00'), items: [] },
+      { id: 'm3', loggedAt: new Date('2026-01-22T08:00:00+09:00'), items: [] },
+    ]);
+    const handler = (await import('@/pages/api/meals/index')).default;
+    const req = mockReq({
+      method: 'GET',
+      query: { from: '2026-01-20', to: '2026-01-26', mealType: '朝食,昼食', source: 'manual', cursor: 'm0', limit: '2' },
+    });
+    const res = mockRes();
+    await handler(req, res);
+
+    expect(res._status).toBe(200);
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: TEST_USER,
+          loggedAt: { gte: new Date('2026-01-20T05:00:00+09:00'), lt: new Date('2026-01-27T05:00:00+09:00') },
+          mealType: { in: ['朝食', '昼食'] },
+          source: { in: ['manual'] },
+        },
+        take: 3,
+        cursor: { id: 'm0' },
+        skip: 1,
+      })
+    );
+    const body = res._body as { mealLogs: { id: string }[]; nextCursor: string | null; from: string; to: string };
+    expect(body.mealLogs.map((m) => m.id)).toEqual(['m1', 'm2']);
+    expect(body.nextCursor).toBe('m2');
+    expect([body.from, body.to]).toEqual(['2026-01-20', '2026-01-26']);
+  });
+
+  it('returns 400 for an inverted range or date combined with from', async () => {
+    const handler = (await import('@/pages/api/meals/index')).default;
+    const inverted = mockRes();
+    await handler(mockReq({ method: 'GET', query: { from: '2026-01-26', to: '2026-01-20' } }), inverted);
+    expect(inverted._status).toBe(400);
+    const combined = mockRes();
+    await handler(mockReq({ method: 'GET', query: { date: '2026-01-26', from: '2026-01-20' } }), combined);
+    expect(combined._status).toBe(400);
+    expect(mockFindMany).not.toHaveBeenCalled();
+  });
+
   it('returns 405 for method other than GET/POST', async () => {
     const handler = (await import('@/pages/api/meals/index')).default;
     const req = mockReq({ method: 'DELETE' });
@@ -212,6 +274,108 @@ describe('POST /api/meals', () => {
     expect(res._status).toBe(201);
     expect((res._body as { id: string }).id).toBe('meal-new-1');
     expect((res._body as { items: unknown[] }).items).toHaveLength(2);
+    // 品目から合計を入れる
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ totalCal: 570, totalProtein: 37, totalFat: 7, totalCarb: 53 }),
+      })
+    );
+    // 記録した日（JST）のスコアを確定・更新する
+    expect(mockFinalizeDayScores).toHaveBeenCalledWith(TEST_USER, ['2026-01-25']);
+    // 記録した品目を食品カタログに反映する
+    expect(mockRecordFoodUse).toHaveBeenCalledWith(
+      TEST_USER,
+      expect.arrayContaining([expect.objectContaining({ name: '鶏むね肉（皮なし）' })]),
+      createdMeal.loggedAt
+    );
+  });
+});
+
+describe('PATCH /api/meals/[id]', () => {
+  const existingMeal = {
+    id: 'm1',
+    userId: TEST_USER,
+    loggedAt: new Date('2026-01-25T12:30:00+09:00'),
+    items: [{ id: 'i1' }, { id: 'i2' }],
+  };
+
+  /** $transaction のコールバックに prisma モックを tx として渡す */
+  const runTransaction = async () => {
+    const { prisma } = await import('@/lib/prisma');
+    mockTransaction.mockImplementationOnce((fn: (tx: unknown) => Promise<unknown>) => fn(prisma));
+  };
+
+  it('returns 403 when meal belongs to another user', async () => {
+    mockFindUnique.mockResolvedValueOnce({ ...existingMeal, userId: 'other-user' });
+    const handler = (await import('@/pages/api/meals/[id]')).default;
+    const req = mockReq({ method: 'PATCH', query: { id: 'm1' }, body: { mealLog: { note: 'x' } } });
+    const res = mockRes();
+    await handler(req, res);
+    expect(res._status).toBe(403);
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for empty body or item ids of another meal', async () => {
+    const handler = (await import('@/pages/api/meals/[id]')).default;
+    const empty = mockRes();
+    await handler(mockReq({ method: 'PATCH', query: { id: 'm1' }, body: {} }), empty);
+    expect(empty._status).toBe(400);
+    expect((empty._body as { error: string }).error).toBe('Validation error');
+
+    mockFindUnique.mockResolvedValueOnce(existingMeal);
+    const res = mockRes();
+    await handler(mockReq({ method: 'PATCH', query: { id: 'm1' }, body: { items: { remove: ['other-item'] } } }), res);
+    expect(res._status).toBe(400);
+    expect(res._body).toEqual({ error: 'Invalid item ids', details: ['other-item'] });
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it('updates fields and items, then recomputes totals', async () => {
+    mockFindUnique.mockResolvedValueOnce(existingMeal);
+    await runTransaction();
+    mockItemFindMany.mockResolvedValueOnce([
+      { id: 'i1', cal: 330, protein: 33, fat: 6, carb: 0 },
+      { id: 'i3', cal: 86, protein: null, fat: null, carb: 22.5 },
+    ]);
+    const updatedMeal = { ...existingMeal, loggedAt: new Date('2026-01-26T08:00:00+09:00'), items: [] };
+    mockUpdate.mockResolvedValueOnce(updatedMeal);
+    const handler = (await import('@/pages/api/meals/[id]')).default;
+    const req = mockReq({
+      method: 'PATCH',
+      query: { id: 'm1' },
+      body: {
+        mealLog: { loggedAt: '2026-01-26T08:00:00+09:00', note: null },
+        items: {
+          update: [{ id: 'i1', name: '鶏むね肉', protein: 33 }],
+          remove: ['i2'],
+          add: [{ name: 'バナナ', cal: 86, carb: 22.5 }],
+        },
+      },
+    });
+    const res = mockRes();
+    await handler(req, res);
+
+    expect(res._status).toBe(200);
+    expect(mockDeleteMany).toHaveBeenCalledWith({ where: { mealId: 'm1', id: { in: ['i2'] } } });
+    expect(mockItemUpdate).toHaveBeenCalledWith({ where: { id: 'i1' }, data: { name: '鶏むね肉', protein: 33 } });
+    expect(mockCreateMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ mealId: 'm1', name: 'バナナ', cal: 86, carb: 22.5, protein: null })],
+    });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'm1' },
+      data: {
+        loggedAt: new Date('2026-01-26T08:00:00+09:00'),
+        note: null,
+        totalCal: 416,
+        totalProtein: 33,
+        totalFat: 6,
+        totalCarb: 22.5,
+      },
+      include: { items: true },
+    });
+    // 移動元と移動先の両日を確定・更新する
+    expect(mockFinalizeDayScores).toHaveBeenCalledWith(TEST_USER, ['2026-01-25', '2026-01-26']);
+    expect(mockRecordFoodUse).toHaveBeenCalledWith(TEST_USER, [expect.objectContaining({ name: 'バナナ' })], updatedMeal.loggedAt);
   });
 });
 
@@ -247,7 +411,7 @@ describe('DELETE /api/meals/[id]', () => {
   });
 
   it('returns 204 and deletes meal + items', async () => {
-    mockFindUnique.mockResolvedValueOnce({ id: 'm1', userId: TEST_USER });
+    mockFindUnique.mockResolvedValueOnce({ id: 'm1', userId: TEST_USER, loggedAt: new Date('2026-01-25T12:30:00+09:00') });
     mockTransaction.mockResolvedValueOnce(undefined);
     const handler = (await import('@/pages/api/meals/[id]')).default;
     const req = mockReq({ method: 'DELETE', query: { id: 'm1' } });
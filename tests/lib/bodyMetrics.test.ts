@@ -0,0 +1,91 @@
+/**
+ * Tests for src/lib/bodyMetrics.ts
+ * 1日1件へのまとめ（手入力優先）、EWMA の傾向体重、からだ設定へのフォールバックを検証
+ */
+
+const mockFindMany = jest.fn();
+const mockGetPersonal = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: { bodyMetric: { findMany: (...args: unknown[]) => mockFindMany(...args) } },
+}));
+
+jest.mock("@/lib/dbConfig", () => ({
+  getPersonal: (...args: unknown[]) => mockGetPersonal(...args),
+}));
+
+import { computeTrend, getBodyWeightResolver, mergeByDate, trendAsOf, type BodyMetricEntry } from "@/lib/bodyMetrics";
+
+const entry = (date: string, source: string, values: Partial<BodyMetricEntry> = {}): BodyMetricEntry => ({
+  date,
+  source,
+  weightKg: null,
+  bodyFatPct: null,
+  waistCm: null,
+  ...values,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetPersonal.mockResolvedValue({ heightCm: 172, weightKg: 75, age: 35, sex: "male", activityLevel: "medium" });
+});
+
+describe("mergeByDate", () => {
+  it("同じ日は手入力を優先し、手入力に無い項目だけ同期分で補う", () => {
+    const merged = mergeByDate([
+      entry("2026-03-02", "appleHealth", { weightKg: 70 }),
+      entry("2026-03-01", "appleHealth", { weightKg: 71, bodyFatPct: 18 }),
+      entry("2026-03-01", "manual", { weightKg: 70.5 }),
+    ]);
+    expect(merged.map((e) => e.date)).toEqual(["2026-03-01", "2026-03-02"]);
+    expect(merged[0]).toMatchObject({ source: "manual", weightKg: 70.5, bodyFatPct: 18 });
+  });
+});
+
+describe("computeTrend", () => {
+  it("最初の記録を初期値にし、以降は α=0.1 で追従する", () => {
+    const trend = computeTrend([
+      { date: "2026-03-01", weightKg: 70 },
+      { date: "2026-03-02", weightKg: 71 },
+    ]);
+    expect(trend.map((t) => t.trendKg)).toEqual([70, 70.1]);
+  });
+
+  it("記録が空いた日数ぶん新しい記録の重みを大きくする", () => {
+    const trend = computeTrend([
+      { date: "2026-03-01", weightKg: 70 },
+      { date: "2026-03-03", weightKg: 71 },
+    ]);
+    // 1 - 0.9^2 = 0.19
+    expect(trend[1].trendKg).toBeCloseTo(70.19);
+  });
+
+  it("trendAsOf はその日以前の最後の傾向値、記録前は null", () => {
+    const trend = computeTrend([
+      { date: "2026-03-01", weightKg: 70 },
+      { date: "2026-03-05", weightKg: 72 },
+    ]);
+    expect(trendAsOf(trend, "2026-02-28")).toBeNull();
+    expect(trendAsOf(trend, "2026-03-03")).toBe(70);
+    expect(trendAsOf(trend, "2026-03-10")).toBe(trend[1].trendKg);
+  });
+});
+
+describe("getBodyWeightResolver", () => {
+  it("記録がある日は傾向体重、記録より前はからだ設定の体重を返す", async () => {
+    mockFindMany.mockResolvedValue([entry("2026-03-05", "manual", { weightKg: 80 })]);
+    const weightOf = await getBodyWeightResolver("u1", "2026-03-10");
+    expect(weightOf("2026-03-06")).toBe(80);
+    expect(weightOf("2026-03-01")).toBe(75);
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { ownerId: "u1", date: { lte: "2026-03-10" } } })
+    );
+  });
+
+  it("記録もからだ設定の体重も無ければ null", async () => {
+    mockFindMany.mockResolvedValue([entry("2026-03-05", "appleHealth", { bodyFatPct: 18 })]);
+    mockGetPersonal.mockResolvedValue({ heightCm: null, weightKg: null, age: null, sex: null, activityLevel: null });
+    const weightOf = await getBodyWeightResolver("u1");
+    expect(weightOf("2026-03-06")).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for src/lib/concurrency.ts
+ * 並行数の上限・結果の順序・失敗時の打ち切り、タイムアウトを検証
+ */
+
+import { mapWithConcurrency, TimeoutError, withTimeout } from "@/lib/concurrency";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("mapWithConcurrency", () => {
+  it("同時実行数を超えず、入力と同じ順で結果を返す", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const result = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(ms);
+      running--;
+      return i;
+    });
+
+    expect(result).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("失敗したら残りを開始せずに reject する", async () => {
+    const started: number[] = [];
+    const run = mapWithConcurrency([1, 2, 3, 4], 1, async (n) => {
+      started.push(n);
+      if (n === 2) throw new Error("boom");
+      return n;
+    });
+
+    await expect(run).rejects.toThrow("boom");
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("空の配列は空の結果", async () => {
+    expect(await mapWithConcurrency([], 3, async (n) => n)).toEqual([]);
+  });
+});
+
+describe("withTimeout", () => {
+  it("時間内に終われば結果を返す", async () => {
+    await expect(withTimeout(Promise.resolve("ok"), 50, "timeout")).resolves.toBe("ok");
+  });
+
+  it("時間内に終わらなければ TimeoutError", async () => {
+    const run = withTimeout(new Promise(() => {}), 10, "タイムアウト（10ms）");
+    await expect(run).rejects.toBeInstanceOf(TimeoutError);
+    await expect(run).rejects.toThrow("タイムアウト（10ms）");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for src/lib/credentialVault.ts
+ * Prisma をモックし、暗号化・復号と DB 保存形式を検証
+ */
+
+const mockUpsert = jest.fn().mockResolvedValue({});
+const mockFindUnique = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    userCredential: {
+      upsert: (...args: unknown[]) => mockUpsert(...args),
+      findUnique: (...args: unknown[]) => mockFindUnique(...args),
+    },
+  },
+}));
+
+import {
+  CredentialVaultError,
+  decryptSecret,
+  encryptSecret,
+  getCredential,
+  isCredentialVaultConfigured,
+  saveCredential,
+} from "@/lib/credentialVault";
+
+const KEY_HEX = "a".repeat(64);
+const ORIGINAL_KEY = process.env.CREDENTIAL_ENCRYPTION_KEY;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.CREDENTIAL_ENCRYPTION_KEY = KEY_HEX;
+});
+
+afterAll(() => {
+  if (ORIGINAL_KEY === undefined) delete process.env.CREDENTIAL_ENCRYPTION_KEY;
+  else process.env.CREDENTIAL_ENCRYPTION_KEY = ORIGINAL_KEY;
+});
+
+describe("encryptSecret / decryptSecret", () => {
+  it("同じユーザー・ソースなら復号できる", () => {
+    const sealed = encryptSecret("secret-value", "user-1", "asken");
+    expect(sealed.ciphertext).not.toContain("secret-value");
+    expect(decryptSecret(sealed, "user-1", "asken")).toBe("secret-value");
+  });
+
+  it("別ユーザー・別ソースの行に付け替えると復号できない", () => {
+    const sealed = encryptSecret("secret-value", "user-1", "asken");
+    expect(() => decryptSecret(sealed, "user-2", "asken")).toThrow(CredentialVaultError);
+    expect(() => decryptSecret(sealed, "user-1", "google")).toThrow(CredentialVaultError);
+  });
+
+  it("鍵が変わると復号できない（エラーメッセージに平文を含めない）", () => {
+    const sealed = encryptSecret("secret-value", "user-1", "asken");
+    process.env.CREDENTIAL_ENCRYPTION_KEY = Buffer.alloc(32, 1).toString("base64");
+    expect(() => decryptSecret(sealed, "user-1", "asken")).toThrow(CredentialVaultError);
+    try {
+      decryptSecret(sealed, "user-1", "asken");
+    } catch (e) {
+      expect(String(e)).not.toContain("secret-value");
+    }
+  });
+
+  it("鍵が未設定・32バイトでないときは暗号化しない", () => {
+    process.env.CREDENTIAL_ENCRYPTION_KEY = "short";
+    expect(isCredentialVaultConfigured()).toBe(false);
+    expect(() => encryptSecret("x", "user-1", "asken")).toThrow(CredentialVaultError);
+  });
+});
+
+describe("saveCredential / getCredential", () => {
+  it("暗号文だけを保存し、読み出すと元の値に戻る", async () => {
+    await saveCredential("user-1", "asken", { email: "a@example.com", password: "pw" });
+
+    const args = mockUpsert.mock.calls[0][0];
+    expect(args.where).toEqual({ userId_source: { userId: "user-1", source: "asken" } });
+    expect(JSON.stringify(args)).not.toContain("pw\"");
+    expect(JSON.stringify(args)).not.toContain("a@example.com");
+
+    const { iv, authTag, ciphertext } = args.create;
+    mockFindUnique.mockResolvedValueOnce({ iv, authTag, ciphertext });
+    await expect(getCredential("user-1", "asken")).resolves.toEqual({ email: "a@example.com", password: "pw" });
+  });
+
+  it("未保存なら null", async () => {
+    mockFindUnique.mockResolvedValueOnce(null);
+    await expect(getCredential("user-1", "google")).resolves.toBeNull();
+  });
+
+  it("鍵未設定なら DB を見ずに null（env フォールバックを妨げない）", async () => {
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY;
+    await expect(getCredential("user-1", "asken")).resolves.toBeNull();
+    expect(mockFindUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for src/lib/dataExport.ts
+ * CSV の平坦化、期間・所有者での絞り込み、JSON / CSV のファイル構成と manifest を検証
+ */
+
+const mockDailyFindMany = jest.fn();
+const mockMealFindMany = jest.fn();
+const mockEvalFindMany = jest.fn();
+const mockConfigFindUnique = jest.fn();
+const mockScrapingFindMany = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    dailyData: { findMany: (...args: unknown[]) => mockDailyFindMany(...args) },
+    mealLog: { findMany: (...args: unknown[]) => mockMealFindMany(...args) },
+    aiEvaluation: { findMany: (...args: unknown[]) => mockEvalFindMany(...args) },
+    userConfig: { findUnique: (...args: unknown[]) => mockConfigFindUnique(...args) },
+    scrapingLog: { findMany: (...args: unknown[]) => mockScrapingFindMany(...args) },
+  },
+}));
+
+import { buildExportManifest, EXPORT_SCHEMA_VERSION, exportFiles, toCsv, type ExportFile, type ExportOptions } from "@/lib/dataExport";
+
+const MEAL = {
+  id: "m1",
+  userId: "user-1",
+  loggedAt: new Date("2026-03-01T12:00:00+09:00"),
+  mealType: "昼食",
+  source: "manual",
+  note: 'メモ, "引用"',
+  totalCal: 500,
+  totalProtein: 30,
+  totalFat: 10,
+  totalCarb: 60,
+  createdAt: new Date("2026-03-01T12:00:00+09:00"),
+  updatedAt: new Date("2026-03-01T12:00:00+09:00"),
+  items: [{ id: "i1", mealId: "m1", name: "定食", amount: 1, unit: "食", cal: 500, protein: 30, fat: 10, carb: 60 }],
+};
+
+async function collect(ownerId: string, options: ExportOptions): Promise<ExportFile[]> {
+  const files: ExportFile[] = [];
+  for await (const f of exportFiles(ownerId, options)) files.push(f);
+  return files;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockDailyFindMany.mockResolvedValue([{ id: "d1", date: "2026-03-01", ownerId: "user-1", askenItems: [{ name: "定食" }], steps: 8000 }]);
+  mockMealFindMany.mockResolvedValue([MEAL]);
+  mockEvalFindMany.mockResolvedValue([]);
+  mockConfigFindUnique.mockResolvedValue({ userId: "user-1", goals: { calories: 2000 } });
+  mockScrapingFindMany.mockResolvedValue([]);
+});
+
+describe("toCsv", () => {
+  it("JSON 列は JSON 文字列、日時は ISO、区切り文字・引用符を含む値は引用する", () => {
+    expect(
+      toCsv(["id", "note", "items", "at", "empty"], [
+        { id: "a", note: 'x, "y"', items: [{ n: 1 }], at: new Date("2026-03-01T00:00:00Z"), empty: null },
+      ])
+    ).toBe('id,note,items,at,empty\r\na,"x, ""y""","[{""n"":1}]",2026-03-01T00:00:00.000Z,\r\n');
+  });
+});
+
+describe("exportFiles", () => {
+  it("期間で絞り込み、MealLog は実効日（JST 5:00 区切り）で取る", async () => {
+    await collect("user-1", { from: "2026-03-01", to: "2026-03-31", format: "json" });
+
+    expect(mockDailyFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { ownerId: "user-1", date: { gte: "2026-03-01", lte: "2026-03-31" } } })
+    );
+    expect(mockMealFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: "user-1",
+          loggedAt: { gte: new Date("2026-03-01T05:00:00+09:00"), lt: new Date("2026-04-01T05:00:00+09:00") },
+        },
+      })
+    );
+    expect(mockEvalFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { ownerId: "user-1", date: { gte: "2026-03-01", lte: "2026-03-31" } } })
+    );
+    expect(mockScrapingFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { ownerId: "user-1", date: { gte: "2026-03-01", lte: "2026-03-31" } } })
+    );
+  });
+
+  it("default ユーザーは ownerId 導入前（null）の AI 評価も含める", async () => {
+    await collect("default", { format: "json" });
+    expect(mockEvalFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { OR: [{ ownerId: "default" }, { ownerId: null }] } })
+    );
+    expect(mockScrapingFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { OR: [{ ownerId: "default" }, { ownerId: null }] } })
+    );
+  });
+
+  it("JSON は items を入れ子にし、CSV は meal_items.csv に分ける", async () => {
+    const json = await collect("user-1", { format: "json" });
+    expect(json.map((f) => [f.path, f.count])).toEqual([
+      ["daily_data.json", 1],
+      ["meal_logs.json", 1],
+      ["ai_evaluations.json", 0],
+      ["user_config.json", 1],
+      ["scraping_logs.json", 0],
+    ]);
+    expect(JSON.parse(json[1].content)[0].items[0].name).toBe("定食");
+    expect(JSON.parse(json[3].content)).toEqual({ userId: "user-1", goals: { calories: 2000 } });
+
+    const csv = await collect("user-1", { format: "csv" });
+    expect(csv.map((f) => f.path)).toEqual([
+      "daily_data.csv",
+      "meal_logs.csv",
+      "meal_items.csv",
+      "ai_evaluations.csv",
+      "user_config.csv",
+      "scraping_logs.csv",
+    ]);
+    const [mealHeader, mealRow] = csv[1].content.split("\r\n");
+    expect(mealHeader.split(",")).not.toContain("items");
+    expect(mealRow).toContain('"メモ, ""引用"""');
+    expect(csv[2].content.split("\r\n")[0]).toBe("id,mealId,name,amount,unit,cal,protein,fat,carb,createdAt");
+    expect(csv[0].content).toContain('"[{""name"":""定食""}]"');
+  });
+});
+
+describe("buildExportManifest", () => {
+  it("schemaVersion・期間・ファイルごとの件数を入れる", () => {
+    const manifest = buildExportManifest(
+      "user-1",
+      { from: "2026-03-01", format: "csv" },
+      [{ path: "daily_data.csv", table: "DailyData", count: 3, content: "..." }],
+      new Date("2026-04-01T00:00:00Z")
+    );
+    expect(manifest).toEqual({
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      app: "nutrition-app",
+      exportedAt: "2026-04-01T00:00:00.000Z",
+      ownerId: "user-1",
+      range: { from: "2026-03-01", to: null },
+      format: "csv",
+      files: [{ path: "daily_data.csv", table: "DailyData", count: 3 }],
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Tests for src/lib/dataImport.ts
+ * ZIP・manifest の検証、JSON / CSV の読み込み、strategy ごとの差分と dryRun を検証
+ */
+
+const mockDailyFindMany = jest.fn();
+const mockDailyCreate = jest.fn();
+const mockDailyUpdate = jest.fn();
+const mockMealFindMany = jest.fn();
+const mockMealCreate = jest.fn();
+const mockMealUpdate = jest.fn();
+const mockEvalFindMany = jest.fn();
+const mockEvalCreate = jest.fn();
+const mockConfigFindUnique = jest.fn();
+const mockConfigCreate = jest.fn();
+const mockConfigUpdate = jest.fn();
+const mockTransaction = jest.fn();
+
+jest.mock("@/lib/prisma", () => {
+  const client = {
+    dailyData: {
+      findMany: (...args: unknown[]) => mockDailyFindMany(...args),
+      create: (...args: unknown[]) => mockDailyCreate(...args),
+      update: (...args: unknown[]) => mockDailyUpdate(...args),
+    },
+    mealLog: {
+      findMany: (...args: unknown[]) => mockMealFindMany(...args),
+      create: (...args: unknown[]) => mockMealCreate(...args),
+      update: (...args: unknown[]) => mockMealUpdate(...args),
+    },
+    aiEvaluation: {
+      findMany: (...args: unknown[]) => mockEvalFindMany(...args),
+      create: (...args: unknown[]) => mockEvalCreate(...args),
+    },
+    userConfig: {
+      findUnique: (...args: unknown[]) => mockConfigFindUnique(...args),
+      create: (...args: unknown[]) => mockConfigCreate(...args),
+      update: (...args: unknown[]) => mockConfigUpdate(...args),
+    },
+  };
+  return {
+    prisma: {
+      ...client,
+      $transaction: (fn: (tx: unknown) => Promise<unknown>, options: unknown) => {
+        mockTransaction(options);
+        return fn(client);
+      },
+    },
+  };
+});
+
+const mockFinalizeDayScores = jest.fn().mockResolvedValue({ finalized: 0, updated: 0 });
+jest.mock("@/lib/scoreSnapshots", () => ({
+  finalizeDayScores: (...args: unknown[]) => mockFinalizeDayScores(...args),
+}));
+
+import { Prisma } from "@prisma/client";
+import { buildExportManifest, toCsv, type ExportFile } from "@/lib/dataExport";
+import { ImportBundleError, importBundle, readImportBundle, type ImportBundle } from "@/lib/dataImport";
+import { ZipFormatError, ZipWriter, readZip } from "@/lib/zip";
+
+const LOGGED_AT = "2026-03-01T03:00:00.000Z";
+
+const DAY = {
+  id: "d1",
+  date: "2026-03-01",
+  ownerId: "colleague",
+  askenItems: [{ name: "定食" }],
+  steps: 8000,
+  weightKg: 70.5,
+  sleepMinutes: null,
+  hasHiking: false,
+};
+
+const MEAL = {
+  id: "m1",
+  userId: "colleague",
+  loggedAt: LOGGED_AT,
+  mealType: "昼食",
+  source: "manual",
+  note: 'メモ, "引用"',
+  items: [{ id: "i1", mealId: "m1", name: "定食", amount: 1, unit: "食", cal: 500, protein: 30, fat: 10, carb: 60 }],
+};
+
+const EVALUATION = {
+  id: "e1",
+  date: "2026-03-01",
+  ownerId: "colleague",
+  type: "daily",
+  model: "gemini",
+  prompt: "p",
+  response: "r",
+  trigger: "manual",
+  createdAt: "2026-03-01T15:00:00.000Z",
+};
+
+function zip(entries: Record<string, string>): Buffer {
+  const chunks: Buffer[] = [];
+  const writer = new ZipWriter({ write: (c: Buffer) => chunks.push(c) });
+  for (const [path, content] of Object.entries(entries)) writer.addFile(path, content);
+  writer.finish();
+  return Buffer.concat(chunks);
+}
+
+function bundleZip(format: "json" | "csv", files: ExportFile[], manifestOverrides: Record<string, unknown> = {}): Buffer {
+  const manifest = { ...buildExportManifest("colleague", { format }, files), ...manifestOverrides };
+  return zip({
+    ...Object.fromEntries(files.map((f) => [f.path, f.content])),
+    "manifest.json": JSON.stringify(manifest),
+  });
+}
+
+const jsonFiles = (): ExportFile[] => [
+  { path: "daily_data.json", table: "DailyData", count: 1, content: JSON.stringify([DAY]) },
+  { path: "meal_logs.json", table: "MealLog", count: 1, content: JSON.stringify([MEAL]) },
+  { path: "ai_evaluations.json", table: "AiEvaluation", count: 1, content: JSON.stringify([EVALUATION]) },
+  { path: "user_config.json", table: "UserConfig", count: 1, content: JSON.stringify({ userId: "colleague", goals: { calories: 2000 } }) },
+  { path: "scraping_logs.json", table: "ScrapingLog", count: 2, content: "[]" },
+];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockDailyFindMany.mockResolvedValue([]);
+  mockMealFindMany.mockResolvedValue([]);
+  mockEvalFindMany.mockResolvedValue([]);
+  mockConfigFindUnique.mockResolvedValue(null);
+});
+
+describe("readZip", () => {
+  it("ZipWriter で書いた ZIP を読み戻す", () => {
+    const files = readZip(zip({ "a.txt": "あいう", "dir/b.json": "{}" }));
+    expect([...files.keys()]).toEqual(["a.txt", "dir/b.json"]);
+    expect(files.get("a.txt")?.toString("utf8")).toBe("あいう");
+  });
+
+  it("宣言より大きく展開されるファイル・展開後の合計が上限を超える ZIP は ZipFormatError", () => {
+    const buf = zip({ "a.txt": "a".repeat(1000) });
+    const central = buf.readUInt32LE(buf.length - 22 + 16);
+    const tampered = Buffer.from(buf);
+    tampered.writeUInt32LE(10, central + 24);
+
+    expect(() => readZip(tampered)).toThrow(ZipFormatError);
+    expect(() => readZip(tampered)).toThrow("a.txt: 展開後のサイズが宣言より大きいです");
+    expect(() => readZip(buf, 999)).toThrow("展開後のサイズが上限（999 バイト）を超えます");
+  });
+});
+
+describe("readImportBundle", () => {
+  it("JSON と CSV のどちらも同じ内容に読む（CSV の品目は食事に戻す）", () => {
+    const fromJson = readImportBundle(bundleZip("json", jsonFiles()));
+    const csvFiles: ExportFile[] = [
+      { path: "daily_data.csv", table: "DailyData", count: 1, content: toCsv(Object.keys(DAY), [DAY]) },
+      {
+        path: "meal_logs.csv",
+        table: "MealLog",
+        count: 1,
+        content: toCsv(["id", "userId", "loggedAt", "mealType", "source", "note"], [MEAL]),
+      },
+      { path: "meal_items.csv", table: "MealItem", count: 1, content: toCsv(Object.keys(MEAL.items[0]), MEAL.items) },
+      { path: "ai_evaluations.csv", table: "AiEvaluation", count: 1, content: toCsv(Object.keys(EVALUATION), [EVALUATION]) },
+      {
+        path: "user_config.csv",
+        table: "UserConfig",
+        count: 1,
+        content: toCsv(["userId", "goals"], [{ userId: "colleague", goals: { calories: 2000 } }]),
+      },
+      { path: "scraping_logs.csv", table: "ScrapingLog", count: 2, content: "" },
+    ];
+    const fromCsv = readImportBundle(bundleZip("csv", csvFiles));
+
+    const { manifest: _m1, ...json } = fromJson;
+    const { manifest: _m2, ...csv } = fromCsv;
+    expect(csv).toEqual(json);
+    expect(json.dailyData[0]).toEqual(
+      expect.objectContaining({ date: "2026-03-01", askenItems: [{ name: "定食" }], steps: 8000, sleepMinutes: null })
+    );
+    expect(json.mealLogs[0].loggedAt).toEqual(new Date(LOGGED_AT));
+    expect(json.mealLogs[0].items).toHaveLength(1);
+    expect(json.userConfig).toEqual(expect.objectContaining({ goals: { calories: 2000 } }));
+    expect(json.scrapingLogCount).toBe(2);
+  });
+
+  it("未対応の schemaVersion・manifest の無い ZIP・ZIP でないものは ImportBundleError", () => {
+    expect(() => readImportBundle(bundleZip("json", jsonFiles(), { schemaVersion: 99 }))).toThrow(
+      "未対応の schemaVersion です: 99"
+    );
+    expect(() => readImportBundle(zip({ "daily_data.json": "[]" }))).toThrow(ImportBundleError);
+    expect(() => readImportBundle(Buffer.from("not a zip"))).toThrow(ImportBundleError);
+  });
+
+  it("不正な行は行番号つきで ImportBundleError", () => {
+    const files = jsonFiles();
+    files[0].content = JSON.stringify([DAY, { ...DAY, date: "2026/03/02" }]);
+    expect(() => readImportBundle(bundleZip("json", files))).toThrow(/daily_data\.json 2件目 date/);
+  });
+});
+
+describe("importBundle", () => {
+  const bundle = (): ImportBundle => readImportBundle(bundleZip("json", jsonFiles()));
+
+  it("dryRun は差分だけ返して書き込まない", async () => {
+    const report = await importBundle("user-1", bundle(), { strategy: "skip", dryRun: true });
+
+    expect(report.DailyData).toEqual({ create: 1, update: 0, skip: 0, changes: [{ key: "2026-03-01", action: "create" }] });
+    expect(report.MealLog.create).toBe(1);
+    expect(report.AiEvaluation.create).toBe(1);
+    expect(report.UserConfig.create).toBe(1);
+    expect(report.ScrapingLog).toEqual({ ignored: 2 });
+    expect(mockTransaction).not.toHaveBeenCalled();
+    expect(mockDailyCreate).not.toHaveBeenCalled();
+    expect(mockMealCreate).not.toHaveBeenCalled();
+    expect(mockFinalizeDayScores).not.toHaveBeenCalled();
+  });
+
+  it("呼び出したユーザーの ownerId で作成し、食事の合計を入れ直す", async () => {
+    await importBundle("user-1", bundle(), { strategy: "skip", dryRun: false });
+
+    expect(mockDailyCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ ownerId: "user-1", date: "2026-03-01", steps: 8000, sleepMinutes: null, strongData: Prisma.DbNull }),
+    });
+    expect(mockMealCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        loggedAt: new Date(LOGGED_AT),
+        totalCal: 500,
+        user: { connectOrCreate: { where: { id: "user-1" }, create: { id: "user-1" } } },
+        items: { create: [{ name: "定食", amount: 1, unit: "食", cal: 500, protein: 30, fat: 10, carb: 60 }] },
+      }),
+    });
+    expect(mockEvalCreate).toHaveBeenCalledWith({ data: expect.objectContaining({ ownerId: "user-1", type: "daily" }) });
+    expect(mockConfigCreate).toHaveBeenCalledWith({ data: expect.objectContaining({ userId: "user-1", goals: { calories: 2000 } }) });
+    expect(mockTransaction).toHaveBeenCalledWith({ timeout: expect.any(Number) });
+    expect(mockFinalizeDayScores).toHaveBeenCalledWith("user-1", ["2026-03-01"]);
+  });
+
+  describe("既存の日・食事がある場合", () => {
+    beforeEach(() => {
+      mockDailyFindMany.mockResolvedValue([
+        { id: "existing-day", date: "2026-03-01", askenItems: [{ name: "定食" }], steps: 5000, weightKg: null, sleepMinutes: 420, hasHiking: false },
+      ]);
+      mockMealFindMany.mockResolvedValue([
+        {
+          id: "existing-meal",
+          loggedAt: new Date(LOGGED_AT),
+          mealType: "昼食",
+          source: "manual",
+          note: null,
+          items: [{ id: "x", name: "サラダ", amount: null, unit: null, cal: 50, protein: null, fat: null, carb: null }],
+        },
+      ]);
+      mockEvalFindMany.mockResolvedValue([{ date: "2026-03-01", type: "daily", createdAt: new Date(EVALUATION.createdAt) }]);
+    });
+
+    it("skip は既存を触らない", async () => {
+      const report = await importBundle("user-1", bundle(), { strategy: "skip", dryRun: false });
+
+      expect(report.DailyData.skip).toBe(1);
+      expect(report.MealLog.skip).toBe(1);
+      expect(report.AiEvaluation.skip).toBe(1);
+      expect(mockDailyUpdate).not.toHaveBeenCalled();
+      expect(mockMealUpdate).not.toHaveBeenCalled();
+      expect(mockEvalCreate).not.toHaveBeenCalled();
+    });
+
+    it("overwrite は値の違う項目を置き換え、品目も入れ替える", async () => {
+      const report = await importBundle("user-1", bundle(), { strategy: "overwrite", dryRun: false });
+
+      expect(report.DailyData.changes).toEqual([{ key: "2026-03-01", action: "update", fields: ["steps", "sleepMinutes", "weightKg"] }]);
+      expect(mockDailyUpdate).toHaveBeenCalledWith({
+        where: { id: "existing-day" },
+        data: { steps: 8000, sleepMinutes: null, weightKg: 70.5 },
+      });
+      expect(mockMealUpdate).toHaveBeenCalledWith({
+        where: { id: "existing-meal" },
+        data: expect.objectContaining({
+          note: 'メモ, "引用"',
+          totalCal: 500,
+          items: { deleteMany: {}, create: [expect.objectContaining({ name: "定食" })] },
+        }),
+      });
+    });
+
+    it("merge は既存が空の項目だけ埋め、無い品目名を追加する", async () => {
+      const report = await importBundle("user-1", bundle(), { strategy: "merge", dryRun: false });
+
+      expect(mockDailyUpdate).toHaveBeenCalledWith({ where: { id: "existing-day" }, data: { weightKg: 70.5 } });
+      expect(report.MealLog.changes).toEqual([{ key: `${LOGGED_AT} 昼食`, action: "update", fields: ["note", "items"] }]);
+      expect(mockMealUpdate).toHaveBeenCalledWith({
+        where: { id: "existing-meal" },
+        data: expect.objectContaining({
+          totalCal: 550,
+          totalProtein: 30,
+          items: { create: [expect.objectContaining({ name: "定食" })] },
+        }),
+      });
+    });
+  });
+});
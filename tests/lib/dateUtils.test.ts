@@ -3,7 +3,13 @@
  * 「朝5時までは前日扱い」のJST境界と、サーバーTZ非依存のフォーマットを検証する。
  * すべて固定時刻（UTCエポック）を渡すため、実行環境のTZに関係なく同じ結果になる。
  */
-import { getEffectiveToday, getEffectiveTodayStr, formatDateJst } from "@/lib/dateUtils";
+import {
+  getEffectiveToday,
+  getEffectiveTodayStr,
+  formatDateJst,
+  formatEffectiveDateJst,
+  getEffectiveDayRange,
+} from "@/lib/dateUtils";
 
 /** JSTの年月日時分からUTCのDateを作る補助 */
 function jst(y: number, mo: number, d: number, h: number, mi = 0): Date {
@@ -60,3 +66,22 @@ describe("getEffectiveToday", () => {
     expect(getEffectiveToday(now).getTime()).toBe(now.getTime());
   });
 });
+
+describe("getEffectiveDayRange", () => {
+  it("JST 05:00 から翌日 05:00 の手前まで", () => {
+    const { start, end } = getEffectiveDayRange("2026-07-19");
+    expect(start.getTime()).toBe(jst(2026, 7, 19, 5, 0).getTime());
+    expect(end.getTime()).toBe(jst(2026, 7, 20, 5, 0).getTime());
+    expect(getEffectiveTodayStr(start)).toBe("2026-07-19");
+    expect(getEffectiveTodayStr(new Date(end.getTime() - 1))).toBe("2026-07-19");
+    expect(getEffectiveTodayStr(end)).toBe("2026-07-20");
+  });
+});
+
+describe("formatEffectiveDateJst", () => {
+  it("JST 5:00 より前の時刻は前日の実効日になる", () => {
+    expect(formatEffectiveDateJst(jst(2026, 7, 20, 1, 30))).toBe("2026-07-19");
+    expect(formatEffectiveDateJst(jst(2026, 7, 20, 5, 0))).toBe("2026-07-20");
+    expect(formatDateJst(jst(2026, 7, 20, 1, 30))).toBe("2026-07-20");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for src/lib/dayIntake.ts
+ * あすけん・手入力の合算と重複除外のルールと、手入力の食事の実効日への振り分けを検証
+ */
+
+const mockMealFindMany = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: { mealLog: { findMany: (...args: unknown[]) => mockMealFindMany(...args) } },
+}));
+
+import { computeDayIntake, getManualMealsByDate, type ManualMeal } from "@/lib/dayIntake";
+
+const manual = (
+  mealType: string,
+  items: Partial<ManualMeal["items"][number]>[],
+  source: string | null = null
+): ManualMeal => ({
+  id: `m-${mealType}`,
+  loggedAt: new Date("2026-03-01T12:00:00+09:00"),
+  mealType,
+  source,
+  items: items.map((it) => ({ name: "品目", amount: null, unit: null, cal: null, protein: null, fat: null, carb: null, ...it })),
+});
+
+describe("computeDayIntake", () => {
+  it("あすけんは栄養素を優先し、栄養素の無い食事タイプは品目のカロリーで補う", () => {
+    const intake = computeDayIntake({
+      askenNutrients: { 朝食: { エネルギー: "500kcal", たんぱく質: "20g", 脂質: "15g", 糖質: "60g" } },
+      askenItems: [
+        { mealType: "朝食", name: "トースト", amount: "1枚", calories: 480 },
+        { mealType: "間食", name: "クッキー", amount: "3本", calories: 117 },
+      ],
+    });
+    expect(intake.calories).toBe(617);
+    expect(intake).toMatchObject({ protein: 20, fat: 15, carbs: 60, caloriesWithoutPfc: 117 });
+    expect(intake.items).toHaveLength(2);
+    expect(intake.nutrients).toMatchObject({ energy: { value: 617, unit: "kcal" }, sugar: { value: 60, unit: "g" } });
+  });
+
+  it("手入力の品目を合算し、PFC の無い品目はカロリーだけ数える", () => {
+    const intake = computeDayIntake({
+      askenNutrients: null,
+      askenItems: null,
+      manualMeals: [
+        manual("間食", [
+          { name: "プロテインバー", amount: 1, unit: "本", cal: 200, protein: 15, fat: 8, carb: 20 },
+          { name: "コーヒー", cal: 10 },
+        ]),
+      ],
+    });
+    expect(intake).toMatchObject({ calories: 210, protein: 15, fat: 8, carbs: 20, caloriesWithoutPfc: 10 });
+    expect(intake.items[0]).toMatchObject({ source: "manual", amount: "1本", mealLogId: "m-間食" });
+    expect(intake.bySource.manual).toEqual({ calories: 210, items: 2 });
+  });
+
+  it("あすけん品目と名前・カロリーが同じ手入力品目、あすけん取り込みの MealLog は重複として除外する", () => {
+    const intake = computeDayIntake({
+      askenNutrients: null,
+      askenItems: [{ mealType: "昼食", name: "おにぎり", amount: "1個", calories: 180 }],
+      manualMeals: [
+        manual("昼食", [{ name: " おにぎり ", cal: 180 }, { name: "味噌汁", cal: 40 }]),
+        manual("昼食", [{ name: "サラダ", cal: 80 }], "asken"),
+        manual("夕食", [{ name: "サラダ", cal: 80 }], "asken"),
+      ],
+    });
+    expect(intake.calories).toBe(180 + 40 + 80);
+    expect(intake.duplicatesSkipped).toBe(2);
+    expect(intake.items.map((i) => `${i.source}:${i.mealType}:${i.name}`)).toEqual([
+      "asken:昼食:おにぎり",
+      "manual:昼食:味噌汁",
+      "manual:夕食:サラダ",
+    ]);
+  });
+});
+
+describe("getManualMealsByDate", () => {
+  it("JST 5:00 区切りの実効日で読み、翌 0:00〜5:00 の食事は前日に入れる", async () => {
+    const at = (iso: string) => ({ ...manual("夜食", []), id: iso, loggedAt: new Date(iso) });
+    mockMealFindMany.mockResolvedValueOnce([at("2026-03-01T20:00:00+09:00"), at("2026-03-02T01:30:00+09:00")]);
+
+    const byDate = await getManualMealsByDate("u1", { from: "2026-03-01", to: "2026-03-01" });
+
+    expect(mockMealFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: "u1",
+          loggedAt: { gte: new Date("2026-03-01T05:00:00+09:00"), lt: new Date("2026-03-02T05:00:00+09:00") },
+        },
+      })
+    );
+    expect([...byDate.keys()]).toEqual(["2026-03-01"]);
+    expect(byDate.get("2026-03-01")).toHaveLength(2);
+  });
+});
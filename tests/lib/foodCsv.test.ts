@@ -0,0 +1,123 @@
+/**
+ * Tests for src/lib/sources/foodCsv.ts
+ * MyFitnessPal / Cronometer CSV → NutritionDayResult の変換を検証
+ */
+
+jest.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import { detectFoodCsvFormat, mergeFoodCsvDays, parseFoodCsv } from "@/lib/sources/foodCsv";
+
+const CRONOMETER_CSV = [
+  "Day,Time,Group,Food Name,Amount,Category,Energy (kcal),Protein (g),Carbs (g),Fat (g),Fiber (g),Sodium (mg),Vitamin D (IU),B1 (Thiamine) (mg)",
+  '2026-03-01,08:00,Breakfast,"Oatmeal, cooked",1.00 cup,Grains,160,6,27,3.2,4,10,0,0.3',
+  "2026-03-01,08:05,Breakfast,Milk,200 ml,Dairy,130,6.6,9.6,7.6,0,100,100,0.08",
+  "2026-03-01,12:30,Lunch,Chicken Breast,150 g,Meat,248,46.5,0,5.4,0,111,0,0.1",
+  "2026-03-01,15:00,Uncategorized,Protein Bar,1 bar,Snacks,200,20,22,7,3,150,0,0",
+  "2026-03-02,19:00,Dinner,Rice,200 g,Grains,312,5,69,0.6,0.6,2,0,0.04",
+].join("\n");
+
+const MFP_CSV = [
+  "Date,Meal,Calories,Fat (g),Saturated Fat,Cholesterol,Sodium (mg),Potassium,Carbohydrates (g),Fiber,Sugar,Protein (g),Vitamin C,Calcium,Iron,Note",
+  "2026-03-01,Breakfast,420,12.5,3,20,300,400,55,5,10,20,10,15,8,",
+  "2026-03-01,Snacks,150,5,1,0,50,100,20,1,15,3,0,2,1,",
+  "3/2/2026,Dinner,700,25,8,90,900,600,70,6,5,45,20,10,15,",
+].join("\n");
+
+describe("detectFoodCsvFormat", () => {
+  it("ヘッダーで Cronometer / MyFitnessPal を判定する", () => {
+    expect(detectFoodCsvFormat(["Day", "Group", "Food Name", "Energy (kcal)"])).toBe("cronometer");
+    expect(detectFoodCsvFormat(["Date", "Meal", "Calories", "Protein (g)"])).toBe("myfitnesspal");
+    expect(detectFoodCsvFormat(["date", "name"])).toBeNull();
+  });
+});
+
+describe("parseFoodCsv (Cronometer)", () => {
+  const result = parseFoodCsv(CRONOMETER_CSV);
+
+  it("食品ごとに items を作り、食事区分をあすけん表記にする", () => {
+    expect(result.format).toBe("cronometer");
+    expect(result.errors).toEqual([]);
+    const day = result.days.get("2026-03-01")!;
+    expect(day.items).toEqual([
+      { mealType: "朝食", name: "Oatmeal, cooked", amount: "1.00 cup", calories: 160 },
+      { mealType: "朝食", name: "Milk", amount: "200 ml", calories: 130 },
+      { mealType: "昼食", name: "Chicken Breast", amount: "150 g", calories: 248 },
+      { mealType: "間食", name: "Protein Bar", amount: "1 bar", calories: 200 },
+    ]);
+  });
+
+  it("食事ごとに栄養素を合計し、あすけんと同じキー・単位付き文字列にする", () => {
+    const breakfast = result.days.get("2026-03-01")!.nutrients["朝食"]!;
+    expect(breakfast["エネルギー"]).toBe("290kcal");
+    expect(breakfast["たんぱく質"]).toBe("12.6g");
+    expect(breakfast["炭水化物"]).toBe("36.6g");
+    expect(breakfast["脂質"]).toBe("10.8g");
+    expect(breakfast["ナトリウム"]).toBe("110mg");
+    expect(breakfast["食塩相当量"]).toBe("0.3g");
+    expect(breakfast["ビタミンB1"]).toBe("0.4mg");
+    // IU の列は単位が違うため取り込まない
+    expect(breakfast["ビタミンD"]).toBeUndefined();
+  });
+
+  it("日付ごとに分ける", () => {
+    expect(Array.from(result.days.keys())).toEqual(["2026-03-01", "2026-03-02"]);
+    expect(Object.keys(result.days.get("2026-03-02")!.nutrients)).toEqual(["夕食"]);
+  });
+});
+
+describe("parseFoodCsv (MyFitnessPal)", () => {
+  const result = parseFoodCsv(MFP_CSV);
+
+  it("食事ごとに1件の items を作る", () => {
+    expect(result.format).toBe("myfitnesspal");
+    expect(result.days.get("2026-03-01")!.items).toEqual([
+      { mealType: "朝食", name: "朝食（MyFitnessPal）", amount: "", calories: 420 },
+      { mealType: "間食", name: "間食（MyFitnessPal）", amount: "", calories: 150 },
+    ]);
+  });
+
+  it("単位の無い %DV 列（Vitamin C・Calcium・Iron）は取り込まない", () => {
+    const breakfast = result.days.get("2026-03-01")!.nutrients["朝食"]!;
+    expect(breakfast).toMatchObject({
+      エネルギー: "420kcal",
+      たんぱく質: "20g",
+      脂質: "12.5g",
+      炭水化物: "55g",
+      食物繊維: "5g",
+      カリウム: "400mg",
+    });
+    expect(breakfast["ビタミンC"]).toBeUndefined();
+    expect(breakfast["カルシウム"]).toBeUndefined();
+    expect(breakfast["鉄"]).toBeUndefined();
+  });
+
+  it("M/D/YYYY の日付も読む", () => {
+    expect(result.days.has("2026-03-02")).toBe(true);
+  });
+});
+
+describe("parseFoodCsv (エラー)", () => {
+  it("認識できない CSV は format null", () => {
+    const result = parseFoodCsv("a,b\n1,2");
+    expect(result.format).toBeNull();
+    expect(result.days.size).toBe(0);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  it("日付を解釈できない行は飛ばしてエラーに積む", () => {
+    const result = parseFoodCsv("Date,Meal,Calories\nyesterday,Lunch,500\n2026-03-01,Lunch,600");
+    expect(result.errors).toEqual(["2行目: 日付を解釈できません (yesterday)"]);
+    expect(result.days.get("2026-03-01")!.items[0].calories).toBe(600);
+  });
+});
+
+describe("mergeFoodCsvDays", () => {
+  it("同じ日付は後の結果で置き換える", () => {
+    const older = parseFoodCsv("Date,Meal,Calories\n2026-03-01,Lunch,500\n2026-03-02,Lunch,400");
+    const newer = parseFoodCsv("Date,Meal,Calories\n2026-03-01,Lunch,650");
+    const merged = mergeFoodCsvDays([older, newer]);
+    expect(merged.get("2026-03-01")!.items).toHaveLength(1);
+    expect(merged.get("2026-03-01")!.items[0].calories).toBe(650);
+    expect(merged.get("2026-03-02")!.items[0].calories).toBe(400);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for src/lib/foods.ts
+ * 量の表記のパース、量あたりの栄養素への換算、履歴からのカタログ作成と再作成時の手入力食品の扱いを検証
+ */
+
+const mockFoodFindMany = jest.fn();
+const mockFoodUpsert = jest.fn((args: unknown) => args);
+const mockMealItemFindMany = jest.fn();
+const mockDailyFindMany = jest.fn();
+const mockTransaction = jest.fn(async (ops: unknown[]) => ops);
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    food: {
+      findMany: (...args: unknown[]) => mockFoodFindMany(...args),
+      upsert: (args: unknown) => mockFoodUpsert(args),
+    },
+    mealItem: { findMany: (...args: unknown[]) => mockMealItemFindMany(...args) },
+    dailyData: { findMany: (...args: unknown[]) => mockDailyFindMany(...args) },
+    $transaction: (ops: unknown[]) => mockTransaction(ops),
+  },
+}));
+
+import {
+  buildFoodCatalog,
+  foodFromEntry,
+  parseAmountText,
+  rebuildFoodCatalog,
+  recordFoodUse,
+  scaleFood,
+  type FoodHistoryEntry,
+} from "@/lib/foods";
+
+const entry = (values: Partial<FoodHistoryEntry>): FoodHistoryEntry => ({
+  name: "ごはん",
+  amount: null,
+  unit: null,
+  cal: 0,
+  protein: null,
+  fat: null,
+  carb: null,
+  at: new Date("2026-03-01T12:00:00+09:00"),
+  ...values,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("parseAmountText", () => {
+  it("数量と単位を取り出す（分数・括弧付きにも対応）", () => {
+    expect(parseAmountText("150g")).toEqual({ amount: 150, unit: "g" });
+    expect(parseAmountText("2枚")).toEqual({ amount: 2, unit: "枚" });
+    expect(parseAmountText("1/2個")).toEqual({ amount: 0.5, unit: "個" });
+    expect(parseAmountText("1杯(200ml)")).toEqual({ amount: 1, unit: "杯" });
+    expect(parseAmountText("少々")).toBeNull();
+    expect(parseAmountText("")).toBeNull();
+  });
+});
+
+describe("foodFromEntry", () => {
+  it("グラムの品目は 100g あたりに揃える", () => {
+    expect(foodFromEntry(entry({ amount: 150, unit: "g", cal: 234, protein: 3.8, fat: 0.5, carb: 55.7 }))).toEqual({
+      name: "ごはん",
+      baseAmount: 100,
+      baseUnit: "g",
+      cal: 156,
+      protein: 2.5,
+      fat: 0.3,
+      carb: 37.1,
+      servingAmount: 150,
+    });
+  });
+
+  it("グラム以外は 1単位あたり、量が分からなければ 1食あたり", () => {
+    expect(foodFromEntry(entry({ name: "食パン", amount: 2, unit: "枚", cal: 300 }))).toMatchObject({
+      baseAmount: 1,
+      baseUnit: "枚",
+      cal: 150,
+      protein: null,
+      servingAmount: 2,
+    });
+    expect(foodFromEntry(entry({ name: "定食", cal: 800 }))).toMatchObject({ baseAmount: 1, baseUnit: "食", cal: 800 });
+  });
+});
+
+describe("buildFoodCatalog", () => {
+  it("名前ごとにまとめ、PFC のある最新の品目を使う", () => {
+    const catalog = buildFoodCatalog([
+      entry({ name: "鶏むね肉", amount: 100, unit: "g", cal: 110, protein: 23, fat: 1.5, carb: 0, at: new Date("2026-03-01") }),
+      entry({ name: "鶏むね肉", amount: 200, unit: "g", cal: 230, at: new Date("2026-03-05") }),
+      entry({ name: " 鶏むね肉 ", amount: 150, unit: "g", cal: 170, protein: 34, fat: 2.4, carb: 0, at: new Date("2026-03-03") }),
+      entry({ name: "バナナ", amount: 1, unit: "本", cal: 86, at: new Date("2026-03-02") }),
+    ]);
+    expect(catalog.map((f) => [f.name, f.useCount])).toEqual([
+      ["鶏むね肉", 3],
+      ["バナナ", 1],
+    ]);
+    expect(catalog[0]).toMatchObject({ cal: 113.3, protein: 22.7, servingAmount: 150, lastUsedAt: new Date("2026-03-05") });
+  });
+});
+
+describe("scaleFood", () => {
+  it("量に合わせて栄養素を換算する", () => {
+    expect(scaleFood({ baseAmount: 100, cal: 156, protein: 2.5, fat: 0.3, carb: null }, 200)).toEqual({
+      cal: 312,
+      protein: 5,
+      fat: 0.6,
+      carb: null,
+    });
+  });
+});
+
+describe("rebuildFoodCatalog", () => {
+  it("手入力で登録した食品は栄養素を上書きせず使用回数だけ更新する", async () => {
+    mockMealItemFindMany.mockResolvedValueOnce([
+      { name: "プロテイン", amount: 30, unit: "g", cal: 120, protein: 24, fat: 1, carb: 3, meal: { loggedAt: new Date("2026-03-02") } },
+    ]);
+    mockDailyFindMany.mockResolvedValueOnce([
+      { date: "2026-03-01", askenItems: [{ mealType: "朝食", name: "バナナ", amount: "1本", calories: 86 }] },
+    ]);
+    mockFoodFindMany.mockResolvedValueOnce([{ name: "プロテイン", source: "manual" }]);
+
+    const result = await rebuildFoodCatalog("user-1");
+
+    expect(result).toEqual({ total: 2, created: 1, updated: 1 });
+    const calls = mockFoodUpsert.mock.calls.map(([args]) => args as { where: unknown; update: object; create: object });
+    const protein = calls.find((c) => JSON.stringify(c.where).includes("プロテイン"))!;
+    expect(protein.update).toEqual({ useCount: 1, lastUsedAt: new Date("2026-03-02") });
+    const banana = calls.find((c) => JSON.stringify(c.where).includes("バナナ"))!;
+    expect(banana.create).toMatchObject({ ownerId: "user-1", baseUnit: "本", cal: 86, source: "history" });
+  });
+});
+
+describe("recordFoodUse", () => {
+  it("記録した品目の使用回数を増やす（名前の無い品目は無視）", async () => {
+    mockFoodFindMany.mockResolvedValueOnce([]);
+    const at = new Date("2026-03-02T08:00:00+09:00");
+
+    await recordFoodUse("user-1", [{ name: "ヨーグルト", cal: 60, amount: 100, unit: "g", protein: 4 }, { name: " ", cal: 0 }], at);
+
+    expect(mockFoodUpsert).toHaveBeenCalledTimes(1);
+    expect(mockFoodUpsert.mock.calls[0][0]).toMatchObject({
+      where: { ownerId_name: { ownerId: "user-1", name: "ヨーグルト" } },
+      update: { useCount: { increment: 1 }, lastUsedAt: at, cal: 60, protein: 4 },
+      create: { ownerId: "user-1", useCount: 1, source: "history", baseAmount: 100, baseUnit: "g" },
+    });
+  });
+});
@@ -14,6 +14,9 @@ jest.mock("@/lib/prisma", () => ({
       findUnique: (...args: unknown[]) => mockFindUnique(...args),
       findMany: (...args: unknown[]) => mockFindMany(...args),
     },
+    exerciseSet: { findMany: jest.fn().mockResolvedValue([]) },
+    bodyMetric: { findMany: jest.fn().mockResolvedValue([]) },
+    mealLog: { findMany: jest.fn().mockResolvedValue([]) },
   },
 }));
 
@@ -25,6 +28,9 @@ jest.mock("@/lib/dbConfig", () => ({
     fat: 54,
     carbs: 293,
   }),
+  getScoringProfile: jest.fn().mockImplementation(async () => (await import("@/lib/scoringProfile")).DEFAULT_SCORING_PROFILE),
+  getPersonal: jest.fn().mockResolvedValue({ heightCm: null, weightKg: null, age: null, sex: null, activityLevel: null }),
+  getMicronutrientTargetOverrides: jest.fn().mockResolvedValue({}),
   DEFAULT_USER_ID: "default",
 }));
 
@@ -35,6 +41,7 @@ jest.mock("@/lib/googleCalendar", () => ({
 
 beforeEach(() => {
   jest.clearAllMocks();
+  mockFindMany.mockResolvedValue([]);
 });
 
 // ─── generateDailyPrompt テスト ─────────────────────
@@ -128,10 +135,29 @@ describe("generateDailyPrompt", () => {
     const prompt = await generateDailyPrompt("2026-02-11");
 
     expect(prompt).toContain("合計カロリー: 886 kcal");
-    expect(prompt).toContain("うち間食 386 kcal");
+    expect(prompt).toContain("うち間食など 386 kcal");
     expect(prompt).toContain("クッキー");
     expect(prompt).toContain("アイス");
   });
+
+  it("目標に届かない微量栄養素と連続日数がプロンプトに含まれる", async () => {
+    const nutrients = (fiber: string) => ({
+      "朝食": { "エネルギー": "500kcal", "たんぱく質": "20g", "食物繊維": fiber, "食塩相当量": "3.0g", "ビタミンC": "120mg" },
+    });
+    mockFindUnique.mockResolvedValueOnce({ date: "2026-02-11", askenItems: [], askenNutrients: nutrients("8.5g"), strongData: null });
+    mockFindMany.mockResolvedValueOnce([
+      { date: "2026-02-10", askenItems: [], askenNutrients: nutrients("10g") },
+      { date: "2026-02-11", askenItems: [], askenNutrients: nutrients("8.5g") },
+    ]);
+
+    const { generateDailyPrompt } = await import("@/lib/gemini");
+    const prompt = await generateDailyPrompt("2026-02-11");
+
+    expect(prompt).toContain("## 微量栄養素の不足");
+    expect(prompt).toContain("- 食物繊維: 8.5g（目標 21g 以上・40%・2日連続）");
+    expect(prompt).not.toContain("- 食塩相当量:");
+    expect(prompt).not.toContain("- ビタミンC:");
+  });
 });
 
 // ─── generateWeeklyPrompt テスト ────────────────────
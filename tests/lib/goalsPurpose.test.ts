@@ -43,6 +43,14 @@ describe("computeGoalsFromPersonal", () => {
     expect(computeGoalsFromPersonal(personal({ weightKg: 0 }))).toBeNull();
   });
 
+  it("傾向体重があれば設定の体重より優先する", () => {
+    const g = computeGoalsFromPersonal(personal({ weightKg: 75 }), 80)!;
+    expect(g).toEqual(computeGoalsFromPersonal(personal({ weightKg: 80 })));
+    // 設定の体重が未入力でも傾向体重で算出できる
+    expect(computeGoalsFromPersonal(personal({ weightKg: null }), 80)).toEqual(g);
+    expect(computeGoalsFromPersonal(personal(), null)).toEqual(computeGoalsFromPersonal(personal()));
+  });
+
   it("年齢未設定は30歳として計算する", () => {
     const withAge30 = computeGoalsFromPersonal(personal({ age: 30 }))!;
     const withoutAge = computeGoalsFromPersonal(personal({ age: null }))!;
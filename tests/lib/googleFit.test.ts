@@ -3,6 +3,8 @@
  * parseFitResponse: dataset:aggregate のレスポンス JSON → FitDailyMetrics の変換ロジックを検証
  */
 
+jest.mock("@/lib/prisma", () => ({ prisma: {} }));
+
 import { parseFitResponse, parseSleepSessions } from "@/lib/googleFit";
 
 describe("parseFitResponse", () => {
@@ -1,6 +1,9 @@
 /**
  * Health Auto Export パーステスト
  */
+
+jest.mock("@/lib/prisma", () => ({ prisma: {} }));
+
 import { parseHealthAutoExport } from "@/lib/healthAutoExport";
 
 describe("parseHealthAutoExport", () => {
@@ -126,6 +129,21 @@ describe("parseHealthAutoExport", () => {
     expect(lb.get("2026-05-24")?.weightKg).toBeCloseTo(155 * 0.45359237, 2);
   });
 
+  it("body_fat_percentage は割合表記を%に、waist_circumference は cm に正規化", () => {
+    const result = parseHealthAutoExport({
+      data: {
+        metrics: [
+          { name: "body_fat_percentage", units: "%", data: [{ date: "2026-05-24 07:00:00 +0900", qty: 18.2 }] },
+          { name: "body_fat_percentage", data: [{ date: "2026-05-25 07:00:00 +0900", qty: 0.175 }] },
+          { name: "waist_circumference", units: "in", data: [{ date: "2026-05-24 07:00:00 +0900", qty: 32 }] },
+        ],
+      },
+    });
+    expect(result.get("2026-05-24")?.bodyFatPct).toBeCloseTo(18.2);
+    expect(result.get("2026-05-25")?.bodyFatPct).toBeCloseTo(17.5);
+    expect(result.get("2026-05-24")?.waistCm).toBeCloseTo(81.28);
+  });
+
   it("距離はマイル/メートルを正しく変換", () => {
     const m = parseHealthAutoExport({
       data: {
@@ -201,6 +219,25 @@ describe("parseHealthAutoExport", () => {
     expect(result.get("2026-05-24")?.sleepMinutes).toBe(8 * 60);
   });
 
+  it("分割された sleep_analysis は合計し、入眠時刻は最も早い開始", () => {
+    const result = parseHealthAutoExport({
+      data: {
+        metrics: [
+          {
+            name: "sleep_analysis",
+            data: [
+              { sleepStart: "2026-05-24T03:00:00+09:00", sleepEnd: "2026-05-24T07:00:00+09:00" },
+              { sleepStart: "2026-05-23T23:30:00+09:00", sleepEnd: "2026-05-24T02:30:00+09:00" },
+            ],
+          },
+        ],
+      },
+    });
+    const day = result.get("2026-05-24");
+    expect(day?.sleepMinutes).toBe(7 * 60);
+    expect(day?.sleepStartAt).toBe("2026-05-23T14:30:00.000Z");
+  });
+
   it("複数指標が同じ日に集約される", () => {
     const result = parseHealthAutoExport({
       data: {
@@ -0,0 +1,188 @@
+/**
+ * Tests for src/lib/mealTiming.ts
+ * あすけんの時刻の推定、食事の時間帯・入眠までの間隔、たんぱく質配分の集計を検証
+ */
+
+const mockDailyFindMany = jest.fn();
+const mockMealFindMany = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    dailyData: { findMany: (...args: unknown[]) => mockDailyFindMany(...args) },
+    mealLog: { findMany: (...args: unknown[]) => mockMealFindMany(...args) },
+  },
+}));
+
+import {
+  computeDayMealTiming,
+  formatClock,
+  getMealTiming,
+  parseClock,
+  summarizeMealTiming,
+  typicalMealTimes,
+  type TimingDay,
+} from "@/lib/mealTiming";
+import type { ManualMeal } from "@/lib/dayIntake";
+
+const day = (values: Partial<TimingDay> = {}): TimingDay => ({
+  date: "2026-03-02",
+  askenItems: null,
+  askenNutrients: null,
+  manualMeals: [],
+  mealTimes: null,
+  sleepStartAt: null,
+  ...values,
+});
+
+const manualMeal = (id: string, at: string, mealType: string, protein: number | null, cal = 400): ManualMeal => ({
+  id,
+  loggedAt: new Date(at),
+  mealType,
+  source: "manual",
+  items: [{ name: `品目${id}`, amount: null, unit: null, cal, protein, fat: null, carb: null }],
+});
+
+const typical = typicalMealTimes([]);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockMealFindMany.mockResolvedValue([]);
+});
+
+describe("parseClock / formatClock", () => {
+  it("HH:MM と分数を相互に変換する（24時以降も扱う）", () => {
+    expect(parseClock("07:30")).toBe(450);
+    expect(parseClock("25:10")).toBe(1510);
+    expect(parseClock("7時")).toBeNull();
+    expect(formatClock(450)).toBe("07:30");
+    expect(formatClock(1510)).toBe("25:10");
+  });
+});
+
+describe("typicalMealTimes", () => {
+  it("記録済みの時刻の中央値、無い食事タイプは既定値", () => {
+    const result = typicalMealTimes([
+      { mealType: "朝食", minutes: 400 },
+      { mealType: "朝食", minutes: 420 },
+      { mealType: "朝食", minutes: 480 },
+    ]);
+    expect(result["朝食"]).toBe(420);
+    expect(result["夕食"]).toBe(19 * 60);
+  });
+});
+
+describe("computeDayMealTiming", () => {
+  it("あすけんは入力済みの時刻、無ければ推定。手入力は loggedAt", () => {
+    const result = computeDayMealTiming(
+      day({
+        askenNutrients: {
+          "朝食": { "エネルギー": "400kcal", "たんぱく質": "25g" },
+          "夕食": { "エネルギー": "700kcal", "たんぱく質": "35g" },
+        },
+        mealTimes: { "夕食": "20:15" },
+        manualMeals: [manualMeal("m1", "2026-03-02T15:30:00+09:00", "間食", 10, 200)],
+        sleepStartAt: new Date("2026-03-02T23:45:00+09:00"),
+      }),
+      typical
+    )!;
+
+    expect(result.meals.map((m) => [m.mealType, m.minutes, m.timeSource])).toEqual([
+      ["朝食", 450, "estimated"],
+      ["間食", 930, "logged"],
+      ["夕食", 1215, "recorded"],
+    ]);
+    expect(result.eatingWindowMinutes).toBe(1215 - 450);
+    expect(result.sleepStartMinutes).toBe(23 * 60 + 45);
+    expect(result.lastMealToSleepMinutes).toBe(210);
+    expect(result.hasEstimated).toBe(true);
+  });
+
+  it("栄養素の無い食事タイプは品目のカロリーだけの1食にする", () => {
+    const result = computeDayMealTiming(
+      day({
+        askenItems: [
+          { mealType: "間食", name: "クッキー", amount: "3枚", calories: 120 },
+          { mealType: "間食", name: "コーヒー", amount: "1杯", calories: 10 },
+        ],
+        mealTimes: { "間食": "10:00" },
+      }),
+      typical
+    )!;
+    expect(result.meals).toEqual([
+      { mealType: "間食", minutes: 600, source: "asken", timeSource: "recorded", calories: 130, protein: null },
+    ]);
+    expect(result.eatingWindowMinutes).toBe(0);
+  });
+
+  it("入眠が最後の食事より前なら入眠までの間隔は null、食事が無い日は null", () => {
+    const result = computeDayMealTiming(
+      day({
+        manualMeals: [manualMeal("m1", "2026-03-02T21:00:00+09:00", "夕食", 30)],
+        sleepStartAt: new Date("2026-03-02T14:00:00+09:00"),
+      }),
+      typical
+    )!;
+    expect(result.lastMealToSleepMinutes).toBeNull();
+    expect(computeDayMealTiming(day(), typical)).toBeNull();
+  });
+});
+
+describe("summarizeMealTiming", () => {
+  it("平均とたんぱく質の配分を出す", () => {
+    const days = [
+      computeDayMealTiming(
+        day({
+          date: "2026-03-01",
+          manualMeals: [
+            manualMeal("a", "2026-03-01T08:00:00+09:00", "朝食", 10),
+            manualMeal("b", "2026-03-01T19:00:00+09:00", "夕食", 40),
+          ],
+          sleepStartAt: new Date("2026-03-01T23:00:00+09:00"),
+        }),
+        typical
+      )!,
+      computeDayMealTiming(
+        day({
+          date: "2026-03-02",
+          manualMeals: [
+            manualMeal("c", "2026-03-02T07:00:00+09:00", "朝食", 20),
+            manualMeal("d", "2026-03-02T20:00:00+09:00", "夕食", 30),
+          ],
+        }),
+        typical
+      )!,
+    ];
+    const summary = summarizeMealTiming(days);
+    expect(summary.avgEatingWindowMinutes).toBe(12 * 60);
+    expect(summary.avgLastMealToSleepMinutes).toBe(4 * 60);
+    expect(summary.proteinByMealType).toEqual([
+      { mealType: "夕食", avgProtein: 35, share: 0.7 },
+      { mealType: "朝食", avgProtein: 15, share: 0.3 },
+    ]);
+    expect(summary.avgProteinMealsPerDay).toBe(1.5);
+  });
+});
+
+describe("getMealTiming", () => {
+  it("翌日の入眠時刻を使い、翌日分は結果に含めない", async () => {
+    mockDailyFindMany.mockResolvedValueOnce([
+      {
+        date: "2026-03-02",
+        askenItems: [],
+        askenNutrients: { "夕食": { "エネルギー": "600kcal", "たんぱく質": "30g" } },
+        mealTimes: { "夕食": "19:30" },
+        sleepStartAt: null,
+      },
+      { date: "2026-03-03", askenItems: null, askenNutrients: null, mealTimes: null, sleepStartAt: new Date("2026-03-02T23:00:00+09:00") },
+    ]);
+
+    const result = await getMealTiming("user-1", "2026-03-01", "2026-03-02");
+
+    expect(mockDailyFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { ownerId: "user-1", date: { gte: "2026-03-01", lte: "2026-03-03" } } })
+    );
+    expect(result.days.map((d) => d.date)).toEqual(["2026-03-02"]);
+    expect(result.days[0].lastMealToSleepMinutes).toBe(210);
+    expect(result.typicalTimes["夕食"]).toBe("19:30");
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for src/lib/micronutrients.ts
+ * 食事摂取基準の引き方、上書きの適用、不足判定と連続日数、日付指定のレポートを検証
+ */
+
+const mockDailyFindMany = jest.fn();
+const mockMealFindMany = jest.fn();
+const mockGetPersonal = jest.fn();
+const mockGetOverrides = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    dailyData: { findMany: (...args: unknown[]) => mockDailyFindMany(...args) },
+    mealLog: { findMany: (...args: unknown[]) => mockMealFindMany(...args) },
+  },
+}));
+
+jest.mock("@/lib/dbConfig", () => ({
+  getPersonal: (...args: unknown[]) => mockGetPersonal(...args),
+  getMicronutrientTargetOverrides: (...args: unknown[]) => mockGetOverrides(...args),
+}));
+
+import {
+  deficiencyStreaks,
+  driTargets,
+  evaluateMicronutrients,
+  getMicronutrientReport,
+  mergeMicronutrientTargets,
+} from "@/lib/micronutrients";
+import type { NutrientRecord } from "@/lib/nutrients";
+
+const fiber = (value: number): NutrientRecord => ({ fiber: { value, unit: "g" } });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetPersonal.mockResolvedValue({ heightCm: 172, weightKg: 75, age: 35, sex: "male", activityLevel: "medium" });
+  mockGetOverrides.mockResolvedValue({});
+  mockMealFindMany.mockResolvedValue([]);
+});
+
+describe("driTargets", () => {
+  it("年齢区分と性別で値が変わる", () => {
+    expect(driTargets({ age: 35, sex: "male" })).toMatchObject({ fiber: 21, salt: 7.5, calcium: 750, iron: 7.5 });
+    expect(driTargets({ age: 25, sex: "female" })).toMatchObject({ fiber: 18, salt: 6.5, calcium: 650, iron: 10.5 });
+    expect(driTargets({ age: 80, sex: "female" })).toMatchObject({ fiber: 17, calcium: 600, vitaminB1: 0.9 });
+  });
+
+  it("年齢・性別が未設定なら 30 歳男性、18 歳未満は 18-29 の値", () => {
+    expect(driTargets({ age: null, sex: null })).toEqual(driTargets({ age: 30, sex: "male" }));
+    expect(driTargets({ age: 16, sex: "male" })).toEqual(driTargets({ age: 18, sex: "male" }));
+  });
+});
+
+describe("mergeMicronutrientTargets", () => {
+  it("上書きした栄養素だけ置き換える", () => {
+    const defaults = driTargets({ age: 35, sex: "male" });
+    const merged = mergeMicronutrientTargets(defaults, { fiber: 25 });
+    expect(merged.fiber).toBe(25);
+    expect(merged.salt).toBe(defaults.salt);
+  });
+});
+
+describe("evaluateMicronutrients", () => {
+  const targets = driTargets({ age: 35, sex: "male" });
+
+  it("下限の栄養素は目標未満で low、食塩相当量は目標超過で high", () => {
+    const result = evaluateMicronutrients(
+      { fiber: { value: 10.5, unit: "g" }, salt: { value: 9, unit: "g" }, vitaminC: { value: 120, unit: "mg" } },
+      targets
+    );
+    const byKey = Object.fromEntries(result.map((e) => [e.key, e]));
+    expect(byKey.fiber).toMatchObject({ label: "食物繊維", status: "low", ratio: 0.5 });
+    expect(byKey.salt).toMatchObject({ status: "high", direction: "max" });
+    expect(byKey.vitaminC.status).toBe("ok");
+    expect(byKey.iron).toMatchObject({ intake: null, ratio: null, status: "noData" });
+  });
+
+  it("食塩相当量が無ければナトリウムから換算する", () => {
+    const [salt] = evaluateMicronutrients({ sodium: { value: 2000, unit: "mg" } }, targets).filter((e) => e.key === "salt");
+    expect(salt.intake).toBeCloseTo(5.08);
+    expect(salt.status).toBe("ok");
+  });
+});
+
+describe("deficiencyStreaks", () => {
+  const targets = driTargets({ age: 35, sex: "male" });
+
+  it("当日から遡って不足が続いた日数を数え、データの無い日で途切れる", () => {
+    const days = new Map<string, NutrientRecord>([
+      ["2026-03-01", fiber(5)],
+      ["2026-03-03", fiber(10)],
+      ["2026-03-04", fiber(12)],
+      ["2026-03-05", fiber(15)],
+    ]);
+    expect(deficiencyStreaks(days, "2026-03-05", targets).fiber).toBe(3);
+    expect(deficiencyStreaks(days, "2026-03-02", targets).fiber).toBe(0);
+  });
+
+  it("目標を満たした日で途切れる", () => {
+    const days = new Map<string, NutrientRecord>([
+      ["2026-03-01", fiber(5)],
+      ["2026-03-02", fiber(25)],
+      ["2026-03-03", fiber(10)],
+    ]);
+    expect(deficiencyStreaks(days, "2026-03-03", targets).fiber).toBe(1);
+  });
+});
+
+describe("getMicronutrientReport", () => {
+  it("あすけんの栄養素から当日の評価と不足の一覧を返す", async () => {
+    const asken = (fiberLabel: string) => ({
+      "朝食": { "エネルギー": "500kcal", "食物繊維": fiberLabel, "食塩相当量": "4.0g" },
+      "夕食": { "エネルギー": "700kcal", "食物繊維": "3.0g", "食塩相当量": "4.5g" },
+    });
+    mockDailyFindMany.mockResolvedValueOnce([
+      { date: "2026-03-04", askenItems: [], askenNutrients: asken("2.0g") },
+      { date: "2026-03-05", askenItems: [], askenNutrients: asken("5.0g") },
+    ]);
+    mockGetOverrides.mockResolvedValueOnce({ salt: 8 });
+
+    const report = await getMicronutrientReport("user-1", "2026-03-05");
+
+    expect(mockDailyFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { ownerId: "user-1", date: { gte: "2026-02-20", lte: "2026-03-05" } } })
+    );
+    const byKey = Object.fromEntries(report.nutrients.map((e) => [e.key, e]));
+    expect(byKey.fiber).toMatchObject({ intake: 8, target: 21, status: "low", streak: 2 });
+    expect(byKey.salt).toMatchObject({ intake: 8.5, target: 8, status: "high", streak: 2 });
+    expect(report.shortfalls).toEqual(["fiber", "salt"]);
+  });
+
+  it("データの無い日は全栄養素 noData", async () => {
+    mockDailyFindMany.mockResolvedValueOnce([]);
+    const report = await getMicronutrientReport("user-1", "2026-03-05");
+    expect(report.nutrients.every((e) => e.status === "noData" && e.streak === 0)).toBe(true);
+    expect(report.shortfalls).toEqual([]);
+  });
+});
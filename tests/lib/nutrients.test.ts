@@ -0,0 +1,71 @@
+/**
+ * Tests for src/lib/nutrients.ts
+ * 単位付き文字列のパース・単位換算・1食分の栄養素の正規化を検証
+ */
+import {
+  carbsOf,
+  convertNutrientUnit,
+  parseMealNutrients,
+  parseNutrientValue,
+  sumNutrients,
+} from "@/lib/nutrients";
+
+describe("parseNutrientValue", () => {
+  it.each([
+    ["12.3g", { value: 12.3, unit: "g" }],
+    ["1,234 kcal", { value: 1234, unit: "kcal" }],
+    ["120mg", { value: 120, unit: "mg" }],
+    ["5µg", { value: 5, unit: "µg" }],
+    ["5μg", { value: 5, unit: "µg" }],
+    ["2.4mcg", { value: 2.4, unit: "µg" }],
+    ["12.3", { value: 12.3, unit: null }],
+    [42, { value: 42, unit: null }],
+  ])("%s → %o", (raw, expected) => {
+    expect(parseNutrientValue(raw)).toEqual(expected);
+  });
+
+  it("数値が無ければ null", () => {
+    expect(parseNutrientValue("-")).toBeNull();
+    expect(parseNutrientValue("")).toBeNull();
+    expect(parseNutrientValue(null)).toBeNull();
+  });
+});
+
+describe("convertNutrientUnit", () => {
+  it("質量単位どうしは換算し、kcal との換算はしない", () => {
+    expect(convertNutrientUnit(1.2, "g", "mg")).toBeCloseTo(1200);
+    expect(convertNutrientUnit(500, "µg", "mg")).toBeCloseTo(0.5);
+    expect(convertNutrientUnit(10, null, "mg")).toBe(10);
+    expect(convertNutrientUnit(10, "g", "kcal")).toBeNull();
+  });
+});
+
+describe("parseMealNutrients", () => {
+  it("表記揺れのラベルを正規のキーにまとめ、正式な単位に揃える", () => {
+    const rec = parseMealNutrients({
+      エネルギー: "520kcal",
+      タンパク質: "20.5g",
+      脂質: "15g",
+      糖質: "60g",
+      カルシウム: "0.2g",
+      ビタミンD: "3μg",
+      メモ: "残さず食べた",
+      ナトリウム: "-",
+    });
+    expect(rec).toEqual({
+      energy: { value: 520, unit: "kcal" },
+      protein: { value: 20.5, unit: "g" },
+      fat: { value: 15, unit: "g" },
+      sugar: { value: 60, unit: "g" },
+      calcium: { value: 200, unit: "mg" },
+      vitaminD: { value: 3, unit: "µg" },
+    });
+    expect(carbsOf(rec)).toBe(60);
+    expect(carbsOf({ ...rec, carbs: { value: 70, unit: "g" } })).toBe(70);
+  });
+
+  it("sumNutrients はキーごとに合算する", () => {
+    const total = sumNutrients([parseMealNutrients({ 鉄: "2mg" }), parseMealNutrients({ 鉄: "1.5mg", 葉酸: "100µg" })]);
+    expect(total).toEqual({ iron: { value: 3.5, unit: "mg" }, folate: { value: 100, unit: "µg" } });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for src/lib/products.ts
+ * JAN のチェックディジット、商品表 CSV のパース、取り込みと JAN からの MealItem 作成を検証
+ */
+
+const mockProductFindMany = jest.fn();
+const mockProductFindUnique = jest.fn();
+const mockProductUpsert = jest.fn((args: unknown) => args);
+const mockTransaction = jest.fn(async (ops: unknown[]) => ops);
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    product: {
+      findMany: (...args: unknown[]) => mockProductFindMany(...args),
+      findUnique: (...args: unknown[]) => mockProductFindUnique(...args),
+      upsert: (args: unknown) => mockProductUpsert(args),
+    },
+    $transaction: (ops: unknown[]) => mockTransaction(ops),
+  },
+}));
+
+import { findProductByJan, importProducts, normalizeJan, parseProductCsv, productToMealItem } from "@/lib/products";
+import { createMealSchema } from "@/lib/schemas/meal";
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("normalizeJan", () => {
+  it("13桁・8桁のチェックディジットを確認する（空白・ハイフンは除く）", () => {
+    expect(normalizeJan("4901234567894")).toBe("4901234567894");
+    expect(normalizeJan("4902-1028")).toBe("49021028");
+    expect(normalizeJan("4901234567895")).toBeNull();
+    expect(normalizeJan("490123456789")).toBeNull();
+  });
+});
+
+describe("parseProductCsv", () => {
+  it("日本語の列名と単位付きの内容量を読み、不正な行はエラーにする", () => {
+    const csv = [
+      "JANコード,商品名,メーカー,内容量,エネルギー(kcal),たんぱく質(g),脂質(g),炭水化物(g)",
+      "4901234567894,サラダチキン,セブン,110g,121,26.1,1.5,0.4",
+      "4901234567895,おにぎり,,1個,180,3.5,1.2,39",
+      "49021028,緑茶,,500ml,0,0,0,",
+    ].join("\n");
+
+    const { products, errors } = parseProductCsv(csv);
+
+    expect(products).toEqual([
+      { jan: "4901234567894", name: "サラダチキン", brand: "セブン", amount: 110, unit: "g", cal: 121, protein: 26.1, fat: 1.5, carb: 0.4 },
+    ]);
+    expect(errors).toEqual([
+      "3行目: JAN コードが不正です (4901234567895)",
+      "4行目: 商品名か栄養素（エネルギー・たんぱく質・脂質・炭水化物）がありません (49021028)",
+    ]);
+  });
+
+  it("必須の列が無ければ全体をエラーにする", () => {
+    const { products, errors } = parseProductCsv("jan,name,cal\n4901234567894,サラダチキン,121");
+    expect(products).toEqual([]);
+    expect(errors).toEqual(["必須の列がありません: protein, fat, carb"]);
+  });
+});
+
+describe("importProducts", () => {
+  it("JAN ごとに upsert し、新規と更新の件数を返す", async () => {
+    mockProductFindMany.mockResolvedValueOnce([{ jan: "49021028" }]);
+    const base = { brand: null, amount: null, unit: null, cal: 100, protein: 1, fat: 1, carb: 20 };
+
+    const result = await importProducts("user-1", [
+      { jan: "4901234567894", name: "サラダチキン", ...base },
+      { jan: "49021028", name: "緑茶", ...base },
+    ]);
+
+    expect(result).toEqual({ total: 2, created: 1, updated: 1 });
+    expect(mockProductUpsert.mock.calls[0][0]).toMatchObject({
+      where: { ownerId_jan: { ownerId: "user-1", jan: "4901234567894" } },
+      create: { ownerId: "user-1", jan: "4901234567894", name: "サラダチキン" },
+    });
+  });
+});
+
+describe("findProductByJan / productToMealItem", () => {
+  it("不正な JAN は DB を引かずに null", async () => {
+    expect(await findProductByJan("user-1", "123")).toBeNull();
+    expect(mockProductFindUnique).not.toHaveBeenCalled();
+  });
+
+  it("1包装分の品目は createMealSchema を通る（内容量が無ければ 1個）", () => {
+    const item = productToMealItem({
+      jan: "4901234567894",
+      name: "おにぎり 鮭",
+      brand: null,
+      amount: null,
+      unit: null,
+      cal: 180,
+      protein: 4.2,
+      fat: 1.1,
+      carb: 38.5,
+    });
+    expect(item).toEqual({ name: "おにぎり 鮭", cal: 180, amount: 1, unit: "個", protein: 4.2, fat: 1.1, carb: 38.5 });
+    expect(
+      createMealSchema.safeParse({ mealLog: { loggedAt: "2026-03-01T12:00:00+09:00", mealType: "昼食" }, items: [item] }).success
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for src/lib/recipes.ts
+ * 材料の換算（食品カタログ・直接入力）、1人前の栄養素、記録時の品目への展開を検証
+ */
+
+const mockFoodFindMany = jest.fn();
+const mockRecipeUpsert = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    food: { findMany: (...args: unknown[]) => mockFoodFindMany(...args) },
+    recipe: { upsert: (...args: unknown[]) => mockRecipeUpsert(...args) },
+  },
+}));
+
+import {
+  computeRecipeNutrition,
+  recipeToMealItems,
+  RecipeIngredientError,
+  resolveIngredients,
+  saveRecipe,
+  type RecipeIngredient,
+} from "@/lib/recipes";
+
+const ingredient = (values: Partial<RecipeIngredient>): RecipeIngredient => ({
+  foodId: null,
+  name: "材料",
+  amount: null,
+  unit: null,
+  cal: 0,
+  protein: null,
+  fat: null,
+  carb: null,
+  ...values,
+});
+
+const CURRY = [
+  ingredient({ name: "鶏もも肉", amount: 300, unit: "g", cal: 570, protein: 50, fat: 42, carb: 0 }),
+  ingredient({ name: "玉ねぎ", amount: 200, unit: "g", cal: 66, protein: 2, fat: 0.2, carb: 16.8 }),
+  ingredient({ name: "カレールー", cal: 360 }),
+];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("computeRecipeNutrition", () => {
+  it("材料の合計を人前で割る（PFC は値のある材料だけ合計）", () => {
+    expect(computeRecipeNutrition(CURRY, 4)).toEqual({
+      total: { cal: 996, protein: 52, fat: 42.2, carb: 16.8 },
+      perServing: { cal: 249, protein: 13, fat: 10.6, carb: 4.2 },
+    });
+    expect(computeRecipeNutrition([ingredient({ cal: 100 })], 2).perServing).toEqual({ cal: 50, protein: null, fat: null, carb: null });
+  });
+});
+
+describe("resolveIngredients", () => {
+  it("食品カタログの材料は量に合わせて換算し、直接入力の材料はそのまま", async () => {
+    mockFoodFindMany.mockResolvedValueOnce([
+      { id: "f1", name: "ごはん", baseAmount: 100, baseUnit: "g", cal: 156, protein: 2.5, fat: 0.3, carb: 37.1 },
+    ]);
+
+    const result = await resolveIngredients("user-1", [{ foodId: "f1", amount: 300 }, { name: "福神漬け", cal: 20 }]);
+
+    expect(mockFoodFindMany).toHaveBeenCalledWith({ where: { ownerId: "user-1", id: { in: ["f1"] } } });
+    expect(result).toEqual([
+      { foodId: "f1", name: "ごはん", amount: 300, unit: "g", cal: 468, protein: 7.5, fat: 0.9, carb: 111.3 },
+      { foodId: null, name: "福神漬け", amount: null, unit: null, cal: 20, protein: null, fat: null, carb: null },
+    ]);
+  });
+
+  it("カタログに無い食品は RecipeIngredientError で保存しない", async () => {
+    mockFoodFindMany.mockResolvedValueOnce([]);
+    await expect(
+      saveRecipe("user-1", { name: "カレー", servings: 4, ingredients: [{ foodId: "missing", amount: 100 }] })
+    ).rejects.toBeInstanceOf(RecipeIngredientError);
+    expect(mockRecipeUpsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("recipeToMealItems", () => {
+  const recipe = { name: "チキンカレー", servings: 4, ingredients: CURRY, nutrition: computeRecipeNutrition(CURRY, 4) };
+
+  it("single は料理名の1品目（1.5人前）", () => {
+    expect(recipeToMealItems(recipe, 1.5, "single")).toEqual([
+      { name: "チキンカレー", amount: 1.5, unit: "人前", cal: 373.5, protein: 19.5, fat: 15.8, carb: 6.3 },
+    ]);
+  });
+
+  it("ingredients は材料ごとに量と栄養素を換算する", () => {
+    expect(recipeToMealItems(recipe, 1.5, "ingredients")).toEqual([
+      { name: "鶏もも肉", amount: 112.5, unit: "g", cal: 213.8, protein: 18.8, fat: 15.8, carb: 0 },
+      { name: "玉ねぎ", amount: 75, unit: "g", cal: 24.8, protein: 0.8, fat: 0.1, carb: 6.3 },
+      { name: "カレールー", cal: 135 },
+    ]);
+  });
+});
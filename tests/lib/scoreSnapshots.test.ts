@@ -0,0 +1,183 @@
+/**
+ * Tests for src/lib/scoreSnapshots.ts
+ * Prisma・目標をモックし、確定時のスナップショット保存と、目標変更後も過去スコアが変わらないことを検証
+ */
+
+type ScoreRow = Record<string, unknown> & { date: string; computedAt: Date };
+
+const scoreRows: ScoreRow[] = [];
+const mockDailyFindMany = jest.fn();
+const mockGetGoals = jest.fn();
+const mockBodyMetricFindMany = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    dailyData: { findMany: (...args: unknown[]) => mockDailyFindMany(...args) },
+    dailyScore: {
+      findMany: async ({ where }: { where: { date?: { in: string[] } } }) =>
+        scoreRows
+          .filter((r) => !where.date || where.date.in.includes(r.date))
+          .sort((a, b) => b.computedAt.getTime() - a.computedAt.getTime()),
+      createMany: async ({ data }: { data: Record<string, unknown>[] }) => {
+        for (const row of data) {
+          scoreRows.push({ ...row, date: row.date as string, computedAt: new Date(Date.now() + scoreRows.length) });
+        }
+        return { count: data.length };
+      },
+    },
+    exerciseSet: { findMany: async () => [] },
+    bodyMetric: { findMany: (...args: unknown[]) => mockBodyMetricFindMany(...args) },
+    mealLog: { findMany: async () => [] },
+  },
+}));
+
+jest.mock("@/lib/dbConfig", () => ({
+  getGoals: (...args: unknown[]) => mockGetGoals(...args),
+  getScoringProfile: async () => (await import("@/lib/scoringProfile")).DEFAULT_SCORING_PROFILE,
+  getPersonal: async () => ({ heightCm: null, weightKg: null, age: null, sex: null, activityLevel: null }),
+  DEFAULT_USER_ID: "default",
+}));
+
+jest.mock("@/lib/googleCalendar", () => ({
+  getWorkLocation: jest.fn().mockResolvedValue(null),
+}));
+
+import {
+  finalizeDayScores,
+  finalizeDayScoresFrom,
+  getLatestScoreSnapshots,
+  getOrFinalizeScoreSnapshots,
+  rescoreRange,
+} from "@/lib/scoreSnapshots";
+
+/** 2026-03-10 12:00 JST */
+const NOW = new Date("2026-03-10T03:00:00Z");
+
+const record = (date: string, kcal: number) => ({
+  id: date,
+  ownerId: "u1",
+  date,
+  askenItems: null,
+  askenNutrients: { 朝食: { エネルギー: `${kcal}kcal`, たんぱく質: "150g" } },
+  strongData: null,
+  steps: 8000,
+  exerciseCalories: 0,
+  totalCalories: null,
+  restingHeartRate: null,
+  avgHeartRate: null,
+  sleepMinutes: null,
+  distanceMeters: null,
+  activeMinutes: null,
+  weightKg: null,
+  healthRaw: null,
+  healthSyncedAt: null,
+  hasHiking: false,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+let days: ReturnType<typeof record>[];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  scoreRows.length = 0;
+  days = [record("2026-03-08", 1900), record("2026-03-09", 1900), record("2026-03-10", 1900)];
+  mockDailyFindMany.mockImplementation(async ({ where }: { where: { date: { in?: string[]; gte?: string; lte?: string; lt?: string } } }) =>
+    days.filter((d) => {
+      const c = where.date;
+      if (c.in && !c.in.includes(d.date)) return false;
+      if (c.gte && d.date < c.gte) return false;
+      if (c.lte && d.date > c.lte) return false;
+      if (c.lt && d.date >= c.lt) return false;
+      return true;
+    })
+  );
+  mockGetGoals.mockResolvedValue({ calories: 2300, protein: 150, fat: 54, carbs: 293 });
+  mockBodyMetricFindMany.mockResolvedValue([]);
+});
+
+describe("finalizeDayScores", () => {
+  it("今日より前の日だけ、現在の目標で確定する", async () => {
+    const result = await finalizeDayScores("u1", ["2026-03-08", "2026-03-09", "2026-03-10"], NOW);
+
+    expect(result).toEqual({ finalized: 2, updated: 0 });
+    expect(scoreRows.map((r) => r.date).sort()).toEqual(["2026-03-08", "2026-03-09"]);
+    expect(scoreRows[0]).toMatchObject({ reason: "finalize", scoringVersion: 2, goals: { calories: 2300 } });
+  });
+
+  it("目標を変えても確定済みのスコアは変わらず、データ更新時は採点時の目標で再計算する", async () => {
+    await finalizeDayScores("u1", ["2026-03-08"], NOW);
+    const before = (await getLatestScoreSnapshots("u1")).get("2026-03-08")!;
+    // -400kcal → cut で 30点
+    expect(before.breakdown.details.energy.score).toBe(30);
+
+    mockGetGoals.mockResolvedValue({ calories: 1900, protein: 150, fat: 54, carbs: 293 });
+    expect(await finalizeDayScores("u1", ["2026-03-08"], NOW)).toEqual({ finalized: 0, updated: 0 });
+
+    days[0] = record("2026-03-08", 2250);
+    expect(await finalizeDayScores("u1", ["2026-03-08"], NOW)).toEqual({ finalized: 0, updated: 1 });
+    const after = (await getLatestScoreSnapshots("u1")).get("2026-03-08")!;
+    expect(after.reason).toBe("data");
+    expect(after.goals.calories).toBe(2300);
+    // 2250 - 2300 = -50 → ±100以内 18点
+    expect(after.breakdown.details.energy.score).toBe(18);
+  });
+
+  it("体組成ログがあればその日時点の傾向体重で採点する", async () => {
+    mockBodyMetricFindMany.mockResolvedValue([
+      { date: "2026-03-01", source: "manual", weightKg: 80, bodyFatPct: null, waistCm: null },
+    ]);
+    await finalizeDayScores("u1", ["2026-03-08"], NOW);
+    const snap = (await getLatestScoreSnapshots("u1")).get("2026-03-08")!;
+    expect(snap.weightKg).toBe(80);
+    // 150g / 80kg = 1.875 → 1.8–1.99 で 17点
+    expect(snap.breakdown.details.protein.score).toBe(17);
+  });
+});
+
+describe("finalizeDayScoresFrom", () => {
+  it("体重を記録した日から昨日までを、後の日の傾向体重も含めて採点し直す", async () => {
+    await finalizeDayScores("u1", ["2026-03-08", "2026-03-09"], NOW);
+    mockBodyMetricFindMany.mockResolvedValue([
+      { date: "2026-03-08", source: "manual", weightKg: 80, bodyFatPct: null, waistCm: null },
+    ]);
+
+    expect(await finalizeDayScoresFrom("u1", "2026-03-08", NOW)).toEqual({ finalized: 0, updated: 2 });
+    const latest = await getLatestScoreSnapshots("u1");
+    expect(latest.get("2026-03-09")).toMatchObject({ reason: "data", weightKg: 80 });
+    expect(latest.has("2026-03-10")).toBe(false);
+  });
+});
+
+describe("getOrFinalizeScoreSnapshots", () => {
+  it("スナップショットの無い過去の日を確定し、以降は目標を変えてもスコアが変わらない（今日は対象外）", async () => {
+    await finalizeDayScores("u1", ["2026-03-09"], NOW);
+    const dates = ["2026-03-08", "2026-03-09", "2026-03-10"];
+
+    const first = await getOrFinalizeScoreSnapshots("u1", dates, NOW);
+    expect([...first.keys()].sort()).toEqual(["2026-03-08", "2026-03-09"]);
+    expect(first.get("2026-03-08")).toMatchObject({ reason: "finalize", goals: { calories: 2300 } });
+    expect(scoreRows).toHaveLength(2);
+
+    mockGetGoals.mockResolvedValue({ calories: 1500, protein: 150, fat: 54, carbs: 293 });
+    const second = await getOrFinalizeScoreSnapshots("u1", dates, NOW);
+    expect(second.get("2026-03-08")?.total).toBe(first.get("2026-03-08")?.total);
+    expect(scoreRows).toHaveLength(2);
+  });
+});
+
+describe("rescoreRange", () => {
+  it("期間内の確定済みの日を現在の目標で再計算して追記する（今日は対象外）", async () => {
+    await finalizeDayScores("u1", ["2026-03-08", "2026-03-09"], NOW);
+    mockGetGoals.mockResolvedValue({ calories: 1900, protein: 150, fat: 54, carbs: 293 });
+
+    const result = await rescoreRange("u1", "2026-03-01", "2026-03-10", NOW);
+
+    expect(result).toEqual({ rescored: 2, changed: 2 });
+    const latest = await getLatestScoreSnapshots("u1");
+    expect(latest.get("2026-03-09")).toMatchObject({ reason: "rescore", goals: { calories: 1900 } });
+    expect(latest.has("2026-03-10")).toBe(false);
+    // 履歴は追記のみ
+    expect(scoreRows).toHaveLength(4);
+  });
+});
@@ -3,6 +3,7 @@
  * 現行配点（30/20/20/15/10/5＋登山ボーナスmax+8）に対応。
  */
 import { calculateDailyScore } from "@/lib/scoring";
+import { SCORING_PRESETS } from "@/lib/scoringProfile";
 import type { DayData } from "@/lib/gemini";
 import { GOAL_CALORIES } from "@/lib/gemini";
 
@@ -105,7 +106,34 @@ describe("calculateDailyScore", () => {
         },
       });
       const r = calculateDailyScore(d);
+      // 平均レップ数が 6-12 外・前回比較なしなので 6-12回 と 漸進性 は加点しない
+      expect(r.details.stimulus.score).toBe(10);
+      expect(r.details.stimulus.label).toContain("前回比較なし");
+    });
+
+    it("筋力サマリーで 6-12回・漸進性を判定する", () => {
+      const d = day({
+        strongData: {
+          workouts: [{
+            title: "A",
+            totals: { sets: 12, reps: 96, volumeKg: 1000 },
+            exercises: [
+              { name: "Squat", sets: 6, volumeKg: 500 },
+              { name: "Bench Press", sets: 6, volumeKg: 500 },
+            ],
+          }],
+          totals: { workouts: 1, sets: 12, volumeKg: 1000 },
+        },
+      });
+      const base = { date: "2026-02-15", workingSets: 12, setsInRepRange: 12, exercises: [] };
+      expect(calculateDailyScore(d).details.stimulus.score).toBe(15);
+      expect(calculateDailyScore(d, undefined, undefined, { ...base, compared: 2, progressed: 0 }).details.stimulus.score).toBe(15);
+      const r = calculateDailyScore(d, undefined, undefined, { ...base, compared: 2, progressed: 1 });
       expect(r.details.stimulus.score).toBe(20);
+      expect(r.details.stimulus.label).toContain("漸進性 1/2種目");
+      // 本セットの半数未満しか 6-12 回でなければ加点しない
+      const heavy = calculateDailyScore(d, undefined, undefined, { ...base, setsInRepRange: 5, compared: 2, progressed: 1 });
+      expect(heavy.details.stimulus.score).toBe(15);
     });
 
     it("登山実施日は刺激18点", () => {
@@ -234,7 +262,7 @@ describe("calculateDailyScore", () => {
     it("食事・筋トレ・登山すべてないと total=0", () => {
       const r = calculateDailyScore(day());
       expect(r.total).toBe(0);
-      expect(r.details.energy.label).toBe("記録なし");
+      expect(r.details.energy.label).toBe("記録なし [減量]");
     });
   });
 
@@ -284,4 +312,50 @@ describe("calculateDailyScore", () => {
       expect(typeof r.total).toBe("number");
     });
   });
+
+  describe("採点プロファイル", () => {
+    const surplus = () => day({
+      askenNutrients: { 朝食: { エネルギー: String(GOAL_CALORIES + 300) + "kcal" } },
+    });
+
+    it("未指定時は cut で、全ラベルにプロファイル名が付く", () => {
+      const r = calculateDailyScore(surplus());
+      expect(r.profile).toEqual({ id: "cut", name: "減量", version: 1 });
+      for (const item of Object.values(r.details)) {
+        expect(item.label).toMatch(/ \[減量\]$/);
+      }
+    });
+
+    it("bulk は +200〜+400 の余剰を満点にする", () => {
+      const r = calculateDailyScore(surplus(), undefined, undefined, null, SCORING_PRESETS.bulk);
+      expect(r.details.energy.score).toBe(30);
+      expect(r.details.energy.label).toBe("+200〜+400 (30点) [増量]");
+      expect(r.profile.id).toBe("bulk");
+    });
+
+    it("刺激の満点・セット数基準はプロファイルに従う", () => {
+      const d = day({
+        strongData: {
+          workouts: [{
+            title: "A",
+            totals: { sets: 8, reps: 80, volumeKg: 800 },
+            exercises: [{ name: "Squat", sets: 8, volumeKg: 800 }],
+          }],
+          totals: { workouts: 1, sets: 8, volumeKg: 800 },
+        },
+      });
+      // cut: 10セット未満 → コンパウンド・6-12回 の2基準で 10/20
+      expect(calculateDailyScore(d).details.stimulus.score).toBe(10);
+      // endurance: 8セット以上で3基準、満点15を4等分 → 11
+      const r = calculateDailyScore(d, undefined, undefined, null, SCORING_PRESETS.endurance);
+      expect(r.details.stimulus.score).toBe(11);
+      expect(r.details.stimulus.label).toContain("11/15");
+    });
+
+    it("endurance は歩数の配点が大きい", () => {
+      const d = day({ steps: 12500, askenNutrients: { 朝食: { エネルギー: "2000kcal" } } });
+      expect(calculateDailyScore(d).details.activity.score).toBe(10);
+      expect(calculateDailyScore(d, undefined, undefined, null, SCORING_PRESETS.endurance).details.activity.score).toBe(21);
+    });
+  });
 });
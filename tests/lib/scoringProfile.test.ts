@@ -0,0 +1,54 @@
+/**
+ * Tests for src/lib/scoringProfile.ts
+ * プリセットの妥当性、保存 JSON のパース（不正な形式・バージョンの除外）、帯の判定
+ */
+import { DEFAULT_SCORING_PROFILE, SCORING_PRESETS, parseScoringProfile, pickBand } from "@/lib/scoringProfile";
+import { scoringProfileSchema } from "@/lib/schemas/scoringProfile";
+
+describe("SCORING_PRESETS", () => {
+  it.each(Object.keys(SCORING_PRESETS))("%s はスキーマを満たし、配点合計が100", (id) => {
+    const preset = SCORING_PRESETS[id as keyof typeof SCORING_PRESETS];
+    expect(scoringProfileSchema.safeParse(preset).success).toBe(true);
+    expect(preset.id).toBe(id);
+  });
+
+  it("既定は cut", () => {
+    expect(DEFAULT_SCORING_PROFILE.id).toBe("cut");
+  });
+});
+
+describe("parseScoringProfile", () => {
+  it("保存済み JSON をそのまま読める", () => {
+    const json = JSON.parse(JSON.stringify(SCORING_PRESETS.bulk));
+    expect(parseScoringProfile(json)).toEqual(SCORING_PRESETS.bulk);
+  });
+
+  it("未知のバージョン・配点合計が100でないものは null", () => {
+    expect(parseScoringProfile({ ...SCORING_PRESETS.cut, version: 2 })).toBeNull();
+    expect(parseScoringProfile({ ...SCORING_PRESETS.cut, weights: { ...SCORING_PRESETS.cut.weights, energy: 40 } })).toBeNull();
+    expect(parseScoringProfile(null)).toBeNull();
+  });
+
+  it("帯の点数が項目の満点を超えるものは null", () => {
+    const p = { ...SCORING_PRESETS.cut, activityBands: [{ points: 11, label: "全部" }] };
+    expect(parseScoringProfile(p)).toBeNull();
+  });
+});
+
+describe("pickBand", () => {
+  const bands = [
+    { max: -300, maxInclusive: true, points: 3, label: "a" },
+    { max: 0, points: 2, label: "b" },
+    { points: 1, label: "c" },
+  ];
+
+  it("上から順に最初に該当する帯を返す（maxInclusive で境界を含む）", () => {
+    expect(pickBand(bands, -300)?.label).toBe("a");
+    expect(pickBand(bands, -1)?.label).toBe("b");
+    expect(pickBand(bands, 0)?.label).toBe("c");
+  });
+
+  it("該当なしは null", () => {
+    expect(pickBand([{ min: 10, points: 1, label: "x" }], 5)).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for src/lib/strengthProgress.ts
+ * 推定1RM の計算式、セッション集計（ウォームアップ除外）と前回比較、DB からのサマリー作成を検証
+ */
+
+const mockSetFindMany = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    exerciseSet: { findMany: (...args: unknown[]) => mockSetFindMany(...args) },
+  },
+}));
+
+import {
+  brzycki1RM,
+  buildStrengthSummaries,
+  epley1RM,
+  getExerciseHistory,
+  getStrengthSummaries,
+  summarizeSession,
+  type StrengthSetRow,
+} from "@/lib/strengthProgress";
+
+const set = (date: string, exerciseName: string, weightKg: number, reps: number, setType = "normal"): StrengthSetRow => ({
+  date,
+  exerciseName,
+  setType,
+  weightKg,
+  reps,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("推定1RM", () => {
+  it("Epley: 100kg×10回 ≈ 133.3kg、1回は重量そのもの", () => {
+    expect(epley1RM(100, 10)).toBeCloseTo(133.33, 1);
+    expect(epley1RM(100, 1)).toBe(100);
+  });
+
+  it("Brzycki: 100kg×10回 ≈ 133.3kg、重量0やレップ0は0", () => {
+    expect(brzycki1RM(100, 10)).toBeCloseTo(133.33, 1);
+    expect(brzycki1RM(0, 10)).toBe(0);
+    expect(brzycki1RM(100, 0)).toBe(0);
+  });
+});
+
+describe("summarizeSession", () => {
+  it("ウォームアップを除いてボリューム・トップセットを集計する", () => {
+    const s = summarizeSession("2026-03-01", "Bench Press", [
+      set("2026-03-01", "Bench Press", 40, 10, "warmup"),
+      set("2026-03-01", "Bench Press", 60, 8),
+      set("2026-03-01", "Bench Press", 65, 6),
+    ]);
+    expect(s.workingSets).toBe(2);
+    expect(s.volumeKg).toBe(870);
+    expect(s.topSet).toEqual({ weightKg: 65, reps: 6 });
+    expect(s.e1rm?.epley).toBe(78);
+  });
+
+  it("13回以上のセットは推定1RMに使わない", () => {
+    const s = summarizeSession("2026-03-01", "Curl", [set("2026-03-01", "Curl", 20, 15)]);
+    expect(s.volumeKg).toBe(300);
+    expect(s.e1rm).toBeNull();
+  });
+});
+
+describe("buildStrengthSummaries", () => {
+  const rows = [
+    set("2026-03-01", "Bench Press", 60, 8),
+    set("2026-03-01", "Bench Press", 60, 8),
+    set("2026-03-01", "Dips", 0, 10),
+    set("2026-03-04", "Bench Press", 40, 10, "warmup"),
+    set("2026-03-04", "Bench Press", 62.5, 8),
+    set("2026-03-04", "Bench Press", 62.5, 7),
+    set("2026-03-04", "Dips", 0, 8),
+    set("2026-03-04", "Squat", 100, 5),
+  ];
+
+  it("同じ種目の前回セッションと比較し、進捗した種目数を数える", () => {
+    const day = buildStrengthSummaries(rows).get("2026-03-04")!;
+    expect(day.workingSets).toBe(4);
+    expect(day.setsInRepRange).toBe(3);
+    expect(day.compared).toBe(2);
+    expect(day.progressed).toBe(1);
+
+    const bench = day.exercises.find((e) => e.exerciseName === "Bench Press")!;
+    expect(bench.previous?.date).toBe("2026-03-01");
+    expect(bench.e1rmUp).toBe(true);
+    const dips = day.exercises.find((e) => e.exerciseName === "Dips")!;
+    expect(dips.repsUp).toBe(false);
+    expect(dips.progressed).toBe(false);
+    expect(day.exercises.find((e) => e.exerciseName === "Squat")!.previous).toBeNull();
+  });
+
+  it("from より前の日は比較にだけ使い、結果に含めない", () => {
+    const byDate = buildStrengthSummaries(rows, "2026-03-02");
+    expect([...byDate.keys()]).toEqual(["2026-03-04"]);
+    expect(byDate.get("2026-03-04")!.compared).toBe(2);
+  });
+});
+
+describe("DB からの取得", () => {
+  const row = (date: string, exerciseName: string, weightKg: number, reps: number) => ({
+    exerciseName,
+    setType: "normal",
+    weightKg,
+    reps,
+    workout: { date },
+  });
+
+  it("getStrengthSummaries は期間内の種目だけ過去履歴を読む", async () => {
+    mockSetFindMany
+      .mockResolvedValueOnce([row("2026-03-04", "Squat", 105, 5)])
+      .mockResolvedValueOnce([row("2026-03-01", "Squat", 100, 5)]);
+
+    const byDate = await getStrengthSummaries("u1", "2026-03-02", "2026-03-08");
+
+    expect(mockSetFindMany).toHaveBeenCalledTimes(2);
+    expect(mockSetFindMany.mock.calls[0][0].where).toEqual({
+      workout: { ownerId: "u1", date: { gte: "2026-03-02", lte: "2026-03-08" } },
+    });
+    expect(mockSetFindMany.mock.calls[1][0].where).toEqual({
+      exerciseName: { in: ["Squat"] },
+      workout: { ownerId: "u1", date: { lt: "2026-03-02" } },
+    });
+    expect(byDate.get("2026-03-04")).toMatchObject({ compared: 1, progressed: 1, setsInRepRange: 0 });
+  });
+
+  it("期間内にセットが無ければ過去履歴は読まない", async () => {
+    mockSetFindMany.mockResolvedValueOnce([]);
+    const byDate = await getStrengthSummaries("u1", "2026-03-02", "2026-03-08");
+    expect(byDate.size).toBe(0);
+    expect(mockSetFindMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("getExerciseHistory は種目の全セッションを日付昇順で返す", async () => {
+    mockSetFindMany.mockResolvedValueOnce([
+      row("2026-03-08", "Squat", 100, 6),
+      row("2026-03-01", "Squat", 100, 5),
+    ]);
+    const history = await getExerciseHistory("u1", "Squat");
+    expect(history.map((h) => h.current.date)).toEqual(["2026-03-01", "2026-03-08"]);
+    expect(history[1].volumeUp).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for the Strong CSV export parser in src/lib/sources/strong.ts
+ * 全履歴 CSV → ワークアウト単位のパースと、StrongDayData への集計（セット詳細の保持・重複除去）を検証
+ */
+
+jest.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  buildStrongData,
+  isStrongCsv,
+  parseStrongCsv,
+  parseStrongFileContent,
+  parseTxtContent,
+} from "@/lib/sources/strong";
+
+const HEADER = "Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE";
+
+const CSV = [
+  HEADER,
+  "2026-03-01 07:30:00,Push,1h 5m,Bench Press (Barbell),W,40,10,0,0,,Felt strong,",
+  "2026-03-01 07:30:00,Push,1h 5m,Bench Press (Barbell),1,60,8,0,0,,Felt strong,8",
+  '2026-03-01 07:30:00,Push,1h 5m,Bench Press (Barbell),2,60,7,0,0,"slow, paused",Felt strong,9',
+  "2026-03-01 07:30:00,Push,1h 5m,Plank,1,0,0,0,60,,Felt strong,",
+  "2026-03-01 07:30:00,Push,1h 5m,Rest Timer,Rest Timer,0,0,0,90,,Felt strong,",
+  "2026-03-03 18:00:00,Run,30m,Running,1,0,0,5,1800,,,",
+].join("\n");
+
+describe("isStrongCsv", () => {
+  it("Exercise Name と Set Order 列があれば CSV とみなす", () => {
+    expect(isStrongCsv(CSV)).toBe(true);
+    expect(isStrongCsv("Push\n2026年3月1日 7:30\nベンチプレス\nセット 1: 60 kg × 8")).toBe(false);
+  });
+});
+
+describe("parseStrongCsv", () => {
+  const { workouts, errors } = parseStrongCsv(CSV);
+
+  it("Date + Workout Name でワークアウトにまとめ、時間・メモを残す", () => {
+    expect(errors).toEqual([]);
+    expect(workouts.map((w) => [w.date, w.workoutName, w.durationSec, w.notes])).toEqual([
+      ["2026-03-01", "Push", 3900, "Felt strong"],
+      ["2026-03-03", "Run", 1800, undefined],
+    ]);
+  });
+
+  it("セットごとに種別・RPE・メモ・秒数を詳細として保持する（Rest Timer 行は除く）", () => {
+    const push = workouts[0];
+    expect(push.exercises.map((e) => e.name)).toEqual([
+      "Bench Press (Barbell)",
+      "Bench Press (Barbell)",
+      "Bench Press (Barbell)",
+      "Plank",
+    ]);
+    expect(push.exercises[0].detail).toEqual({ order: 1, setType: "warmup", weightKg: 40, reps: 10 });
+    expect(push.exercises[2].detail).toEqual({
+      order: 3,
+      setType: "normal",
+      weightKg: 60,
+      reps: 7,
+      rpe: 9,
+      notes: "slow, paused",
+    });
+    expect(push.exercises[3].detail).toMatchObject({ seconds: 60 });
+  });
+
+  it("ウォームアップ等の番号の無いセットも含め、種目内の行の順でセット順を振る", () => {
+    expect(workouts[0].exercises.map((e) => [e.name, e.detail?.order])).toEqual([
+      ["Bench Press (Barbell)", 1],
+      ["Bench Press (Barbell)", 2],
+      ["Bench Press (Barbell)", 3],
+      ["Plank", 1],
+    ]);
+  });
+
+  it("距離の単位を m に換算し、lbs の重量を kg に換算する", () => {
+    const csv = [
+      "Date;Workout Name;Exercise Name;Set Order;Weight (lbs);Reps;Distance (km);Seconds",
+      "2026-03-05 07:00:00;Legs;Squat;1;225;5;0;0",
+      "2026-03-05 07:00:00;Legs;Bike;1;0;0;10;1200",
+    ].join("\n");
+    const [legs] = parseStrongCsv(csv).workouts;
+    expect(legs.exercises[0].weight).toBe(102.06);
+    expect(legs.exercises[1].detail?.distanceMeters).toBe(10000);
+  });
+
+  it("ヘッダーが足りなければエラー", () => {
+    expect(parseStrongCsv("Date,Name\n2026-03-01,x").errors).toHaveLength(1);
+  });
+});
+
+describe("buildStrongData with CSV", () => {
+  it("集計は従来どおり、種目ごとに setDetails を付ける", () => {
+    const data = buildStrongData(parseStrongCsv(CSV).workouts);
+    const day = data.get("2026-03-01")!;
+    expect(day.totals).toEqual({ workouts: 1, sets: 4, volumeKg: 1300 });
+    const bench = day.workouts[0].exercises[0];
+    expect(bench).toMatchObject({ name: "Bench Press (Barbell)", sets: 3, volumeKg: 1300 });
+    expect(bench.setDetails).toHaveLength(3);
+    expect(day.workouts[0].durationSec).toBe(3900);
+  });
+
+  it("同じ CSV を2回取り込んでも二重計上しない", () => {
+    const { workouts } = parseStrongCsv(CSV);
+    const data = buildStrongData([...workouts, ...parseStrongCsv(CSV).workouts]);
+    expect(data.get("2026-03-01")!.totals.sets).toBe(4);
+  });
+
+  it("CSV と同じ日・同じ名前の共有テキストは CSV を優先する", () => {
+    const txt = parseTxtContent("Push\n2026年3月1日 7:30\nベンチプレス\nセット 1: 60 kg × 8")!;
+    const data = buildStrongData([txt, ...parseStrongCsv(CSV).workouts]);
+    expect(data.get("2026-03-01")!.workouts).toHaveLength(1);
+    expect(data.get("2026-03-01")!.workouts[0].exercises[0].name).toBe("Bench Press (Barbell)");
+  });
+});
+
+describe("parseStrongFileContent", () => {
+  it("共有テキストは1ワークアウト、読めなければエラー", () => {
+    expect(parseStrongFileContent("a.txt", "Push\n2026年3月1日\nセット 1: 60 kg × 8").workouts).toHaveLength(1);
+    expect(parseStrongFileContent("b.txt", "hello").errors).toEqual([
+      "b.txt: パースできませんでした（日付が見つかりません）",
+    ]);
+  });
+});
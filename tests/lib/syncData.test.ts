@@ -1,31 +1,21 @@
 /**
  * Tests for src/lib/syncData.ts
- * child_process, fs, Prisma をモックしてテスト
+ * あすけんスクレイパー, fs, Prisma をモックしてテスト
  */
 
-import { EventEmitter } from "events";
-
 // ─── モック設定 ──────────────────────────────────────
 
-/** spawn が返すプロセスのモック */
-function createMockProcess(exitCode = 0, stdoutData = ""): EventEmitter & { stdout: EventEmitter; stderr: EventEmitter } {
-  const proc = new EventEmitter() as EventEmitter & { stdout: EventEmitter; stderr: EventEmitter };
-  proc.stdout = new EventEmitter();
-  proc.stderr = new EventEmitter();
-  setTimeout(() => {
-    if (stdoutData) proc.stdout.emit("data", Buffer.from(stdoutData));
-    proc.emit("close", exitCode);
-  }, 5);
-  return proc;
-}
-
-const mockSpawn = jest.fn();
-jest.mock("child_process", () => ({
-  spawn: (...args: unknown[]) => mockSpawn(...args),
+const mockScrapeDate = jest.fn();
+const mockScraperClose = jest.fn().mockResolvedValue(undefined);
+const mockOpenAskenScraper = jest.fn();
+jest.mock("../../scripts/asken/scraper", () => ({
+  openAskenScraper: (...args: unknown[]) => mockOpenAskenScraper(...args),
 }));
 
 const mockUpsert = jest.fn().mockResolvedValue({});
 const mockCount = jest.fn().mockResolvedValue(10);
+const mockIntegrationFindMany = jest.fn().mockResolvedValue([]);
+const mockScrapingLogCreate = jest.fn().mockResolvedValue({});
 
 jest.mock("@/lib/prisma", () => ({
   prisma: {
@@ -33,9 +23,18 @@ jest.mock("@/lib/prisma", () => ({
       upsert: (...args: unknown[]) => mockUpsert(...args),
       count: () => mockCount(),
     },
+    integration: {
+      findMany: (...args: unknown[]) => mockIntegrationFindMany(...args),
+    },
+    scrapingLog: { create: (...args: unknown[]) => mockScrapingLogCreate(...args) },
   },
 }));
 
+const mockFinalizeDayScores = jest.fn().mockResolvedValue({ finalized: 0, updated: 0 });
+jest.mock("@/lib/scoreSnapshots", () => ({
+  finalizeDayScores: (...args: unknown[]) => mockFinalizeDayScores(...args),
+}));
+
 jest.mock("fs", () => ({
   existsSync: jest.fn((p: string) => {
     const normalized = p.replace(/\\/g, "/");
@@ -53,6 +52,7 @@ const ORIGINAL_ENV = process.env;
 beforeEach(() => {
   jest.clearAllMocks();
   process.env = { ...ORIGINAL_ENV, ASKEN_EMAIL: "test@test.com", ASKEN_PASSWORD: "pass" };
+  mockOpenAskenScraper.mockResolvedValue({ scrapeDate: mockScrapeDate, close: mockScraperClose });
 });
 afterAll(() => { process.env = ORIGINAL_ENV; });
 
@@ -60,40 +60,165 @@ afterAll(() => { process.env = ORIGINAL_ENV; });
 
 describe("syncData", () => {
   it("スクレイピング成功時に DB に upsert する", async () => {
-    const sampleData = JSON.stringify({
-      date: "2026-02-11",
+    mockScrapeDate.mockImplementation(async (date: string) => ({
+      date,
       items: [{ mealType: "朝食", name: "パン", amount: "1枚", calories: 200 }],
       nutrients: { "朝食": { "エネルギー": "200kcal" } },
-    });
-
-    mockSpawn.mockImplementation(() => createMockProcess(0, sampleData));
+    }));
 
     jest.resetModules();
     const { syncData } = await import("@/lib/syncData");
     // テスト用に4日分の範囲を指定（デフォルトは60日で時間がかかるため）
     const result = await syncData({ from: "2026-02-08", to: "2026-02-11" });
 
-    // 4日分すべてに対して spawn が呼ばれること
-    expect(mockSpawn).toHaveBeenCalledTimes(4);
+    // ブラウザは1回だけ起動し、4日分を同じコンテキストで取得して閉じる
+    expect(mockOpenAskenScraper).toHaveBeenCalledTimes(1);
+    expect(mockOpenAskenScraper).toHaveBeenCalledWith(
+      expect.objectContaining({ headless: true, credentials: { email: "test@test.com", password: "pass" } })
+    );
+    expect(mockScrapeDate).toHaveBeenCalledTimes(4);
+    expect(mockScraperClose).toHaveBeenCalledTimes(1);
     expect(result.askenCount).toBe(4);
     // DB に upsert が呼ばれること
     expect(mockUpsert).toHaveBeenCalled();
+    // 同期した日のスコアを確定する
+    expect(mockFinalizeDayScores).toHaveBeenCalledWith("default", ["2026-02-08", "2026-02-09", "2026-02-10", "2026-02-11"]);
   });
 
   it("スクレイピング失敗時はエラーが記録される", async () => {
-    mockSpawn.mockImplementation(() => {
-      const proc = createMockProcess(1);
-      setTimeout(() => proc.stderr.emit("data", Buffer.from("scrape failed")), 2);
-      return proc;
-    });
+    mockScrapeDate.mockRejectedValue(new Error("scrape failed"));
 
     jest.resetModules();
     const { syncData } = await import("@/lib/syncData");
     const result = await syncData({ from: "2026-02-08", to: "2026-02-11" });
 
-    expect(mockSpawn).toHaveBeenCalledTimes(4);
+    expect(mockScrapeDate).toHaveBeenCalledTimes(4);
     expect(result.askenCount).toBe(0);
     expect(result.errors.length).toBeGreaterThan(0);
-    expect(result.errors[0]).toContain("Asken");
+    expect(result.errors[0]).toBe("Asken 2026-02-08: scrape failed");
+  });
+
+  it("同時に取得する日数は concurrency まで", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mockScrapeDate.mockImplementation(async (date: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((r) => setTimeout(r, 5));
+      running--;
+      return { date, items: [], nutrients: {} };
+    });
+
+    jest.resetModules();
+    const { syncData } = await import("@/lib/syncData");
+    const result = await syncData({ from: "2026-02-06", to: "2026-02-11", concurrency: 2 });
+
+    expect(mockScrapeDate).toHaveBeenCalledTimes(6);
+    expect(maxRunning).toBe(2);
+    expect(result.askenCount).toBe(6);
+  });
+
+  it("上限時間を超えた日はタイムアウトとして記録し、他の日は続ける", async () => {
+    process.env.ASKEN_DATE_TIMEOUT_MS = "20";
+    mockScrapeDate.mockImplementation((date: string) =>
+      date === "2026-02-10" ? new Promise(() => {}) : Promise.resolve({ date, items: [], nutrients: {} })
+    );
+
+    jest.resetModules();
+    const { syncData } = await import("@/lib/syncData");
+    const result = await syncData({ from: "2026-02-10", to: "2026-02-11" });
+
+    expect(result.askenCount).toBe(1);
+    expect(result.errors).toContain("Asken 2026-02-10（タイムアウト）: 20ms 以内に終わりませんでした");
+    expect(mockScrapingLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ ownerId: "default", date: "2026-02-10", status: "error", errorKind: "timeout" }),
+    });
+    expect(mockScraperClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("セッション切れは ScrapingLog に種類を残し、残りの日付は取得しない", async () => {
+    jest.resetModules();
+    const { AskenSessionExpiredError } = await import("../../scripts/asken/errors");
+    mockScrapeDate.mockRejectedValue(new AskenSessionExpiredError("Redirected to login page."));
+    const { syncData } = await import("@/lib/syncData");
+    const result = await syncData({ from: "2026-02-08", to: "2026-02-11", concurrency: 1 });
+
+    expect(mockScrapeDate).toHaveBeenCalledTimes(1);
+    expect(result.errors).toEqual([
+      "Asken 2026-02-08（セッション切れ）: Redirected to login page.",
+      "Asken: セッション切れのため残り 3 日の取得を中止しました",
+    ]);
+    expect(mockScrapingLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ date: "2026-02-08", status: "error", errorKind: "session_expired" }),
+    });
+  });
+
+  it("syncSource は栄養ソースの日付ごとの結果を返し、中止した日付にはその理由を入れる", async () => {
+    jest.resetModules();
+    const { AskenSessionExpiredError } = await import("../../scripts/asken/errors");
+    mockScrapeDate.mockRejectedValue(new AskenSessionExpiredError("Redirected to login page."));
+    const { syncSource } = await import("@/lib/syncData");
+    const { getSource } = await import("@/lib/sources");
+    const result = await syncSource("default", getSource("asken")!, ["2026-02-08", "2026-02-09"], { concurrency: 1 });
+
+    expect([...result.nutritionDays!.entries()]).toEqual([
+      ["2026-02-08", { saved: false, errors: ["Asken 2026-02-08（セッション切れ）: Redirected to login page."], errorKind: "session_expired" }],
+      ["2026-02-09", { saved: false, errors: ["Asken 2026-02-09: セッション切れのため取得を中止しました"], errorKind: "session_expired" }],
+    ]);
+  });
+
+  it("ページ構成の変更は日付ごとのエラーとして続ける", async () => {
+    jest.resetModules();
+    const { AskenLayoutChangedError } = await import("../../scripts/asken/errors");
+    mockScrapeDate.mockImplementation(async (date: string) => {
+      if (date === "2026-02-10") throw new AskenLayoutChangedError("食事ブロック（#karute_report_*）が見つかりません");
+      return { date, items: [], nutrients: {} };
+    });
+    const { syncData } = await import("@/lib/syncData");
+    const result = await syncData({ from: "2026-02-10", to: "2026-02-11" });
+
+    expect(result.askenCount).toBe(1);
+    expect(result.errors).toContain("Asken 2026-02-10（ページ構成の変更）: 食事ブロック（#karute_report_*）が見つかりません");
+  });
+
+  it("認証情報もセッションファイルも無ければ取得せずセッション切れとして記録する", async () => {
+    delete process.env.ASKEN_EMAIL;
+    jest.resetModules();
+    const fs = jest.requireMock("fs") as { existsSync: jest.Mock };
+    fs.existsSync.mockReturnValue(false);
+    const { syncData } = await import("@/lib/syncData");
+    const result = await syncData({ from: "2026-02-10", to: "2026-02-11" });
+
+    expect(mockOpenAskenScraper).not.toHaveBeenCalled();
+    expect(result.errors[0]).toMatch(/^Asken 2026-02-10（セッション切れ）: ASKEN_EMAIL/);
+    expect(mockScrapingLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ errorKind: "session_expired" }),
+    });
+  });
+
+  it("Integration で無効化したソースは取得しない", async () => {
+    mockIntegrationFindMany.mockResolvedValueOnce([{ sourceType: "asken", enabled: false }]);
+
+    jest.resetModules();
+    const { syncData } = await import("@/lib/syncData");
+    const result = await syncData({ from: "2026-02-10", to: "2026-02-11" });
+
+    expect(mockOpenAskenScraper).not.toHaveBeenCalled();
+    expect(result.askenCount).toBe(0);
+    expect(mockIntegrationFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: "default" } })
+    );
+  });
+
+  it("Integration 行の無い default 以外のユーザーはソースが無効", async () => {
+    jest.resetModules();
+    const { syncData } = await import("@/lib/syncData");
+    const result = await syncData({ from: "2026-02-10", to: "2026-02-11", userId: "user-2" });
+
+    expect(mockOpenAskenScraper).not.toHaveBeenCalled();
+    expect(result.askenCount).toBe(0);
+    expect(mockUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { ownerId_date: { ownerId: "user-2", date: "2026-02-10" } } })
+    );
   });
 });
@@ -0,0 +1,354 @@
+/**
+ * Tests for src/lib/syncJobs.ts
+ * ジョブの登録（日付 × ソース）、取得の排他、成功・再試行（バックオフ）・失敗、依頼ごとの進捗と実行履歴を検証
+ */
+
+const mockCreateMany = jest.fn();
+const mockFindFirst = jest.fn();
+const mockFindMany = jest.fn();
+const mockUpdateMany = jest.fn();
+const mockUpdate = jest.fn();
+const mockRunCreate = jest.fn();
+const mockRunFindUnique = jest.fn();
+const mockRunUpdate = jest.fn();
+const mockDailyCount = jest.fn();
+const mockTransaction = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    $transaction: (ops: unknown[]) => mockTransaction(ops),
+    syncRun: {
+      create: (...args: unknown[]) => mockRunCreate(...args),
+      findUnique: (...args: unknown[]) => mockRunFindUnique(...args),
+      update: (...args: unknown[]) => mockRunUpdate(...args),
+    },
+    dailyData: { count: (...args: unknown[]) => mockDailyCount(...args) },
+    syncJob: {
+      createMany: (...args: unknown[]) => mockCreateMany(...args),
+      findFirst: (...args: unknown[]) => mockFindFirst(...args),
+      findMany: (...args: unknown[]) => mockFindMany(...args),
+      updateMany: (...args: unknown[]) => mockUpdateMany(...args),
+      update: (...args: unknown[]) => mockUpdate(...args),
+      fields: { maxAttempts: "maxAttempts" },
+    },
+  },
+}));
+
+const SOURCES = {
+  asken: { id: "asken", kind: "nutrition" },
+  strong: { id: "strong", kind: "training" },
+  appleHealth: { id: "appleHealth", kind: "health" },
+};
+
+const mockGetEnabledSources = jest.fn();
+jest.mock("@/lib/sources", () => ({
+  getEnabledSources: (...args: unknown[]) => mockGetEnabledSources(...args),
+  getSource: (id: keyof typeof SOURCES) => SOURCES[id] ?? null,
+}));
+
+const mockSyncSource = jest.fn();
+const mockFinishSyncDays = jest.fn();
+jest.mock("@/lib/syncData", () => ({
+  getTargetDates: (from: string, to: string) => {
+    const dates: string[] = [];
+    for (let t = Date.parse(from); t <= Date.parse(to); t += 86400000) dates.push(new Date(t).toISOString().slice(0, 10));
+    return dates;
+  },
+  syncSource: (...args: unknown[]) => mockSyncSource(...args),
+  finishSyncDays: (...args: unknown[]) => mockFinishSyncDays(...args),
+}));
+
+import type { SyncJob } from "@prisma/client";
+import {
+  claimNextSyncJob,
+  claimSyncJobGroup,
+  enqueueSyncJobs,
+  finishSyncBatchRun,
+  getSyncBatchProgress,
+  runSyncJob,
+  runSyncJobs,
+  SYNC_JOB_BACKOFF_BASE_MS,
+  SyncRangeError,
+} from "@/lib/syncJobs";
+
+const job = (values: Partial<SyncJob> = {}): SyncJob => ({
+  id: "job-1",
+  batchId: "batch-1",
+  ownerId: "user-1",
+  date: "2026-03-01",
+  source: "asken",
+  status: "running",
+  skipExistingPastDays: 0,
+  attempts: 1,
+  maxAttempts: 3,
+  runAfter: new Date("2026-03-02T00:00:00Z"),
+  savedDays: 0,
+  lastError: null,
+  durationMs: null,
+  startedAt: new Date("2026-03-02T00:00:00Z"),
+  finishedAt: null,
+  createdAt: new Date("2026-03-02T00:00:00Z"),
+  updatedAt: new Date("2026-03-02T00:00:00Z"),
+  ...values,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockUpdate.mockImplementation(({ data }: { data: Partial<SyncJob> }) => Promise.resolve(job(data)));
+  mockFinishSyncDays.mockResolvedValue([]);
+});
+
+describe("enqueueSyncJobs", () => {
+  it("日付 × 有効なソースのジョブを栄養 → トレーニング → ヘルスケアの順に積む", async () => {
+    mockGetEnabledSources.mockResolvedValueOnce([SOURCES.appleHealth, SOURCES.asken]);
+
+    const { batchId, jobCount } = await enqueueSyncJobs("user-1", { from: "2026-03-01", to: "2026-03-02", skipExistingPastDays: 3 });
+
+    expect(jobCount).toBe(4);
+    const { data } = mockCreateMany.mock.calls[0][0];
+    expect(data.map((d: SyncJob) => `${d.date} ${d.source}`)).toEqual([
+      "2026-03-01 asken",
+      "2026-03-01 appleHealth",
+      "2026-03-02 asken",
+      "2026-03-02 appleHealth",
+    ]);
+    expect(data[0]).toEqual({ batchId, ownerId: "user-1", date: "2026-03-01", source: "asken", skipExistingPastDays: 3 });
+    expect(mockRunCreate).toHaveBeenCalledWith({
+      data: { ownerId: "user-1", trigger: "manual", fromDate: "2026-03-01", toDate: "2026-03-02", batchId },
+    });
+    expect(mockTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("有効なソースが無ければジョブも実行履歴も作らない", async () => {
+    mockGetEnabledSources.mockResolvedValueOnce([]);
+    expect((await enqueueSyncJobs("user-1", { trigger: "cron" })).jobCount).toBe(0);
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("上限を超える日数は SyncRangeError", async () => {
+    mockGetEnabledSources.mockResolvedValue([SOURCES.asken]);
+    await expect(enqueueSyncJobs("user-1", { from: "2020-01-01", to: "2026-01-01" })).rejects.toBeInstanceOf(SyncRangeError);
+    expect(mockCreateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("claimNextSyncJob", () => {
+  it("他のワーカーに先に取られたジョブは飛ばして次を取る", async () => {
+    const now = new Date("2026-03-02T00:00:00Z");
+    mockFindFirst.mockResolvedValueOnce(job({ id: "a", status: "pending", attempts: 0 }));
+    mockFindFirst.mockResolvedValueOnce(job({ id: "b", status: "pending", attempts: 0 }));
+    mockUpdateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+    const claimed = await claimNextSyncJob(now);
+
+    expect(mockFindFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { status: "pending", runAfter: { lte: now } } }));
+    expect(mockUpdateMany).toHaveBeenLastCalledWith({
+      where: { id: "b", status: "pending" },
+      data: { status: "running", startedAt: now, attempts: { increment: 1 } },
+    });
+    expect(claimed).toEqual(expect.objectContaining({ id: "b", status: "running", attempts: 1 }));
+  });
+
+  it("実行できるジョブが無ければ null", async () => {
+    mockFindFirst.mockResolvedValueOnce(null);
+    expect(await claimNextSyncJob()).toBeNull();
+  });
+});
+
+describe("claimSyncJobGroup", () => {
+  it("栄養ソースは同じ依頼・ソースの実行できるジョブも取り、他のワーカーに取られたものは除く", async () => {
+    const now = new Date("2026-03-02T00:00:00Z");
+    mockFindMany.mockResolvedValueOnce([
+      job({ id: "job-2", date: "2026-03-02", status: "pending", attempts: 0 }),
+      job({ id: "job-3", date: "2026-03-03", status: "pending", attempts: 0 }),
+    ]);
+    mockUpdateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const group = await claimSyncJobGroup(job(), 5, now);
+
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: "pending",
+          runAfter: { lte: now },
+          batchId: "batch-1",
+          ownerId: "user-1",
+          source: "asken",
+          id: { not: "job-1" },
+        },
+        take: 4,
+      })
+    );
+    expect(group.map((j) => [j.id, j.status, j.attempts])).toEqual([
+      ["job-1", "running", 1],
+      ["job-2", "running", 1],
+    ]);
+  });
+
+  it("栄養ソース以外は取ったジョブだけ", async () => {
+    const group = await claimSyncJobGroup(job({ source: "strong" }));
+    expect(group.map((j) => j.id)).toEqual(["job-1"]);
+    expect(mockFindMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("runSyncJobs", () => {
+  it("まとめたジョブを1回の syncSource で実行し、日付ごとの結果でジョブを更新する", async () => {
+    mockSyncSource.mockResolvedValueOnce({
+      askenCount: 1,
+      strongCount: 0,
+      healthCount: 0,
+      errors: [],
+      nutritionDays: new Map([
+        ["2026-03-01", { saved: true, errors: [] }],
+        ["2026-03-02", { saved: false, errors: ["Asken 2026-03-02（タイムアウト）: slow"], errorKind: "timeout" }],
+        ["2026-03-03", { saved: false, errors: ["Asken 2026-03-03（セッション切れ）: login"], errorKind: "session_expired" }],
+      ]),
+    });
+
+    const result = await runSyncJobs([
+      job({ skipExistingPastDays: 3 }),
+      job({ id: "job-2", date: "2026-03-02" }),
+      job({ id: "job-3", date: "2026-03-03" }),
+    ]);
+
+    expect(mockSyncSource).toHaveBeenCalledTimes(1);
+    expect(mockSyncSource).toHaveBeenCalledWith("user-1", SOURCES.asken, ["2026-03-01", "2026-03-02", "2026-03-03"], {
+      skipExistingPastDays: 3,
+    });
+    expect(mockFinishSyncDays).toHaveBeenCalledWith("user-1", ["2026-03-01", "2026-03-02", "2026-03-03"]);
+    expect(result.map((j) => [j.status, j.savedDays])).toEqual([
+      ["succeeded", 1],
+      ["pending", 0],
+      ["failed", 0],
+    ]);
+    expect(mockUpdate).toHaveBeenNthCalledWith(3, {
+      where: { id: "job-3" },
+      data: expect.objectContaining({ status: "failed", lastError: "Asken 2026-03-03（セッション切れ）: login" }),
+    });
+  });
+});
+
+describe("runSyncJob", () => {
+  it("成功したら保存日数と所要時間を記録する", async () => {
+    mockSyncSource.mockResolvedValueOnce({ askenCount: 1, strongCount: 0, healthCount: 0, errors: [] });
+
+    const result = await runSyncJob(job({ skipExistingPastDays: 3 }));
+
+    expect(mockSyncSource).toHaveBeenCalledWith("user-1", SOURCES.asken, ["2026-03-01"], { skipExistingPastDays: 3 });
+    expect(mockFinishSyncDays).toHaveBeenCalledWith("user-1", ["2026-03-01"]);
+    expect(result.status).toBe("succeeded");
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "job-1" },
+      data: expect.objectContaining({ status: "succeeded", savedDays: 1, lastError: null, durationMs: expect.any(Number) }),
+    });
+  });
+
+  it("エラーは試行回数が残っていればバックオフして pending に戻す", async () => {
+    mockSyncSource.mockResolvedValueOnce({ askenCount: 0, strongCount: 0, healthCount: 0, errors: ["Asken 2026-03-01: timeout"] });
+
+    const before = Date.now();
+    await runSyncJob(job({ attempts: 2 }));
+
+    const { data } = mockUpdate.mock.calls[0][0];
+    expect(data).toEqual(expect.objectContaining({ status: "pending", lastError: "Asken 2026-03-01: timeout" }));
+    expect(data.runAfter.getTime()).toBeGreaterThanOrEqual(before + SYNC_JOB_BACKOFF_BASE_MS * 2);
+  });
+
+  it("試行回数を使い切ったら failed", async () => {
+    mockSyncSource.mockRejectedValueOnce(new Error("boom"));
+    const result = await runSyncJob(job({ attempts: 3 }));
+    expect(result.status).toBe("failed");
+    expect(result.lastError).toBe("Error: boom");
+  });
+
+  it("セッション切れ・Bot 拒否・ページ構成の変更は試行回数が残っていても failed", async () => {
+    mockSyncSource.mockResolvedValueOnce({
+      askenCount: 0,
+      strongCount: 0,
+      healthCount: 0,
+      errors: ["Asken 2026-03-01（セッション切れ）: Redirected to login page."],
+      errorKinds: ["session_expired"],
+    });
+
+    const result = await runSyncJob(job({ attempts: 1 }));
+
+    expect(result.status).toBe("failed");
+    expect(result.lastError).toBe("Asken 2026-03-01（セッション切れ）: Redirected to login page.");
+  });
+
+  it("未登録のソースは再試行せず failed", async () => {
+    const result = await runSyncJob(job({ source: "removed", attempts: 1 }));
+    expect(result.status).toBe("failed");
+    expect(mockSyncSource).not.toHaveBeenCalled();
+  });
+});
+
+describe("getSyncBatchProgress", () => {
+  it("状態ごとの件数、種類ごとの保存日数、失敗したジョブのエラーを返す", async () => {
+    mockFindMany.mockResolvedValueOnce([
+      job({ source: "asken", status: "succeeded", savedDays: 1 }),
+      job({ source: "strong", status: "succeeded", savedDays: 1 }),
+      job({ source: "asken", status: "failed", lastError: "Asken 2026-03-02: timeout" }),
+      job({ source: "appleHealth", status: "pending", lastError: "一時エラー" }),
+    ]);
+
+    const progress = await getSyncBatchProgress("user-1", "batch-1");
+
+    expect(mockFindMany).toHaveBeenCalledWith(expect.objectContaining({ where: { ownerId: "user-1", batchId: "batch-1" } }));
+    expect(progress).toEqual(
+      expect.objectContaining({
+        total: 4,
+        pending: 1,
+        running: 0,
+        succeeded: 2,
+        failed: 1,
+        done: false,
+        askenCount: 1,
+        strongCount: 1,
+        healthCount: 0,
+        errors: ["Asken 2026-03-02: timeout"],
+      })
+    );
+  });
+
+  it("ジョブが無ければ null", async () => {
+    mockFindMany.mockResolvedValueOnce([]);
+    expect(await getSyncBatchProgress("user-1", "other")).toBeNull();
+  });
+});
+
+describe("finishSyncBatchRun", () => {
+  const startedAt = new Date("2026-03-02T00:00:00Z");
+
+  it("全ジョブが終わったら実行履歴に集計と DailyData 件数を入れる", async () => {
+    mockFindMany.mockResolvedValueOnce([
+      job({ source: "asken", status: "succeeded", savedDays: 1 }),
+      job({ source: "appleHealth", status: "failed", lastError: "Health: 401" }),
+    ]);
+    mockRunFindUnique.mockResolvedValueOnce({ id: "run-1", status: "running", startedAt });
+    mockDailyCount.mockResolvedValueOnce(42);
+
+    await finishSyncBatchRun("user-1", "batch-1");
+
+    expect(mockRunFindUnique).toHaveBeenCalledWith({ where: { batchId: "batch-1" } });
+    expect(mockRunUpdate).toHaveBeenCalledWith({
+      where: { id: "run-1" },
+      data: expect.objectContaining({
+        status: "partial",
+        askenCount: 1,
+        healthCount: 0,
+        dayCount: 42,
+        errors: ["Health: 401"],
+        durationMs: expect.any(Number),
+      }),
+    });
+  });
+
+  it("残っているジョブがあれば何もしない", async () => {
+    mockFindMany.mockResolvedValueOnce([job({ status: "succeeded" }), job({ status: "pending" })]);
+    await finishSyncBatchRun("user-1", "batch-1");
+    expect(mockRunFindUnique).not.toHaveBeenCalled();
+    expect(mockRunUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for src/lib/syncRuns.ts
+ * 実行結果の状態判定、syncData の実行履歴への記録（成功・例外）、連続エラー回数と履歴のページングを検証
+ */
+
+const mockRunCreate = jest.fn();
+const mockRunUpdate = jest.fn();
+const mockRunFindMany = jest.fn();
+const mockRunFindFirst = jest.fn();
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    syncRun: {
+      create: (...args: unknown[]) => mockRunCreate(...args),
+      update: (...args: unknown[]) => mockRunUpdate(...args),
+      findMany: (...args: unknown[]) => mockRunFindMany(...args),
+      findFirst: (...args: unknown[]) => mockRunFindFirst(...args),
+    },
+  },
+}));
+
+const mockSyncData = jest.fn();
+jest.mock("@/lib/syncData", () => ({
+  getTargetDates: () => ["2026-03-01", "2026-03-02"],
+  syncData: (...args: unknown[]) => mockSyncData(...args),
+}));
+
+import type { SyncRun } from "@prisma/client";
+import { getSyncStatus, syncDataWithRun, syncRunStatus } from "@/lib/syncRuns";
+
+const run = (values: Partial<SyncRun> = {}): SyncRun => ({
+  id: "run-1",
+  ownerId: "default",
+  trigger: "cron",
+  status: "succeeded",
+  fromDate: "2026-03-01",
+  toDate: "2026-03-02",
+  batchId: null,
+  askenCount: 2,
+  strongCount: 0,
+  healthCount: 2,
+  dayCount: 100,
+  errors: [],
+  startedAt: new Date("2026-03-02T00:00:00Z"),
+  finishedAt: new Date("2026-03-02T00:01:00Z"),
+  durationMs: 60000,
+  ...values,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockRunCreate.mockResolvedValue(run({ status: "running", finishedAt: null, durationMs: null }));
+  mockRunUpdate.mockResolvedValue({});
+});
+
+describe("syncRunStatus", () => {
+  it("エラーが無ければ succeeded、保存できた日があれば partial、無ければ failed", () => {
+    expect(syncRunStatus({ askenCount: 0, strongCount: 0, healthCount: 0, errors: [] })).toBe("succeeded");
+    expect(syncRunStatus({ askenCount: 0, strongCount: 0, healthCount: 1, errors: ["Asken: timeout"] })).toBe("partial");
+    expect(syncRunStatus({ askenCount: 0, strongCount: 0, healthCount: 0, errors: ["Asken: timeout"] })).toBe("failed");
+  });
+});
+
+describe("syncDataWithRun", () => {
+  it("trigger・期間を記録してから同期し、healthCount を含む結果と所要時間を入れる", async () => {
+    const result = { askenCount: 2, strongCount: 1, healthCount: 2, dayCount: 120, errors: [] };
+    mockSyncData.mockResolvedValueOnce(result);
+
+    await expect(syncDataWithRun("session-guard", { from: "2026-03-01", to: "2026-03-02" })).resolves.toBe(result);
+
+    expect(mockRunCreate).toHaveBeenCalledWith({
+      data: { ownerId: "default", trigger: "session-guard", fromDate: "2026-03-01", toDate: "2026-03-02" },
+    });
+    expect(mockRunUpdate).toHaveBeenCalledWith({
+      where: { id: "run-1" },
+      data: expect.objectContaining({
+        status: "succeeded",
+        healthCount: 2,
+        dayCount: 120,
+        errors: [],
+        finishedAt: expect.any(Date),
+        durationMs: expect.any(Number),
+      }),
+    });
+  });
+
+  it("例外は failed として記録してから投げ直す", async () => {
+    mockSyncData.mockRejectedValueOnce(new Error("DB down"));
+
+    await expect(syncDataWithRun("cron")).rejects.toThrow("DB down");
+    expect(mockRunUpdate).toHaveBeenCalledWith({
+      where: { id: "run-1" },
+      data: expect.objectContaining({ status: "failed", errors: ["Error: DB down"] }),
+    });
+  });
+
+  it("履歴の保存に失敗しても同期は行う", async () => {
+    mockRunCreate.mockRejectedValueOnce(new Error("no table"));
+    mockSyncData.mockResolvedValueOnce({ askenCount: 0, strongCount: 0, healthCount: 0, dayCount: 0, errors: [] });
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await syncDataWithRun("manual");
+
+    expect(mockSyncData).toHaveBeenCalled();
+    expect(mockRunUpdate).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe("getSyncStatus", () => {
+  it("最新の終わった実行・連続エラー回数・最終成功時刻と、次のページの cursor を返す", async () => {
+    const history = [
+      run({ id: "r4", status: "running", finishedAt: null }),
+      run({ id: "r3", status: "failed", errors: ["Asken: session expired"] }),
+      run({ id: "r2", status: "partial" }),
+    ];
+    const finished = [
+      run({ id: "r3", status: "failed", errors: ["Asken: session expired"] }),
+      run({ id: "r2", status: "partial" }),
+      run({ id: "r1", status: "succeeded" }),
+    ];
+    mockRunFindMany.mockResolvedValueOnce(history).mockResolvedValueOnce(finished);
+    mockRunFindFirst.mockResolvedValueOnce({ finishedAt: new Date("2026-03-01T00:00:00Z") });
+
+    const status = await getSyncStatus("default", { limit: 2 });
+
+    expect(mockRunFindMany).toHaveBeenNthCalledWith(1, expect.objectContaining({ where: { ownerId: "default" }, take: 3 }));
+    expect(mockRunFindMany).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ where: { ownerId: "default", status: { not: "running" } } })
+    );
+    expect(status.lastRun?.id).toBe("r3");
+    expect(status.lastRun?.errors).toEqual(["Asken: session expired"]);
+    expect(status.failureStreak).toBe(2);
+    expect(status.lastSuccessAt).toEqual(new Date("2026-03-01T00:00:00Z"));
+    expect(status.runs.map((r) => r.id)).toEqual(["r4", "r3"]);
+    expect(status.nextCursor).toBe("r3");
+  });
+
+  it("cursor 以降を取得し、最後のページは nextCursor が null", async () => {
+    mockRunFindMany.mockResolvedValueOnce([run({ id: "r1" })]).mockResolvedValueOnce([]);
+    mockRunFindFirst.mockResolvedValueOnce(null);
+
+    const status = await getSyncStatus("default", { cursor: "r2" });
+
+    expect(mockRunFindMany).toHaveBeenNthCalledWith(1, expect.objectContaining({ cursor: { id: "r2" }, skip: 1 }));
+    expect(status).toEqual(expect.objectContaining({ lastRun: null, failureStreak: 0, lastSuccessAt: null, nextCursor: null }));
+  });
+});
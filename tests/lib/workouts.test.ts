@@ -0,0 +1,151 @@
+/**
+ * Tests for src/lib/workouts.ts
+ * Prisma をモックし、Workout / ExerciseSet の保存形式と strongData の導出を検証
+ */
+
+type Row = Record<string, unknown> & { sets: Record<string, unknown>[] };
+
+const stored: Row[] = [];
+const mockDailyUpsert = jest.fn().mockResolvedValue({});
+const mockDeleteMany = jest.fn(async () => {
+  stored.length = 0;
+  return { count: 0 };
+});
+const mockCreate = jest.fn(async ({ data }: { data: Record<string, unknown> & { sets: { create: Record<string, unknown>[] } } }) => {
+  const { sets, ...rest } = data;
+  const row = { id: `w${stored.length}`, ...rest, sets: sets.create.map((s, i) => ({ id: `s${i}`, ...s })) };
+  stored.push(row);
+  return row;
+});
+
+jest.mock("@/lib/prisma", () => {
+  const tx = {
+    workout: {
+      deleteMany: (...args: unknown[]) => mockDeleteMany(...(args as [])),
+      create: (args: never) => mockCreate(args),
+      findMany: async () => stored,
+    },
+    dailyData: { upsert: (...args: unknown[]) => mockDailyUpsert(...args) },
+  };
+  return { prisma: { $transaction: (fn: (t: typeof tx) => unknown) => fn(tx) } };
+});
+
+import { buildStrongData, parseStrongCsv, parseTxtContent } from "@/lib/sources/strong";
+import { replaceWorkoutsForDay, saveWorkoutsByDate } from "@/lib/workouts";
+import { syncSource } from "@/lib/syncData";
+import type { RegisteredSource } from "@/lib/sources";
+
+const CSV = [
+  "Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE",
+  "2026-03-01 07:30:00,Push,45m,Bench Press,W,40,10,0,0,,,",
+  "2026-03-01 07:30:00,Push,45m,Bench Press,1,60,8,0,0,,,8",
+  "2026-03-01 07:30:00,Push,45m,Dips,1,0,12,0,0,bodyweight,,",
+].join("\n");
+
+const TXT = "Evening\n2026年3月1日 19:00\nスクワット\nセット 1: 80 kg × 5\nセット 2: 80 kg × 5\nプランク\nセット 1: 1:00";
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  stored.length = 0;
+});
+
+describe("replaceWorkoutsForDay", () => {
+  it("その日のワークアウトを削除してからセット単位で作り直す", async () => {
+    const workouts = [...parseStrongCsv(CSV).workouts, parseTxtContent(TXT)!];
+    await replaceWorkoutsForDay("user-1", "2026-03-01", workouts);
+
+    expect(mockDeleteMany).toHaveBeenCalledWith({ where: { ownerId: "user-1", date: "2026-03-01" } });
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    const [push, evening] = stored;
+    expect(push).toMatchObject({ position: 0, title: "Push", format: "csv", startedAt: "2026-03-01 07:30:00", durationSec: 2700 });
+    expect(push.sets.map((s) => [s.exerciseName, s.setOrder, s.setType, s.weightKg, s.reps, s.rpe])).toEqual([
+      ["Bench Press", 1, "warmup", 40, 10, null],
+      ["Bench Press", 2, "normal", 60, 8, 8],
+      ["Dips", 1, "normal", 0, 12, null],
+    ]);
+    expect(evening).toMatchObject({ position: 1, title: "Evening", format: "text", startedAt: null });
+    // 共有テキストは種目内の出現順をセット番号にする
+    expect(evening.sets.map((s) => [s.exerciseName, s.setOrder])).toEqual([
+      ["スクワット", 1],
+      ["スクワット", 2],
+      ["プランク", 1],
+    ]);
+  });
+
+  it("strongData は保存した行から導出し、パース結果から直接作ったものと一致する", async () => {
+    const workouts = [...parseStrongCsv(CSV).workouts, parseTxtContent(TXT)!];
+    const derived = await replaceWorkoutsForDay("user-1", "2026-03-01", workouts);
+
+    expect(derived).toEqual(buildStrongData(workouts).get("2026-03-01"));
+    expect(mockDailyUpsert).toHaveBeenCalledWith({
+      where: { ownerId_date: { ownerId: "user-1", date: "2026-03-01" } },
+      update: { strongData: derived },
+      create: { ownerId: "user-1", date: "2026-03-01", strongData: derived },
+    });
+  });
+});
+
+describe("replaceWorkoutsForDay (merge)", () => {
+  it("共有テキストを重ねても、同じ名前の CSV ワークアウトのセット詳細は残す", async () => {
+    await replaceWorkoutsForDay("user-1", "2026-03-01", parseStrongCsv(CSV).workouts);
+    const pushText = "Push\n2026年3月1日 7:30\nBench Press\nセット 1: 60 kg × 8";
+    await replaceWorkoutsForDay("user-1", "2026-03-01", [parseTxtContent(pushText)!, parseTxtContent(TXT)!], { merge: true });
+
+    expect(stored.map((w) => [w.title, w.format])).toEqual([
+      ["Push", "csv"],
+      ["Evening", "text"],
+    ]);
+    expect(stored[0].sets.map((s) => s.setType)).toEqual(["warmup", "normal", "normal"]);
+  });
+
+  it("同じワークアウトはアップロードしたもので置き換える", async () => {
+    await replaceWorkoutsForDay("user-1", "2026-03-01", [parseTxtContent(TXT)!]);
+    const edited = TXT.replace("セット 2: 80 kg × 5", "セット 2: 85 kg × 5");
+    await replaceWorkoutsForDay("user-1", "2026-03-01", [parseTxtContent(edited)!], { merge: true });
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0].sets.map((s) => s.weightKg)).toEqual([80, 85, 0]);
+  });
+});
+
+describe("syncSource (training)", () => {
+  it("CSV でアップロードしたワークアウトは、後の同期で同じ日を取得しても残る", async () => {
+    await replaceWorkoutsForDay("user-1", "2026-03-01", parseStrongCsv(CSV).workouts, { merge: true });
+    const strong = {
+      id: "strong",
+      kind: "training",
+      source: {
+        fetchForDateRange: async () => ({
+          data: new Map(),
+          workouts: new Map([["2026-03-01", [parseTxtContent(TXT)!]]]),
+          errors: [],
+        }),
+      },
+    } as unknown as RegisteredSource;
+
+    const result = await syncSource("user-1", strong, ["2026-03-01"]);
+
+    expect(result.errors).toEqual([]);
+    expect(stored.map((w) => [w.title, w.format])).toEqual([
+      ["Push", "csv"],
+      ["Evening", "text"],
+    ]);
+    expect(stored[0].sets.map((s) => s.rpe)).toEqual([null, 8, null]);
+  });
+});
+
+describe("saveWorkoutsByDate", () => {
+  it("失敗した日は failures に積んで残りを続ける", async () => {
+    mockDailyUpsert.mockRejectedValueOnce(new Error("db down"));
+    const { savedDays, failures } = await saveWorkoutsByDate(
+      "default",
+      new Map([
+        ["2026-03-01", parseStrongCsv(CSV).workouts],
+        ["2026-03-02", [{ ...parseTxtContent(TXT)!, date: "2026-03-02" }]],
+      ])
+    );
+    expect(savedDays).toBe(1);
+    expect(failures).toHaveLength(1);
+    expect(failures[0].date).toBe("2026-03-01");
+  });
+});